@@ -1,11 +1,55 @@
 import { useEffect, useState } from "react";
 import { usePasswordGenerator } from "./hooks/usePasswordGenerator";
+import { useBulkGenerator } from "./hooks/useBulkGenerator";
+import { usePasswordHistory } from "./hooks/usePasswordHistory";
+import { usePresets } from "./hooks/usePresets";
+import { useUrlState } from "./hooks/useUrlState";
+import { usePasswordChecker } from "./hooks/usePasswordChecker";
+import { useBreachCheck, useBreachList } from "./hooks/useBreachCheck";
+import { useClipboard } from "./hooks/useClipboard";
+import { useKeyboardShortcuts, useShortcutBindings } from "./hooks/useShortcuts";
+import { useServiceWorker } from "./hooks/useServiceWorker";
+import { useTheme } from "./hooks/useTheme";
+import { useMotion } from "./hooks/useMotion";
+import { useI18n } from "./hooks/useI18n";
 import {
   PasswordDisplay,
   PasswordOptions,
   StrengthIndicator,
   GenerateButton,
+  BulkGenerator,
+  PasswordHistory,
+  PresetSelector,
+  PasswordChecker,
+  BreachListSelector,
+  CommandPalette,
+  ShortcutHelp,
+  UpdatePrompt,
+  ThemeSelector,
+  MotionSelector,
+  LanguageSelector,
 } from "./components";
+import {
+  calculateGeneratedStrength,
+  canGeneratePassword,
+  stepLength,
+} from "./utils/passwordUtils";
+import { replaceUrlState } from "./utils/urlState";
+import {
+  loadClipboardClearSeconds,
+  storeClipboardClearSeconds,
+} from "./utils/clipboardUtils";
+import { SHORTCUTS } from "./utils/shortcutUtils";
+import { AppDialog, AppTab, Preset, ShortcutAction } from "./types";
+import { MessageKey } from "./locales";
+
+/**
+ * Tabs shown above the main card
+ */
+const APP_TABS: { value: AppTab; label: MessageKey }[] = [
+  { value: "generator", label: "app.tab.generator" },
+  { value: "checker", label: "app.tab.checker" },
+];
 
 /**
  * Main App Component
@@ -16,25 +60,92 @@ import {
  * - Manages password generation state using custom hook
  * - Coordinates all child components
  * - Generates initial password on mount
- * - Handles option changes and password regeneration
+ * - Hosts bulk generation with the same options
+ * - Records explicitly generated passwords in the session history
+ * - Starts from and switches between saved presets
+ * - Reads options from a shared link and keeps the URL in sync
+ * - Checker tab for analyzing any password with the same scorer
+ * - Offline breach check for generated and checked passwords
+ * - Clipboard auto-clear delay shared by every copy button
+ * - Rebindable keyboard shortcuts and a command palette (Ctrl/Cmd+K)
+ * - Works offline once installed, with a prompt when an update is ready
+ * - Dark, light and high-contrast themes with a choice of accent colour
+ * - Animations that follow the OS reduced-motion setting or an in-app choice
+ * - Interface in English, German, Japanese, Arabic and Hebrew, with right-to-left layout
+ * - Handles option changes and password regeneration, showing generation errors
  */
 function App() {
-  const [isLoaded, setIsLoaded] = useState(false);
+  const motion = useMotion();
+  const { t } = useI18n();
+  const [isLoaded, setIsLoaded] = useState(motion.reduceMotion);
+  const [activeTab, setActiveTab] = useState<AppTab>("generator");
+  const [openDialog, setOpenDialog] = useState<AppDialog | null>(null);
+
+  // Seconds before copied passwords are cleared from the clipboard (0 for off)
+  const [clipboardClearSeconds, setClipboardClearSeconds] = useState(
+    loadClipboardClearSeconds
+  );
+
+  // Clipboard for the generated password (shared by the copy button and shortcut)
+  const clipboard = useClipboard(clipboardClearSeconds);
+
+  // User's keyboard shortcut bindings
+  const shortcuts = useShortcutBindings();
+
+  // Offline support and update prompt
+  const serviceWorker = useServiceWorker();
+
+  // Colour theme and accent (follows the OS unless the user picks one)
+  const theme = useTheme();
+
+  // Saved presets (loaded synchronously so the generator starts from the selected one)
+  const presets = usePresets();
+
+  // Breach list used for warnings and automatic regeneration
+  const breachList = useBreachList();
+
+  // Options from a shared link take precedence over the remembered preset
+  const { initialOptions } = useUrlState(presets.presets, presets.selectPreset);
 
   // Use custom hook to manage all password-related state and logic
   const {
     password, // Current generated password
     options, // Current password options
     strength, // Current password strength
+    generatedOptions, // Options the current password was generated with
+    error: generateError, // Error from the last generation attempt
     setOptions, // Function to update options
     generateNewPassword, // Function to generate new password
-  } = usePasswordGenerator();
+  } = usePasswordGenerator(
+    initialOptions ?? presets.activePreset?.options,
+    breachList.provider
+  );
+
+  // Keep the shareable URL in sync with the options (never the password)
+  useEffect(() => {
+    replaceUrlState(options, presets.activePreset);
+  }, [options, presets.activePreset]);
+
+  // Checker mode analyzes a password the user enters
+  const checker = usePasswordChecker();
+
+  // Breach status of the password shown in the active tab
+  const { breachCount } = useBreachCheck(
+    activeTab === "generator" ? password : checker.password,
+    breachList.provider
+  );
+
+  // Bulk generation shares the same options as the single password
+  const bulk = useBulkGenerator(options, breachList.provider);
+
+  // Session history of generated passwords
+  const history = usePasswordHistory();
 
   // Trigger entrance animations after initial render
+  const { schedule } = motion;
   useEffect(() => {
-    const timer = setTimeout(() => setIsLoaded(true), 100);
-    return () => clearTimeout(timer);
-  }, []);
+    schedule(() => setIsLoaded(true), 100);
+  }, [schedule]);
 
   /**
    * Effect hook that runs when component mounts
@@ -45,29 +156,21 @@ function App() {
   }, [generateNewPassword]);
 
   /**
-   * Keyboard shortcut handler
-   * Ctrl+G or Cmd+G to generate new password
+   * Handles an explicit request for a new password (Generate button, shortcut
+   * or command palette) and records the result in the history
+   * Regenerations caused by option changes aren't recorded, so dragging the
+   * slider doesn't fill the history.
    */
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if ((event.ctrlKey || event.metaKey) && event.key === "g") {
-        event.preventDefault();
-        if (
-          options.uppercase ||
-          options.lowercase ||
-          options.numbers ||
-          options.symbols
-        ) {
-          generateNewPassword();
-        }
-      }
-    };
-
-    window.addEventListener("keydown", handleKeyDown);
-    return () => {
-      window.removeEventListener("keydown", handleKeyDown);
-    };
-  }, [generateNewPassword, options]);
+  const handleGenerate = async () => {
+    const newPassword = await generateNewPassword();
+    if (newPassword) {
+      history.addEntry(
+        newPassword,
+        options,
+        calculateGeneratedStrength(newPassword, options)
+      );
+    }
+  };
 
   /**
    * Handles option changes from PasswordOptions component
@@ -89,48 +192,340 @@ function App() {
     }
   };
 
+  /**
+   * Handles changes to the clipboard auto-clear delay
+   *
+   * @param seconds - The new delay (0 for off)
+   */
+  const handleClipboardClearChange = (seconds: number) => {
+    setClipboardClearSeconds(seconds);
+    storeClipboardClearSeconds(seconds);
+  };
+
+  /**
+   * Handles preset selection from PresetSelector component
+   * Applies the preset's options and regenerates the password
+   *
+   * @param preset - The chosen preset, or null for custom options
+   */
+  const handlePresetSelect = (preset: Preset | null) => {
+    presets.selectPreset(preset?.id ?? null);
+    if (preset) {
+      handleOptionsChange(preset.options, true);
+    }
+  };
+
+  /**
+   * Handles stepping the length of the current mode from a shortcut
+   * Like the slider, length changes wait for the Generate button
+   *
+   * @param delta - How much to add (negative to shorten)
+   */
+  const handleLengthStep = (delta: number) => {
+    handleOptionsChange(stepLength(options, delta));
+  };
+
+  /**
+   * Handles toggling a character type from a shortcut
+   * Regenerates immediately, like the checkboxes
+   *
+   * @param key - The character type to toggle
+   */
+  const handleClassToggle = (
+    key: "uppercase" | "lowercase" | "numbers" | "symbols"
+  ) => {
+    handleOptionsChange({ ...options, [key]: !options[key] }, true);
+  };
+
+  /**
+   * Handles switching to the next or previous saved preset
+   * Starts from the first (or last) preset when custom options are active
+   *
+   * @param direction - 1 for the next preset, -1 for the previous one
+   */
+  const handlePresetStep = (direction: 1 | -1) => {
+    const list = presets.presets;
+    if (list.length === 0) return;
+    const currentIndex = list.findIndex(
+      (preset) => preset.id === presets.activePreset?.id
+    );
+    const nextIndex =
+      currentIndex === -1
+        ? direction === 1 ? 0 : list.length - 1
+        : (currentIndex + direction + list.length) % list.length;
+    handlePresetSelect(list[nextIndex]);
+  };
+
+  // Generator actions only apply on the generator tab; character type
+  // toggles only in the modes that show them
+  const isGenerator = activeTab === "generator";
+  const hasCharacterTypes =
+    options.mode === "password" || options.mode === "pronounceable";
+  const shortcutHandlers: Partial<Record<ShortcutAction, () => void>> = {
+    openHelp: () => setOpenDialog("help"),
+    openPalette: () => setOpenDialog("palette"),
+    ...(isGenerator && {
+      generate: () => {
+        if (canGeneratePassword(options)) void handleGenerate();
+      },
+      copy: () => {
+        if (password) void clipboard.copy(password);
+      },
+      lengthUp: () => handleLengthStep(1),
+      lengthDown: () => handleLengthStep(-1),
+      lengthUpFive: () => handleLengthStep(5),
+      lengthDownFive: () => handleLengthStep(-5),
+      nextPreset: () => handlePresetStep(1),
+      previousPreset: () => handlePresetStep(-1),
+    }),
+    ...(isGenerator && hasCharacterTypes && {
+      toggleUppercase: () => handleClassToggle("uppercase"),
+      toggleLowercase: () => handleClassToggle("lowercase"),
+      toggleNumbers: () => handleClassToggle("numbers"),
+      toggleSymbols: () => handleClassToggle("symbols"),
+    }),
+  };
+
+  // Dialogs handle the keyboard themselves while open
+  useKeyboardShortcuts(shortcuts.bindings, shortcutHandlers, openDialog === null);
+
+  /**
+   * Handles running an action chosen in the command palette
+   *
+   * @param action - The chosen action
+   */
+  const handlePaletteRun = (action: ShortcutAction) => {
+    setOpenDialog(null);
+    shortcutHandlers[action]?.();
+  };
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex items-center justify-center p-4 sm:p-6 md:p-8 relative z-10">
+    <div className="min-h-screen bg-gradient-to-br from-page-bg via-app-bg to-page-bg flex items-center justify-center p-4 sm:p-6 md:p-8 relative z-10">
       {/* Main Container */}
       <div className="w-full max-w-[540px] space-y-4 sm:space-y-5 md:space-y-6">
         {/* App Title */}
         <h1 className={`text-text-muted text-center text-xl sm:text-2xl md:text-3xl font-bold transition-all duration-700 transform ${
           isLoaded ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'
         }`}>
-          Password Generator
+          {t("app.title")}
         </h1>
 
+        {/* Tab Switch */}
+        <div
+          className={`grid grid-cols-2 gap-2 bg-app-bg p-1 rounded-lg transition-all duration-700 delay-200 transform ${
+            isLoaded ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'
+          }`}
+          role="tablist"
+          aria-label={t("app.modeTabs")}
+        >
+          {APP_TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              id={`${value}-tab`}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === value}
+              aria-controls={`${value}-panel`}
+              onClick={() => setActiveTab(value)}
+              className={`py-2 text-sm sm:text-base font-bold uppercase tracking-wide rounded transition-all duration-300 touch-manipulation focus:outline-none focus:ring-2 focus:ring-accent ${
+                activeTab === value
+                  ? "bg-accent text-button-text"
+                  : "text-text-muted hover:text-accent"
+              }`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+
         {/* Main Card Container */}
-        <div className={`bg-app-bg rounded-lg overflow-hidden transition-all duration-700 delay-300 transform ${
-          isLoaded ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-8 scale-95'
-        }`}>
-          {/* Password Display Section */}
-          <PasswordDisplay password={password} />
+        <div
+          id={`${activeTab}-panel`}
+          role="tabpanel"
+          aria-labelledby={`${activeTab}-tab`}
+          className={`bg-app-bg rounded-lg overflow-hidden transition-all duration-700 delay-300 transform ${
+            isLoaded ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-8 scale-95'
+          }`}
+        >
+          {activeTab === "generator" ? (
+            <>
+              {/* Password Display Section */}
+              <PasswordDisplay
+                password={password}
+                clipboard={clipboard}
+                clearAfterSeconds={clipboardClearSeconds}
+                onClearAfterChange={handleClipboardClearChange}
+              />
+
+              {/* Preset Section */}
+              <PresetSelector
+                presets={presets.presets}
+                activePreset={presets.activePreset}
+                options={options}
+                error={presets.error}
+                onSelect={handlePresetSelect}
+                onSave={(name) => presets.savePreset(name, options)}
+                onDelete={presets.deletePreset}
+                onImport={presets.importPresets}
+                onExport={presets.exportPresets}
+              />
+
+              {/* Options Section */}
+              <PasswordOptions
+                options={options}
+                onOptionsChange={handleOptionsChange}
+              />
+
+              {/* Strength Indicator Section */}
+              <StrengthIndicator
+                strength={strength}
+                breachCount={breachCount}
+                isPin={generatedOptions.mode === "pin"}
+              />
+
+              {/* Generate Button Section */}
+              <div className="p-4 sm:p-5 md:p-6 pt-0 space-y-3">
+                {/* Error from the last generation attempt */}
+                {generateError && (
+                  <p className="text-danger text-sm" role="alert" aria-live="polite">
+                    {generateError}
+                  </p>
+                )}
+                <GenerateButton
+                  onClick={handleGenerate}
+                  disabled={
+                    // Disable button if no character types are selected
+                    !canGeneratePassword(options)
+                  }
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Checker Section */}
+              <PasswordChecker
+                password={checker.password}
+                analysis={checker.analysis}
+                onPasswordChange={checker.setPassword}
+              />
 
-          {/* Options Section */}
-          <PasswordOptions
-            options={options}
-            onOptionsChange={handleOptionsChange}
+              {/* Strength Indicator Section (same scorer as the generator) */}
+              <StrengthIndicator
+                strength={checker.strength}
+                breachCount={breachCount}
+              />
+            </>
+          )}
+
+          {/* Breach List Section */}
+          <BreachListSelector
+            provider={breachList.provider}
+            error={breachList.error}
+            onLoadFile={breachList.loadFile}
+            onReset={breachList.resetProvider}
           />
+        </div>
+
+        {activeTab === "generator" && (
+          <>
+            {/* Bulk Generation Card */}
+            <div className={`transition-all duration-700 delay-500 transform ${
+              isLoaded ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-8'
+            }`}>
+              <BulkGenerator
+                entries={bulk.entries}
+                count={bulk.count}
+                error={bulk.error}
+                disabled={!canGeneratePassword(options)}
+                clearAfterSeconds={clipboardClearSeconds}
+                onCountChange={bulk.setCount}
+                onGenerate={bulk.generateBatch}
+                onClear={bulk.clearBatch}
+              />
+            </div>
 
-          {/* Strength Indicator Section */}
-          <StrengthIndicator strength={strength} />
-
-          {/* Generate Button Section */}
-          <div className="p-4 sm:p-5 md:p-6 pt-0">
-            <GenerateButton
-              onClick={generateNewPassword}
-              disabled={
-                // Disable button if no character types are selected
-                !options.uppercase &&
-                !options.lowercase &&
-                !options.numbers &&
-                !options.symbols
-              }
-            />
-          </div>
+            {/* Password History Card */}
+            <div className={`transition-all duration-700 delay-500 transform ${
+              isLoaded ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-8'
+            }`}>
+              <PasswordHistory
+                entries={history.entries}
+                isPersistent={history.isPersistent}
+                isLocked={history.isLocked}
+                error={history.error}
+                onClear={history.clearHistory}
+                onEnablePersistence={history.enablePersistence}
+                onDisablePersistence={history.disablePersistence}
+                onUnlock={history.unlock}
+                onLock={history.lock}
+                clearAfterSeconds={clipboardClearSeconds}
+              />
+            </div>
+          </>
+        )}
+
+        {/* Appearance Settings */}
+        <ThemeSelector
+          preference={theme.preference}
+          accent={theme.accent}
+          onPreferenceChange={theme.setPreference}
+          onAccentChange={theme.setAccent}
+        />
+        <div className="flex flex-wrap justify-center gap-4">
+          <MotionSelector
+            preference={motion.preference}
+            onChange={motion.setPreference}
+          />
+          <LanguageSelector />
+        </div>
+
+        {/* Keyboard Shortcuts Link */}
+        <div className="flex justify-center gap-4">
+          <button
+            type="button"
+            onClick={() => setOpenDialog("help")}
+            className="text-text-muted text-xs uppercase hover:text-accent focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {t("app.keyboardShortcuts")}
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpenDialog("palette")}
+            className="text-text-muted text-xs uppercase hover:text-accent focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {t("app.commandPalette")}
+          </button>
         </div>
       </div>
+
+      {/* New Version Prompt */}
+      {serviceWorker.updateAvailable && (
+        <UpdatePrompt
+          onUpdate={serviceWorker.applyUpdate}
+          onDismiss={serviceWorker.dismissUpdate}
+        />
+      )}
+
+      {/* Dialogs */}
+      {openDialog === "palette" && (
+        <CommandPalette
+          actions={SHORTCUTS.filter(
+            ({ action }) => action !== "openPalette" && shortcutHandlers[action]
+          )}
+          bindings={shortcuts.bindings}
+          onRun={handlePaletteRun}
+          onClose={() => setOpenDialog(null)}
+        />
+      )}
+      {openDialog === "help" && (
+        <ShortcutHelp
+          bindings={shortcuts.bindings}
+          error={shortcuts.error}
+          onChange={shortcuts.setBinding}
+          onReset={shortcuts.resetBindings}
+          onClose={() => setOpenDialog(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,367 @@
+import {
+  CharacterClass,
+  ExportFormat,
+  PasswordOptions,
+  PositionRule,
+  Preset,
+} from "../types";
+import {
+  DEFAULT_PASSWORD_OPTIONS,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+} from "../utils/passwordUtils";
+import { POSITION_RULE_LABELS } from "../utils/passwordPolicy";
+import { BUILT_IN_PRESETS, parsePresetFile } from "../utils/presetUtils";
+
+/**
+ * What the CLI was asked to do
+ */
+export type CliCommand = "generate" | "check" | "help" | "version";
+
+/**
+ * Parsed command line
+ */
+export interface CliArgs {
+  command: CliCommand;
+  options: PasswordOptions;
+  count: number;
+  format: ExportFormat;
+  breachFile: string | null; // HIBP "HASH:COUNT" file to check against
+}
+
+/**
+ * Boolean flags: "--symbols" turns an option on, "--no-symbols" turns it off
+ */
+const BOOLEAN_FLAGS = {
+  uppercase: "uppercase",
+  lowercase: "lowercase",
+  numbers: "numbers",
+  symbols: "symbols",
+  "include-number": "includeNumber",
+  "include-symbol": "includeSymbol",
+  "avoid-ambiguous": "avoidAmbiguous",
+  "reject-breached": "rejectBreached",
+} as const;
+
+/**
+ * Checks that a name is one of BOOLEAN_FLAGS' own keys, so "--toString" and
+ * other inherited property names are rejected as unknown flags
+ */
+const isBooleanFlag = (name: string): name is keyof typeof BOOLEAN_FLAGS =>
+  Object.prototype.hasOwnProperty.call(BOOLEAN_FLAGS, name);
+
+/**
+ * Free-text flags mapped to their option
+ */
+const STRING_FLAGS = {
+  separator: "separator",
+  "symbol-chars": "symbolChars",
+  "extra-chars": "extraChars",
+  "exclude-chars": "excludeChars",
+} as const;
+
+const CHARACTER_CLASSES: CharacterClass[] = [
+  "uppercase",
+  "lowercase",
+  "numbers",
+  "symbols",
+  "extra",
+];
+
+const EXPORT_FORMATS: ExportFormat[] = ["text", "json", "csv"];
+
+/**
+ * Flags that take a value ("--length 32" or "--length=32")
+ */
+const VALUE_FLAGS = new Set<string>([
+  "mode",
+  "length",
+  "words",
+  "pin-length",
+  "capitalization",
+  ...Object.keys(STRING_FLAGS),
+  ...CHARACTER_CLASSES.flatMap((key) => [`min-${key}`, `max-${key}`]),
+  "max-run",
+  "first-char",
+  "last-char",
+  "count",
+  "format",
+  "preset",
+  "presets-file",
+  "breach-file",
+]);
+
+/**
+ * Usage text printed by --help
+ */
+export const HELP_TEXT = `Usage: pwgen-app [options]
+       pwgen-app --check [--format text|json|csv] < password.txt
+
+Generates passwords with the same rules as the web app.
+
+Generation:
+  --mode MODE                  password|passphrase|pronounceable|pin
+                               (default: password)
+  --length N                   Password length, ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} (default: ${DEFAULT_PASSWORD_OPTIONS.length})
+  --[no-]uppercase             Include uppercase letters (default: on)
+  --[no-]lowercase             Include lowercase letters (default: on)
+  --[no-]numbers               Include numbers (default: on)
+  --[no-]symbols               Include symbols (default: off)
+  --symbol-chars CHARS         Characters used as symbols
+  --extra-chars CHARS          Extra characters to include
+  --exclude-chars CHARS        Characters that must never appear
+  --[no-]avoid-ambiguous       Leave out look-alike characters (default: off)
+
+Pronounceable mode uses --length and the character type flags: letters form
+consonant/vowel syllables, and --numbers/--symbols insert one digit/symbol.
+
+Passphrases:
+  --words N                    Number of words, 3-10 (default: ${DEFAULT_PASSWORD_OPTIONS.wordCount})
+  --separator S                Text between words (default: "${DEFAULT_PASSWORD_OPTIONS.separator}")
+  --capitalization C           lowercase|uppercase|capitalize|random (default: capitalize)
+  --[no-]include-number        Append a digit to one word (default: on)
+  --[no-]include-symbol        Append a symbol to one word (default: off)
+
+PINs:
+  --pin-length N               Number of digits, 4-12 (default: ${DEFAULT_PASSWORD_OPTIONS.pinLength});
+                               sequences, repeats, palindromes, dates and
+                               common PINs are never generated
+
+Policy (password mode):
+  --min-CLASS N, --max-CLASS N Count limits per class; CLASS is one of
+                               ${CHARACTER_CLASSES.join(", ")} ("none" removes a max)
+  --max-run N                  Most identical characters in a row ("none" for
+                               no limit)
+  --first-char R, --last-char R  any|letter|alphanumeric
+
+Breaches:
+  --[no-]reject-breached       Regenerate passwords found in the breach list
+  --breach-file PATH           Check against a HIBP "HASH:COUNT" file instead
+                               of the built-in common-password list
+
+Output:
+  --preset ID                  Start from a preset (${BUILT_IN_PRESETS.map(({ id }) => id).join(", ")})
+  --presets-file PATH          Also allow presets from an exported presets file
+  --count N                    Number of unique passwords (default: 1)
+  --format text|json|csv       Output format (default: text)
+
+Other:
+  --check                      Score a password read from stdin
+  -h, --help                   Show this help
+  -V, --version                Show the version
+
+Exit codes:
+  0  Success
+  1  Unexpected error
+  2  Invalid usage (unknown flag, malformed value, unreadable file)
+  3  Invalid option combination (e.g. no character types selected)
+`;
+
+/**
+ * Parses a whole-number flag value
+ *
+ * @param flag - Flag name (for error messages)
+ * @param value - The raw value
+ * @throws Error if the value isn't a whole number
+ */
+const parseInteger = (flag: string, value: string): number => {
+  if (!/^-?\d+$/.test(value)) {
+    throw new Error(`--${flag} expects a whole number, got "${value}"`);
+  }
+  return parseInt(value, 10);
+};
+
+/**
+ * Parses a flag value that must be one of a fixed set
+ *
+ * @throws Error if the value isn't allowed
+ */
+const parseChoice = <T extends string>(
+  flag: string,
+  value: string,
+  allowed: readonly T[]
+): T => {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`--${flag} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+};
+
+/**
+ * Splits argv into flags and values
+ * Supports "--flag", "--no-flag", "--flag value" and "--flag=value"
+ *
+ * @throws Error for unknown flags, missing values or stray arguments
+ */
+const tokenize = (argv: string[]) => {
+  const flags: { name: string; value: string | null }[] = [];
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === "-h") {
+      flags.push({ name: "help", value: null });
+      continue;
+    }
+    if (arg === "-V") {
+      flags.push({ name: "version", value: null });
+      continue;
+    }
+    if (arg === "check") {
+      flags.push({ name: "check", value: null });
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (VALUE_FLAGS.has(name)) {
+      const value = inlineValue ?? argv[++index];
+      if (value === undefined) throw new Error(`--${name} expects a value`);
+      flags.push({ name, value });
+      continue;
+    }
+
+    const isKnownSwitch =
+      isBooleanFlag(name) ||
+      (name.startsWith("no-") && isBooleanFlag(name.slice(3))) ||
+      ["check", "help", "version"].includes(name);
+    if (!isKnownSwitch) throw new Error(`Unknown flag --${name}`);
+    if (inlineValue !== undefined) throw new Error(`--${name} doesn't take a value`);
+    flags.push({ name, value: null });
+  }
+
+  return flags;
+};
+
+/**
+ * Parses the command line into a command, options and output settings
+ *
+ * Options start from --preset (if given, wherever it appears) or the app's
+ * defaults; every other flag then overrides one field, in order.
+ *
+ * @param argv - Arguments after the executable and script
+ * @param readFile - Reads a file as UTF-8 (injected so parsing stays testable)
+ * @returns The parsed command line
+ * @throws Error describing the first usage problem found
+ */
+export const parseArgs = (
+  argv: string[],
+  readFile: (path: string) => string
+): CliArgs => {
+  const flags = tokenize(argv);
+  const valueOf = (name: string) =>
+    flags.filter((flag) => flag.name === name).pop()?.value ?? null;
+
+  // Resolve the starting preset first so flags can override it
+  const presets: Preset[] = [...BUILT_IN_PRESETS];
+  const presetsFile = valueOf("presets-file");
+  if (presetsFile) {
+    try {
+      presets.push(...parsePresetFile(JSON.parse(readFile(presetsFile))));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load presets from ${presetsFile}: ${reason}`);
+    }
+  }
+  const presetId = valueOf("preset");
+  const preset = presetId ? presets.find(({ id }) => id === presetId) : null;
+  if (presetId && !preset) {
+    throw new Error(
+      `Unknown preset "${presetId}" (available: ${presets.map(({ id }) => id).join(", ")})`
+    );
+  }
+
+  const options: PasswordOptions = { ...(preset?.options ?? DEFAULT_PASSWORD_OPTIONS) };
+  const policy = { ...options.policy, classRules: { ...options.policy.classRules } };
+  const args: CliArgs = {
+    command: "generate",
+    options,
+    count: 1,
+    format: "text",
+    breachFile: null,
+  };
+  const positionRules = Object.keys(POSITION_RULE_LABELS) as PositionRule[];
+
+  for (const { name, value } of flags) {
+    if (value === null) {
+      if (name === "help" || name === "version" || name === "check") {
+        // Help and version win over everything else
+        if (args.command !== "help" && args.command !== "version") {
+          args.command = name;
+        }
+      } else if (name.startsWith("no-")) {
+        options[BOOLEAN_FLAGS[name.slice(3) as keyof typeof BOOLEAN_FLAGS]] = false;
+      } else {
+        options[BOOLEAN_FLAGS[name as keyof typeof BOOLEAN_FLAGS]] = true;
+      }
+      continue;
+    }
+
+    const classMatch = /^(min|max)-(.+)$/.exec(name);
+    if (classMatch && name !== "max-run") {
+      const [, bound, key] = classMatch;
+      const characterClass = key as CharacterClass;
+      policy.classRules[characterClass] = {
+        ...policy.classRules[characterClass],
+        [bound]: bound === "max" && value === "none" ? null : parseInteger(name, value),
+      };
+      continue;
+    }
+
+    switch (name) {
+      case "mode":
+        options.mode = parseChoice(name, value, [
+          "password",
+          "passphrase",
+          "pronounceable",
+          "pin",
+        ]);
+        break;
+      case "length":
+        options.length = parseInteger(name, value);
+        break;
+      case "words":
+        options.wordCount = parseInteger(name, value);
+        break;
+      case "pin-length":
+        options.pinLength = parseInteger(name, value);
+        break;
+      case "capitalization":
+        options.capitalization = parseChoice(name, value, [
+          "lowercase",
+          "uppercase",
+          "capitalize",
+          "random",
+        ]);
+        break;
+      case "max-run":
+        policy.maxRunLength = value === "none" ? null : parseInteger(name, value);
+        break;
+      case "first-char":
+        policy.firstChar = parseChoice(name, value, positionRules);
+        break;
+      case "last-char":
+        policy.lastChar = parseChoice(name, value, positionRules);
+        break;
+      case "count":
+        args.count = parseInteger(name, value);
+        break;
+      case "format":
+        args.format = parseChoice(name, value, EXPORT_FORMATS);
+        break;
+      case "breach-file":
+        args.breachFile = value;
+        break;
+      case "preset":
+      case "presets-file":
+        // Already applied above
+        break;
+      default:
+        options[STRING_FLAGS[name as keyof typeof STRING_FLAGS]] = value;
+    }
+  }
+
+  options.policy = policy;
+  return args;
+};
@@ -0,0 +1,187 @@
+import { readFileSync } from "node:fs";
+import process from "node:process";
+import { version } from "../../package.json";
+import { BreachRangeProvider, BulkPasswordEntry, ExportFormat } from "../types";
+import { calculatePasswordStrength, getStrengthLabel } from "../utils/passwordUtils";
+import { analyzePassword, PATTERN_KIND_LABELS } from "../utils/passwordAnalysis";
+import {
+  bundledRangeProvider,
+  checkPasswordBreach,
+  createFileRangeProvider,
+  generateUnbreachedBulkPasswords,
+} from "../utils/breachCheck";
+import { formatBulkExport } from "../utils/exportUtils";
+import { formatEnglishMessage } from "../utils/messageFormat";
+import { CliArgs, HELP_TEXT, parseArgs } from "./args";
+
+/**
+ * Process exit codes (also listed in HELP_TEXT)
+ */
+const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  invalidOptions: 3,
+} as const;
+
+/**
+ * Prints an error message to stderr
+ *
+ * @param error - The caught error
+ */
+const printError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`pwgen-app: ${message}\n`);
+};
+
+/**
+ * Reads all of stdin as text
+ */
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+/**
+ * Formats the result of --check
+ *
+ * @param password - The checked password
+ * @param breachCount - Times seen in breaches
+ * @param format - Output format
+ */
+const formatCheckResult = (
+  password: string,
+  breachCount: number,
+  format: ExportFormat
+): string => {
+  const analysis = analyzePassword(password);
+  const strength = calculatePasswordStrength(password);
+  const classes = Object.entries(analysis.classCounts)
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => `${key} ${count}`);
+
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        {
+          strength: getStrengthLabel(strength),
+          level: strength.level,
+          entropyBits: Number(strength.bits.toFixed(1)),
+          bruteForceBits: Number(analysis.charsetBits.toFixed(1)),
+          length: analysis.length,
+          classes: analysis.classCounts,
+          patterns: analysis.patterns.map(({ kind, token, description }) => ({
+            kind,
+            token,
+            description: formatEnglishMessage(description),
+          })),
+          breachCount,
+        },
+        null,
+        2
+      );
+    case "csv":
+      return [
+        "strength,entropy_bits,length,patterns,breach_count",
+        [
+          `"${getStrengthLabel(strength)}"`,
+          strength.bits.toFixed(1),
+          analysis.length,
+          `"${analysis.patterns.map(({ kind }) => kind).join(" ")}"`,
+          breachCount,
+        ].join(","),
+      ].join("\r\n");
+    default:
+      return [
+        `Strength: ${getStrengthLabel(strength)} (${strength.bits.toFixed(1)} bits)`,
+        `Length: ${analysis.length}`,
+        `Classes: ${classes.join(", ") || "none"}`,
+        analysis.patterns.length > 0
+          ? [
+              "Patterns:",
+              ...analysis.patterns.map(
+                ({ kind, description }) =>
+                  `  - ${PATTERN_KIND_LABELS[kind]}: ${formatEnglishMessage(description)}`
+              ),
+            ].join("\n")
+          : "Patterns: none found",
+        breachCount > 0
+          ? `Breaches: found${breachCount > 1 ? ` (${breachCount} times)` : ""}`
+          : "Breaches: not found",
+      ].join("\n");
+  }
+};
+
+/**
+ * Runs the CLI
+ *
+ * @param argv - Arguments after the executable and script
+ * @returns The process exit code
+ */
+const main = async (argv: string[]): Promise<number> => {
+  let args: CliArgs;
+  let provider: BreachRangeProvider = bundledRangeProvider;
+  try {
+    args = parseArgs(argv, (path) => readFileSync(path, "utf8"));
+    if (args.breachFile) {
+      provider = createFileRangeProvider(
+        args.breachFile,
+        readFileSync(args.breachFile, "utf8")
+      );
+    }
+  } catch (error) {
+    printError(error);
+    process.stderr.write("Run pwgen-app --help for usage.\n");
+    return EXIT_CODES.usage;
+  }
+
+  switch (args.command) {
+    case "help":
+      process.stdout.write(HELP_TEXT);
+      return EXIT_CODES.success;
+    case "version":
+      process.stdout.write(`${version}\n`);
+      return EXIT_CODES.success;
+    case "check": {
+      if (process.stdin.isTTY) {
+        printError("--check reads the password from stdin (e.g. pwgen-app --check < file)");
+        return EXIT_CODES.usage;
+      }
+      // Drop the newline that echo and most files end with
+      const password = (await readStdin()).replace(/\r?\n$/, "");
+      if (!password) {
+        printError("No password received on stdin");
+        return EXIT_CODES.usage;
+      }
+      const breachCount = await checkPasswordBreach(password, provider);
+      process.stdout.write(`${formatCheckResult(password, breachCount, args.format)}\n`);
+      return EXIT_CODES.success;
+    }
+    default: {
+      let entries: BulkPasswordEntry[];
+      try {
+        // Same path as the web app's bulk generator: with --reject-breached,
+        // breached passwords are replaced without repeating one in the batch
+        entries = await generateUnbreachedBulkPasswords(args.options, args.count, provider);
+      } catch (error) {
+        // Same errors the web app shows (e.g. "No character types selected")
+        printError(error);
+        return EXIT_CODES.invalidOptions;
+      }
+      process.stdout.write(`${formatBulkExport(entries, args.format)}\n`);
+      return EXIT_CODES.success;
+    }
+  }
+};
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    printError(error);
+    process.exitCode = EXIT_CODES.error;
+  });
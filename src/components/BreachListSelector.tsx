@@ -0,0 +1,88 @@
+import { useRef } from "react";
+import { BreachRangeProvider } from "../types";
+import { bundledRangeProvider } from "../utils/breachCheck";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for BreachListSelector component
+ */
+interface BreachListSelectorProps {
+  provider: BreachRangeProvider; // Active breach list
+  error: string | null; // Error from the last file load
+  onLoadFile: (file: File) => void; // Callback with a chosen breach file
+  onReset: () => void; // Callback to go back to the bundled list
+}
+
+/**
+ * BreachListSelector Component
+ *
+ * Shows which breach list passwords are checked against and lets the user
+ * load their own (HIBP "HASH:COUNT" format). Checks run entirely offline.
+ */
+export const BreachListSelector = ({
+  provider,
+  error,
+  onLoadFile,
+  onReset,
+}: BreachListSelectorProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
+  const isBundled = provider === bundledRangeProvider;
+
+  /**
+   * Passes the chosen file to onLoadFile and resets the input
+   *
+   * @param event - Change event from the file input
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onLoadFile(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <div className="px-4 sm:px-5 md:px-6 pb-4 sm:pb-5 md:pb-6 space-y-2 text-xs sm:text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <span className="text-text-muted">
+          {t("breach.list")}{" "}
+          <span className="text-text-light break-all">
+            {isBundled ? t("breach.builtIn") : provider.name}
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="text-accent text-xs uppercase hover:text-text-light"
+        >
+          {t("breach.loadFile")}
+        </button>
+        {!isBundled && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="text-accent text-xs uppercase hover:text-text-light"
+          >
+            {t("breach.useBuiltIn")}
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,text/plain"
+          onChange={handleFileChange}
+          className="hidden"
+          aria-label={t("breach.loadFileField")}
+        />
+      </div>
+
+      {/* Error message */}
+      {error && (
+        <p className="text-danger text-sm" role="alert" aria-live="polite">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
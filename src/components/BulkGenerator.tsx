@@ -0,0 +1,195 @@
+import { BulkPasswordEntry, ExportFormat } from "../types";
+import { EXPORT_FORMATS, exportBulkPasswords } from "../utils/exportUtils";
+import { MAX_BULK_COUNT, MIN_BULK_COUNT } from "../utils/passwordUtils";
+import { useClipboard } from "../hooks/useClipboard";
+import { useI18n } from "../hooks/useI18n";
+import { ClipboardStatus } from "./ClipboardStatus";
+
+/**
+ * Props interface for BulkGenerator component
+ */
+interface BulkGeneratorProps {
+  entries: BulkPasswordEntry[]; // Generated passwords
+  count: number; // Number of passwords to generate
+  error: string | null; // Error from the last generation attempt
+  disabled?: boolean; // Whether generation is currently impossible
+  clearAfterSeconds?: number; // Clipboard auto-clear delay (0 for off)
+  onCountChange: (count: number) => void; // Callback when count changes
+  onGenerate: () => void; // Callback to generate a new batch
+  onClear: () => void; // Callback to discard the batch
+}
+
+/**
+ * Text colour for each strength level (matches StrengthIndicator)
+ */
+const STRENGTH_TEXT_COLORS = [
+  "text-danger",
+  "text-warning",
+  "text-warning",
+  "text-accent",
+  "text-accent",
+];
+
+/**
+ * BulkGenerator Component
+ *
+ * Generates many passwords at once with the current options
+ *
+ * Features:
+ * - Batch size input (MIN_BULK_COUNT to MAX_BULK_COUNT)
+ * - Scrollable list with strength label, entropy and per-row copy
+ *   (cleared from the clipboard like the main password)
+ * - Download as CSV, JSON or newline-delimited text
+ */
+export const BulkGenerator = ({
+  entries,
+  count,
+  error,
+  disabled = false,
+  clearAfterSeconds = 0,
+  onCountChange,
+  onGenerate,
+  onClear,
+}: BulkGeneratorProps) => {
+  // Copies rows; copiedKey is the index of the last copied row
+  const clipboard = useClipboard(clearAfterSeconds);
+  const { t, formatNumber } = useI18n();
+
+  /**
+   * Handles changes to the batch size input
+   *
+   * @param event - Change event from the number input
+   */
+  const handleCountChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const newCount = parseInt(event.target.value, 10);
+    if (Number.isNaN(newCount)) return;
+    // Validate count is within bounds
+    onCountChange(Math.max(MIN_BULK_COUNT, Math.min(MAX_BULK_COUNT, newCount)));
+  };
+
+  /**
+   * Copies a single password from the list
+   *
+   * @param password - The password to copy
+   * @param index - Row index (used for the "Copied" feedback)
+   */
+  const handleCopy = async (password: string, index: number) => {
+    await clipboard.copy(password, String(index));
+  };
+
+  return (
+    <div className="bg-app-bg rounded-lg p-4 sm:p-5 md:p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-text-light text-base sm:text-lg font-bold">
+          {t("bulk.title")}
+        </h2>
+        <div className="flex items-center gap-2">
+          <label htmlFor="bulkCount" className="sr-only">
+            {t("bulk.count")}
+          </label>
+          <input
+            id="bulkCount"
+            type="number"
+            min={MIN_BULK_COUNT}
+            max={MAX_BULK_COUNT}
+            value={count}
+            onChange={handleCountChange}
+            className="w-24 bg-dark-bg text-text-light p-2 focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+          <button
+            type="button"
+            onClick={onGenerate}
+            disabled={disabled}
+            className="py-2 px-4 bg-accent text-button-text font-bold text-sm uppercase tracking-wide border-2 border-transparent transition-all duration-300 hover:bg-transparent hover:text-accent hover:border-accent disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-app-bg"
+          >
+            {t("bulk.generate")}
+          </button>
+        </div>
+      </div>
+
+      {/* Error message */}
+      {error && (
+        <p className="text-danger text-sm" role="alert" aria-live="polite">
+          {error}
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <>
+          {/* Generated passwords */}
+          <ul
+            className="max-h-80 overflow-y-auto bg-dark-bg divide-y divide-app-bg"
+            aria-label={t("bulk.list", { count: entries.length })}
+          >
+            {entries.map(({ password, strength }, index) => (
+              <li
+                key={password}
+                className="flex items-center justify-between gap-3 px-3 py-2"
+              >
+                <span className="text-text-light font-mono text-sm break-all">
+                  {password}
+                </span>
+                <span className="flex items-center gap-3 flex-shrink-0 text-xs">
+                  <span className={`uppercase font-bold ${STRENGTH_TEXT_COLORS[strength.level]}`}>
+                    {strength.key && t(`strength.${strength.key}`)}
+                  </span>
+                  <span className="text-text-muted w-16 text-end">
+                    {t("common.bits", {
+                      bits: formatNumber(strength.bits, {
+                        minimumFractionDigits: 1,
+                        maximumFractionDigits: 1,
+                      }),
+                    })}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(password, index)}
+                    className="text-accent uppercase font-bold hover:text-text-light w-14 text-end"
+                    aria-label={t("bulk.copyRow", { index: index + 1 })}
+                  >
+                    {clipboard.copiedKey === String(index)
+                      ? t("common.copied")
+                      : t("common.copy")}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {/* Auto-clear countdown and copy errors */}
+          <ClipboardStatus
+            clearCountdown={clipboard.clearCountdown}
+            error={clipboard.error}
+            hasFallback={clipboard.hasFallback}
+            onClearNow={clipboard.clearNow}
+            onCopyWithoutRevealing={clipboard.copyWithoutRevealing}
+          />
+
+          {/* Export and clear actions */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-text-muted text-sm uppercase me-auto">
+              {t("bulk.download")}
+            </span>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => exportBulkPasswords(entries, format)}
+                className="py-1.5 px-3 border-2 border-accent text-accent text-sm font-bold uppercase transition-all duration-300 hover:bg-accent hover:text-button-text focus:outline-none focus:ring-2 focus:ring-accent"
+              >
+                {t(`bulk.format.${format}`)}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={onClear}
+              className="py-1.5 px-3 text-text-muted text-sm font-bold uppercase hover:text-danger focus:outline-none focus:ring-2 focus:ring-accent"
+            >
+              {t("common.clear")}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for ClipboardStatus component
+ */
+interface ClipboardStatusProps {
+  clearCountdown: number | null; // Seconds until auto-clear (null when nothing is pending)
+  error: string | null; // Last copy/clear error
+  hasFallback: boolean; // Whether a denied copy can be retried without revealing
+  onClearNow: () => void; // Callback to clear the clipboard immediately
+  onCopyWithoutRevealing: () => void; // Callback to retry a denied copy
+}
+
+/**
+ * ClipboardStatus Component
+ *
+ * Shows the state of a useClipboard hook next to a copy button
+ *
+ * Features:
+ * - Countdown until the clipboard is cleared, with a "Clear now" action
+ * - Copy errors, with a "Copy without revealing" retry when access was denied
+ */
+export const ClipboardStatus = ({
+  clearCountdown,
+  error,
+  hasFallback,
+  onClearNow,
+  onCopyWithoutRevealing,
+}: ClipboardStatusProps) => {
+  const { t } = useI18n();
+
+  if (clearCountdown === null && !error) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1 text-xs sm:text-sm">
+      {/* Auto-clear countdown */}
+      {clearCountdown !== null && (
+        <p className="flex flex-wrap items-center gap-2">
+          <span role="timer" className="text-warning">
+            {clearCountdown > 0
+              ? t("clipboard.clearsIn", { count: clearCountdown })
+              : t("clipboard.clearsOnReturn")}
+          </span>
+          <button
+            type="button"
+            onClick={onClearNow}
+            className="text-accent uppercase hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {t("clipboard.clearNow")}
+          </button>
+        </p>
+      )}
+
+      {/* Error message, with a fallback when clipboard access is denied */}
+      {error && (
+        <p
+          className="flex flex-wrap items-center gap-2 text-danger"
+          role="alert"
+          aria-live="polite"
+        >
+          {error}
+          {hasFallback && (
+            <button
+              type="button"
+              onClick={onCopyWithoutRevealing}
+              className="text-accent font-bold uppercase hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+            >
+              {t("clipboard.copyWithoutRevealing")}
+            </button>
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
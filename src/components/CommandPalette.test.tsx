@@ -0,0 +1,80 @@
+/** @vitest-environment jsdom */
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { CommandPalette } from "./CommandPalette";
+import { DEFAULT_SHORTCUT_BINDINGS, SHORTCUTS } from "../utils/shortcutUtils";
+
+/**
+ * Renders the palette with every action available
+ */
+const renderPalette = () => {
+  const onRun = vi.fn();
+  const onClose = vi.fn();
+  const { unmount } = render(
+    <CommandPalette
+      actions={SHORTCUTS}
+      bindings={DEFAULT_SHORTCUT_BINDINGS}
+      onRun={onRun}
+      onClose={onClose}
+    />
+  );
+  return { onRun, onClose, unmount, input: screen.getByRole("combobox") };
+};
+
+describe("CommandPalette", () => {
+  it("focuses the search field and lists every action", () => {
+    const { input } = renderPalette();
+
+    expect(input).toHaveFocus();
+    expect(screen.getAllByRole("option")).toHaveLength(SHORTCUTS.length);
+  });
+
+  it("filters actions with a fuzzy query and runs the top match on Enter", () => {
+    const { input, onRun } = renderPalette();
+
+    fireEvent.change(input, { target: { value: "tgsy" } });
+    expect(screen.getAllByRole("option")[0]).toHaveTextContent("Toggle symbols");
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(onRun).toHaveBeenCalledWith("toggleSymbols");
+  });
+
+  it("moves through the results with the arrow keys", () => {
+    const { input, onRun } = renderPalette();
+
+    fireEvent.keyDown(input, { key: "ArrowDown" });
+    expect(screen.getAllByRole("option")[1]).toHaveAttribute("aria-selected", "true");
+    expect(input).toHaveAttribute("aria-activedescendant", `command-${SHORTCUTS[1].action}`);
+
+    // Wraps around from the first result to the last
+    fireEvent.keyDown(input, { key: "ArrowUp" });
+    fireEvent.keyDown(input, { key: "ArrowUp" });
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(onRun).toHaveBeenCalledWith(SHORTCUTS[SHORTCUTS.length - 1].action);
+  });
+
+  it("shows a message when nothing matches", () => {
+    const { input, onRun } = renderPalette();
+
+    fireEvent.change(input, { target: { value: "zzzz" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(screen.getByRole("status")).toHaveTextContent("No matching commands");
+    expect(onRun).not.toHaveBeenCalled();
+  });
+
+  it("closes on Escape and returns focus", () => {
+    const button = document.createElement("button");
+    document.body.appendChild(button);
+    button.focus();
+
+    const { input, onClose, unmount } = renderPalette();
+    fireEvent.keyDown(input, { key: "Escape" });
+    expect(onClose).toHaveBeenCalled();
+
+    // The parent removes the palette once closed
+    unmount();
+    expect(button).toHaveFocus();
+    button.remove();
+  });
+});
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutDefinition,
+} from "../types";
+import { fuzzySearch } from "../utils/fuzzySearch";
+import { useI18n } from "../hooks/useI18n";
+import { ShortcutKeys } from "./ShortcutKeys";
+
+/**
+ * Props interface for CommandPalette component
+ */
+interface CommandPaletteProps {
+  actions: ShortcutDefinition[]; // Actions that can run right now
+  bindings: ShortcutBindings; // Shortcut shown next to each action
+  onRun: (action: ShortcutAction) => void; // Callback to run the chosen action
+  onClose: () => void; // Callback to close the palette
+}
+
+/**
+ * CommandPalette Component
+ *
+ * Modal search over every available action, opened with Ctrl/Cmd+K
+ *
+ * Features:
+ * - Fuzzy search on translated action names ("tgsy" finds "Toggle symbols")
+ * - Arrow keys move through the results, Enter runs, Escape closes
+ * - Shows each action's current shortcut
+ * - Returns focus to where it was when closed
+ */
+export const CommandPalette = ({
+  actions,
+  bindings,
+  onRun,
+  onClose,
+}: CommandPaletteProps) => {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
+
+  const results = fuzzySearch(
+    actions,
+    query,
+    ({ action, group }) => `${t(`shortcut.${action}`)} ${t(`shortcutGroup.${group}`)}`
+  );
+  const activeAction = results[activeIndex]?.action;
+
+  // Focus the search field on open and restore focus on close
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    inputRef.current?.focus();
+    return () => previousFocus?.focus();
+  }, []);
+
+  /**
+   * Handles typing in the search field
+   *
+   * @param event - Change event from the search input
+   */
+  const handleQueryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(event.target.value);
+    setActiveIndex(0);
+  };
+
+  /**
+   * Handles keyboard navigation inside the palette
+   *
+   * @param event - Keyboard event from the dialog
+   */
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        setActiveIndex((index) => (results.length ? (index + 1) % results.length : 0));
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        setActiveIndex((index) =>
+          results.length ? (index - 1 + results.length) % results.length : 0
+        );
+        break;
+      case "Enter":
+        event.preventDefault();
+        if (activeAction) onRun(activeAction);
+        break;
+      case "Escape":
+        event.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-page-bg/80 p-4 pt-[15vh]"
+      onMouseDown={(event) => {
+        // Clicking the backdrop closes the palette
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("palette.title")}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-md bg-app-bg shadow-xl"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={handleQueryChange}
+          placeholder={t("palette.placeholder")}
+          className="w-full bg-dark-bg text-text-light p-3 sm:p-4 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+          role="combobox"
+          aria-label={t("palette.search")}
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-autocomplete="list"
+          aria-activedescendant={activeAction ? `command-${activeAction}` : undefined}
+          spellCheck={false}
+          autoComplete="off"
+        />
+
+        {results.length > 0 ? (
+          <ul
+            id="command-palette-results"
+            role="listbox"
+            aria-label={t("palette.results")}
+            className="max-h-80 overflow-y-auto py-1"
+          >
+            {results.map(({ action, group }, index) => (
+              <li
+                key={action}
+                id={`command-${action}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => onRun(action)}
+                className={`flex items-center justify-between gap-3 px-3 sm:px-4 py-2 cursor-pointer ${
+                  index === activeIndex
+                    ? "bg-dark-bg text-accent"
+                    : "text-text-light"
+                }`}
+              >
+                <span>
+                  {t(`shortcut.${action}`)}
+                  <span className="block text-text-muted text-xs">
+                    {t(`shortcutGroup.${group}`)}
+                  </span>
+                </span>
+                <ShortcutKeys binding={bindings[action]} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="p-3 sm:p-4 text-text-muted text-sm" role="status">
+            {t("palette.noResults")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
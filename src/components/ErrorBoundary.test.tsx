@@ -0,0 +1,64 @@
+/** @vitest-environment jsdom */
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ErrorBoundary } from "./ErrorBoundary";
+
+/**
+ * Throws while `shouldThrow` is set, otherwise renders a marker
+ */
+let shouldThrow = true;
+const Thrower = () => {
+  if (shouldThrow) {
+    throw new Error("Generator exploded");
+  }
+  return <p>Recovered</p>;
+};
+
+describe("ErrorBoundary", () => {
+  it("renders its children when nothing throws", () => {
+    render(
+      <ErrorBoundary>
+        <p>All good</p>
+      </ErrorBoundary>
+    );
+
+    expect(screen.getByText("All good")).toBeInTheDocument();
+  });
+
+  it("shows the fallback with the error details when a child throws", () => {
+    // React and the boundary both log the caught error
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    shouldThrow = true;
+
+    render(
+      <ErrorBoundary>
+        <Thrower />
+      </ErrorBoundary>
+    );
+
+    expect(
+      screen.getByRole("heading", { name: "Something went wrong" })
+    ).toBeInTheDocument();
+    expect(screen.getByText("Error: Generator exploded")).toBeInTheDocument();
+    expect(consoleError).toHaveBeenCalledWith(
+      "ErrorBoundary caught an error:",
+      expect.any(Error),
+      expect.anything()
+    );
+  });
+
+  it("renders the children again after a reset", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    shouldThrow = true;
+
+    render(
+      <ErrorBoundary>
+        <Thrower />
+      </ErrorBoundary>
+    );
+    shouldThrow = false;
+    fireEvent.click(screen.getByRole("button", { name: "Reset Application" }));
+
+    expect(screen.getByText("Recovered")).toBeInTheDocument();
+  });
+});
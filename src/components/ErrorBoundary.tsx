@@ -1,4 +1,7 @@
-import { Component, ErrorInfo, ReactNode } from "react";
+import { Component, ContextType, ErrorInfo, ReactNode } from "react";
+import { I18nContext } from "../hooks/useI18n";
+import { MessageKey } from "../locales";
+import { formatMessage } from "../utils/i18nUtils";
 
 /**
  * Props interface for ErrorBoundary component
@@ -20,11 +23,17 @@ interface ErrorBoundaryState {
  *
  * Catches React errors in the component tree and displays a user-friendly error message
  * instead of crashing the entire application
+ *
+ * Reads the language from I18nContext, so it must sit inside I18nProvider
+ * to show the fallback in the user's language.
  */
 export class ErrorBoundary extends Component<
   ErrorBoundaryProps,
   ErrorBoundaryState
 > {
+  static contextType = I18nContext;
+  declare context: ContextType<typeof I18nContext>;
+
   constructor(props: ErrorBoundaryProps) {
     super(props);
     this.state = {
@@ -53,33 +62,39 @@ export class ErrorBoundary extends Component<
     });
   };
 
+  /**
+   * Translates a message into the current language
+   *
+   * @param key - The message key
+   */
+  t = (key: MessageKey) => formatMessage(this.context.locale, key);
+
   render() {
     if (this.state.hasError) {
       return (
         <div className="min-h-screen bg-page-bg flex items-center justify-center p-4">
           <div className="bg-app-bg rounded-lg p-6 md:p-8 max-w-md w-full">
             <h2 className="text-text-light text-xl md:text-2xl font-bold mb-4">
-              Something went wrong
+              {this.t("errorBoundary.title")}
             </h2>
             <p className="text-text-muted text-base mb-6">
-              An unexpected error occurred. Please try refreshing the page or
-              click the button below to reset the application.
+              {this.t("errorBoundary.message")}
             </p>
             {this.state.error && (
               <details className="mb-6">
                 <summary className="text-text-muted text-sm cursor-pointer mb-2">
-                  Error details
+                  {this.t("errorBoundary.details")}
                 </summary>
-                <pre className="text-red-400 text-xs overflow-auto bg-dark-bg p-3 rounded">
+                <pre className="text-danger text-xs overflow-auto bg-dark-bg p-3 rounded">
                   {this.state.error.toString()}
                 </pre>
               </details>
             )}
             <button
               onClick={this.handleReset}
-              className="w-full py-3 px-6 bg-accent-green text-button-text font-bold text-base uppercase tracking-wide transition-all duration-200 hover:bg-accent-green/90 focus:outline-none focus:ring-2 focus:ring-accent-green focus:ring-offset-2 focus:ring-offset-app-bg"
+              className="w-full py-3 px-6 bg-accent text-button-text font-bold text-base uppercase tracking-wide transition-all duration-200 hover:bg-accent/90 focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-app-bg"
             >
-              Reset Application
+              {this.t("errorBoundary.reset")}
             </button>
           </div>
         </div>
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useMotion } from "../hooks/useMotion";
+import { useI18n } from "../hooks/useI18n";
 
 /**
  * Props interface for GenerateButton component
@@ -18,16 +20,18 @@ interface GenerateButtonProps {
  * - Hover and focus states
  * - Disabled state handling
  * - Accessible button element
- * - Enhanced animations and interactions
+ * - Enhanced animations and interactions (skipped with reduced motion)
  */
 export const GenerateButton = ({
   onClick,
   disabled = false,
 }: GenerateButtonProps) => {
   const [isPressed, setIsPressed] = useState(false);
+  const { reduceMotion, pulse } = useMotion();
+  const { t } = useI18n();
 
   const handleMouseDown = () => {
-    if (!disabled) setIsPressed(true);
+    if (!disabled && !reduceMotion) setIsPressed(true);
   };
 
   const handleMouseUp = () => {
@@ -36,8 +40,7 @@ export const GenerateButton = ({
 
   const handleClick = () => {
     if (!disabled) {
-      setIsPressed(true);
-      setTimeout(() => setIsPressed(false), 150);
+      pulse(setIsPressed, 150);
       onClick();
     }
   };
@@ -51,14 +54,14 @@ export const GenerateButton = ({
       disabled={disabled}
       className={`
         w-full py-3.5 sm:py-4 px-4 sm:px-6
-        bg-accent-green text-button-text
+        bg-accent text-button-text
         font-bold text-sm sm:text-base md:text-lg
         uppercase tracking-wide
         transition-all duration-300 transform
         disabled:opacity-50 disabled:cursor-not-allowed
         border-2 border-transparent
-        hover:bg-transparent hover:text-accent-green hover:border-accent-green hover:shadow-lg hover:scale-105
-        focus:outline-none focus:ring-2 focus:ring-accent-green focus:ring-offset-2 focus:ring-offset-app-bg
+        hover:bg-transparent hover:text-accent hover:border-accent hover:shadow-lg hover:scale-105
+        focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-app-bg
         active:scale-95
         ${isPressed ? 'scale-95 shadow-inner' : ''}
         flex items-center justify-center gap-2 sm:gap-3
@@ -66,17 +69,17 @@ export const GenerateButton = ({
         touch-manipulation
         min-h-[48px] sm:min-h-[52px]
       `}
-      aria-label="Generate new password"
+      aria-label={t("generate.button")}
     >
       {/* Button Text */}
-      <span>Generate</span>
+      <span>{t("generate.label")}</span>
 
-      {/* Arrow Icon - Inline SVG for color control */}
+      {/* Arrow Icon - Inline SVG for color control, mirrored for right-to-left */}
       <svg
         width="12"
         height="12"
         xmlns="http://www.w3.org/2000/svg"
-        className={`w-3 h-3 transition-all duration-300 transform group-hover:translate-x-1 ${
+        className={`w-3 h-3 transition-all duration-300 transform group-hover:translate-x-1 rtl:-scale-x-100 rtl:group-hover:-translate-x-1 ${
           isPressed ? 'rotate-12' : ''
         }`}
         aria-hidden="true"
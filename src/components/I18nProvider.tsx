@@ -0,0 +1,20 @@
+import { ReactNode } from "react";
+import { I18nContext, useLocaleSettings } from "../hooks/useI18n";
+
+/**
+ * Props interface for I18nProvider component
+ */
+interface I18nProviderProps {
+  children: ReactNode; // The app
+}
+
+/**
+ * I18nProvider Component
+ *
+ * Holds the language setting and shares it with every component's
+ * useI18n hook
+ */
+export const I18nProvider = ({ children }: I18nProviderProps) => {
+  const settings = useLocaleSettings();
+  return <I18nContext.Provider value={settings}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,34 @@
+import { Locale } from "../types";
+import { useI18n } from "../hooks/useI18n";
+import { LOCALE_OPTIONS } from "../utils/i18nUtils";
+
+/**
+ * LanguageSelector Component
+ *
+ * Language switcher shown with the appearance settings
+ *
+ * Features:
+ * - Every translated language, named in its own language
+ * - Starts from the browser's preferred language until one is chosen
+ * - Right-to-left layout for Arabic and Hebrew
+ */
+export const LanguageSelector = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 text-text-muted text-xs uppercase">
+      {t("language.label")}
+      <select
+        value={locale}
+        onChange={(event) => setLocale(event.target.value as Locale)}
+        className="bg-app-bg text-text-light normal-case p-1 rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent"
+      >
+        {LOCALE_OPTIONS.map(({ value, label }) => (
+          <option key={value} value={value} lang={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
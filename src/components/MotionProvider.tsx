@@ -0,0 +1,20 @@
+import { ReactNode } from "react";
+import { MotionContext, useMotionSettings } from "../hooks/useMotion";
+
+/**
+ * Props interface for MotionProvider component
+ */
+interface MotionProviderProps {
+  children: ReactNode; // The app
+}
+
+/**
+ * MotionProvider Component
+ *
+ * Holds the animation setting and shares it with every component's
+ * useMotion hook
+ */
+export const MotionProvider = ({ children }: MotionProviderProps) => {
+  const motion = useMotionSettings();
+  return <MotionContext.Provider value={motion}>{children}</MotionContext.Provider>;
+};
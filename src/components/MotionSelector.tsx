@@ -0,0 +1,49 @@
+import { MotionPreference } from "../types";
+import { MOTION_OPTIONS } from "../utils/motionUtils";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for MotionSelector component
+ */
+interface MotionSelectorProps {
+  preference: MotionPreference; // Chosen animation setting ("system" follows the OS)
+  onChange: (preference: MotionPreference) => void; // Callback when the setting changes
+}
+
+/**
+ * MotionSelector Component
+ *
+ * Animation setting shown with the appearance settings
+ *
+ * Features:
+ * - Follows the OS reduced-motion setting by default
+ * - Reduced or full motion regardless of the OS
+ */
+export const MotionSelector = ({ preference, onChange }: MotionSelectorProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div
+      className="flex flex-wrap gap-1 bg-app-bg p-1 rounded"
+      role="radiogroup"
+      aria-label={t("motion.label")}
+    >
+      {MOTION_OPTIONS.map(({ value, label }) => (
+        <button
+          key={value}
+          type="button"
+          role="radio"
+          aria-checked={preference === value}
+          onClick={() => onChange(value)}
+          className={`py-1 px-2 text-xs uppercase rounded transition-all duration-300 touch-manipulation focus:outline-none focus:ring-2 focus:ring-accent ${
+            preference === value
+              ? "bg-accent text-button-text font-bold"
+              : "text-text-muted hover:text-accent"
+          }`}
+        >
+          {t(label)}
+        </button>
+      ))}
+    </div>
+  );
+};
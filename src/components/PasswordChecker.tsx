@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { PasswordAnalysis, TextCharacterClass } from "../types";
+import { TEXT_CHARACTER_CLASS_LABELS } from "../utils/passwordAnalysis";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for PasswordChecker component
+ */
+interface PasswordCheckerProps {
+  password: string; // The password being checked
+  analysis: PasswordAnalysis; // Analysis of the password text
+  onPasswordChange: (password: string) => void; // Callback when input changes
+}
+
+/**
+ * PasswordChecker Component
+ *
+ * Analyzes any password the user pastes or types
+ *
+ * Features:
+ * - Masked input with a show/hide toggle
+ * - Character classes actually present, with counts
+ * - Brute-force entropy and the estimate after patterns
+ * - Detected patterns with an explanation for each
+ *
+ * The password stays in memory and is never stored or sent anywhere.
+ */
+export const PasswordChecker = ({
+  password,
+  analysis,
+  onPasswordChange,
+}: PasswordCheckerProps) => {
+  const [isVisible, setIsVisible] = useState(false);
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-app-bg p-4 sm:p-5 md:p-6 space-y-4 sm:space-y-5">
+      {/* Password Input */}
+      <div className="space-y-2">
+        <label
+          htmlFor="checkPassword"
+          className="text-text-light text-sm sm:text-base md:text-lg"
+        >
+          {t("checker.label")}
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="checkPassword"
+            type={isVisible ? "text" : "password"}
+            value={password}
+            onChange={(event) => onPasswordChange(event.target.value)}
+            placeholder={t("checker.placeholder")}
+            className="flex-1 min-w-0 bg-dark-bg text-text-light font-mono text-lg p-3 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+            spellCheck={false}
+            autoComplete="off"
+            autoCapitalize="off"
+          />
+          <button
+            type="button"
+            onClick={() => setIsVisible(!isVisible)}
+            className="text-accent text-xs uppercase font-bold hover:text-text-light px-2"
+            aria-pressed={isVisible}
+          >
+            {isVisible ? t("checker.hide") : t("checker.show")}
+          </button>
+        </div>
+        <p className="text-text-muted text-xs">
+          {t("checker.privacy")}
+        </p>
+      </div>
+
+      {password && (
+        <>
+          {/* Character Classes */}
+          <ul className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+            {(
+              Object.keys(TEXT_CHARACTER_CLASS_LABELS) as TextCharacterClass[]
+            ).map((key) => (
+              <li
+                key={key}
+                className={`flex justify-between bg-dark-bg px-3 py-2 ${
+                  analysis.classCounts[key] > 0
+                    ? "text-text-light"
+                    : "text-text-muted"
+                }`}
+              >
+                <span>{t(`textClass.${key}`)}</span>
+                <span className="font-bold">{analysis.classCounts[key]}</span>
+              </li>
+            ))}
+          </ul>
+
+          {/* Entropy */}
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs sm:text-sm">
+            <dt className="text-text-muted">{t("checker.length")}</dt>
+            <dd className="text-text-light text-end">{analysis.length}</dd>
+            <dt className="text-text-muted">{t("checker.bruteForce")}</dt>
+            <dd className="text-text-light text-end">
+              {t("common.bits", { bits: Math.round(analysis.charsetBits) })}
+            </dd>
+            <dt className="text-text-muted">{t("checker.afterPatterns")}</dt>
+            <dd className="text-text-light text-end">
+              {t("common.bits", { bits: Math.round(analysis.bits) })}
+            </dd>
+          </dl>
+
+          {/* Detected Patterns */}
+          <div className="space-y-2">
+            <h2 className="text-text-light text-sm sm:text-base">
+              {t("checker.patterns")}
+            </h2>
+            {analysis.patterns.length > 0 ? (
+              <ul className="space-y-2">
+                {analysis.patterns.map((pattern) => (
+                  <li
+                    key={`${pattern.start}-${pattern.end}`}
+                    className="bg-dark-bg px-3 py-2 text-sm"
+                  >
+                    <span className="text-warning font-bold">
+                      {t(`pattern.${pattern.kind}`)}
+                    </span>
+                    <span className="text-text-muted">
+                      {" · "}
+                      {t(pattern.description.key, pattern.description.params)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-text-muted text-sm">
+                {t("checker.noPatterns")}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+/** @vitest-environment jsdom */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { PasswordDisplay } from "./PasswordDisplay";
+import { useClipboard } from "../hooks/useClipboard";
+
+const PASSWORD = "Tr0ub4dor&3x";
+
+/**
+ * Replaces navigator.clipboard with a mock writeText
+ */
+const mockClipboard = (writeText: (text: string) => Promise<void>) => {
+  Object.defineProperty(navigator, "clipboard", {
+    value: { writeText: vi.fn(writeText), readText: vi.fn() },
+    configurable: true,
+  });
+  return navigator.clipboard;
+};
+
+/**
+ * Replaces document.execCommand (used by the hidden-field fallback)
+ */
+const mockExecCommand = (result: boolean) => {
+  const execCommand = vi.fn(() => result);
+  Object.defineProperty(document, "execCommand", {
+    value: execCommand,
+    configurable: true,
+  });
+  return execCommand;
+};
+
+/**
+ * PasswordDisplay with its clipboard hook, as App provides it
+ */
+const PasswordDisplayHarness = ({ clearAfterSeconds }: { clearAfterSeconds: number }) => {
+  const clipboard = useClipboard(clearAfterSeconds);
+  return (
+    <PasswordDisplay
+      password={PASSWORD}
+      clipboard={clipboard}
+      clearAfterSeconds={clearAfterSeconds}
+      onClearAfterChange={vi.fn()}
+    />
+  );
+};
+
+/**
+ * Renders PasswordDisplay and clicks its copy button
+ */
+const renderAndCopy = async (clearAfterSeconds: number = 0) => {
+  render(<PasswordDisplayHarness clearAfterSeconds={clearAfterSeconds} />);
+  await act(async () => {
+    fireEvent.click(screen.getByRole("button", { name: "Copy password" }));
+  });
+};
+
+describe("PasswordDisplay copying", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, "clipboard");
+    Reflect.deleteProperty(document, "execCommand");
+  });
+
+  it("copies the password and shows feedback", async () => {
+    const clipboard = mockClipboard(() => Promise.resolve());
+
+    await renderAndCopy();
+
+    expect(clipboard.writeText).toHaveBeenCalledWith(PASSWORD);
+    expect(screen.getByRole("button", { name: "Copied!" })).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("starts the auto-clear countdown after copying", async () => {
+    mockClipboard(() => Promise.resolve());
+
+    await renderAndCopy(30);
+
+    expect(screen.getByRole("timer")).toHaveTextContent("Clipboard clears in 30s");
+  });
+
+  it("offers to copy without revealing when clipboard access is denied", async () => {
+    mockClipboard(() => Promise.reject(new DOMException("Denied", "NotAllowedError")));
+
+    await renderAndCopy();
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Clipboard access was denied.");
+    expect(
+      screen.getByRole("button", { name: "Copy without revealing" })
+    ).toBeInTheDocument();
+    expect(console.error).toHaveBeenCalledWith(
+      "Failed to copy password:",
+      expect.any(DOMException)
+    );
+  });
+
+  it("copies through a hidden field without showing the password", async () => {
+    mockClipboard(() => Promise.reject(new Error("Denied")));
+    const execCommand = mockExecCommand(true);
+
+    await renderAndCopy();
+    fireEvent.click(screen.getByRole("button", { name: "Copy without revealing" }));
+
+    expect(execCommand).toHaveBeenCalledWith("copy");
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Copied!" })).toBeInTheDocument();
+    // The hidden field is removed and the password stays masked
+    expect(document.querySelector("textarea")).toBeNull();
+    expect(screen.queryByText(PASSWORD)).not.toBeInTheDocument();
+  });
+
+  it("explains when the fallback copy fails too", async () => {
+    mockClipboard(() => Promise.reject(new Error("Denied")));
+    mockExecCommand(false);
+
+    await renderAndCopy();
+    fireEvent.click(screen.getByRole("button", { name: "Copy without revealing" }));
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Copying isn't available in this browser."
+    );
+  });
+});
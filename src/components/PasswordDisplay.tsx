@@ -1,12 +1,38 @@
 import { useState, useEffect, useRef } from "react";
+import { CharacterType } from "../types";
+import { getCharacterType } from "../utils/passwordUtils";
+import { CLIPBOARD_CLEAR_DELAYS } from "../utils/clipboardUtils";
+import { useClipboard } from "../hooks/useClipboard";
+import { usePasswordReveal } from "../hooks/usePasswordReveal";
+import { useMotion } from "../hooks/useMotion";
+import { useI18n } from "../hooks/useI18n";
+import { ClipboardStatus } from "./ClipboardStatus";
 
 /**
  * Props interface for PasswordDisplay component
  */
 interface PasswordDisplayProps {
   password: string; // The password to display
+  clipboard: ReturnType<typeof useClipboard>; // Clipboard state shared with the copy shortcut
+  clearAfterSeconds: number; // Clipboard auto-clear delay (0 for off)
+  onClearAfterChange: (seconds: number) => void; // Callback when the delay changes
 }
 
+/**
+ * Text colour for each character type, so letters, digits and symbols
+ * are easy to tell apart when the password is read aloud or copied by hand
+ */
+const CHARACTER_TYPE_COLORS: Record<CharacterType, string> = {
+  letter: "text-text-light",
+  digit: "text-highlight",
+  symbol: "text-warning",
+};
+
+/**
+ * Character shown in place of each masked character
+ */
+const MASK_CHAR = "•";
+
 /**
  * PasswordDisplay Component
  *
@@ -14,99 +40,114 @@ interface PasswordDisplayProps {
  *
  * Features:
  * - Shows the generated password (or placeholder if empty)
+ * - Masked by default: reveal with the eye toggle, by pressing and holding
+ *   the password, or one character at a time on hover
+ * - Masks again whenever the tab is hidden; copying works while masked
+ * - Screen readers hear the length while masked and every reveal change
+ * - Colours letters, digits and symbols differently
  * - Copy button that copies password to clipboard
  * - Visual feedback when password is copied
+ * - Configurable clipboard auto-clear with a visible countdown
+ * - "Copy without revealing" fallback when clipboard access is denied
  * - Responsive design
  */
-export const PasswordDisplay = ({ password }: PasswordDisplayProps) => {
-  // State to track if password was recently copied (used for visual feedback)
-  const [copied, setCopied] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+export const PasswordDisplay = ({
+  password,
+  clipboard,
+  clearAfterSeconds,
+  onClearAfterChange,
+}: PasswordDisplayProps) => {
+  const reveal = usePasswordReveal();
+  // Whether the password was recently copied (used for visual feedback)
+  const copied = clipboard.copiedKey !== null;
   const [isAnimating, setIsAnimating] = useState(false);
   const [isButtonAnimating, setIsButtonAnimating] = useState(false);
-  const timeoutRef = useRef<number | null>(null);
   const prevPasswordRef = useRef<string>(password);
+  const { pulse } = useMotion();
+  const { t } = useI18n();
 
   // Password change animation effect
   useEffect(() => {
     if (prevPasswordRef.current !== password && password) {
-      setIsAnimating(true);
-      const timer = setTimeout(() => setIsAnimating(false), 300);
-      return () => clearTimeout(timer);
+      pulse(setIsAnimating, 300);
     }
     prevPasswordRef.current = password;
-  }, [password]);
+  }, [password, pulse]);
 
-  // Cleanup timeout on unmount
-  useEffect(() => {
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-    };
-  }, []);
+  /**
+   * Formats an auto-clear delay for the select, e.g. "Off", "15s" or "2 min"
+   *
+   * @param seconds - Delay in seconds
+   */
+  const formatClearDelay = (seconds: number): string => {
+    if (seconds === 0) return t("display.clearDelay.off");
+    return seconds < 60
+      ? t("display.clearDelay.seconds", { count: seconds })
+      : t("display.clearDelay.minutes", { count: seconds / 60 });
+  };
 
   /**
    * Handles copying the password to the clipboard
-   * Uses the modern Clipboard API
+   * Uses the Clipboard API; if access is denied, the error offers a
+   * "copy without revealing" retry instead of asking to select the text
    */
   const handleCopy = async () => {
     // Don't copy if password is empty
     if (!password) return;
 
-    try {
-      // Clear any existing error
-      setError(null);
-
-      // Trigger button animation
-      setIsButtonAnimating(true);
-      setTimeout(() => setIsButtonAnimating(false), 150);
-
-      // Use Clipboard API to copy password
-      await navigator.clipboard.writeText(password);
-
-      // Set copied state to true for visual feedback
-      setCopied(true);
-
-      // Announce to screen readers
-      const button = document.activeElement as HTMLElement;
-      if (button) {
-        button.focus();
-      }
-
-      // Clear any existing timeout
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
+    // Trigger button animation
+    pulse(setIsButtonAnimating, 150);
 
-      // Reset copied state after 2 seconds
-      timeoutRef.current = setTimeout(() => {
-        setCopied(false);
-      }, 2000);
-    } catch (err) {
-      // Handle error gracefully - Clipboard API is supported in all modern browsers
-      // If it fails, it's likely due to permissions or security restrictions
-      console.error("Failed to copy password:", err);
-      setError("Failed to copy. Please try selecting and copying manually.");
-
-      // Clear error message after 3 seconds
-      setTimeout(() => {
-        setError(null);
-      }, 3000);
-    }
+    await clipboard.copy(password);
   };
+
   return (
     <div className="bg-app-bg p-4 sm:p-5 md:p-6">
       <div className="flex items-center justify-between gap-3 sm:gap-4">
         {/* Password text display */}
         <div className="flex-1 min-w-0">
           {password ? (
-            // Show actual password if generated
-            <p className={`text-text-light text-lg sm:text-xl md:text-2xl lg:text-3xl font-mono break-all leading-tight transition-all duration-300 transform ${
-              isAnimating ? 'scale-105 opacity-80 translate-y-1' : 'scale-100 opacity-100 translate-y-0'
-            }`}>
-              {password}
-            </p>
+            <>
+              {/* Password, masked unless revealed (hold to reveal) */}
+              <p
+                aria-hidden={!reveal.isVisible}
+                onPointerDown={reveal.startHold}
+                onPointerUp={reveal.endHold}
+                onPointerLeave={reveal.endHold}
+                onPointerCancel={reveal.endHold}
+                onContextMenu={(event) => {
+                  // Long presses on touch screens shouldn't open the menu
+                  if (!reveal.isVisible) event.preventDefault();
+                }}
+                className={`text-text-light text-lg sm:text-xl md:text-2xl lg:text-3xl font-mono break-all leading-tight transition-all duration-300 transform ${
+                  isAnimating ? 'scale-105 opacity-80 translate-y-1' : 'scale-100 opacity-100 translate-y-0'
+                } ${reveal.isVisible ? '' : 'cursor-pointer select-none touch-none'}`}
+              >
+                {password.split("").map((char, index) => {
+                  const isCharVisible =
+                    reveal.isVisible || reveal.revealedIndex === index;
+                  return (
+                    <span
+                      key={index}
+                      onMouseEnter={() => reveal.setRevealedIndex(index)}
+                      onMouseLeave={() => reveal.setRevealedIndex(null)}
+                      className={
+                        isCharVisible
+                          ? CHARACTER_TYPE_COLORS[getCharacterType(char)]
+                          : "text-text-muted"
+                      }
+                    >
+                      {isCharVisible ? char : MASK_CHAR}
+                    </span>
+                  );
+                })}
+              </p>
+              {!reveal.isVisible && (
+                <p className="sr-only">
+                  {t("display.hiddenSummary", { count: password.length })}
+                </p>
+              )}
+            </>
           ) : (
             // Show placeholder if no password generated yet
             <p className="text-text-muted text-lg sm:text-xl md:text-2xl lg:text-3xl font-mono leading-tight">
@@ -115,6 +156,38 @@ export const PasswordDisplay = ({ password }: PasswordDisplayProps) => {
           )}
         </div>
 
+        {/* Reveal toggle */}
+        <button
+          type="button"
+          onClick={reveal.toggleReveal}
+          disabled={!password}
+          aria-pressed={reveal.isRevealed}
+          aria-label={
+            reveal.isRevealed ? t("display.hidePassword") : t("display.showPassword")
+          }
+          className="flex items-center justify-center min-w-[44px] min-h-[44px] sm:min-w-0 sm:min-h-0 text-accent hover:text-text-light transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          <svg
+            width="24"
+            height="24"
+            viewBox="0 0 24 24"
+            xmlns="http://www.w3.org/2000/svg"
+            className="w-6 h-6 flex-shrink-0"
+            aria-hidden="true"
+          >
+            <path
+              d="M1 12s4-7 11-7 11 7 11 7-4 7-11 7S1 12 1 12Z"
+              stroke="currentColor"
+              strokeWidth="2"
+              fill="none"
+            />
+            <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" fill="none" />
+            {reveal.isRevealed && (
+              <path d="M3 3l18 18" stroke="currentColor" strokeWidth="2" />
+            )}
+          </svg>
+        </button>
+
         {/* Copy button */}
         <button
           onClick={handleCopy}
@@ -129,17 +202,19 @@ export const PasswordDisplay = ({ password }: PasswordDisplayProps) => {
             ${isButtonAnimating ? 'scale-110' : 'scale-100 hover:scale-105'}
             ${
               copied
-                ? "text-accent-green"
-                : "text-accent-green hover:text-text-light active:text-text-light"
+                ? "text-accent"
+                : "text-accent hover:text-text-light active:text-text-light"
             }
           `}
-          aria-label={copied ? "Copied!" : "Copy password"}
+          aria-label={
+            copied ? t("display.copiedAnnouncement") : t("display.copyPassword")
+          }
         >
           {/* Copy icon or checkmark */}
           {copied ? (
             <>
               <span className="text-sm sm:text-base md:text-lg font-bold uppercase hidden sm:inline">
-                Copied
+                {t("common.copied")}
               </span>
               <svg
                 width="14"
@@ -173,16 +248,39 @@ export const PasswordDisplay = ({ password }: PasswordDisplayProps) => {
         </button>
       </div>
 
-      {/* Error message */}
-      {error && (
-        <div
-          className="mt-2 text-red-400 text-sm"
-          role="alert"
-          aria-live="polite"
+      {/* Announces reveal changes to screen readers */}
+      <p className="sr-only" role="status" aria-live="polite">
+        {reveal.announcement}
+      </p>
+
+      {/* Clipboard auto-clear setting */}
+      <label className="mt-3 flex items-center gap-2 text-text-muted text-xs sm:text-sm">
+        {t("display.clearClipboardAfter")}
+        <select
+          value={clearAfterSeconds}
+          onChange={(event) =>
+            onClearAfterChange(parseInt(event.target.value, 10))
+          }
+          className="bg-dark-bg text-text-light p-1 cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent"
         >
-          {error}
-        </div>
-      )}
+          {CLIPBOARD_CLEAR_DELAYS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {formatClearDelay(seconds)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Auto-clear countdown and copy errors */}
+      <div className="mt-2">
+        <ClipboardStatus
+          clearCountdown={clipboard.clearCountdown}
+          error={clipboard.error}
+          hasFallback={clipboard.hasFallback}
+          onClearNow={clipboard.clearNow}
+          onCopyWithoutRevealing={clipboard.copyWithoutRevealing}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,280 @@
+import { FormEvent, useState } from "react";
+import { HistoryEntry, PasswordOptions } from "../types";
+import { useClipboard } from "../hooks/useClipboard";
+import { useI18n } from "../hooks/useI18n";
+import { ClipboardStatus } from "./ClipboardStatus";
+
+/**
+ * Props interface for PasswordHistory component
+ */
+interface PasswordHistoryProps {
+  entries: HistoryEntry[]; // History entries, newest first
+  isPersistent: boolean; // Whether encrypted persistence is enabled
+  isLocked: boolean; // Whether persisted history is locked
+  error: string | null; // Last persistence error
+  onClear: () => void; // Callback to clear history
+  onEnablePersistence: (passphrase: string) => Promise<void>; // Start persisting
+  onDisablePersistence: () => Promise<void>; // Stop persisting and delete
+  onUnlock: (passphrase: string) => Promise<boolean>; // Unlock persisted history
+  onLock: () => void; // Lock persisted history
+  clearAfterSeconds?: number; // Clipboard auto-clear delay (0 for off)
+}
+
+/**
+ * Minimum length of the master passphrase used to encrypt history
+ */
+const MIN_MASTER_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Summarizes the options a password was generated with
+ * e.g. "16 chars · Aa1#", "12 syllable chars · Aa1", "6 words · -" or "6 digit PIN"
+ *
+ * @param options - The generation options
+ * @param t - The translate function from useI18n
+ */
+const describeOptions = (
+  options: PasswordOptions,
+  t: ReturnType<typeof useI18n>["t"]
+): string => {
+  if (options.mode === "pin") {
+    return t("history.pinSummary", { count: options.pinLength });
+  }
+  if (options.mode === "passphrase") {
+    const separator =
+      options.separator === " " ? t("history.separatorSpace") : options.separator;
+    const words = t("options.wordCountValue", { count: options.wordCount });
+    return `${words}${separator ? ` · ${separator}` : ""}`;
+  }
+
+  const classes = [
+    options.uppercase ? "A" : "",
+    options.lowercase ? "a" : "",
+    options.numbers ? "1" : "",
+    options.symbols ? "#" : "",
+  ].join("");
+  const summary = t(
+    options.mode === "pronounceable" ? "history.syllableSummary" : "history.charSummary",
+    { count: options.length }
+  );
+  return `${summary} · ${classes}`;
+};
+
+/**
+ * PasswordHistory Component
+ *
+ * Lists passwords generated during the session so none are lost by regenerating
+ *
+ * Features:
+ * - Timestamp, options summary and strength for each password
+ * - Per-entry copy and clear-all actions
+ * - Opt-in encrypted persistence protected by a master passphrase
+ * - Unlock form when persisted history is locked
+ */
+export const PasswordHistory = ({
+  entries,
+  isPersistent,
+  isLocked,
+  error,
+  onClear,
+  onEnablePersistence,
+  onDisablePersistence,
+  onUnlock,
+  onLock,
+  clearAfterSeconds = 0,
+}: PasswordHistoryProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [isSettingPassphrase, setIsSettingPassphrase] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  // Copies entries; copiedKey is the id of the last copied entry
+  const clipboard = useClipboard(clearAfterSeconds);
+  const { t, locale } = useI18n();
+
+  /**
+   * Copies a password from the history
+   *
+   * @param entry - The history entry to copy
+   */
+  const handleCopy = async (entry: HistoryEntry) => {
+    await clipboard.copy(entry.password, entry.id);
+  };
+
+  /**
+   * Handles the master passphrase form (enable persistence or unlock)
+   *
+   * @param event - Form submit event
+   */
+  const handlePassphraseSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (passphrase.length < MIN_MASTER_PASSPHRASE_LENGTH) return;
+
+    setIsBusy(true);
+    if (isLocked) {
+      await onUnlock(passphrase);
+    } else {
+      await onEnablePersistence(passphrase);
+      setIsSettingPassphrase(false);
+    }
+    setIsBusy(false);
+    setPassphrase("");
+  };
+
+  const showPassphraseForm = isLocked || isSettingPassphrase;
+
+  return (
+    <div className="bg-app-bg rounded-lg p-4 sm:p-5 md:p-6 space-y-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center justify-between w-full text-text-light text-base sm:text-lg font-bold focus:outline-none focus:ring-2 focus:ring-accent"
+        aria-expanded={isExpanded}
+        aria-controls="password-history"
+      >
+        <span>
+          {t("history.title")}{" "}
+          <span className="text-text-muted font-normal">({entries.length})</span>
+          {isPersistent && (
+            <span className="ms-2 text-text-muted text-xs uppercase font-normal">
+              {isLocked ? t("history.locked") : t("history.encrypted")}
+            </span>
+          )}
+        </span>
+        <span aria-hidden="true">{isExpanded ? "−" : "+"}</span>
+      </button>
+
+      {isExpanded && (
+        <div id="password-history" className="space-y-4">
+          {/* History list */}
+          {entries.length > 0 ? (
+            <ul className="max-h-80 overflow-y-auto bg-dark-bg divide-y divide-app-bg">
+              {entries.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-center justify-between gap-3 px-3 py-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-text-light font-mono text-sm break-all">
+                      {entry.password}
+                    </p>
+                    <p className="text-text-muted text-xs">
+                      <time dateTime={new Date(entry.createdAt).toISOString()}>
+                        {new Date(entry.createdAt).toLocaleTimeString(locale)}
+                      </time>
+                      {" · "}
+                      {describeOptions(entry.options, t)}
+                      {" · "}
+                      {entry.strength.key && t(`strength.${entry.strength.key}`)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(entry)}
+                    className="text-accent text-xs uppercase font-bold hover:text-text-light flex-shrink-0"
+                    aria-label={t("history.copyEntry", {
+                      time: new Date(entry.createdAt).toLocaleTimeString(locale),
+                    })}
+                  >
+                    {clipboard.copiedKey === entry.id
+                      ? t("common.copied")
+                      : t("common.copy")}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-text-muted text-sm">
+              {isLocked ? t("history.unlockToSee") : t("history.empty")}
+            </p>
+          )}
+
+          {/* Auto-clear countdown and copy errors */}
+          <ClipboardStatus
+            clearCountdown={clipboard.clearCountdown}
+            error={clipboard.error}
+            hasFallback={clipboard.hasFallback}
+            onClearNow={clipboard.clearNow}
+            onCopyWithoutRevealing={clipboard.copyWithoutRevealing}
+          />
+
+          {/* Master passphrase form (enable persistence or unlock) */}
+          {showPassphraseForm && (
+            <form onSubmit={handlePassphraseSubmit} className="flex gap-2">
+              <label htmlFor="masterPassphrase" className="sr-only">
+                {t("history.masterPassphrase")}
+              </label>
+              <input
+                id="masterPassphrase"
+                type="password"
+                value={passphrase}
+                onChange={(event) => setPassphrase(event.target.value)}
+                placeholder={
+                  isLocked
+                    ? t("history.masterPassphrase")
+                    : t("history.chooseMasterPassphrase")
+                }
+                autoComplete={isLocked ? "current-password" : "new-password"}
+                minLength={MIN_MASTER_PASSPHRASE_LENGTH}
+                className="flex-1 bg-dark-bg text-text-light p-2 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+              <button
+                type="submit"
+                disabled={
+                  isBusy || passphrase.length < MIN_MASTER_PASSPHRASE_LENGTH
+                }
+                className="py-2 px-4 bg-accent text-button-text font-bold text-sm uppercase disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-app-bg"
+              >
+                {isLocked ? t("history.unlock") : t("common.save")}
+              </button>
+            </form>
+          )}
+
+          {/* Error message */}
+          {error && (
+            <p className="text-danger text-sm" role="alert" aria-live="polite">
+              {error}
+            </p>
+          )}
+
+          {/* Actions */}
+          <div className="flex flex-wrap gap-2 text-sm font-bold uppercase">
+            {!isPersistent && !isSettingPassphrase && (
+              <button
+                type="button"
+                onClick={() => setIsSettingPassphrase(true)}
+                className="text-accent hover:text-text-light"
+              >
+                {t("history.enablePersistence")}
+              </button>
+            )}
+            {isPersistent && !isLocked && (
+              <button
+                type="button"
+                onClick={onLock}
+                className="text-accent hover:text-text-light"
+              >
+                {t("history.lockNow")}
+              </button>
+            )}
+            {isPersistent && (
+              <button
+                type="button"
+                onClick={onDisablePersistence}
+                className="text-text-muted hover:text-danger"
+              >
+                {t("history.deleteSaved")}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClear}
+              disabled={entries.length === 0}
+              className="ms-auto text-text-muted hover:text-danger disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("common.clear")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
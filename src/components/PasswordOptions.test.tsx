@@ -0,0 +1,180 @@
+/** @vitest-environment jsdom */
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { PasswordOptions as PasswordOptionsType } from "../types";
+import { DEFAULT_PASSWORD_OPTIONS } from "../utils/passwordUtils";
+import { PasswordOptions } from "./PasswordOptions";
+
+/**
+ * Renders PasswordOptions with a mock change callback
+ */
+const renderOptions = (overrides: Partial<PasswordOptionsType> = {}) => {
+  const options = { ...DEFAULT_PASSWORD_OPTIONS, ...overrides };
+  const onOptionsChange = vi.fn();
+  const { rerender } = render(
+    <PasswordOptions options={options} onOptionsChange={onOptionsChange} />
+  );
+  return { options, onOptionsChange, rerender };
+};
+
+describe("PasswordOptions", () => {
+  it("marks the current mode as checked", () => {
+    renderOptions({ mode: "passphrase" });
+
+    expect(screen.getByRole("radio", { name: "Passphrase" })).toHaveAttribute(
+      "aria-checked",
+      "true"
+    );
+    expect(screen.getByRole("radio", { name: "Password" })).toHaveAttribute(
+      "aria-checked",
+      "false"
+    );
+  });
+
+  it("switches mode and regenerates", () => {
+    const { options, onOptionsChange } = renderOptions();
+
+    fireEvent.click(screen.getByRole("radio", { name: "PIN" }));
+
+    expect(onOptionsChange).toHaveBeenCalledWith({ ...options, mode: "pin" }, true);
+  });
+
+  it("ignores clicks on the current mode", () => {
+    const { onOptionsChange } = renderOptions();
+
+    fireEvent.click(screen.getByRole("radio", { name: "Password" }));
+
+    expect(onOptionsChange).not.toHaveBeenCalled();
+  });
+
+  it("changes the length from the slider without regenerating", () => {
+    const { options, onOptionsChange } = renderOptions();
+
+    // Every length up to 32 has its own stop, starting from 4
+    fireEvent.change(screen.getByLabelText("Password length"), {
+      target: { value: "20" },
+    });
+
+    expect(onOptionsChange).toHaveBeenCalledWith({ ...options, length: 24 }, false);
+  });
+
+  it("reaches the maximum length with larger steps at the top of the slider", () => {
+    const { options, onOptionsChange } = renderOptions({ length: 63 });
+    const slider = screen.getByLabelText("Password length");
+
+    expect(slider).toHaveAttribute("aria-valuenow", "63");
+    fireEvent.change(slider, { target: { value: slider.getAttribute("max") } });
+
+    expect(onOptionsChange).toHaveBeenCalledWith({ ...options, length: 256 }, false);
+  });
+
+  it("applies a typed length within bounds", () => {
+    const { options, onOptionsChange, rerender } = renderOptions();
+
+    fireEvent.change(screen.getByLabelText("Password length in characters"), {
+      target: { value: "128" },
+    });
+    expect(onOptionsChange).toHaveBeenCalledWith({ ...options, length: 128 }, false);
+
+    rerender(
+      <PasswordOptions
+        options={{ ...options, length: 128 }}
+        onOptionsChange={onOptionsChange}
+      />
+    );
+    expect(screen.getByLabelText("Password length")).toHaveAttribute(
+      "aria-valuenow",
+      "128"
+    );
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("reports a typed length out of bounds without applying it", () => {
+    const { onOptionsChange } = renderOptions();
+    const field = screen.getByLabelText("Password length in characters");
+
+    fireEvent.change(field, { target: { value: "300" } });
+
+    expect(onOptionsChange).not.toHaveBeenCalled();
+    expect(field).toHaveAttribute("aria-invalid", "true");
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Enter a length from 4 to 256"
+    );
+
+    // Leaving the field restores the current length
+    fireEvent.blur(field);
+    expect(field).toHaveValue(10);
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it.each([
+    ["Include uppercase letters", "uppercase"],
+    ["Include lowercase letters", "lowercase"],
+    ["Include numbers", "numbers"],
+    ["Include symbols", "symbols"],
+  ] as const)("toggles %s and regenerates", (label, key) => {
+    const { options, onOptionsChange } = renderOptions();
+
+    fireEvent.click(screen.getByLabelText(label));
+
+    expect(onOptionsChange).toHaveBeenCalledWith(
+      { ...options, [key]: !options[key] },
+      true
+    );
+  });
+
+  it("asks for a character type when none is selected", () => {
+    renderOptions({
+      uppercase: false,
+      lowercase: false,
+      numbers: false,
+      symbols: false,
+    });
+
+    expect(
+      screen.getByText(/Please select at least one character type/)
+    ).toBeInTheDocument();
+  });
+
+  it("shows exclusions that empty a selected class", () => {
+    renderOptions({ excludeChars: "0123456789" });
+
+    expect(
+      screen.getByText("Numbers have no characters left after exclusions")
+    ).toBeInTheDocument();
+  });
+
+  it("updates exclusions from the Advanced section without regenerating", () => {
+    const { options, onOptionsChange } = renderOptions();
+
+    fireEvent.click(screen.getByRole("button", { name: /Advanced/ }));
+    fireEvent.change(screen.getByLabelText("Characters to exclude"), {
+      target: { value: "O0" },
+    });
+
+    expect(onOptionsChange).toHaveBeenCalledWith(
+      { ...options, excludeChars: "O0" },
+      false
+    );
+  });
+
+  it("shows passphrase controls only in passphrase mode", () => {
+    renderOptions({ mode: "passphrase" });
+
+    expect(screen.getByLabelText("Passphrase word count")).toBeInTheDocument();
+    expect(screen.queryByLabelText("Password length")).not.toBeInTheDocument();
+  });
+
+  it("shows the PIN length and hides character options in PIN mode", () => {
+    renderOptions({ mode: "pin" });
+
+    expect(screen.getByLabelText("PIN length")).toHaveValue("6");
+    expect(screen.queryByLabelText("Include symbols")).not.toBeInTheDocument();
+    expect(
+      screen.queryByLabelText("Avoid ambiguous characters")
+    ).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: /Advanced/ })
+    ).not.toBeInTheDocument();
+  });
+});
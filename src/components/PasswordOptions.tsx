@@ -1,5 +1,102 @@
-import { PasswordOptions as PasswordOptionsType } from "../types";
-import { useState } from "react";
+import {
+  GenerationMode,
+  PassphraseCapitalization,
+  PasswordOptions as PasswordOptionsType,
+  TextDirection,
+} from "../types";
+import { useEffect, useState } from "react";
+import {
+  AMBIGUOUS_CHARS,
+  DEFAULT_SYMBOL_CHARS,
+  getCharacterSets,
+  isValidPasswordLength,
+  MAX_PASSPHRASE_WORDS,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSPHRASE_WORDS,
+  MIN_PASSWORD_LENGTH,
+  validateCharacterSets,
+} from "../utils/passwordUtils";
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH } from "../utils/pinUtils";
+import { useI18n } from "../hooks/useI18n";
+import { MessageKey } from "../locales";
+import { PasswordPolicyOptions } from "./PasswordPolicyOptions";
+
+/**
+ * Generation modes available in the mode switch
+ */
+const MODE_OPTIONS: { value: GenerationMode; label: MessageKey }[] = [
+  { value: "password", label: "options.mode.password" },
+  { value: "passphrase", label: "options.mode.passphrase" },
+  { value: "pronounceable", label: "options.mode.pronounceable" },
+  { value: "pin", label: "options.mode.pin" },
+];
+
+/**
+ * Lengths the length slider stops at
+ * Every length up to 32, then steps of 2, 4 and 8 from 32, 64 and 128, so
+ * short lengths stay easy to pick while the slider still reaches
+ * MAX_PASSWORD_LENGTH. Other lengths can be typed into the number field.
+ */
+const LENGTH_SLIDER_STOPS: number[] = (() => {
+  const stops: number[] = [];
+  for (let length = MIN_PASSWORD_LENGTH; length < MAX_PASSWORD_LENGTH; ) {
+    stops.push(length);
+    length += Math.max(1, 2 ** Math.floor(Math.log2(length / 16)));
+  }
+  stops.push(MAX_PASSWORD_LENGTH);
+  return stops;
+})();
+
+/**
+ * Finds the slider position closest to a length
+ *
+ * @param length - The password length
+ * @returns Index into LENGTH_SLIDER_STOPS
+ */
+const lengthToSliderPosition = (length: number): number => {
+  const position = LENGTH_SLIDER_STOPS.findIndex((stop) => stop >= length);
+  if (position === -1) return LENGTH_SLIDER_STOPS.length - 1;
+  if (position === 0) return 0;
+  const below = LENGTH_SLIDER_STOPS[position - 1];
+  return length - below < LENGTH_SLIDER_STOPS[position] - length
+    ? position - 1
+    : position;
+};
+
+/**
+ * Separators available between passphrase words
+ */
+const SEPARATOR_OPTIONS: { value: string; label: MessageKey }[] = [
+  { value: "-", label: "options.separator.hyphen" },
+  { value: " ", label: "options.separator.space" },
+  { value: ".", label: "options.separator.period" },
+  { value: "_", label: "options.separator.underscore" },
+  { value: "", label: "options.separator.none" },
+];
+
+/**
+ * Capitalization styles available for passphrase words
+ */
+const CAPITALIZATION_OPTIONS: {
+  value: PassphraseCapitalization;
+  label: MessageKey;
+}[] = [
+  { value: "capitalize", label: "options.capitalization.capitalize" },
+  { value: "lowercase", label: "options.capitalization.lowercase" },
+  { value: "uppercase", label: "options.capitalization.uppercase" },
+  { value: "random", label: "options.capitalization.random" },
+];
+
+/**
+ * Slider track filled with the accent colour up to the thumb, using the
+ * theme tokens so it follows the active theme and accent
+ * Range inputs run right to left in RTL layouts, so the fill does too
+ *
+ * @param percent - How far along the track the thumb is (0-100)
+ * @param dir - Writing direction of the page
+ */
+const getSliderBackground = (percent: number, dir: TextDirection): string =>
+  `linear-gradient(to ${dir === "rtl" ? "left" : "right"}, rgb(var(--color-accent)) 0%, rgb(var(--color-accent)) ${percent}%, rgb(var(--color-dark-bg)) ${percent}%, rgb(var(--color-dark-bg)) 100%)`;
 
 /**
  * Props interface for PasswordOptions component
@@ -16,8 +113,17 @@ interface PasswordOptionsProps {
  * PasswordOptions Component
  *
  * Provides UI controls for configuring password generation options:
- * - Password length slider
+ * - Mode switch (password, passphrase, pronounceable or PIN)
+ * - Password length slider (finer steps for short lengths) with a number
+ *   field for entering any length exactly
  * - Character type checkboxes (uppercase, lowercase, numbers, symbols)
+ * - Policy rules (per-class min/max, max run length, first/last character;
+ *   password mode only)
+ * - Passphrase word count slider, separator, capitalization and extras
+ *   (only shown in passphrase mode)
+ * - PIN length slider (only shown in PIN mode)
+ * - Avoid ambiguous characters toggle
+ * - Advanced section for custom symbols, extra characters and exclusions
  *
  * Features:
  * - Real-time option updates
@@ -29,17 +135,134 @@ export const PasswordOptions = ({
   onOptionsChange,
 }: PasswordOptionsProps) => {
   const [isSliderInteracting, setIsSliderInteracting] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const { t, dir } = useI18n();
+
+  // Text in the length field (may be out of range while the user is typing)
+  const [lengthInput, setLengthInput] = useState(String(options.length));
+
+  // Show the new length when it changes elsewhere (slider, presets, links)
+  useEffect(() => {
+    setLengthInput(String(options.length));
+  }, [options.length]);
+
+  // Enabled character classes emptied by custom symbols or exclusions
+  const characterSetErrors = validateCharacterSets(options);
+
+  // Valid entries are applied straight away, so any other value is an invalid entry
+  const lengthInputError =
+    lengthInput.trim() === "" || Number(lengthInput) !== options.length
+      ? t("options.lengthError", {
+          min: MIN_PASSWORD_LENGTH,
+          max: MAX_PASSWORD_LENGTH,
+        })
+      : null;
+
+  // Slider fill, from the position of the current length on the stepped scale
+  const lengthSliderPercent =
+    (lengthToSliderPosition(options.length) / (LENGTH_SLIDER_STOPS.length - 1)) *
+    100;
+
   /**
    * Handles changes to the password length slider
    *
-   * @param event - Change event from the range input
+   * @param event - Change event from the range input (a slider position)
    */
   const handleLengthChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const newLength = parseInt(event.target.value, 10);
-    // Validate length is within bounds (4-50)
-    const validatedLength = Math.max(4, Math.min(50, newLength));
+    const position = parseInt(event.target.value, 10);
+    // Map the slider position back to a length on the stepped scale
+    const newLength =
+      LENGTH_SLIDER_STOPS[
+        Math.max(0, Math.min(LENGTH_SLIDER_STOPS.length - 1, position))
+      ];
     // Update options with new length (don't regenerate automatically)
-    onOptionsChange({ ...options, length: validatedLength }, false);
+    onOptionsChange({ ...options, length: newLength }, false);
+  };
+
+  /**
+   * Handles typing in the password length field
+   * Lengths within bounds are applied immediately; anything else is kept in
+   * the field and reported until it is corrected or the field loses focus
+   *
+   * @param event - Change event from the number input
+   */
+  const handleLengthInputChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const value = event.target.value;
+    setLengthInput(value);
+    const newLength = Number(value);
+    if (value.trim() !== "" && isValidPasswordLength(newLength)) {
+      // Update options with new length (don't regenerate automatically)
+      onOptionsChange({ ...options, length: newLength }, false);
+    }
+  };
+
+  /**
+   * Restores the current length if the field is left with an invalid entry
+   */
+  const handleLengthInputBlur = () => {
+    setLengthInput(String(options.length));
+  };
+
+  /**
+   * Handles changes to the passphrase word count slider
+   *
+   * @param event - Change event from the range input
+   */
+  const handleWordCountChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const newWordCount = parseInt(event.target.value, 10);
+    // Validate word count is within bounds
+    const validatedWordCount = Math.max(
+      MIN_PASSPHRASE_WORDS,
+      Math.min(MAX_PASSPHRASE_WORDS, newWordCount)
+    );
+    // Update options with new word count (don't regenerate automatically)
+    onOptionsChange({ ...options, wordCount: validatedWordCount }, false);
+  };
+
+  /**
+   * Handles changes to the PIN length slider
+   *
+   * @param event - Change event from the range input
+   */
+  const handlePinLengthChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const newPinLength = parseInt(event.target.value, 10);
+    // Validate PIN length is within bounds
+    const validatedPinLength = Math.max(
+      MIN_PIN_LENGTH,
+      Math.min(MAX_PIN_LENGTH, newPinLength)
+    );
+    // Update options with new PIN length (don't regenerate automatically)
+    onOptionsChange({ ...options, pinLength: validatedPinLength }, false);
+  };
+
+  /**
+   * Handles switching between generation modes
+   *
+   * @param mode - The selected generation mode
+   */
+  const handleModeChange = (mode: GenerationMode) => {
+    if (mode === options.mode) return;
+    onOptionsChange({ ...options, mode }, true);
+  };
+
+  /**
+   * Handles changes to the custom character set text fields
+   *
+   * @param key - The option key to update (symbolChars, extraChars, excludeChars)
+   * @param value - The new field value
+   */
+  const handleCharacterSetChange = (
+    key: "symbolChars" | "extraChars" | "excludeChars",
+    value: string
+  ) => {
+    // Update options without regenerating on every keystroke
+    onOptionsChange({ ...options, [key]: value }, false);
   };
 
   /**
@@ -59,11 +282,12 @@ export const PasswordOptions = ({
   /**
    * Handles toggling of character type checkboxes
    *
-   * @param key - The option key to toggle (uppercase, lowercase, numbers, symbols)
+   * @param key - The option key to toggle (uppercase, lowercase, numbers, symbols,
+   *   includeNumber, includeSymbol, avoidAmbiguous, rejectBreached)
    */
   const handleToggleOption = (key: keyof PasswordOptionsType) => {
-    // Don't allow toggling the length property
-    if (key === "length") return;
+    // Only boolean options can be toggled
+    if (typeof options[key] !== "boolean") return;
 
     // Toggle the boolean value for the selected option
     // Regenerate password immediately for checkbox changes
@@ -79,131 +303,538 @@ export const PasswordOptions = ({
 
   return (
     <div className="bg-app-bg p-4 sm:p-5 md:p-6 space-y-4 sm:space-y-5">
-      {/* Password Length Control */}
-      <div className="space-y-3 sm:space-y-4">
-        <div className="flex items-center justify-between">
-          <label
-            htmlFor="length"
-            className="text-text-light text-sm sm:text-base md:text-lg"
+      {/* Generation Mode Switch */}
+      <div
+        className="grid grid-cols-2 sm:grid-cols-4 gap-2 bg-dark-bg p-1 rounded"
+        role="radiogroup"
+        aria-label={t("options.modeGroup")}
+      >
+        {MODE_OPTIONS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={options.mode === value}
+            onClick={() => handleModeChange(value)}
+            className={`py-2 text-xs sm:text-base font-bold uppercase tracking-wide transition-all duration-300 touch-manipulation focus:outline-none focus:ring-2 focus:ring-accent ${
+              options.mode === value
+                ? "bg-accent text-button-text"
+                : "text-text-muted hover:text-accent"
+            }`}
           >
-            Character Length
-          </label>
-          {/* Display current length value */}
-          <span className={`text-accent-green text-xl sm:text-2xl md:text-3xl font-bold transition-all duration-300 transform ${
-            isSliderInteracting ? 'scale-110 text-green-400' : 'scale-100'
-          }`}>
-            {options.length}
-          </span>
-        </div>
-
-        {/* Range slider for password length */}
-        <input
-          type="range"
-          id="length"
-          min="4" // Minimum password length
-          max="50" // Maximum password length
-          value={options.length}
-          onChange={handleLengthChange}
-          onMouseDown={handleSliderMouseDown}
-          onMouseUp={handleSliderMouseUp}
-          onTouchStart={handleSliderMouseDown}
-          onTouchEnd={handleSliderMouseUp}
-          className={`w-full h-2 sm:h-2.5 bg-dark-bg rounded-full appearance-none cursor-pointer slider touch-manipulation transition-all duration-300 ${
-            isSliderInteracting ? 'scale-105' : 'hover:scale-102'
-          }`}
-          style={{
-            background: `linear-gradient(to right, #A4FFAF 0%, #A4FFAF ${
-              ((options.length - 4) / (50 - 4)) * 100
-            }%, #18171F ${((options.length - 4) / (50 - 4)) * 100}%, #18171F 100%)`,
-            transition: 'background 0.3s ease, transform 0.2s ease',
-          }}
-          aria-label="Password length"
-          aria-valuemin={4}
-          aria-valuemax={50}
-          aria-valuenow={options.length}
-          aria-valuetext={`${options.length} characters`}
-        />
+            {t(label)}
+          </button>
+        ))}
       </div>
 
-      {/* Character Type Options */}
-      <div className="space-y-3 sm:space-y-4 pt-2">
-        {/* Validation message when no options selected */}
-        {!options.uppercase &&
-          !options.lowercase &&
-          !options.numbers &&
-          !options.symbols && (
-            <p
-              className="text-red-400 text-xs sm:text-sm mb-2"
-              role="alert"
-              aria-live="polite"
-            >
-              Please select at least one character type to generate a password.
-            </p>
+      {(options.mode === "password" || options.mode === "pronounceable") && (
+        <>
+          {/* Password Length Control */}
+          <div className="space-y-3 sm:space-y-4">
+            <div className="flex items-center justify-between">
+              <label
+                htmlFor="length"
+                className="text-text-light text-sm sm:text-base md:text-lg"
+              >
+                {t("options.length")}
+              </label>
+              {/* Number field for entering the exact length */}
+              <input
+                type="number"
+                id="lengthInput"
+                min={MIN_PASSWORD_LENGTH}
+                max={MAX_PASSWORD_LENGTH}
+                step={1}
+                inputMode="numeric"
+                value={lengthInput}
+                onChange={handleLengthInputChange}
+                onBlur={handleLengthInputBlur}
+                className={`w-20 sm:w-24 bg-transparent text-end text-accent text-xl sm:text-2xl md:text-3xl font-bold transition-all duration-300 transform focus:outline-none focus:ring-2 focus:ring-accent ${
+                  isSliderInteracting ? 'scale-110 text-success' : 'scale-100'
+                } ${lengthInputError ? 'text-danger' : ''}`}
+                aria-label={t("options.lengthField")}
+                aria-invalid={lengthInputError !== null}
+                aria-describedby={lengthInputError ? "length-error" : undefined}
+              />
+            </div>
+
+            {/* Range slider for password length (stepped scale, see LENGTH_SLIDER_STOPS) */}
+            <input
+              type="range"
+              id="length"
+              min={0}
+              max={LENGTH_SLIDER_STOPS.length - 1}
+              value={lengthToSliderPosition(options.length)}
+              onChange={handleLengthChange}
+              onMouseDown={handleSliderMouseDown}
+              onMouseUp={handleSliderMouseUp}
+              onTouchStart={handleSliderMouseDown}
+              onTouchEnd={handleSliderMouseUp}
+              className={`w-full h-2 sm:h-2.5 bg-dark-bg rounded-full appearance-none cursor-pointer slider touch-manipulation transition-all duration-300 ${
+                isSliderInteracting ? 'scale-105' : 'hover:scale-102'
+              }`}
+              style={{
+                background: getSliderBackground(lengthSliderPercent, dir),
+                transition: 'background 0.3s ease, transform 0.2s ease',
+              }}
+              aria-label={t("options.lengthSlider")}
+              aria-valuemin={MIN_PASSWORD_LENGTH}
+              aria-valuemax={MAX_PASSWORD_LENGTH}
+              aria-valuenow={options.length}
+              aria-valuetext={t("options.lengthValue", { count: options.length })}
+            />
+
+            {/* Validation message for the length field */}
+            {lengthInputError && (
+              <p
+                id="length-error"
+                className="text-danger text-xs sm:text-sm"
+                role="alert"
+                aria-live="polite"
+              >
+                {lengthInputError}
+              </p>
+            )}
+          </div>
+
+          {/* Character Type Options */}
+          <div className="space-y-3 sm:space-y-4 pt-2">
+            {/* Validation message when no options selected */}
+            {options.mode === "password" &&
+              !options.uppercase &&
+              !options.lowercase &&
+              !options.numbers &&
+              !options.symbols && (
+                <p
+                  className="text-danger text-xs sm:text-sm mb-2"
+                  role="alert"
+                  aria-live="polite"
+                >
+                  {t("options.noCharacterTypes")}
+                </p>
+              )}
+            {/* Pronounceable passwords are built from letters */}
+            {options.mode === "pronounceable" &&
+              !options.uppercase &&
+              !options.lowercase && (
+                <p
+                  className="text-danger text-xs sm:text-sm mb-2"
+                  role="alert"
+                  aria-live="polite"
+                >
+                  {t("options.noLetters")}
+                </p>
+              )}
+            {/* Uppercase Letters Option */}
+            <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+              <input
+                type="checkbox"
+                checked={options.uppercase}
+                onChange={() => handleToggleOption("uppercase")}
+                className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+                aria-label={t("options.uppercaseField")}
+                aria-checked={options.uppercase}
+                role="checkbox"
+              />
+              <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+                {t("options.uppercase")}
+              </span>
+            </label>
+
+            {/* Lowercase Letters Option */}
+            <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+              <input
+                type="checkbox"
+                checked={options.lowercase}
+                onChange={() => handleToggleOption("lowercase")}
+                className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+                aria-label={t("options.lowercaseField")}
+                aria-checked={options.lowercase}
+                role="checkbox"
+              />
+              <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+                {t("options.lowercase")}
+              </span>
+            </label>
+
+            {/* Numbers Option */}
+            <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+              <input
+                type="checkbox"
+                checked={options.numbers}
+                onChange={() => handleToggleOption("numbers")}
+                className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+                aria-label={t("options.numbersField")}
+                aria-checked={options.numbers}
+                role="checkbox"
+              />
+              <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+                {t("options.numbers")}
+              </span>
+            </label>
+
+            {/* Symbols Option */}
+            <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+              <input
+                type="checkbox"
+                checked={options.symbols}
+                onChange={() => handleToggleOption("symbols")}
+                className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+                aria-label={t("options.symbolsField")}
+                aria-checked={options.symbols}
+                role="checkbox"
+              />
+              <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+                {t("options.symbols")}
+              </span>
+            </label>
+          </div>
+
+          {/* Password Policy Rules */}
+          {options.mode === "password" && (
+            <PasswordPolicyOptions
+              policy={options.policy}
+              charSets={getCharacterSets(options)}
+              length={options.length}
+              onPolicyChange={(policy) =>
+                onOptionsChange({ ...options, policy }, false)
+              }
+            />
           )}
-        {/* Uppercase Letters Option */}
-        <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
-          <input
-            type="checkbox"
-            checked={options.uppercase}
-            onChange={() => handleToggleOption("uppercase")}
-            className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent-green rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
-            aria-label="Include uppercase letters"
-            aria-checked={options.uppercase}
-            role="checkbox"
-          />
-          <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent-green transition-all duration-300 group-hover:translate-x-1">
-            Include Uppercase Letters
-          </span>
-        </label>
+        </>
+      )}
 
-        {/* Lowercase Letters Option */}
-        <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
-          <input
-            type="checkbox"
-            checked={options.lowercase}
-            onChange={() => handleToggleOption("lowercase")}
-            className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent-green rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
-            aria-label="Include lowercase letters"
-            aria-checked={options.lowercase}
-            role="checkbox"
-          />
-          <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent-green transition-all duration-300 group-hover:translate-x-1">
-            Include Lowercase Letters
-          </span>
-        </label>
+      {options.mode === "passphrase" && (
+        <>
+          {/* Passphrase Word Count Control */}
+          <div className="space-y-3 sm:space-y-4">
+            <div className="flex items-center justify-between">
+              <label
+                htmlFor="wordCount"
+                className="text-text-light text-sm sm:text-base md:text-lg"
+              >
+                {t("options.wordCount")}
+              </label>
+              {/* Display current word count */}
+              <span className={`text-accent text-xl sm:text-2xl md:text-3xl font-bold transition-all duration-300 transform ${
+                isSliderInteracting ? 'scale-110 text-success' : 'scale-100'
+              }`}>
+                {options.wordCount}
+              </span>
+            </div>
 
-        {/* Numbers Option */}
-        <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+            {/* Range slider for passphrase word count */}
+            <input
+              type="range"
+              id="wordCount"
+              min={MIN_PASSPHRASE_WORDS}
+              max={MAX_PASSPHRASE_WORDS}
+              value={options.wordCount}
+              onChange={handleWordCountChange}
+              onMouseDown={handleSliderMouseDown}
+              onMouseUp={handleSliderMouseUp}
+              onTouchStart={handleSliderMouseDown}
+              onTouchEnd={handleSliderMouseUp}
+              className={`w-full h-2 sm:h-2.5 bg-dark-bg rounded-full appearance-none cursor-pointer slider touch-manipulation transition-all duration-300 ${
+                isSliderInteracting ? 'scale-105' : 'hover:scale-102'
+              }`}
+              style={{
+                background: getSliderBackground(
+                  ((options.wordCount - MIN_PASSPHRASE_WORDS) /
+                    (MAX_PASSPHRASE_WORDS - MIN_PASSPHRASE_WORDS)) *
+                    100,
+                  dir
+                ),
+                transition: 'background 0.3s ease, transform 0.2s ease',
+              }}
+              aria-label={t("options.wordCountSlider")}
+              aria-valuemin={MIN_PASSPHRASE_WORDS}
+              aria-valuemax={MAX_PASSPHRASE_WORDS}
+              aria-valuenow={options.wordCount}
+              aria-valuetext={t("options.wordCountValue", { count: options.wordCount })}
+            />
+          </div>
+
+          {/* Separator and Capitalization Controls */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <label className="flex flex-col gap-2">
+              <span className="text-text-light text-sm sm:text-base">
+                {t("options.separator")}
+              </span>
+              <select
+                value={options.separator}
+                onChange={(event) =>
+                  onOptionsChange(
+                    { ...options, separator: event.target.value },
+                    true
+                  )
+                }
+                className="bg-dark-bg text-text-light p-2 cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent"
+                aria-label={t("options.separatorField")}
+              >
+                {SEPARATOR_OPTIONS.map(({ value, label }) => (
+                  <option key={label} value={value}>
+                    {t(label)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-2">
+              <span className="text-text-light text-sm sm:text-base">
+                {t("options.capitalization")}
+              </span>
+              <select
+                value={options.capitalization}
+                onChange={(event) =>
+                  onOptionsChange(
+                    {
+                      ...options,
+                      capitalization: event.target
+                        .value as PassphraseCapitalization,
+                    },
+                    true
+                  )
+                }
+                className="bg-dark-bg text-text-light p-2 cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent"
+                aria-label={t("options.capitalizationField")}
+              >
+                {CAPITALIZATION_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {t(label)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Passphrase Extras */}
+          <div className="space-y-3 sm:space-y-4 pt-2">
+            {/* Include Number Option */}
+            <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+              <input
+                type="checkbox"
+                checked={options.includeNumber}
+                onChange={() => handleToggleOption("includeNumber")}
+                className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+                aria-label={t("options.includeNumberField")}
+                aria-checked={options.includeNumber}
+                role="checkbox"
+              />
+              <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+                {t("options.includeNumber")}
+              </span>
+            </label>
+
+            {/* Include Symbol Option */}
+            <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+              <input
+                type="checkbox"
+                checked={options.includeSymbol}
+                onChange={() => handleToggleOption("includeSymbol")}
+                className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+                aria-label={t("options.includeSymbolField")}
+                aria-checked={options.includeSymbol}
+                role="checkbox"
+              />
+              <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+                {t("options.includeSymbol")}
+              </span>
+            </label>
+          </div>
+        </>
+      )}
+
+      {options.mode === "pin" && (
+        /* PIN Length Control */
+        <div className="space-y-3 sm:space-y-4">
+          <div className="flex items-center justify-between">
+            <label
+              htmlFor="pinLength"
+              className="text-text-light text-sm sm:text-base md:text-lg"
+            >
+              {t("options.pinLength")}
+            </label>
+            {/* Display current PIN length */}
+            <span className={`text-accent text-xl sm:text-2xl md:text-3xl font-bold transition-all duration-300 transform ${
+              isSliderInteracting ? 'scale-110 text-success' : 'scale-100'
+            }`}>
+              {options.pinLength}
+            </span>
+          </div>
+
+          {/* Range slider for PIN length */}
           <input
-            type="checkbox"
-            checked={options.numbers}
-            onChange={() => handleToggleOption("numbers")}
-            className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent-green rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
-            aria-label="Include numbers"
-            aria-checked={options.numbers}
-            role="checkbox"
+            type="range"
+            id="pinLength"
+            min={MIN_PIN_LENGTH}
+            max={MAX_PIN_LENGTH}
+            value={options.pinLength}
+            onChange={handlePinLengthChange}
+            onMouseDown={handleSliderMouseDown}
+            onMouseUp={handleSliderMouseUp}
+            onTouchStart={handleSliderMouseDown}
+            onTouchEnd={handleSliderMouseUp}
+            className={`w-full h-2 sm:h-2.5 bg-dark-bg rounded-full appearance-none cursor-pointer slider touch-manipulation transition-all duration-300 ${
+              isSliderInteracting ? 'scale-105' : 'hover:scale-102'
+            }`}
+            style={{
+              background: getSliderBackground(
+                ((options.pinLength - MIN_PIN_LENGTH) /
+                  (MAX_PIN_LENGTH - MIN_PIN_LENGTH)) *
+                  100,
+                dir
+              ),
+              transition: 'background 0.3s ease, transform 0.2s ease',
+            }}
+            aria-label={t("options.pinLengthSlider")}
+            aria-valuemin={MIN_PIN_LENGTH}
+            aria-valuemax={MAX_PIN_LENGTH}
+            aria-valuenow={options.pinLength}
+            aria-valuetext={t("options.pinLengthValue", { count: options.pinLength })}
           />
-          <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent-green transition-all duration-300 group-hover:translate-x-1">
-            Include Numbers
-          </span>
-        </label>
 
-        {/* Symbols Option */}
+          <p className="text-text-muted text-xs sm:text-sm">
+            {t("options.pinNote")}
+          </p>
+        </div>
+      )}
+
+      {/* Avoid Ambiguous Characters Option (not used for PINs) */}
+      {options.mode !== "pin" && (
         <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
           <input
             type="checkbox"
-            checked={options.symbols}
-            onChange={() => handleToggleOption("symbols")}
-            className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent-green rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
-            aria-label="Include symbols"
-            aria-checked={options.symbols}
+            checked={options.avoidAmbiguous}
+            onChange={() => handleToggleOption("avoidAmbiguous")}
+            className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+            aria-label={t("options.avoidAmbiguousField")}
+            aria-checked={options.avoidAmbiguous}
             role="checkbox"
           />
-          <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent-green transition-all duration-300 group-hover:translate-x-1">
-            Include Symbols
+          <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+            {t("options.avoidAmbiguous")}
+            <span className="block text-text-muted text-xs sm:text-sm font-mono">
+              {AMBIGUOUS_CHARS.split("").join(" ")}
+            </span>
           </span>
         </label>
-      </div>
+      )}
+
+      {/* Regenerate Breached Passwords Toggle */}
+      <label className="flex items-center gap-3 sm:gap-4 cursor-pointer group touch-manipulation min-h-[44px] sm:min-h-0">
+        <input
+          type="checkbox"
+          checked={options.rejectBreached}
+          onChange={() => handleToggleOption("rejectBreached")}
+          className="w-5 h-5 sm:w-5 sm:h-5 cursor-pointer accent-accent rounded-sm transition-all duration-300 flex-shrink-0 touch-manipulation hover:scale-110 checked:scale-105"
+          aria-label={t("options.rejectBreachedField")}
+          aria-checked={options.rejectBreached}
+          role="checkbox"
+        />
+        <span className="text-text-light text-sm sm:text-base md:text-lg group-hover:text-accent transition-all duration-300 group-hover:translate-x-1 rtl:group-hover:-translate-x-1">
+          {t("options.rejectBreached")}
+        </span>
+      </label>
+
+      {/* Advanced Character Set Options (PINs always use every digit) */}
+      {options.mode !== "pin" && (
+        <div className="border-t border-dark-bg pt-4 space-y-3 sm:space-y-4">
+          <button
+            type="button"
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="flex items-center justify-between w-full text-text-muted text-sm sm:text-base uppercase tracking-wide hover:text-accent transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-accent"
+            aria-expanded={showAdvanced}
+            aria-controls="advanced-options"
+          >
+            {t("options.advanced")}
+            <span aria-hidden="true">{showAdvanced ? "−" : "+"}</span>
+          </button>
+
+          {showAdvanced && (
+            <div id="advanced-options" className="space-y-3 sm:space-y-4">
+              {/* Custom Symbol Set */}
+              <label className="flex flex-col gap-2">
+                <span className="flex items-center justify-between text-text-light text-sm sm:text-base">
+                  {t("options.symbolSet")}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      handleCharacterSetChange("symbolChars", DEFAULT_SYMBOL_CHARS)
+                    }
+                    disabled={options.symbolChars === DEFAULT_SYMBOL_CHARS}
+                    className="text-accent text-xs uppercase disabled:opacity-50 disabled:cursor-not-allowed hover:text-text-light"
+                  >
+                    {t("options.reset")}
+                  </button>
+                </span>
+                <input
+                  type="text"
+                  value={options.symbolChars}
+                  onChange={(event) =>
+                    handleCharacterSetChange("symbolChars", event.target.value)
+                  }
+                  className="bg-dark-bg text-text-light font-mono p-2 focus:outline-none focus:ring-2 focus:ring-accent"
+                  spellCheck={false}
+                  autoComplete="off"
+                  aria-label={t("options.symbolSetField")}
+                />
+              </label>
+
+              {/* Extra Characters */}
+              <label className="flex flex-col gap-2">
+                <span className="text-text-light text-sm sm:text-base">
+                  {t("options.extraChars")}
+                </span>
+                <input
+                  type="text"
+                  value={options.extraChars}
+                  onChange={(event) =>
+                    handleCharacterSetChange("extraChars", event.target.value)
+                  }
+                  placeholder={t("options.extraCharsPlaceholder")}
+                  className="bg-dark-bg text-text-light font-mono p-2 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+                  spellCheck={false}
+                  autoComplete="off"
+                  aria-label={t("options.extraCharsField")}
+                />
+              </label>
+
+              {/* Excluded Characters */}
+              <label className="flex flex-col gap-2">
+                <span className="text-text-light text-sm sm:text-base">
+                  {t("options.excludeChars")}
+                </span>
+                <input
+                  type="text"
+                  value={options.excludeChars}
+                  onChange={(event) =>
+                    handleCharacterSetChange("excludeChars", event.target.value)
+                  }
+                  placeholder={t("options.excludeCharsPlaceholder")}
+                  className="bg-dark-bg text-text-light font-mono p-2 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+                  spellCheck={false}
+                  autoComplete="off"
+                  aria-label={t("options.excludeCharsField")}
+                />
+              </label>
+            </div>
+          )}
+
+          {/* Validation messages for classes emptied by exclusions */}
+          {characterSetErrors.length > 0 && (
+            <ul
+              className="text-danger text-xs sm:text-sm space-y-1"
+              role="alert"
+              aria-live="polite"
+            >
+              {characterSetErrors.map((error, index) => (
+                <li key={index}>{t(error.key, error.params)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 };
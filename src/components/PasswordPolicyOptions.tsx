@@ -0,0 +1,222 @@
+import { useState } from "react";
+import {
+  CharacterSet,
+  ClassCountRule,
+  PasswordPolicy,
+  PositionRule,
+} from "../types";
+import { getPolicyErrors, POSITION_RULE_LABELS } from "../utils/passwordPolicy";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for PasswordPolicyOptions component
+ */
+interface PasswordPolicyOptionsProps {
+  policy: PasswordPolicy; // Current password policy
+  charSets: CharacterSet[]; // Enabled character sets (one row per class)
+  length: number; // Current password length (used for feasibility checks)
+  onPolicyChange: (policy: PasswordPolicy) => void; // Callback when policy changes
+}
+
+/**
+ * Parses a numeric policy field
+ *
+ * @param value - Raw input value
+ * @returns The non-negative integer entered, or null if the field is empty
+ */
+const parsePolicyNumber = (value: string): number | null => {
+  if (value.trim() === "") return null;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : Math.max(0, parsed);
+};
+
+/**
+ * PasswordPolicyOptions Component
+ *
+ * Collapsible section of PasswordOptions for policy compliance rules:
+ * - Minimum and maximum count per selected character class
+ * - Maximum run of identical consecutive characters
+ * - Rules for the first and last character
+ *
+ * Shows why the policy can't be satisfied for the current length, if it can't
+ */
+export const PasswordPolicyOptions = ({
+  policy,
+  charSets,
+  length,
+  onPolicyChange,
+}: PasswordPolicyOptionsProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const policyErrors = getPolicyErrors(charSets, length, policy);
+  const { t } = useI18n();
+
+  /**
+   * Updates the min or max count rule for one character class
+   *
+   * @param key - The class being updated
+   * @param rule - The new count rule
+   */
+  const handleClassRuleChange = (
+    key: CharacterSet["key"],
+    rule: ClassCountRule
+  ) => {
+    onPolicyChange({
+      ...policy,
+      classRules: { ...policy.classRules, [key]: rule },
+    });
+  };
+
+  /**
+   * Updates the first or last character rule
+   *
+   * @param position - Which position rule to update
+   * @param rule - The new position rule
+   */
+  const handlePositionRuleChange = (
+    position: "firstChar" | "lastChar",
+    rule: PositionRule
+  ) => {
+    onPolicyChange({ ...policy, [position]: rule });
+  };
+
+  return (
+    <div className="border-t border-dark-bg pt-4 space-y-3 sm:space-y-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center justify-between w-full text-text-muted text-sm sm:text-base uppercase tracking-wide hover:text-accent transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-accent"
+        aria-expanded={isExpanded}
+        aria-controls="policy-options"
+      >
+        {t("policy.title")}
+        <span aria-hidden="true">{isExpanded ? "−" : "+"}</span>
+      </button>
+
+      {isExpanded && (
+        <div id="policy-options" className="space-y-3 sm:space-y-4">
+          {/* Per-class min/max counts */}
+          <table className="w-full text-text-light text-sm sm:text-base">
+            <thead>
+              <tr className="text-text-muted text-xs sm:text-sm uppercase">
+                <th className="text-start font-normal pb-2">{t("policy.class")}</th>
+                <th className="text-start font-normal pb-2">{t("policy.min")}</th>
+                <th className="text-start font-normal pb-2">{t("policy.max")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {charSets.map(({ key }) => (
+                <tr key={key}>
+                  <td className="py-1 pe-2">{t(`characterClass.${key}`)}</td>
+                  <td className="py-1 pe-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={length}
+                      value={policy.classRules[key].min}
+                      onChange={(event) =>
+                        handleClassRuleChange(key, {
+                          ...policy.classRules[key],
+                          min: parsePolicyNumber(event.target.value) ?? 0,
+                        })
+                      }
+                      className="w-16 bg-dark-bg text-text-light p-1 focus:outline-none focus:ring-2 focus:ring-accent"
+                      aria-label={t("policy.minField", {
+                        class: t(`characterClassNoun.${key}`),
+                      })}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={length}
+                      value={policy.classRules[key].max ?? ""}
+                      placeholder="∞"
+                      onChange={(event) =>
+                        handleClassRuleChange(key, {
+                          ...policy.classRules[key],
+                          max: parsePolicyNumber(event.target.value),
+                        })
+                      }
+                      className="w-16 bg-dark-bg text-text-light p-1 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+                      aria-label={t("policy.maxField", {
+                        class: t(`characterClassNoun.${key}`),
+                      })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Maximum run of identical characters */}
+          <label className="flex items-center justify-between gap-3 text-text-light text-sm sm:text-base">
+            {t("policy.maxRun")}
+            <input
+              type="number"
+              min={1}
+              max={length}
+              value={policy.maxRunLength ?? ""}
+              placeholder="∞"
+              onChange={(event) =>
+                onPolicyChange({
+                  ...policy,
+                  maxRunLength: parsePolicyNumber(event.target.value),
+                })
+              }
+              className="w-16 bg-dark-bg text-text-light p-1 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+              aria-label={t("policy.maxRunField")}
+            />
+          </label>
+
+          {/* First and last character rules */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            {(
+              [
+                ["firstChar", "policy.firstChar"],
+                ["lastChar", "policy.lastChar"],
+              ] as const
+            ).map(([position, label]) => (
+              <label key={position} className="flex flex-col gap-2">
+                <span className="text-text-light text-sm sm:text-base">
+                  {t(label)}
+                </span>
+                <select
+                  value={policy[position]}
+                  onChange={(event) =>
+                    handlePositionRuleChange(
+                      position,
+                      event.target.value as PositionRule
+                    )
+                  }
+                  className="bg-dark-bg text-text-light p-2 cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent"
+                >
+                  {(Object.keys(POSITION_RULE_LABELS) as PositionRule[]).map(
+                    (rule) => (
+                      <option key={rule} value={rule}>
+                        {t(`policy.position.${rule}`)}
+                      </option>
+                    )
+                  )}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Reasons the policy can't be satisfied */}
+      {policyErrors.length > 0 && (
+        <ul
+          className="text-danger text-xs sm:text-sm space-y-1"
+          role="alert"
+          aria-live="polite"
+        >
+          {policyErrors.map((error, index) => (
+            <li key={index}>{t(error.key, error.params)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import { FormEvent, useRef, useState } from "react";
+import { PasswordOptions, Preset } from "../types";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for PresetSelector component
+ */
+interface PresetSelectorProps {
+  presets: Preset[]; // Built-in and user presets
+  activePreset: Preset | null; // Selected preset
+  options: PasswordOptions; // Current options (to detect unsaved changes)
+  error: string | null; // Last save/import error
+  onSelect: (preset: Preset | null) => void; // Callback when a preset is chosen
+  onSave: (name: string) => void; // Callback to save current options
+  onDelete: (id: string) => void; // Callback to delete a user preset
+  onImport: (file: File) => void; // Callback with a chosen preset file
+  onExport: () => void; // Callback to download user presets
+}
+
+/**
+ * Value used in the dropdown when the options don't match any preset
+ */
+const CUSTOM_VALUE = "";
+
+/**
+ * PresetSelector Component
+ *
+ * Switches between saved generation presets
+ *
+ * Features:
+ * - Dropdown of built-in and user presets
+ * - Shows "Custom" once the options are changed from the selected preset
+ * - Save current options under a name, delete user presets
+ * - Import and export user presets as a JSON file
+ */
+export const PresetSelector = ({
+  presets,
+  activePreset,
+  options,
+  error,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+}: PresetSelectorProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
+
+  // The preset only counts as selected while the options still match it
+  const isModified =
+    activePreset !== null &&
+    JSON.stringify(activePreset.options) !== JSON.stringify(options);
+  const selectedValue =
+    activePreset && !isModified ? activePreset.id : CUSTOM_VALUE;
+
+  /**
+   * Handles a dropdown change
+   *
+   * @param event - Change event from the select
+   */
+  const handleSelect = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = presets.find(({ id }) => id === event.target.value);
+    onSelect(preset ?? null);
+  };
+
+  /**
+   * Saves the current options under the entered name
+   *
+   * @param event - Form submit event
+   */
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onSave(name);
+    setName("");
+    setIsSaving(false);
+  };
+
+  /**
+   * Passes the chosen file to onImport and resets the input
+   *
+   * @param event - Change event from the file input
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    event.target.value = "";
+  };
+
+  const canDelete = activePreset !== null && !activePreset.builtIn && !isModified;
+
+  return (
+    <div className="bg-app-bg p-4 sm:p-5 md:p-6 pb-0 sm:pb-0 md:pb-0 space-y-3">
+      <div className="flex items-center gap-3">
+        <label
+          htmlFor="presetSelect"
+          className="text-text-light text-sm sm:text-base flex-shrink-0"
+        >
+          {t("preset.label")}
+        </label>
+        <select
+          id="presetSelect"
+          value={selectedValue}
+          onChange={handleSelect}
+          className="flex-1 min-w-0 bg-dark-bg text-text-light p-2 cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          <option value={CUSTOM_VALUE}>{t("preset.custom")}</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        <button
+          type="button"
+          onClick={() => setIsSaving(!isSaving)}
+          className="text-accent text-xs uppercase hover:text-text-light"
+          aria-expanded={isSaving}
+        >
+          {t("preset.saveAs")}
+        </button>
+        <button
+          type="button"
+          onClick={() => activePreset && onDelete(activePreset.id)}
+          disabled={!canDelete}
+          className="text-accent text-xs uppercase disabled:opacity-50 disabled:cursor-not-allowed hover:text-text-light"
+        >
+          {t("preset.delete")}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="text-accent text-xs uppercase hover:text-text-light"
+        >
+          {t("preset.import")}
+        </button>
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={!presets.some(({ builtIn }) => !builtIn)}
+          className="text-accent text-xs uppercase disabled:opacity-50 disabled:cursor-not-allowed hover:text-text-light"
+        >
+          {t("preset.export")}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+          aria-label={t("preset.importFile")}
+        />
+      </div>
+
+      {/* Save current options as a preset */}
+      {isSaving && (
+        <form onSubmit={handleSave} className="flex gap-2">
+          <label htmlFor="presetName" className="sr-only">
+            {t("preset.name")}
+          </label>
+          <input
+            id="presetName"
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder={t("preset.name")}
+            maxLength={50}
+            className="flex-1 min-w-0 bg-dark-bg text-text-light p-2 placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+            autoComplete="off"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="py-2 px-4 bg-accent text-button-text font-bold text-sm uppercase disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-app-bg"
+          >
+            {t("common.save")}
+          </button>
+        </form>
+      )}
+
+      {/* Error message */}
+      {error && (
+        <p className="text-danger text-sm" role="alert" aria-live="polite">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
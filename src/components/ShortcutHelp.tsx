@@ -0,0 +1,188 @@
+import { useEffect, useRef, useState } from "react";
+import { ShortcutAction, ShortcutBindings, ShortcutGroup } from "../types";
+import { getEventBinding, SHORTCUTS } from "../utils/shortcutUtils";
+import { useI18n } from "../hooks/useI18n";
+import { ShortcutKeys } from "./ShortcutKeys";
+
+/**
+ * Props interface for ShortcutHelp component
+ */
+interface ShortcutHelpProps {
+  bindings: ShortcutBindings; // Key combination bound to each action
+  error: string | null; // Error from the last rebind
+  onChange: (action: ShortcutAction, binding: string | null) => boolean; // Callback to rebind an action (null to unbind)
+  onReset: () => void; // Callback to restore the default bindings
+  onClose: () => void; // Callback to close the dialog
+}
+
+/**
+ * Registry entries grouped under their headings, in registry order
+ */
+const SHORTCUT_GROUPS = SHORTCUTS.reduce<Partial<Record<ShortcutGroup, typeof SHORTCUTS>>>(
+  (groups, shortcut) => {
+    groups[shortcut.group] = [...(groups[shortcut.group] ?? []), shortcut];
+    return groups;
+  },
+  {}
+);
+
+/**
+ * ShortcutHelp Component
+ *
+ * Modal listing every keyboard shortcut, where each one can be changed
+ *
+ * Features:
+ * - Shortcuts grouped by what they affect
+ * - "Change" records the next key combination (Escape cancels)
+ * - Shortcuts can be removed, or all reset to the defaults
+ * - Combinations already in use are rejected with an explanation
+ * - Returns focus to where it was when closed
+ */
+export const ShortcutHelp = ({
+  bindings,
+  error,
+  onChange,
+  onReset,
+  onClose,
+}: ShortcutHelpProps) => {
+  // Action waiting for its new key combination
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
+
+  // Focus the dialog on open and restore focus on close
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    dialogRef.current?.focus();
+    return () => previousFocus?.focus();
+  }, []);
+
+  /**
+   * Handles key presses inside the dialog
+   * While recording, the pressed combination becomes the new binding;
+   * otherwise Escape closes the dialog
+   *
+   * @param event - Keyboard event from the dialog
+   */
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!recordingAction) {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        onClose();
+      }
+      return;
+    }
+
+    // Let Tab move focus as usual so keyboard users can't get stuck
+    if (event.key === "Tab") {
+      setRecordingAction(null);
+      return;
+    }
+
+    event.preventDefault();
+    if (event.key === "Escape") {
+      setRecordingAction(null);
+      return;
+    }
+    const binding = getEventBinding(event.nativeEvent);
+    if (!binding) return;
+    onChange(recordingAction, binding);
+    setRecordingAction(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-page-bg/80 p-4 pt-[10vh]"
+      onMouseDown={(event) => {
+        // Clicking the backdrop closes the dialog
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-md max-h-[80vh] overflow-y-auto bg-app-bg p-4 sm:p-5 md:p-6 space-y-4 shadow-xl focus:outline-none"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <h2 id="shortcut-help-title" className="text-text-light text-lg font-bold">
+            {t("shortcuts.title")}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-accent text-xs uppercase hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {t("common.close")}
+          </button>
+        </div>
+
+        {(Object.keys(SHORTCUT_GROUPS) as ShortcutGroup[]).map((group) => (
+          <section key={group} className="space-y-2">
+            <h3 className="text-text-muted text-xs uppercase tracking-wide">
+              {t(`shortcutGroup.${group}`)}
+            </h3>
+            <ul className="space-y-2">
+              {SHORTCUT_GROUPS[group]?.map(({ action }) => (
+                <li key={action} className="flex items-center justify-between gap-3">
+                  <span className="text-text-light text-sm">{t(`shortcut.${action}`)}</span>
+                  <span className="flex items-center gap-3 flex-shrink-0">
+                    {recordingAction === action ? (
+                      <span className="text-accent text-xs" role="status">
+                        {t("shortcuts.pressKeys")}
+                      </span>
+                    ) : (
+                      <ShortcutKeys binding={bindings[action]} />
+                    )}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setRecordingAction(recordingAction === action ? null : action)
+                      }
+                      aria-label={t("shortcuts.changeFor", { action: t(`shortcut.${action}`) })}
+                      aria-pressed={recordingAction === action}
+                      className="text-accent text-xs uppercase hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+                    >
+                      {t("shortcuts.change")}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onChange(action, null)}
+                      disabled={!bindings[action]}
+                      aria-label={t("shortcuts.removeFor", { action: t(`shortcut.${action}`) })}
+                      className="text-accent text-xs uppercase disabled:opacity-50 disabled:cursor-not-allowed hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+                    >
+                      {t("shortcuts.remove")}
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+
+        <p className="text-text-muted text-xs">
+          {t("shortcuts.typingNote")}
+        </p>
+
+        {/* Error message */}
+        {error && (
+          <p className="text-danger text-sm" role="alert" aria-live="polite">
+            {error}
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={onReset}
+          className="text-accent text-xs uppercase hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          {t("shortcuts.reset")}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { formatBinding } from "../utils/shortcutUtils";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for ShortcutKeys component
+ */
+interface ShortcutKeysProps {
+  binding: string | null; // Binding to show, e.g. "Mod+K" (null for none)
+}
+
+/**
+ * ShortcutKeys Component
+ *
+ * Shows a key combination as key caps, using the platform's key names
+ * (Ctrl or ⌘). Unbound actions show a dash.
+ */
+export const ShortcutKeys = ({ binding }: ShortcutKeysProps) => {
+  const { t } = useI18n();
+
+  if (!binding) {
+    return (
+      <span className="text-text-muted text-xs">
+        <span aria-hidden="true">—</span>
+        <span className="sr-only">{t("shortcuts.none")}</span>
+      </span>
+    );
+  }
+
+  const keys = formatBinding(binding);
+  return (
+    <span className="flex items-center gap-1">
+      <span className="sr-only">{keys.join(" + ")}</span>
+      {keys.map((key, index) => (
+        <kbd
+          key={index}
+          aria-hidden="true"
+          className="min-w-[1.5rem] px-1.5 py-0.5 bg-dark-bg text-text-light text-xs font-mono text-center rounded border border-text-muted/40"
+        >
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+};
@@ -1,11 +1,49 @@
-import { StrengthResult } from "../types";
+import { AttackScenario, StrengthResult } from "../types";
 import { useEffect, useState } from "react";
+import { ATTACK_RATES, describeCrackTime } from "../utils/passwordUtils";
+import { useMotion } from "../hooks/useMotion";
+import { useI18n } from "../hooks/useI18n";
+import { MessageKey } from "../locales";
+import { calculateGuessChance, PIN_ATTEMPT_LIMITS } from "../utils/pinUtils";
+
+/**
+ * Messages describing what happens at each PIN attempt limit
+ */
+const PIN_ATTEMPT_MESSAGES: Record<number, MessageKey> = {
+  3: "strength.cardBlocked",
+  10: "strength.phoneWiped",
+};
+
+/**
+ * Smallest chance shown as a number; anything lower reads "< 0.0001%"
+ */
+const MIN_SHOWN_CHANCE = 0.000001;
+
+/**
+ * Attacker models shown for PINs: they are only meaningful behind a rate limit,
+ * since any PIN falls instantly to an offline attack
+ */
+const PIN_ATTACK_SCENARIOS: AttackScenario[] = ["onlineThrottled", "onlineUnthrottled"];
+
+/**
+ * Theme colour classes for each strength level (0-4), from the status tokens
+ * so every theme keeps them readable
+ */
+const STRENGTH_LEVEL_COLORS: { bar: string; text: string }[] = [
+  { bar: "bg-danger", text: "text-danger" }, // Too weak
+  { bar: "bg-warning", text: "text-warning" }, // Weak
+  { bar: "bg-warning", text: "text-warning" }, // Medium
+  { bar: "bg-success", text: "text-success" }, // Strong
+  { bar: "bg-success", text: "text-success" }, // Very strong
+];
 
 /**
  * Props interface for StrengthIndicator component
  */
 interface StrengthIndicatorProps {
   strength: StrengthResult; // Strength calculation result
+  breachCount?: number | null; // Times seen in breaches (null while checking)
+  isPin?: boolean; // Show guess chances under attempt limits instead of crack times
 }
 
 /**
@@ -14,109 +52,168 @@ interface StrengthIndicatorProps {
  * Displays the password strength with:
  * - Visual strength bars (0-4 bars)
  * - Color-coded strength levels
- * - Text label (TOO WEAK, WEAK, MEDIUM, STRONG, VERY STRONG)
+ * - Translated text label (TOO WEAK, WEAK, MEDIUM, STRONG, VERY STRONG in English)
+ * - Entropy in bits and estimated crack times per attacker model
+ * - For PINs: the chance of guessing within common attempt limits
+ * - A warning when the password is found in the breach list
  *
- * Strength levels:
- * - 0: TOO WEAK (red)
- * - 1: WEAK (orange/yellow)
- * - 2: MEDIUM (yellow)
- * - 3: STRONG (green)
- * - 4: VERY STRONG (green)
+ * Strength levels map to entropy bands (see STRENGTH_BANDS):
+ * - 0: TOO WEAK, < 28 bits (danger)
+ * - 1: WEAK, 28-35 bits (warning)
+ * - 2: MEDIUM, 36-59 bits (warning)
+ * - 3: STRONG, 60-79 bits (success)
+ * - 4: VERY STRONG, 80+ bits (success)
+ * PINs use PIN_STRENGTH_BANDS instead.
  */
-export const StrengthIndicator = ({ strength }: StrengthIndicatorProps) => {
+export const StrengthIndicator = ({
+  strength,
+  breachCount = null,
+  isPin = false,
+}: StrengthIndicatorProps) => {
   const [animatedBars, setAnimatedBars] = useState<number[]>([]);
-  const [prevStrength, setPrevStrength] = useState<number>(strength.level);
+  const { schedule, cancelScheduled } = useMotion();
+  const { t, formatNumber } = useI18n();
 
-  // Animate bars when strength changes
-  useEffect(() => {
-    if (prevStrength !== strength.level) {
-      setAnimatedBars([]);
-      // Stagger the animation for each bar
-      for (let i = 0; i <= strength.level; i++) {
-        setTimeout(() => {
-          setAnimatedBars(prev => [...prev, i]);
-        }, i * 100); // 100ms delay between each bar
-      }
-      setPrevStrength(strength.level);
-    } else if (animatedBars.length === 0 && strength.level > 0) {
-      // Initial animation on mount
-      for (let i = 0; i <= strength.level; i++) {
-        setTimeout(() => {
-          setAnimatedBars(prev => [...prev, i]);
-        }, i * 100);
-      }
+  /**
+   * Formats a probability as a short percentage, e.g. "0.033%" or "< 0.0001%"
+   *
+   * @param chance - Probability from 0 to 1
+   */
+  const formatChance = (chance: number): string => {
+    const percent = { style: "percent", maximumSignificantDigits: 2 } as const;
+    if (chance < MIN_SHOWN_CHANCE) {
+      return t("strength.chanceBelow", {
+        chance: formatNumber(MIN_SHOWN_CHANCE, percent),
+      });
     }
-  }, [strength.level, prevStrength, animatedBars.length]);
-
-  // Don't render if no strength data (password not generated yet)
-  if (!strength.label) {
-    return null;
-  }
+    return formatNumber(chance, percent);
+  };
 
   /**
-   * Gets the color class based on strength level
+   * Formats a crack time in the largest unit that fits, e.g. "3 hours"
    *
-   * @param level - Strength level (0-4)
-   * @returns Tailwind CSS class for the color
+   * @param seconds - Crack time in seconds
    */
-  const getStrengthColor = (level: number): string => {
-    switch (level) {
-      case 0:
-        return "bg-red-500"; // Too weak - red
-      case 1:
-        return "bg-strength-yellow"; // Weak - yellow/orange
-      case 2:
-        return "bg-strength-yellow"; // Medium - yellow
-      case 3:
-        return "bg-accent-green"; // Strong - green
-      case 4:
-        return "bg-accent-green"; // Very strong - green
-      default:
-        return "bg-gray-500"; // Default fallback
-    }
+  const formatCrackTime = (seconds: number): string => {
+    const { unit, count } = describeCrackTime(seconds);
+    return t(`crackTime.${unit}`, { count });
   };
 
+  // Animate bars when strength changes, staggered 100ms apart
+  useEffect(() => {
+    cancelScheduled();
+    setAnimatedBars([]);
+    for (let i = 0; i <= strength.level; i++) {
+      schedule(() => {
+        setAnimatedBars(prev => [...prev, i]);
+      }, i * 100);
+    }
+    return cancelScheduled;
+  }, [strength.level, schedule, cancelScheduled]);
+
+  // Don't render if no strength data (password not generated yet)
+  if (!strength.key) {
+    return null;
+  }
+
   return (
-    <div className="bg-dark-bg p-4 sm:p-5 md:p-6 mx-4 sm:mx-5 md:mx-6 mb-4 sm:mb-5 md:mb-6 flex items-center justify-between gap-2 sm:gap-4">
-      {/* Strength Label */}
-      <span className="text-text-muted text-xs sm:text-sm md:text-base uppercase flex-shrink-0">
-        Strength
-      </span>
-
-      {/* Strength Bars and Label */}
-      <div className="flex items-center gap-2 sm:gap-3 md:gap-4 flex-shrink-0">
-        {/* Strength Label Text */}
-        <span
-          className={`text-sm sm:text-base md:text-lg font-bold uppercase ${
-            strength.level === 0
-              ? "text-red-500"
-              : strength.level === 1
-              ? "text-strength-yellow"
-              : strength.level === 2
-              ? "text-strength-yellow"
-              : "text-accent-green"
-          }`}
-        >
-          {strength.label}
+    <div className="bg-dark-bg p-4 sm:p-5 md:p-6 mx-4 sm:mx-5 md:mx-6 mb-4 sm:mb-5 md:mb-6 space-y-3">
+      <div className="flex items-center justify-between gap-2 sm:gap-4">
+        {/* Strength Label */}
+        <span className="text-text-muted text-xs sm:text-sm md:text-base uppercase flex-shrink-0">
+          {t("strength.title")}
         </span>
 
-        {/* Strength Bars */}
-        <div className="flex gap-1.5 sm:gap-2">
-          {[0, 1, 2, 3].map((index) => (
-            <div
-              key={index}
-              className={`w-2 sm:w-2.5 h-6 sm:h-7 border-2 transition-all duration-300 transform ${
-                animatedBars.includes(index) && index < strength.level
-                  ? `${getStrengthColor(strength.level)} border-transparent scale-110`
-                  : index < strength.level
-                  ? `${getStrengthColor(strength.level)} border-transparent scale-100`
-                  : "bg-transparent border-text-light scale-100"
-              }`}
-              aria-hidden="true"
-            />
-          ))}
+        {/* Strength Bars and Label */}
+        <div className="flex items-center gap-2 sm:gap-3 md:gap-4 flex-shrink-0">
+          {/* Strength Label Text */}
+          <span
+            className={`text-sm sm:text-base md:text-lg font-bold uppercase ${
+              STRENGTH_LEVEL_COLORS[strength.level].text
+            }`}
+          >
+            {t(`strength.${strength.key}`)}
+          </span>
+
+          {/* Strength Bars */}
+          <div className="flex gap-1.5 sm:gap-2">
+            {[0, 1, 2, 3].map((index) => (
+              <div
+                key={index}
+                className={`w-2 sm:w-2.5 h-6 sm:h-7 border-2 transition-all duration-300 transform ${
+                  animatedBars.includes(index) && index < strength.level
+                    ? `${STRENGTH_LEVEL_COLORS[strength.level].bar} border-transparent scale-110`
+                    : index < strength.level
+                    ? `${STRENGTH_LEVEL_COLORS[strength.level].bar} border-transparent scale-100`
+                    : "bg-transparent border-text-light scale-100"
+                }`}
+                aria-hidden="true"
+              />
+            ))}
+          </div>
         </div>
       </div>
+
+      {/* Breach warning */}
+      {breachCount !== null && breachCount > 0 && (
+        <p
+          className="text-danger text-xs sm:text-sm font-bold"
+          role="alert"
+          aria-live="polite"
+        >
+          {t("strength.breached", { count: breachCount })}
+        </p>
+      )}
+
+      {/* PIN guess chances under attempt limits */}
+      {isPin && (
+        <dl className="text-text-muted text-xs sm:text-sm grid grid-cols-2 gap-x-4 gap-y-1">
+          <dt>{t("strength.possiblePins")}</dt>
+          <dd className="text-text-light text-end">
+            {formatNumber(Math.floor(2 ** strength.bits))}
+          </dd>
+          {PIN_ATTEMPT_LIMITS.map(({ attempts }) => (
+            <div key={attempts} className="contents">
+              <dt>{t(PIN_ATTEMPT_MESSAGES[attempts], { count: attempts })}</dt>
+              <dd className="text-text-light text-end">
+                {t("strength.chance", {
+                  chance: formatChance(calculateGuessChance(strength.bits, attempts)),
+                })}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {/* Entropy and crack-time breakdown */}
+      <div className="text-text-muted text-xs sm:text-sm space-y-1">
+        <p>
+          {t("strength.entropy")}{" "}
+          <span className="text-text-light font-bold">
+            {t("common.bits", {
+              bits: formatNumber(strength.bits, {
+                minimumFractionDigits: 1,
+                maximumFractionDigits: 1,
+              }),
+            })}
+          </span>
+        </p>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+          {(isPin
+            ? PIN_ATTACK_SCENARIOS
+            : (Object.keys(ATTACK_RATES) as AttackScenario[])
+          ).map(
+            (scenario) => (
+              <div key={scenario} className="contents">
+                <dt>{t(`attack.${scenario}`)}</dt>
+                <dd className="text-text-light text-end">
+                  {formatCrackTime(strength.crackTime[scenario])}
+                </dd>
+              </div>
+            )
+          )}
+        </dl>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,78 @@
+import { AccentColor, ThemePreference } from "../types";
+import { ACCENT_OPTIONS, THEME_OPTIONS } from "../utils/themeUtils";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for ThemeSelector component
+ */
+interface ThemeSelectorProps {
+  preference: ThemePreference; // Chosen theme ("system" follows the OS)
+  accent: AccentColor; // Chosen accent colour
+  onPreferenceChange: (preference: ThemePreference) => void; // Callback when the theme changes
+  onAccentChange: (accent: AccentColor) => void; // Callback when the accent changes
+}
+
+/**
+ * ThemeSelector Component
+ *
+ * Appearance settings shown below the app
+ *
+ * Features:
+ * - System, dark, light and high-contrast themes
+ * - Accent colour swatches, shown in the current theme's shade
+ */
+export const ThemeSelector = ({
+  preference,
+  accent,
+  onPreferenceChange,
+  onAccentChange,
+}: ThemeSelectorProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3">
+      {/* Theme Switch */}
+      <div
+        className="flex flex-wrap gap-1 bg-app-bg p-1 rounded"
+        role="radiogroup"
+        aria-label={t("theme.label")}
+      >
+        {THEME_OPTIONS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={preference === value}
+            onClick={() => onPreferenceChange(value)}
+            className={`py-1 px-2 text-xs uppercase rounded transition-all duration-300 touch-manipulation focus:outline-none focus:ring-2 focus:ring-accent ${
+              preference === value
+                ? "bg-accent text-button-text font-bold"
+                : "text-text-muted hover:text-accent"
+            }`}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+
+      {/* Accent Swatches */}
+      <div className="flex gap-2" role="radiogroup" aria-label={t("accent.label")}>
+        {ACCENT_OPTIONS.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={accent === value}
+            aria-label={t(label)}
+            title={t(label)}
+            onClick={() => onAccentChange(value)}
+            className={`w-6 h-6 rounded-full border-2 transition-all duration-300 touch-manipulation focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-page-bg ${
+              accent === value ? "border-text-light scale-110" : "border-transparent"
+            }`}
+            style={{ backgroundColor: `rgb(var(--accent-${value}))` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * Props interface for UpdatePrompt component
+ */
+interface UpdatePromptProps {
+  onUpdate: () => void; // Callback to switch to the new version
+  onDismiss: () => void; // Callback to keep using the current version
+}
+
+/**
+ * UpdatePrompt Component
+ *
+ * Banner shown when a new version of the app has been downloaded
+ *
+ * Features:
+ * - Announced politely so it doesn't interrupt screen reader users
+ * - Reloading is the user's choice, so a password on screen is never lost
+ */
+export const UpdatePrompt = ({ onUpdate, onDismiss }: UpdatePromptProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-[540px] flex flex-wrap items-center justify-between gap-3 bg-app-bg border border-accent p-3 sm:p-4 shadow-xl"
+    >
+      <p className="text-text-light text-sm">{t("update.available")}</p>
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-text-muted text-xs uppercase hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          {t("update.later")}
+        </button>
+        <button
+          type="button"
+          onClick={onUpdate}
+          className="text-accent text-xs font-bold uppercase hover:text-text-light focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          {t("update.reload")}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -7,7 +7,23 @@
  */
 
 export { PasswordDisplay } from "./PasswordDisplay";
+export { ClipboardStatus } from "./ClipboardStatus";
 export { PasswordOptions } from "./PasswordOptions";
+export { PresetSelector } from "./PresetSelector";
+export { PasswordPolicyOptions } from "./PasswordPolicyOptions";
+export { PasswordChecker } from "./PasswordChecker";
+export { BreachListSelector } from "./BreachListSelector";
 export { StrengthIndicator } from "./StrengthIndicator";
 export { GenerateButton } from "./GenerateButton";
 export { ErrorBoundary } from "./ErrorBoundary";
+export { BulkGenerator } from "./BulkGenerator";
+export { PasswordHistory } from "./PasswordHistory";
+export { ShortcutKeys } from "./ShortcutKeys";
+export { ShortcutHelp } from "./ShortcutHelp";
+export { CommandPalette } from "./CommandPalette";
+export { UpdatePrompt } from "./UpdatePrompt";
+export { ThemeSelector } from "./ThemeSelector";
+export { MotionSelector } from "./MotionSelector";
+export { MotionProvider } from "./MotionProvider";
+export { I18nProvider } from "./I18nProvider";
+export { LanguageSelector } from "./LanguageSelector";
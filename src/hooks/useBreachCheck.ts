@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from "react";
+import { BreachRangeProvider, MessageDescriptor } from "../types";
+import {
+  bundledRangeProvider,
+  checkPasswordBreach,
+  createFileRangeProvider,
+} from "../utils/breachCheck";
+import { getErrorDescriptor } from "../utils/messageFormat";
+import { useI18n } from "./useI18n";
+
+/**
+ * Custom React hook for choosing the breach list passwords are checked against
+ *
+ * This hook encapsulates the breach list source:
+ * - The bundled common-password list by default
+ * - A user-supplied file in HIBP "HASH:COUNT" format (kept in memory only)
+ *
+ * @returns An object containing:
+ *   - provider: The active range provider
+ *   - error: Error message from the last file load, if any
+ *   - loadFile: Function to use a breach file chosen by the user
+ *   - resetProvider: Function to go back to the bundled list
+ */
+export const useBreachList = () => {
+  // Active range provider
+  const [provider, setProvider] =
+    useState<BreachRangeProvider>(bundledRangeProvider);
+
+  // Last file load error (shown in the UI)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  const { t } = useI18n();
+
+  /**
+   * Uses a breach file chosen by the user
+   *
+   * @param file - File in HIBP "HASH:COUNT" format
+   */
+  const loadFile = useCallback(async (file: File) => {
+    try {
+      setProvider(createFileRangeProvider(file.name, await file.text()));
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load breach file:", err);
+      setError(getErrorDescriptor(err));
+    }
+  }, []);
+
+  /**
+   * Goes back to the bundled list
+   */
+  const resetProvider = useCallback(() => {
+    setProvider(bundledRangeProvider);
+    setError(null);
+  }, []);
+
+  return {
+    provider, // Active range provider
+    error: error && t(error.key, error.params), // Last error message
+    loadFile, // Function to load a breach file
+    resetProvider, // Function to use the bundled list
+  };
+};
+
+/**
+ * Custom React hook for checking a password against a breach list
+ * Re-checks whenever the password or provider changes; stale results are ignored
+ *
+ * @param password - The password to check (empty passwords aren't checked)
+ * @param provider - The range provider to look the password up in
+ *
+ * @returns An object containing:
+ *   - breachCount: Times seen in breaches, or null while unchecked
+ *   - error: Error message if the lookup failed
+ */
+export const useBreachCheck = (
+  password: string,
+  provider: BreachRangeProvider
+) => {
+  // Result of the latest completed check
+  const [breachCount, setBreachCount] = useState<number | null>(null);
+
+  // Lookup error (e.g. a remote provider is unreachable)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let isCurrent = true;
+    setBreachCount(null);
+    setError(null);
+
+    if (password) {
+      checkPasswordBreach(password, provider)
+        .then((count) => {
+          if (isCurrent) setBreachCount(count);
+        })
+        .catch((err) => {
+          console.error("Failed to check password against breaches:", err);
+          if (isCurrent) {
+            setError(getErrorDescriptor(err));
+          }
+        });
+    }
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [password, provider]);
+
+  return {
+    breachCount, // Breach count (null while checking)
+    error: error && t(error.key, error.params), // Lookup error message
+  };
+};
@@ -0,0 +1,87 @@
+import { useState, useCallback, useRef } from "react";
+import {
+  BreachRangeProvider,
+  BulkPasswordEntry,
+  MessageDescriptor,
+  PasswordOptions,
+} from "../types";
+import { generateUnbreachedBulkPasswords } from "../utils/breachCheck";
+import { getErrorDescriptor } from "../utils/messageFormat";
+import { useI18n } from "./useI18n";
+
+/**
+ * Custom React hook for generating many passwords at once
+ *
+ * This hook encapsulates bulk generation state:
+ * - Managing the requested batch size
+ * - Generating a batch of unique passwords with the current options
+ *   (replacing breached ones if options.rejectBreached)
+ * - Surfacing generation errors (e.g. too few unique passwords possible)
+ *
+ * @param options - The password generation options shared with single mode
+ * @param breachProvider - Breach list used when options.rejectBreached is set
+ *
+ * @returns An object containing:
+ *   - entries: The generated passwords with their strength
+ *   - count: Number of passwords to generate
+ *   - error: Error message from the last generation attempt, if any
+ *   - setCount: Function to update the batch size
+ *   - generateBatch: Function to generate a new batch
+ *   - clearBatch: Function to discard the current batch
+ */
+export const useBulkGenerator = (
+  options: PasswordOptions,
+  breachProvider?: BreachRangeProvider
+) => {
+  // Generated passwords for the current batch
+  const [entries, setEntries] = useState<BulkPasswordEntry[]>([]);
+
+  // Number of passwords to generate per batch
+  const [count, setCount] = useState<number>(20);
+
+  // Last generation error (shown in the UI)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  const { t } = useI18n();
+
+  // Incremented per request so a slow breach check can't overwrite a newer
+  // batch (or bring back a cleared one)
+  const requestRef = useRef(0);
+
+  /**
+   * Generates a new batch with the current options and count
+   * With options.rejectBreached, breached passwords are replaced (asynchronously)
+   */
+  const generateBatch = useCallback(async () => {
+    const request = ++requestRef.current;
+    try {
+      const batch = await generateUnbreachedBulkPasswords(options, count, breachProvider);
+      if (request !== requestRef.current) return;
+      setEntries(batch);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to generate passwords:", err);
+      if (request !== requestRef.current) return;
+      setEntries([]);
+      setError(getErrorDescriptor(err));
+    }
+  }, [options, count, breachProvider]);
+
+  /**
+   * Discards the current batch
+   */
+  const clearBatch = useCallback(() => {
+    requestRef.current++;
+    setEntries([]);
+    setError(null);
+  }, []);
+
+  return {
+    entries, // Generated passwords
+    count, // Batch size
+    error: error && t(error.key, error.params), // Last error message
+    setCount, // Function to update batch size
+    generateBatch, // Function to generate a batch
+    clearBatch, // Function to clear the batch
+  };
+};
@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { MessageDescriptor } from "../types";
+import {
+  COPIED_FEEDBACK_MS,
+  copyTextWithoutRevealing,
+} from "../utils/clipboardUtils";
+import { useI18n } from "./useI18n";
+
+/**
+ * Custom React hook for copying secrets to the clipboard
+ *
+ * This hook encapsulates clipboard state:
+ * - Copying with the Clipboard API and short "Copied" feedback per item
+ * - Clearing the clipboard after a delay, but only if it still holds the
+ *   copied value (anything the user copied since is left alone)
+ * - A countdown until the clipboard is cleared
+ * - A "copy without revealing" fallback when the Clipboard API is denied
+ *
+ * @param clearAfterSeconds - Auto-clear delay in seconds (0 turns it off)
+ *
+ * @returns An object containing:
+ *   - copiedKey: Key of the most recently copied item (null after the feedback delay)
+ *   - clearCountdown: Seconds until the clipboard is cleared (null when nothing is pending)
+ *   - error: Error message from the last copy or clear, if any
+ *   - hasFallback: Whether the last copy was denied and can be retried without revealing
+ *   - copy: Function to copy a value, identified by a key for feedback
+ *   - copyWithoutRevealing: Function to retry a denied copy through a hidden field
+ *   - clearNow: Function to clear the clipboard immediately
+ */
+export const useClipboard = (clearAfterSeconds: number = 0) => {
+  const { t } = useI18n();
+
+  // Key of the item showing "Copied" feedback
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  // Seconds left before the clipboard is cleared
+  const [clearCountdown, setClearCountdown] = useState<number | null>(null);
+
+  // Last copy/clear error (shown in the UI)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  // Value and key of a copy the Clipboard API denied
+  const [pendingCopy, setPendingCopy] = useState<{
+    value: string;
+    key: string;
+  } | null>(null);
+
+  // Value this hook last put on the clipboard (never rendered)
+  const copiedValueRef = useRef<string | null>(null);
+  // Timer handles, typed from the timer functions so the hook compiles with
+  // both DOM and Node typings
+  const feedbackTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const countdownIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Latest clearIfUnchanged, behind a stable focus listener
+  const clearIfUnchangedRef = useRef<() => Promise<void>>(async () => undefined);
+  const focusListenerRef = useRef(() => {
+    void clearIfUnchangedRef.current();
+  });
+
+  /**
+   * Stops the auto-clear countdown without touching the clipboard
+   */
+  const cancelAutoClear = useCallback(() => {
+    if (countdownIntervalRef.current) {
+      clearInterval(countdownIntervalRef.current);
+      countdownIntervalRef.current = null;
+    }
+    window.removeEventListener("focus", focusListenerRef.current);
+    setClearCountdown(null);
+  }, []);
+
+  /**
+   * Overwrites the clipboard if it still holds the value this hook copied
+   * The clipboard can only be read and written while the page has focus, so
+   * the check waits for the window to regain focus if necessary.
+   */
+  const clearIfUnchanged = useCallback(async () => {
+    const value = copiedValueRef.current;
+    if (value === null) return;
+
+    if (!document.hasFocus()) {
+      window.addEventListener("focus", focusListenerRef.current, { once: true });
+      return;
+    }
+
+    copiedValueRef.current = null;
+    cancelAutoClear();
+    try {
+      if ((await navigator.clipboard.readText()) === value) {
+        await navigator.clipboard.writeText("");
+      }
+    } catch (err) {
+      // Reading is blocked (or unsupported): leave the clipboard alone rather
+      // than risk wiping something the user copied since
+      console.error("Failed to clear clipboard:", err);
+      setError({ key: "clipboard.clearFailed" });
+    }
+  }, [cancelAutoClear]);
+
+  useEffect(() => {
+    clearIfUnchangedRef.current = clearIfUnchanged;
+  }, [clearIfUnchanged]);
+
+  /**
+   * Records a successful copy: shows feedback and starts the auto-clear countdown
+   *
+   * @param value - The copied value
+   * @param key - Key of the copied item
+   */
+  const handleCopied = useCallback(
+    (value: string, key: string) => {
+      setError(null);
+      setPendingCopy(null);
+      setCopiedKey(key);
+      if (feedbackTimeoutRef.current) {
+        clearTimeout(feedbackTimeoutRef.current);
+      }
+      feedbackTimeoutRef.current = setTimeout(
+        () => setCopiedKey(null),
+        COPIED_FEEDBACK_MS
+      );
+
+      cancelAutoClear();
+      copiedValueRef.current = value;
+      if (clearAfterSeconds <= 0) return;
+
+      const deadline = Date.now() + clearAfterSeconds * 1000;
+      setClearCountdown(clearAfterSeconds);
+      countdownIntervalRef.current = setInterval(() => {
+        const remaining = Math.ceil((deadline - Date.now()) / 1000);
+        if (remaining > 0) {
+          setClearCountdown(remaining);
+          return;
+        }
+        if (countdownIntervalRef.current) {
+          clearInterval(countdownIntervalRef.current);
+          countdownIntervalRef.current = null;
+        }
+        setClearCountdown(0);
+        void clearIfUnchanged();
+      }, 250);
+    },
+    [clearAfterSeconds, cancelAutoClear, clearIfUnchanged]
+  );
+
+  /**
+   * Copies a value with the Clipboard API
+   * If the API is denied, the value is kept so copyWithoutRevealing can retry
+   *
+   * @param value - The value to copy
+   * @param key - Identifies the copied item for feedback (defaults to "default")
+   * @returns true if the value was copied
+   */
+  const copy = useCallback(
+    async (value: string, key: string = "default"): Promise<boolean> => {
+      try {
+        await navigator.clipboard.writeText(value);
+        handleCopied(value, key);
+        return true;
+      } catch (err) {
+        console.error("Failed to copy password:", err);
+        setPendingCopy({ value, key });
+        setError({ key: "clipboard.denied" });
+        return false;
+      }
+    },
+    [handleCopied]
+  );
+
+  /**
+   * Retries a denied copy through a hidden text field
+   * Must be called from a user gesture (e.g. a click handler)
+   *
+   * @returns true if the value was copied
+   */
+  const copyWithoutRevealing = useCallback((): boolean => {
+    if (!pendingCopy) return false;
+    if (copyTextWithoutRevealing(pendingCopy.value)) {
+      handleCopied(pendingCopy.value, pendingCopy.key);
+      return true;
+    }
+    setError({ key: "clipboard.unavailable" });
+    return false;
+  }, [pendingCopy, handleCopied]);
+
+  /**
+   * Clears the clipboard now (if it still holds the copied value)
+   */
+  const clearNow = useCallback(async () => {
+    await clearIfUnchanged();
+  }, [clearIfUnchanged]);
+
+  // Cleanup timers and listeners on unmount
+  useEffect(() => {
+    const focusListener = focusListenerRef.current;
+    return () => {
+      if (feedbackTimeoutRef.current) {
+        clearTimeout(feedbackTimeoutRef.current);
+      }
+      if (countdownIntervalRef.current) {
+        clearInterval(countdownIntervalRef.current);
+      }
+      window.removeEventListener("focus", focusListener);
+    };
+  }, []);
+
+  return {
+    copiedKey, // Most recently copied item
+    clearCountdown, // Seconds until auto-clear
+    error: error && t(error.key, error.params), // Last error message
+    hasFallback: pendingCopy !== null, // Whether copyWithoutRevealing can retry
+    copy, // Function to copy a value
+    copyWithoutRevealing, // Function to retry a denied copy
+    clearNow, // Function to clear the clipboard now
+  };
+};
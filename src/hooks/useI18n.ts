@@ -0,0 +1,109 @@
+import {
+  createContext,
+  useState,
+  useEffect,
+  useCallback,
+  useContext,
+} from "react";
+import { Locale, MessageParams } from "../types";
+import { MessageKey } from "../locales";
+import {
+  applyLocale,
+  DEFAULT_LOCALE,
+  formatMessage,
+  getTextDirection,
+  loadLocale,
+  storeLocale,
+} from "../utils/i18nUtils";
+import { formatNumber } from "../utils/messageFormat";
+
+/**
+ * Custom React hook for the app-wide language setting
+ * Used once by I18nProvider; components read it through useI18n
+ *
+ * This hook encapsulates language state:
+ * - The chosen language, remembered in localStorage
+ * - The browser's preferred languages until the user picks one
+ * - Applying lang and dir to the page
+ *
+ * @returns An object containing:
+ *   - locale: The current language
+ *   - setLocale: Function to choose a language
+ */
+export const useLocaleSettings = () => {
+  // Current language
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  // Apply lang and text direction whenever the language changes
+  useEffect(() => {
+    applyLocale(locale);
+  }, [locale]);
+
+  /**
+   * Chooses a language
+   *
+   * @param next - The language to use
+   */
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    storeLocale(next);
+  }, []);
+
+  return {
+    locale, // Current language
+    setLocale, // Function to choose a language
+  };
+};
+
+/**
+ * Language shared with every component (English without a provider)
+ */
+export const I18nContext = createContext<ReturnType<typeof useLocaleSettings>>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => undefined,
+});
+
+/**
+ * Custom React hook for translating a component's text
+ *
+ * @returns An object containing:
+ *   - locale: The current language
+ *   - dir: Its writing direction ("ltr" or "rtl")
+ *   - setLocale: Function to choose a language
+ *   - t: Function to translate a message key, filling in placeholders
+ *   - formatNumber: Function to format a number for the current language
+ */
+export const useI18n = () => {
+  const { locale, setLocale } = useContext(I18nContext);
+
+  /**
+   * Translates a message
+   *
+   * @param key - The message key
+   * @param params - Values for the message's placeholders (count picks plural forms)
+   */
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => formatMessage(locale, key, params),
+    [locale]
+  );
+
+  /**
+   * Formats a number for the current language
+   *
+   * @param value - The number to format
+   * @param options - Intl.NumberFormat options
+   */
+  const formatLocaleNumber = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) =>
+      formatNumber(locale, value, options),
+    [locale]
+  );
+
+  return {
+    locale, // Current language
+    dir: getTextDirection(locale), // Writing direction
+    setLocale, // Function to choose a language
+    t, // Function to translate a message
+    formatNumber: formatLocaleNumber, // Function to format a number
+  };
+};
@@ -0,0 +1,34 @@
+import { useState, useEffect } from "react";
+
+/**
+ * Reads a media query once (false where matchMedia isn't available)
+ *
+ * @param query - The media query to check
+ */
+const matchesMedia = (query: string): boolean =>
+  typeof window.matchMedia === "function" && window.matchMedia(query).matches;
+
+/**
+ * Custom React hook that tracks a media query, e.g. an OS appearance setting
+ *
+ * @param query - The media query, e.g. "(prefers-reduced-motion: reduce)"
+ * @returns Whether the query currently matches (updates when it changes)
+ */
+export const useMediaQuery = (query: string): boolean => {
+  const [matches, setMatches] = useState(() => matchesMedia(query));
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== "function") return;
+
+    const mediaQuery = window.matchMedia(query);
+    const handleChange = () => setMatches(mediaQuery.matches);
+    handleChange();
+
+    mediaQuery.addEventListener("change", handleChange);
+    return () => {
+      mediaQuery.removeEventListener("change", handleChange);
+    };
+  }, [query]);
+
+  return matches;
+};
@@ -0,0 +1,82 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { createElement, ReactNode } from "react";
+import { MotionProvider } from "../components/MotionProvider";
+import { useMotion } from "./useMotion";
+
+/**
+ * Replaces window.matchMedia with a fixed reduced-motion OS setting
+ */
+const mockReducedMotion = (matches: boolean) => {
+  vi.stubGlobal(
+    "matchMedia",
+    vi.fn(() => Object.assign(new EventTarget(), { matches }))
+  );
+};
+
+/**
+ * Renders useMotion inside the app's MotionProvider
+ */
+const renderMotion = () =>
+  renderHook(() => useMotion(), {
+    wrapper: ({ children }: { children: ReactNode }) =>
+      createElement(MotionProvider, null, children),
+  });
+
+describe("useMotion", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    localStorage.clear();
+    delete document.documentElement.dataset.motion;
+  });
+
+  it("runs scheduled steps after their delay and clears them on unmount", () => {
+    vi.useFakeTimers();
+    mockReducedMotion(false);
+    const { result, unmount } = renderMotion();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    act(() => {
+      result.current.schedule(first, 100);
+      result.current.schedule(second, 300);
+    });
+    act(() => vi.advanceTimersByTime(100));
+    expect(first).toHaveBeenCalledOnce();
+
+    unmount();
+    vi.advanceTimersByTime(500);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it("follows the OS setting and skips animations when reduced", () => {
+    mockReducedMotion(true);
+    const { result } = renderMotion();
+    const step = vi.fn();
+    const setActive = vi.fn();
+
+    act(() => {
+      result.current.schedule(step, 1000);
+      result.current.pulse(setActive, 150);
+    });
+
+    expect(result.current.reduceMotion).toBe(true);
+    expect(document.documentElement.dataset.motion).toBe("reduce");
+    expect(step).toHaveBeenCalledOnce();
+    expect(setActive).not.toHaveBeenCalled();
+  });
+
+  it("applies and remembers an in-app choice over the OS setting", () => {
+    mockReducedMotion(true);
+    const { result } = renderMotion();
+
+    act(() => result.current.setPreference("full"));
+
+    expect(result.current.reduceMotion).toBe(false);
+    expect(document.documentElement.dataset.motion).toBe("full");
+    const { result: reloaded } = renderMotion();
+    expect(reloaded.current.preference).toBe("full");
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  createContext,
+  useState,
+  useEffect,
+  useCallback,
+  useContext,
+  useRef,
+} from "react";
+import { MotionPreference } from "../types";
+import { useMediaQuery } from "./useMediaQuery";
+import {
+  applyMotion,
+  loadMotionPreference,
+  PREFERS_REDUCED_MOTION_QUERY,
+  shouldReduceMotion,
+  storeMotionPreference,
+} from "../utils/motionUtils";
+
+/**
+ * Custom React hook for the app-wide animation setting
+ * Used once by MotionProvider; components read it through useMotion
+ *
+ * This hook encapsulates motion state:
+ * - The user's setting, remembered in localStorage
+ * - Following prefers-reduced-motion while "system" is selected
+ * - Switching CSS transitions off for the whole page when reduced
+ *
+ * @returns An object containing:
+ *   - preference: The chosen setting ("system" to follow the OS)
+ *   - reduceMotion: Whether animations are currently skipped
+ *   - setPreference: Function to choose a setting
+ */
+export const useMotionSettings = () => {
+  // User's animation setting
+  const [preference, setPreferenceState] = useState<MotionPreference>(
+    loadMotionPreference
+  );
+
+  // OS setting
+  const prefersReducedMotion = useMediaQuery(PREFERS_REDUCED_MOTION_QUERY);
+
+  const reduceMotion = shouldReduceMotion(preference, prefersReducedMotion);
+
+  // Apply the setting to CSS transitions whenever it changes
+  useEffect(() => {
+    applyMotion(reduceMotion);
+  }, [reduceMotion]);
+
+  /**
+   * Chooses an animation setting
+   *
+   * @param next - The setting, or "system" to follow the OS
+   */
+  const setPreference = useCallback((next: MotionPreference) => {
+    setPreferenceState(next);
+    storeMotionPreference(next);
+  }, []);
+
+  return {
+    preference, // Chosen setting
+    reduceMotion, // Whether animations are skipped
+    setPreference, // Function to choose a setting
+  };
+};
+
+/**
+ * Animation setting shared with every component (full motion without a provider)
+ */
+export const MotionContext = createContext<ReturnType<typeof useMotionSettings>>({
+  preference: "system",
+  reduceMotion: false,
+  setPreference: () => undefined,
+});
+
+/**
+ * Custom React hook for running a component's animations
+ *
+ * Every JavaScript-timed animation goes through this hook so that:
+ * - Reduced motion skips it (the end state is applied straight away)
+ * - Pending timers are cleared when the component unmounts
+ *
+ * @returns An object containing:
+ *   - preference: The chosen animation setting
+ *   - reduceMotion: Whether animations are skipped
+ *   - setPreference: Function to choose an animation setting
+ *   - schedule: Function to run a step after a delay (immediately when reduced)
+ *   - pulse: Function to switch a flag on for a duration (skipped when reduced)
+ *   - cancelScheduled: Function to drop this component's pending steps
+ */
+export const useMotion = () => {
+  const { preference, reduceMotion, setPreference } = useContext(MotionContext);
+
+  // Timers started by this component and not yet run
+  const timeoutsRef = useRef(new Set<number>());
+
+  /**
+   * Drops every pending step
+   */
+  const cancelScheduled = useCallback(() => {
+    timeoutsRef.current.forEach((timeout) => window.clearTimeout(timeout));
+    timeoutsRef.current.clear();
+  }, []);
+
+  // Clear pending timers when the component unmounts
+  useEffect(() => cancelScheduled, [cancelScheduled]);
+
+  /**
+   * Runs an animation step after a delay, or straight away when motion is reduced
+   *
+   * @param callback - The step to run
+   * @param delayMs - Delay in milliseconds
+   */
+  const schedule = useCallback(
+    (callback: () => void, delayMs: number) => {
+      if (reduceMotion) {
+        callback();
+        return;
+      }
+      const timeout = window.setTimeout(() => {
+        timeoutsRef.current.delete(timeout);
+        callback();
+      }, delayMs);
+      timeoutsRef.current.add(timeout);
+    },
+    [reduceMotion]
+  );
+
+  /**
+   * Switches a flag on for a short effect (e.g. a press or pulse)
+   * Does nothing when motion is reduced, so the effect never shows
+   *
+   * @param setActive - State setter for the effect's flag
+   * @param durationMs - How long the flag stays on
+   */
+  const pulse = useCallback(
+    (setActive: (active: boolean) => void, durationMs: number) => {
+      if (reduceMotion) return;
+      setActive(true);
+      schedule(() => setActive(false), durationMs);
+    },
+    [reduceMotion, schedule]
+  );
+
+  return {
+    preference, // Chosen animation setting
+    reduceMotion, // Whether animations are skipped
+    setPreference, // Function to choose an animation setting
+    schedule, // Function to run a delayed step
+    pulse, // Function to show a short effect
+    cancelScheduled, // Function to drop pending steps
+  };
+};
@@ -0,0 +1,41 @@
+import { useState, useMemo } from "react";
+import { analyzePassword } from "../utils/passwordAnalysis";
+import { EMPTY_STRENGTH, getStrengthFromEntropy } from "../utils/passwordUtils";
+
+/**
+ * Custom React hook for analyzing a password the user enters
+ *
+ * This hook encapsulates checker state:
+ * - Managing the password being checked (kept in memory only)
+ * - Analyzing it from its text alone (classes, entropy, patterns)
+ * - Scoring it with the same scale as generated passwords
+ *
+ * @returns An object containing:
+ *   - password: The password being checked
+ *   - analysis: Character classes, entropy and detected patterns
+ *   - strength: Strength calculated from the analysis
+ *   - setPassword: Function to update the password being checked
+ */
+export const usePasswordChecker = () => {
+  // The password being checked (never persisted)
+  const [password, setPassword] = useState<string>("");
+
+  /**
+   * Analyzes the password whenever it changes
+   */
+  const analysis = useMemo(() => analyzePassword(password), [password]);
+
+  /**
+   * Maps the estimated entropy onto the strength scale
+   */
+  const strength = useMemo(() => {
+    return password ? getStrengthFromEntropy(analysis.bits) : EMPTY_STRENGTH;
+  }, [password, analysis]);
+
+  return {
+    password, // Password being checked
+    analysis, // Text-based analysis
+    strength, // Strength result
+    setPassword, // Function to update the password
+  };
+};
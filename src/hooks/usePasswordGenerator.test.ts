@@ -0,0 +1,87 @@
+/** @vitest-environment jsdom */
+import { describe, expect, it, vi } from "vitest";
+import { createElement, ReactNode } from "react";
+import { act, renderHook } from "@testing-library/react";
+import { Locale } from "../types";
+import { DEFAULT_PASSWORD_OPTIONS } from "../utils/passwordUtils";
+import { I18nContext } from "./useI18n";
+import { usePasswordGenerator } from "./usePasswordGenerator";
+
+describe("usePasswordGenerator", () => {
+  it("generates a password with the current options", async () => {
+    const { result } = renderHook(() =>
+      usePasswordGenerator({ ...DEFAULT_PASSWORD_OPTIONS, length: 128 })
+    );
+
+    await act(() => result.current.generateNewPassword());
+
+    expect(result.current.password).toHaveLength(128);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("reports why a password couldn't be generated", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { result } = renderHook(() =>
+      usePasswordGenerator({
+        ...DEFAULT_PASSWORD_OPTIONS,
+        uppercase: false,
+        lowercase: false,
+        numbers: false,
+        symbols: false,
+      })
+    );
+
+    await act(() => result.current.generateNewPassword());
+
+    expect(result.current.password).toBe("");
+    expect(result.current.error).toBe("No character types selected");
+  });
+
+  it("clears the error once a password is generated", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { result } = renderHook(() =>
+      usePasswordGenerator({ ...DEFAULT_PASSWORD_OPTIONS, length: 300 })
+    );
+
+    await act(() => result.current.generateNewPassword());
+    expect(result.current.error).toBe(
+      "Password length must be between 4 and 256 characters"
+    );
+
+    act(() => result.current.setOptions({ ...DEFAULT_PASSWORD_OPTIONS, length: 256 }));
+    await act(() => result.current.generateNewPassword());
+
+    expect(result.current.password).toHaveLength(256);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("translates the error when the language changes without regenerating", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    let locale: Locale = "en";
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(
+        I18nContext.Provider,
+        { value: { locale, setLocale: () => undefined } },
+        children
+      );
+    const { result, rerender } = renderHook(
+      () =>
+        usePasswordGenerator({
+          ...DEFAULT_PASSWORD_OPTIONS,
+          uppercase: false,
+          lowercase: false,
+          numbers: false,
+          symbols: false,
+        }),
+      { wrapper }
+    );
+
+    await act(() => result.current.generateNewPassword());
+    const { generateNewPassword } = result.current;
+    locale = "de";
+    rerender();
+
+    expect(result.current.error).toBe("Keine Zeichenarten ausgewählt");
+    expect(result.current.generateNewPassword).toBe(generateNewPassword);
+  });
+});
@@ -1,71 +1,107 @@
-import { useState, useCallback, useMemo } from "react";
-import { PasswordOptions } from "../types";
+import { useState, useCallback, useMemo, useRef } from "react";
+import { BreachRangeProvider, MessageDescriptor, PasswordOptions } from "../types";
 import {
   generatePassword,
-  calculatePasswordStrength,
+  calculateGeneratedStrength,
+  EMPTY_STRENGTH,
+  DEFAULT_PASSWORD_OPTIONS,
 } from "../utils/passwordUtils";
+import { generateUnbreachedPassword } from "../utils/breachCheck";
+import { getErrorDescriptor } from "../utils/messageFormat";
+import { useI18n } from "./useI18n";
 
 /**
  * Custom React hook for managing password generation state and logic
  *
  * This hook encapsulates all password-related functionality:
  * - Managing password state
- * - Managing password options (length, character types)
- * - Generating new passwords
+ * - Managing password options (mode, length, character types, passphrase settings)
+ * - Generating new passwords (regenerating breached ones if options.rejectBreached)
+ * - Surfacing generation errors (e.g. an unsatisfiable policy)
  * - Calculating password strength
  *
+ * @param initialOptions - Options to start with (defaults to DEFAULT_PASSWORD_OPTIONS)
+ * @param breachProvider - Breach list used when options.rejectBreached is set
+ *
  * @returns An object containing:
  *   - password: Current generated password string
  *   - options: Current password generation options
  *   - strength: Current password strength calculation
+ *   - generatedOptions: Options the current password was generated with
+ *   - error: Error message from the last generation attempt, if any
  *   - setOptions: Function to update password options
- *   - generateNewPassword: Function to generate a new password with current options
+ *   - generateNewPassword: Function to generate a new password with current options;
+ *     resolves to the new password, or null if generation failed or was superseded
  */
-export const usePasswordGenerator = () => {
+export const usePasswordGenerator = (
+  initialOptions: PasswordOptions = DEFAULT_PASSWORD_OPTIONS,
+  breachProvider?: BreachRangeProvider
+) => {
   // State for storing the generated password
   const [password, setPassword] = useState<string>("");
 
-  // State for password generation options with default values
-  const [options, setOptions] = useState<PasswordOptions>({
-    length: 10, // Default password length (must be between 4 and 50)
-    uppercase: true, // Include uppercase by default
-    lowercase: true, // Include lowercase by default
-    numbers: true, // Include numbers by default
-    symbols: false, // Symbols disabled by default
-  });
+  // State for password generation options (defaults unless a preset is active)
+  const [options, setOptions] = useState<PasswordOptions>(initialOptions);
+
+  // Options the current password was generated with (used for strength)
+  const [generatedOptions, setGeneratedOptions] =
+    useState<PasswordOptions>(options);
+
+  // Last generation error (shown in the UI)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  const { t } = useI18n();
+
+  // Incremented per request so a slow breach check can't overwrite a newer password
+  const requestRef = useRef(0);
 
   /**
    * Generates a new password using the current options
    * Uses useCallback to memoize the function and prevent unnecessary re-renders
+   * With options.rejectBreached, breached passwords are regenerated (asynchronously)
+   *
+   * @returns The new password, or null if generation failed or a newer request won
    */
-  const generateNewPassword = useCallback(() => {
+  const generateNewPassword = useCallback(async (): Promise<string | null> => {
+    const request = ++requestRef.current;
     try {
       // Generate password using utility function
-      const newPassword = generatePassword(options);
+      const newPassword = options.rejectBreached
+        ? (await generateUnbreachedPassword(options, breachProvider)).password
+        : generatePassword(options);
+      if (request !== requestRef.current) return null;
       // Update password state
       setPassword(newPassword);
-    } catch (error) {
-      // Handle error if no character types are selected
-      console.error("Failed to generate password:", error);
+      setGeneratedOptions(options);
+      setError(null);
+      return newPassword;
+    } catch (err) {
+      // Invalid options (no character types, out-of-range length, policy...)
+      console.error("Failed to generate password:", err);
+      if (request !== requestRef.current) return null;
       setPassword("");
+      setError(getErrorDescriptor(err));
+      return null;
     }
-  }, [options]); // Regenerate when options change
+  }, [options, breachProvider]); // Regenerate when options change
 
   /**
    * Calculates the strength of the current password
-   * Returns a default strength if password is empty
+   * Returns an empty strength result if password is empty
    * Memoized to prevent unnecessary recalculations
    */
   const strength = useMemo(() => {
     return password
-      ? calculatePasswordStrength(password, options)
-      : { level: 0, label: "" };
-  }, [password, options]);
+      ? calculateGeneratedStrength(password, generatedOptions)
+      : EMPTY_STRENGTH;
+  }, [password, generatedOptions]);
 
   return {
     password, // Current password
     options, // Current options
     strength, // Current strength
+    generatedOptions, // Options used for the current password
+    error: error && t(error.key, error.params), // Last error message
     setOptions, // Function to update options
     generateNewPassword, // Function to generate password
   };
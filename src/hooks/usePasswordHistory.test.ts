@@ -0,0 +1,105 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { EncryptedHistoryRecord, HistoryEntry } from "../types";
+import { DEFAULT_PASSWORD_OPTIONS, EMPTY_STRENGTH } from "../utils/passwordUtils";
+import {
+  deriveHistoryKey,
+  encryptHistory,
+  generateSalt,
+} from "../utils/historyCrypto";
+import { loadHistoryRecord } from "../utils/historyStore";
+import { AUTO_LOCK_MS, usePasswordHistory } from "./usePasswordHistory";
+
+// Nothing is persisted in these tests
+vi.mock("../utils/historyStore", () => ({
+  loadHistoryRecord: vi.fn(async () => null),
+  saveHistoryRecord: vi.fn(async () => undefined),
+  deleteHistoryRecord: vi.fn(async () => undefined),
+}));
+
+const PASSPHRASE = "correct horse battery staple";
+
+/**
+ * A saved history record holding one entry, encrypted with PASSPHRASE
+ */
+const createStoredRecord = async (): Promise<EncryptedHistoryRecord> => {
+  const entry: HistoryEntry = {
+    id: "stored",
+    password: "stored",
+    createdAt: 1,
+    options: DEFAULT_PASSWORD_OPTIONS,
+    strength: EMPTY_STRENGTH,
+  };
+  const salt = generateSalt();
+  return encryptHistory([entry], await deriveHistoryKey(PASSPHRASE, salt), salt);
+};
+
+/**
+ * Renders the hook with a saved record, waiting until it reports being locked
+ */
+const renderLockedHistory = async () => {
+  vi.mocked(loadHistoryRecord).mockResolvedValue(await createStoredRecord());
+  const hook = renderHook(() => usePasswordHistory());
+  await waitFor(() => expect(hook.result.current.isLocked).toBe(true));
+  return hook;
+};
+
+describe("usePasswordHistory", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(loadHistoryRecord).mockResolvedValue(null);
+  });
+
+  it("clears in-memory history after inactivity", () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => usePasswordHistory());
+
+    act(() => {
+      result.current.addEntry("first", DEFAULT_PASSWORD_OPTIONS, EMPTY_STRENGTH);
+    });
+    act(() => vi.advanceTimersByTime(AUTO_LOCK_MS - 1000));
+    act(() => {
+      window.dispatchEvent(new Event("keydown"));
+    });
+    act(() => vi.advanceTimersByTime(AUTO_LOCK_MS - 1000));
+    expect(result.current.entries).toHaveLength(1);
+
+    act(() => vi.advanceTimersByTime(1000));
+    expect(result.current.entries).toEqual([]);
+    expect(result.current.isLocked).toBe(false);
+  });
+
+  it("holds back passwords generated while locked until unlock", async () => {
+    const { result } = await renderLockedHistory();
+
+    act(() => {
+      result.current.addEntry("while locked", DEFAULT_PASSWORD_OPTIONS, EMPTY_STRENGTH);
+    });
+    expect(result.current.entries).toEqual([]);
+
+    await act(async () => {
+      expect(await result.current.unlock(PASSPHRASE)).toBe(true);
+    });
+    expect(result.current.entries.map(({ password }) => password)).toEqual([
+      "while locked",
+      "stored",
+    ]);
+  });
+
+  it("drops passwords generated while locked after inactivity", async () => {
+    const { result } = await renderLockedHistory();
+
+    vi.useFakeTimers();
+    act(() => {
+      result.current.addEntry("while locked", DEFAULT_PASSWORD_OPTIONS, EMPTY_STRENGTH);
+    });
+    act(() => vi.advanceTimersByTime(AUTO_LOCK_MS));
+    vi.useRealTimers();
+
+    await act(async () => {
+      await result.current.unlock(PASSPHRASE);
+    });
+    expect(result.current.entries.map(({ password }) => password)).toEqual(["stored"]);
+  });
+});
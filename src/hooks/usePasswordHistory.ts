@@ -0,0 +1,281 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  HistoryEntry,
+  MessageDescriptor,
+  PasswordOptions,
+  StrengthResult,
+} from "../types";
+import {
+  decryptHistory,
+  deriveHistoryKey,
+  encryptHistory,
+  generateSalt,
+} from "../utils/historyCrypto";
+import { getErrorDescriptor } from "../utils/messageFormat";
+import { useI18n } from "./useI18n";
+import {
+  deleteHistoryRecord,
+  loadHistoryRecord,
+  saveHistoryRecord,
+} from "../utils/historyStore";
+
+/**
+ * Maximum number of passwords kept in the history (oldest are dropped)
+ */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Time without user interaction after which history is locked (when persisted)
+ * or cleared (when only kept in memory)
+ */
+export const AUTO_LOCK_MS = 5 * 60 * 1000;
+
+/**
+ * Merges history lists, dropping duplicates and keeping the newest entries first
+ *
+ * @param lists - History lists to merge
+ */
+const mergeEntries = (...lists: HistoryEntry[][]): HistoryEntry[] => {
+  const byId = new Map<string, HistoryEntry>();
+  lists.flat().forEach((entry) => byId.set(entry.id, entry));
+  return Array.from(byId.values())
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, MAX_HISTORY_ENTRIES);
+};
+
+/**
+ * Custom React hook for managing the history of generated passwords
+ *
+ * History is kept in memory for the session by default. When persistence is
+ * enabled, it is also stored in IndexedDB, encrypted with AES-GCM using a key
+ * derived from a master passphrase (PBKDF2). After AUTO_LOCK_MS of inactivity,
+ * persisted history locks itself and in-memory history is cleared. While
+ * locked, only the encrypted copy remains; new passwords are held back (not
+ * listed in entries) and merged into it on the next unlock, and they expire
+ * after inactivity like in-memory history.
+ *
+ * @returns An object containing:
+ *   - entries: History entries, newest first
+ *   - isPersistent: Whether encrypted persistence is enabled
+ *   - isLocked: Whether persisted history is locked
+ *   - error: Error message from the last persistence action, if any
+ *   - addEntry: Function to record a generated password
+ *   - clearHistory: Function to remove every entry
+ *   - enablePersistence: Function to start persisting with a master passphrase
+ *   - disablePersistence: Function to delete the persisted history
+ *   - unlock: Function to decrypt persisted history with the master passphrase
+ *   - lock: Function to lock persisted history immediately
+ */
+export const usePasswordHistory = () => {
+  const { t } = useI18n();
+
+  // History entries currently held in memory (newest first)
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+
+  // Whether an encrypted copy is kept in IndexedDB
+  const [isPersistent, setIsPersistent] = useState(false);
+
+  // Whether the persisted history is locked (key discarded)
+  const [isLocked, setIsLocked] = useState(false);
+
+  // Passwords generated while locked, merged in on unlock (never rendered)
+  const [pendingEntries, setPendingEntries] = useState<HistoryEntry[]>([]);
+
+  // Last persistence error (shown in the UI)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  // Derived key and salt, only held while unlocked
+  const keyRef = useRef<{ key: CryptoKey; salt: Uint8Array } | null>(null);
+
+  /**
+   * Detects previously persisted history on mount
+   * It starts locked because the key is never stored
+   */
+  useEffect(() => {
+    loadHistoryRecord()
+      .then((record) => {
+        if (record) {
+          setIsPersistent(true);
+          setIsLocked(true);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load password history:", err);
+      });
+  }, []);
+
+  /**
+   * Re-encrypts and saves the history whenever it changes while unlocked
+   */
+  useEffect(() => {
+    const keyInfo = keyRef.current;
+    if (!isPersistent || isLocked || !keyInfo) return;
+
+    encryptHistory(entries, keyInfo.key, keyInfo.salt)
+      .then(saveHistoryRecord)
+      .catch((err) => {
+        console.error("Failed to save password history:", err);
+        setError({ key: "history.saveFailed" });
+      });
+  }, [entries, isPersistent, isLocked]);
+
+  /**
+   * Locks persisted history: discards the key and the decrypted entries
+   */
+  const lock = useCallback(() => {
+    keyRef.current = null;
+    setEntries([]);
+    setIsLocked(true);
+  }, []);
+
+  /**
+   * After a period of inactivity, locks persisted history, clears history
+   * that is only kept in memory, or drops passwords held back while locked
+   */
+  const hasEntries = entries.length > 0;
+  const hasPendingEntries = pendingEntries.length > 0;
+  useEffect(() => {
+    if (isLocked ? !hasPendingEntries : !isPersistent && !hasEntries) return;
+
+    const expire = isLocked
+      ? () => setPendingEntries([])
+      : isPersistent
+        ? lock
+        : () => setEntries([]);
+    let timer = setTimeout(expire, AUTO_LOCK_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(expire, AUTO_LOCK_MS);
+    };
+    const activityEvents = ["pointerdown", "keydown", "scroll"];
+
+    activityEvents.forEach((event) =>
+      window.addEventListener(event, resetTimer, { passive: true })
+    );
+    return () => {
+      clearTimeout(timer);
+      activityEvents.forEach((event) =>
+        window.removeEventListener(event, resetTimer)
+      );
+    };
+  }, [isPersistent, isLocked, hasEntries, hasPendingEntries, lock]);
+
+  /**
+   * Records a newly generated password
+   * While locked it is held back until the next unlock
+   *
+   * @param password - The generated password
+   * @param options - Options the password was generated with
+   * @param strength - Strength of the password
+   */
+  const addEntry = useCallback(
+    (password: string, options: PasswordOptions, strength: StrengthResult) => {
+      const entry: HistoryEntry = {
+        id: crypto.randomUUID(),
+        password,
+        createdAt: Date.now(),
+        options,
+        strength,
+      };
+      if (isLocked) {
+        setPendingEntries((prev) => mergeEntries([entry], prev));
+      } else {
+        setEntries((prev) => mergeEntries([entry], prev));
+      }
+    },
+    [isLocked]
+  );
+
+  /**
+   * Removes every entry (from memory and, if unlocked, from the device)
+   */
+  const clearHistory = useCallback(() => {
+    setEntries([]);
+    setPendingEntries([]);
+  }, []);
+
+  /**
+   * Starts persisting history, encrypted with a key derived from the passphrase
+   *
+   * @param passphrase - The master passphrase chosen by the user
+   */
+  const enablePersistence = useCallback(async (passphrase: string) => {
+    try {
+      setError(null);
+      const salt = generateSalt();
+      keyRef.current = { key: await deriveHistoryKey(passphrase, salt), salt };
+      setIsLocked(false);
+      setIsPersistent(true);
+    } catch (err) {
+      console.error("Failed to enable history persistence:", err);
+      setError({ key: "history.unavailable" });
+    }
+  }, []);
+
+  /**
+   * Stops persisting history and deletes the encrypted copy from the device
+   * Entries currently in memory (and any held back while locked) are kept for
+   * the rest of the session
+   */
+  const disablePersistence = useCallback(async () => {
+    try {
+      setError(null);
+      await deleteHistoryRecord();
+      keyRef.current = null;
+      setEntries((prev) => mergeEntries(pendingEntries, prev));
+      setPendingEntries([]);
+      setIsPersistent(false);
+      setIsLocked(false);
+    } catch (err) {
+      console.error("Failed to delete password history:", err);
+      setError({ key: "history.deleteFailed" });
+    }
+  }, [pendingEntries]);
+
+  /**
+   * Decrypts persisted history and merges it with this session's entries,
+   * including those held back while locked
+   *
+   * @param passphrase - The master passphrase
+   * @returns true if the history was unlocked
+   */
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const record = await loadHistoryRecord();
+      if (!record) {
+        setEntries((prev) => mergeEntries(prev, pendingEntries));
+        setPendingEntries([]);
+        setIsPersistent(false);
+        setIsLocked(false);
+        return false;
+      }
+
+      const key = await deriveHistoryKey(passphrase, record.salt);
+      const storedEntries = await decryptHistory(record, key);
+
+      keyRef.current = { key, salt: record.salt };
+      setEntries((prev) => mergeEntries(prev, pendingEntries, storedEntries));
+      setPendingEntries([]);
+      setIsLocked(false);
+      return true;
+    } catch (err) {
+      console.error("Failed to unlock password history:", err);
+      setError(getErrorDescriptor(err));
+      return false;
+    }
+  }, [pendingEntries]);
+
+  return {
+    entries, // History entries
+    isPersistent, // Whether persistence is enabled
+    isLocked, // Whether persisted history is locked
+    error: error && t(error.key, error.params), // Last persistence error
+    addEntry, // Function to record a password
+    clearHistory, // Function to clear history
+    enablePersistence, // Function to enable encrypted persistence
+    disablePersistence, // Function to disable persistence
+    unlock, // Function to unlock persisted history
+    lock, // Function to lock persisted history
+  };
+};
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useI18n } from "./useI18n";
+
+/**
+ * Custom React hook for masking a displayed password
+ *
+ * This hook encapsulates reveal state:
+ * - Masked by default, with a reveal toggle
+ * - Temporary reveal while the password is pressed and held
+ * - Revealing a single character (e.g. on hover)
+ * - Hiding again whenever the tab loses visibility
+ * - A screen-reader announcement for every change the user didn't see happen
+ *
+ * @returns An object containing:
+ *   - isVisible: Whether the whole password is currently shown
+ *   - isRevealed: Whether the reveal toggle is on
+ *   - revealedIndex: Index of the single character shown, if any
+ *   - announcement: Text for a polite live region
+ *   - toggleReveal: Function to turn the reveal toggle on or off
+ *   - startHold: Function to show the password while held
+ *   - endHold: Function to mask it again when released
+ *   - setRevealedIndex: Function to show one character (null for none)
+ */
+export const usePasswordReveal = () => {
+  const { t } = useI18n();
+
+  // Reveal toggle (off by default so the password starts masked)
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  // Press-and-hold reveal
+  const [isHolding, setIsHolding] = useState(false);
+
+  // Single character shown on hover
+  const [revealedIndex, setRevealedIndex] = useState<number | null>(null);
+
+  // Last screen-reader announcement
+  const [announcement, setAnnouncement] = useState("");
+
+  // Toggle state for the visibility listener
+  const isRevealedRef = useRef(isRevealed);
+  useEffect(() => {
+    isRevealedRef.current = isRevealed;
+  }, [isRevealed]);
+
+  // Mask everything as soon as the tab is hidden (switching tabs, screen sharing)
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== "hidden") return;
+      if (isRevealedRef.current) {
+        setAnnouncement(t("reveal.hiddenOnLeave"));
+      }
+      setIsRevealed(false);
+      setIsHolding(false);
+      setRevealedIndex(null);
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [t]);
+
+  /**
+   * Turns the reveal toggle on or off
+   */
+  const toggleReveal = useCallback(() => {
+    setAnnouncement(isRevealed ? t("reveal.hidden") : t("reveal.shown"));
+    setIsRevealed(!isRevealed);
+  }, [isRevealed, t]);
+
+  /**
+   * Shows the password while it is pressed and held
+   */
+  const startHold = useCallback(() => setIsHolding(true), []);
+
+  /**
+   * Masks the password again when it is released
+   */
+  const endHold = useCallback(() => setIsHolding(false), []);
+
+  return {
+    isVisible: isRevealed || isHolding, // Whether the password is shown
+    isRevealed, // Reveal toggle state
+    revealedIndex, // Single character shown, if any
+    announcement, // Live region text
+    toggleReveal, // Function to toggle reveal
+    startHold, // Function to start a press-and-hold reveal
+    endHold, // Function to end a press-and-hold reveal
+    setRevealedIndex, // Function to show one character
+  };
+};
@@ -0,0 +1,184 @@
+import { useState, useCallback, useMemo } from "react";
+import { MessageDescriptor, PasswordOptions, Preset } from "../types";
+import {
+  BUILT_IN_PRESETS,
+  loadActivePresetId,
+  loadStoredPresets,
+  parsePresetFile,
+  serializePresets,
+  slugifyPresetName,
+  storeActivePresetId,
+  storePresets,
+} from "../utils/presetUtils";
+import { downloadFile } from "../utils/exportUtils";
+import { getErrorDescriptor } from "../utils/messageFormat";
+import { useI18n } from "./useI18n";
+
+/**
+ * Custom React hook for managing saved generation presets
+ *
+ * This hook encapsulates preset state:
+ * - Built-in presets plus user presets stored in localStorage
+ * - Remembering the last selected preset across reloads
+ * - Saving, deleting, importing and exporting user presets
+ *
+ * Presets are loaded synchronously so the generator can start from the
+ * selected preset on the first render.
+ *
+ * @returns An object containing:
+ *   - presets: Built-in and user presets
+ *   - activePreset: The selected preset, if any
+ *   - error: Error message from the last save/import, if any
+ *   - selectPreset: Function to select a preset by id (null for none)
+ *   - savePreset: Function to save options under a name
+ *   - deletePreset: Function to delete a user preset
+ *   - importPresets: Function to import presets from a JSON file
+ *   - exportPresets: Function to download user presets as a JSON file
+ */
+export const usePresets = () => {
+  const { t } = useI18n();
+
+  // User presets (built-ins are never stored)
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadStoredPresets);
+
+  // Id of the selected preset
+  const [activePresetId, setActivePresetId] = useState<string | null>(
+    loadActivePresetId
+  );
+
+  // Last save/import error (shown in the UI)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  const presets = useMemo(
+    () => [...BUILT_IN_PRESETS, ...userPresets],
+    [userPresets]
+  );
+
+  const activePreset =
+    presets.find((preset) => preset.id === activePresetId) ?? null;
+
+  /**
+   * Persists user presets, reporting storage failures (e.g. quota exceeded)
+   *
+   * @param next - The new list of user presets
+   */
+  const updateUserPresets = useCallback((next: Preset[]) => {
+    setUserPresets(next);
+    try {
+      storePresets(next);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to save presets:", err);
+      setError({ key: "preset.storageFailed" });
+    }
+  }, []);
+
+  /**
+   * Selects a preset by id
+   *
+   * @param id - The preset id, or null for custom options
+   */
+  const selectPreset = useCallback((id: string | null) => {
+    setActivePresetId(id);
+    try {
+      storeActivePresetId(id);
+    } catch (err) {
+      console.error("Failed to remember selected preset:", err);
+    }
+  }, []);
+
+  /**
+   * Saves options as a user preset, replacing any user preset with the same id
+   *
+   * @param name - Display name for the preset
+   * @param options - The options to save
+   */
+  const savePreset = useCallback(
+    (name: string, options: PasswordOptions) => {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        setError({ key: "preset.nameRequired" });
+        return;
+      }
+
+      const id = slugifyPresetName(trimmed);
+      if (BUILT_IN_PRESETS.some((preset) => preset.id === id)) {
+        setError({ key: "preset.builtInName", params: { name: trimmed } });
+        return;
+      }
+
+      const preset: Preset = { id, name: trimmed, options };
+      updateUserPresets([
+        ...userPresets.filter((existing) => existing.id !== id),
+        preset,
+      ]);
+      selectPreset(id);
+    },
+    [userPresets, updateUserPresets, selectPreset]
+  );
+
+  /**
+   * Deletes a user preset (built-ins can't be deleted)
+   *
+   * @param id - The preset id
+   */
+  const deletePreset = useCallback(
+    (id: string) => {
+      updateUserPresets(userPresets.filter((preset) => preset.id !== id));
+      if (activePresetId === id) {
+        selectPreset(null);
+      }
+    },
+    [userPresets, activePresetId, updateUserPresets, selectPreset]
+  );
+
+  /**
+   * Imports presets from a JSON file, replacing user presets with the same id
+   * Presets that clash with built-in ids are skipped
+   *
+   * @param file - The preset file chosen by the user
+   */
+  const importPresets = useCallback(
+    async (file: File) => {
+      try {
+        const imported = parsePresetFile(JSON.parse(await file.text())).filter(
+          (preset) => !BUILT_IN_PRESETS.some(({ id }) => id === preset.id)
+        );
+        const importedIds = new Set(imported.map(({ id }) => id));
+        updateUserPresets([
+          ...userPresets.filter(({ id }) => !importedIds.has(id)),
+          ...imported,
+        ]);
+      } catch (err) {
+        console.error("Failed to import presets:", err);
+        const message: MessageDescriptor = err instanceof SyntaxError
+          ? { key: "preset.invalidJson" }
+          : getErrorDescriptor(err);
+        setError({ key: "preset.importFailed", params: { message } });
+      }
+    },
+    [userPresets, updateUserPresets]
+  );
+
+  /**
+   * Downloads user presets as a versioned JSON file
+   */
+  const exportPresets = useCallback(() => {
+    downloadFile(
+      serializePresets(userPresets),
+      "password-presets.json",
+      "application/json"
+    );
+  }, [userPresets]);
+
+  return {
+    presets, // Built-in and user presets
+    activePreset, // Selected preset
+    error: error && t(error.key, error.params), // Last error message
+    selectPreset, // Function to select a preset
+    savePreset, // Function to save a preset
+    deletePreset, // Function to delete a preset
+    importPresets, // Function to import presets
+    exportPresets, // Function to export presets
+  };
+};
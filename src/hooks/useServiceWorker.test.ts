@@ -0,0 +1,125 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useServiceWorker } from "./useServiceWorker";
+
+/**
+ * Minimal stand-in for a ServiceWorker, whose state the test moves along
+ */
+class FakeWorker extends EventTarget {
+  state: ServiceWorkerState = "installing";
+  postMessage = vi.fn();
+
+  setState(state: ServiceWorkerState) {
+    this.state = state;
+    this.dispatchEvent(new Event("statechange"));
+  }
+}
+
+/**
+ * Installs a fake navigator.serviceWorker whose registration has the given
+ * workers, with or without a version already controlling the page
+ */
+const mockServiceWorker = ({
+  controlled,
+  waiting = null,
+}: {
+  controlled: boolean;
+  waiting?: FakeWorker | null;
+}) => {
+  const registration = Object.assign(new EventTarget(), {
+    waiting,
+    installing: null as FakeWorker | null,
+    update: vi.fn(() => Promise.resolve()),
+  });
+  const container = Object.assign(new EventTarget(), {
+    controller: controlled ? new FakeWorker() : null,
+    register: vi.fn(() => Promise.resolve(registration)),
+  });
+  Object.defineProperty(navigator, "serviceWorker", {
+    value: container,
+    configurable: true,
+  });
+
+  /**
+   * Simulates the browser finding and downloading a new version
+   */
+  const deployUpdate = () => {
+    const worker = new FakeWorker();
+    registration.installing = worker;
+    registration.dispatchEvent(new Event("updatefound"));
+    worker.setState("installed");
+    return worker;
+  };
+
+  return { container, deployUpdate };
+};
+
+/**
+ * Lets the registration promise settle
+ */
+const flushRegistration = () => act(async () => undefined);
+
+describe("useServiceWorker", () => {
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, "serviceWorker");
+  });
+
+  it("registers the service worker under the app's base path", async () => {
+    const { container } = mockServiceWorker({ controlled: false });
+
+    renderHook(() => useServiceWorker(true));
+    await flushRegistration();
+
+    expect(container.register).toHaveBeenCalledWith(
+      `${import.meta.env.BASE_URL}sw.js`,
+      { scope: import.meta.env.BASE_URL }
+    );
+  });
+
+  it("doesn't register when disabled", () => {
+    const { container } = mockServiceWorker({ controlled: false });
+
+    renderHook(() => useServiceWorker(false));
+
+    expect(container.register).not.toHaveBeenCalled();
+  });
+
+  it("offers a newly downloaded version and switches to it when accepted", async () => {
+    const { deployUpdate } = mockServiceWorker({ controlled: true });
+    const { result } = renderHook(() => useServiceWorker(true));
+    await flushRegistration();
+
+    let worker!: FakeWorker;
+    act(() => {
+      worker = deployUpdate();
+    });
+    expect(result.current.updateAvailable).toBe(true);
+
+    act(() => result.current.applyUpdate());
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: "SKIP_WAITING" });
+  });
+
+  it("offers a version that finished downloading before the page loaded", async () => {
+    mockServiceWorker({ controlled: true, waiting: new FakeWorker() });
+
+    const { result } = renderHook(() => useServiceWorker(true));
+    await flushRegistration();
+
+    expect(result.current.updateAvailable).toBe(true);
+    act(() => result.current.dismissUpdate());
+    expect(result.current.updateAvailable).toBe(false);
+  });
+
+  it("doesn't prompt on the first install", async () => {
+    const { deployUpdate } = mockServiceWorker({ controlled: false });
+    const { result } = renderHook(() => useServiceWorker(true));
+    await flushRegistration();
+
+    act(() => {
+      deployUpdate();
+    });
+
+    expect(result.current.updateAvailable).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+
+/**
+ * How often an open app checks for a new deployment
+ */
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Custom React hook for the offline service worker
+ *
+ * This hook encapsulates installation and updates:
+ * - Registers the service worker built by vite.pwa.ts (production builds only)
+ * - Notices when a new deployment has finished downloading in the background
+ * - Switches to the new version and reloads when the user accepts
+ *
+ * A new version is never forced on the page, so a password being read
+ * or copied can't vanish in an automatic reload.
+ *
+ * @param enabled - Whether to register (off in development, where there's no build to cache)
+ *
+ * @returns An object containing:
+ *   - updateAvailable: Whether a new version is ready to use
+ *   - applyUpdate: Function to switch to the new version and reload
+ *   - dismissUpdate: Function to hide the prompt until the next update
+ */
+export const useServiceWorker = (enabled: boolean = import.meta.env.PROD) => {
+  // New version waiting for the user to accept it
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  // Set once the user accepts, so the first install doesn't reload the page
+  const reloadRequestedRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || !("serviceWorker" in navigator)) return;
+
+    const container = navigator.serviceWorker;
+    let updateInterval: number | undefined;
+    let isMounted = true;
+
+    /**
+     * Offers a newly installed version once it's ready, unless it's the
+     * first install (nothing to update from)
+     *
+     * @param worker - The installing service worker
+     */
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener("statechange", () => {
+        if (isMounted && worker.state === "installed" && container.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    const handleControllerChange = () => {
+      if (reloadRequestedRef.current) {
+        window.location.reload();
+      }
+    };
+    container.addEventListener("controllerchange", handleControllerChange);
+
+    container
+      .register(`${import.meta.env.BASE_URL}sw.js`, {
+        scope: import.meta.env.BASE_URL,
+      })
+      .then((registration) => {
+        if (!isMounted) return;
+        if (registration.waiting && container.controller) {
+          setWaitingWorker(registration.waiting);
+        }
+        if (registration.installing) {
+          trackInstalling(registration.installing);
+        }
+        registration.addEventListener("updatefound", () => {
+          if (registration.installing) {
+            trackInstalling(registration.installing);
+          }
+        });
+
+        // Long-lived tabs still hear about new deployments
+        updateInterval = window.setInterval(() => {
+          registration.update().catch((err) => {
+            // Expected while offline
+            console.error("Failed to check for updates:", err);
+          });
+        }, UPDATE_CHECK_INTERVAL_MS);
+      })
+      .catch((err) => {
+        console.error("Failed to register service worker:", err);
+      });
+
+    return () => {
+      isMounted = false;
+      window.clearInterval(updateInterval);
+      container.removeEventListener("controllerchange", handleControllerChange);
+    };
+  }, [enabled]);
+
+  /**
+   * Switches to the waiting version; the page reloads once it takes over
+   */
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    reloadRequestedRef.current = true;
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  }, [waitingWorker]);
+
+  /**
+   * Hides the prompt; the new version is used once every tab is closed
+   */
+  const dismissUpdate = useCallback(() => {
+    setWaitingWorker(null);
+  }, []);
+
+  return {
+    updateAvailable: waitingWorker !== null, // Whether a new version is ready
+    applyUpdate, // Function to switch to the new version
+    dismissUpdate, // Function to hide the prompt
+  };
+};
@@ -0,0 +1,102 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, fireEvent, renderHook } from "@testing-library/react";
+import { DEFAULT_SHORTCUT_BINDINGS } from "../utils/shortcutUtils";
+import { useKeyboardShortcuts, useShortcutBindings } from "./useShortcuts";
+
+describe("useShortcutBindings", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("rebinds an action and remembers it", () => {
+    const { result } = renderHook(() => useShortcutBindings());
+
+    act(() => {
+      expect(result.current.setBinding("copy", "Mod+Shift+C")).toBe(true);
+    });
+
+    expect(result.current.bindings.copy).toBe("Mod+Shift+C");
+    expect(renderHook(() => useShortcutBindings()).result.current.bindings.copy).toBe(
+      "Mod+Shift+C"
+    );
+  });
+
+  it("rejects a combination already used by another action", () => {
+    const { result } = renderHook(() => useShortcutBindings());
+
+    act(() => {
+      expect(result.current.setBinding("copy", "Mod+K")).toBe(false);
+    });
+
+    expect(result.current.bindings.copy).toBe("C");
+    expect(result.current.error).toBe(
+      'Ctrl + K is already used for "Open command palette"'
+    );
+  });
+
+  it("unbinds and resets to the defaults", () => {
+    const { result } = renderHook(() => useShortcutBindings());
+
+    act(() => {
+      result.current.setBinding("generate", null);
+    });
+    expect(result.current.bindings.generate).toBeNull();
+
+    act(() => {
+      result.current.resetBindings();
+    });
+    expect(result.current.bindings).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+  });
+});
+
+describe("useKeyboardShortcuts", () => {
+  it("runs the handler bound to the pressed combination", () => {
+    const generate = vi.fn();
+    const copy = vi.fn();
+    renderHook(() =>
+      useKeyboardShortcuts(DEFAULT_SHORTCUT_BINDINGS, { generate, copy })
+    );
+
+    fireEvent.keyDown(window, { key: "g", ctrlKey: true });
+    fireEvent.keyDown(window, { key: "c" });
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(copy).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores plain keys while typing but not Ctrl/Cmd shortcuts", () => {
+    const generate = vi.fn();
+    const copy = vi.fn();
+    renderHook(() =>
+      useKeyboardShortcuts(DEFAULT_SHORTCUT_BINDINGS, { generate, copy })
+    );
+    const input = document.createElement("input");
+    document.body.appendChild(input);
+
+    fireEvent.keyDown(input, { key: "c" });
+    fireEvent.keyDown(input, { key: "g", metaKey: true });
+
+    expect(copy).not.toHaveBeenCalled();
+    expect(generate).toHaveBeenCalledTimes(1);
+    input.remove();
+  });
+
+  it("does nothing while disabled or for actions without a handler", () => {
+    const copy = vi.fn();
+    const { rerender } = renderHook(
+      ({ enabled }) => useKeyboardShortcuts(DEFAULT_SHORTCUT_BINDINGS, { copy }, enabled),
+      { initialProps: { enabled: false } }
+    );
+
+    fireEvent.keyDown(window, { key: "c" });
+    expect(copy).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+    const unhandled = fireEvent.keyDown(window, { key: "g", ctrlKey: true });
+    // The browser's own Ctrl+G still works when the app doesn't handle it
+    expect(unhandled).toBe(true);
+    fireEvent.keyDown(window, { key: "c" });
+    expect(copy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { MessageDescriptor, ShortcutAction, ShortcutBindings } from "../types";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  findShortcutAction,
+  formatBinding,
+  getEventBinding,
+  hasCommandModifier,
+  isEditableTarget,
+  loadShortcutBindings,
+  storeShortcutBindings,
+} from "../utils/shortcutUtils";
+import { useI18n } from "./useI18n";
+
+/**
+ * Custom React hook for the user's keyboard shortcut bindings
+ *
+ * This hook encapsulates binding state:
+ * - Bindings loaded from localStorage (defaults for anything not rebound)
+ * - Rebinding or unbinding an action, rejecting combinations already in use
+ * - Resetting every action to its default
+ *
+ * @returns An object containing:
+ *   - bindings: Key combination bound to each action
+ *   - error: Error message from the last rebind, if any
+ *   - setBinding: Function to bind an action to a combination (null to unbind)
+ *   - resetBindings: Function to restore the default bindings
+ */
+export const useShortcutBindings = () => {
+  const { t } = useI18n();
+
+  // Current bindings
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadShortcutBindings);
+
+  // Last rebind error (shown in the UI)
+  const [error, setError] = useState<MessageDescriptor | null>(null);
+
+  /**
+   * Saves new bindings
+   *
+   * @param next - The bindings to use
+   */
+  const updateBindings = useCallback((next: ShortcutBindings) => {
+    setBindings(next);
+    storeShortcutBindings(next);
+    setError(null);
+  }, []);
+
+  /**
+   * Binds an action to a key combination
+   *
+   * @param action - The action to rebind
+   * @param binding - The new combination, or null to remove the shortcut
+   * @returns true if the binding was changed
+   */
+  const setBinding = useCallback(
+    (action: ShortcutAction, binding: string | null): boolean => {
+      const conflict = binding ? findShortcutAction(bindings, binding) : null;
+      if (binding && conflict && conflict !== action) {
+        setError({
+          key: "shortcuts.conflict",
+          params: {
+            keys: formatBinding(binding).join(" + "),
+            action: { key: `shortcut.${conflict}` },
+          },
+        });
+        return false;
+      }
+      updateBindings({ ...bindings, [action]: binding });
+      return true;
+    },
+    [bindings, updateBindings]
+  );
+
+  /**
+   * Restores the default bindings
+   */
+  const resetBindings = useCallback(() => {
+    updateBindings({ ...DEFAULT_SHORTCUT_BINDINGS });
+  }, [updateBindings]);
+
+  return {
+    bindings, // Current bindings
+    error: error && t(error.key, error.params), // Last error message
+    setBinding, // Function to rebind an action
+    resetBindings, // Function to restore the defaults
+  };
+};
+
+/**
+ * Custom React hook that runs actions when their shortcut is pressed
+ *
+ * A single window listener maps each key press to an action through the
+ * bindings. Plain-key shortcuts (e.g. "C") are ignored while typing in a text
+ * field; shortcuts with Ctrl/Cmd or Alt work everywhere.
+ *
+ * @param bindings - Key combination bound to each action
+ * @param handlers - Function to run for each available action (others are ignored)
+ * @param enabled - Set to false while a dialog handles the keyboard itself
+ */
+export const useKeyboardShortcuts = (
+  bindings: ShortcutBindings,
+  handlers: Partial<Record<ShortcutAction, () => void>>,
+  enabled: boolean = true
+) => {
+  // Latest handlers, so the listener isn't re-added on every render
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+
+      const binding = getEventBinding(event);
+      if (!binding) return;
+      const action = findShortcutAction(bindings, binding);
+      if (!action) return;
+      if (isEditableTarget(event.target) && !hasCommandModifier(binding)) return;
+
+      const handler = handlersRef.current[action];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [bindings, enabled]);
+};
@@ -0,0 +1,70 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useTheme } from "./useTheme";
+
+/**
+ * Replaces window.matchMedia with OS settings the test can change
+ */
+const mockMediaQueries = (initial: Record<string, boolean>) => {
+  const settings = { ...initial };
+  const queries = new Map<string, EventTarget & { matches: boolean }>();
+
+  vi.stubGlobal(
+    "matchMedia",
+    vi.fn((query: string) => {
+      if (!queries.has(query)) {
+        const list = Object.defineProperty(new EventTarget(), "matches", {
+          get: () => settings[query] ?? false,
+        }) as EventTarget & { matches: boolean };
+        queries.set(query, list);
+      }
+      return queries.get(query);
+    })
+  );
+
+  /**
+   * Changes an OS setting and notifies listeners
+   */
+  return (query: string, matches: boolean) => {
+    settings[query] = matches;
+    queries.get(query)?.dispatchEvent(new Event("change"));
+  };
+};
+
+describe("useTheme", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+    delete document.documentElement.dataset.theme;
+    delete document.documentElement.dataset.accent;
+  });
+
+  it("follows the OS colour scheme until the user picks a theme", () => {
+    const setMedia = mockMediaQueries({ "(prefers-color-scheme: light)": true });
+    const { result } = renderHook(() => useTheme());
+
+    expect(result.current.preference).toBe("system");
+    expect(document.documentElement.dataset.theme).toBe("light");
+
+    act(() => setMedia("(prefers-color-scheme: light)", false));
+    expect(document.documentElement.dataset.theme).toBe("dark");
+
+    act(() => result.current.setPreference("high-contrast"));
+    act(() => setMedia("(prefers-color-scheme: light)", true));
+    expect(document.documentElement.dataset.theme).toBe("high-contrast");
+  });
+
+  it("applies and remembers the accent and theme", () => {
+    mockMediaQueries({});
+    const { result } = renderHook(() => useTheme());
+
+    act(() => result.current.setAccent("yellow"));
+    act(() => result.current.setPreference("light"));
+
+    expect(document.documentElement.dataset.accent).toBe("yellow");
+    const { result: reloaded } = renderHook(() => useTheme());
+    expect(reloaded.current.preference).toBe("light");
+    expect(reloaded.current.accent).toBe("yellow");
+  });
+});
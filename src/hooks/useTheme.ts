@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from "react";
+import { useMediaQuery } from "./useMediaQuery";
+import { AccentColor, ThemePreference, ThemeSettings } from "../types";
+import {
+  applyTheme,
+  loadThemeSettings,
+  PREFERS_LIGHT_QUERY,
+  PREFERS_MORE_CONTRAST_QUERY,
+  resolveTheme,
+  storeThemeSettings,
+} from "../utils/themeUtils";
+
+/**
+ * Custom React hook for the colour theme
+ *
+ * This hook encapsulates theme state:
+ * - The user's theme and accent, remembered in localStorage
+ * - Following the OS colour scheme and contrast settings while "system" is
+ *   selected, including changes made while the app is open
+ * - Applying the result to the page
+ *
+ * @returns An object containing:
+ *   - preference: The chosen theme ("system" to follow the OS)
+ *   - theme: The theme currently applied
+ *   - accent: The chosen accent colour
+ *   - setPreference: Function to choose a theme
+ *   - setAccent: Function to choose an accent colour
+ */
+export const useTheme = () => {
+  // User's theme settings
+  const [settings, setSettings] = useState<ThemeSettings>(loadThemeSettings);
+
+  // OS appearance settings
+  const prefersLight = useMediaQuery(PREFERS_LIGHT_QUERY);
+  const prefersMoreContrast = useMediaQuery(PREFERS_MORE_CONTRAST_QUERY);
+
+  const theme = resolveTheme(settings.preference, prefersLight, prefersMoreContrast);
+
+  // Apply the theme whenever it changes
+  useEffect(() => {
+    applyTheme(theme, settings.accent);
+  }, [theme, settings.accent]);
+
+  /**
+   * Saves new theme settings
+   *
+   * @param next - The settings to use
+   */
+  const updateSettings = useCallback((next: ThemeSettings) => {
+    setSettings(next);
+    storeThemeSettings(next);
+  }, []);
+
+  /**
+   * Chooses a theme
+   *
+   * @param preference - The theme, or "system" to follow the OS
+   */
+  const setPreference = useCallback(
+    (preference: ThemePreference) => {
+      updateSettings({ ...settings, preference });
+    },
+    [settings, updateSettings]
+  );
+
+  /**
+   * Chooses an accent colour
+   *
+   * @param accent - The accent colour
+   */
+  const setAccent = useCallback(
+    (accent: AccentColor) => {
+      updateSettings({ ...settings, accent });
+    },
+    [settings, updateSettings]
+  );
+
+  return {
+    preference: settings.preference, // Chosen theme
+    theme, // Applied theme
+    accent: settings.accent, // Chosen accent colour
+    setPreference, // Function to choose a theme
+    setAccent, // Function to choose an accent colour
+  };
+};
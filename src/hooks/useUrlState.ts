@@ -0,0 +1,45 @@
+import { useState, useEffect } from "react";
+import { Preset } from "../types";
+import { DEFAULT_PASSWORD_OPTIONS } from "../utils/passwordUtils";
+import { parseUrlState } from "../utils/urlState";
+
+/**
+ * Custom React hook for reading the generator configuration from the URL
+ *
+ * This hook encapsulates the URL the app was opened with:
+ * - Reading options (and preset) from the query string or hash once
+ * - Selecting the preset named in the URL
+ *
+ * Keeping the URL in sync afterwards is done with replaceUrlState.
+ *
+ * @param presets - Presets the URL may refer to
+ * @param selectPreset - Function to select a preset by id
+ *
+ * @returns An object containing:
+ *   - initialOptions: Options from the URL, or undefined if the URL has none
+ */
+export const useUrlState = (
+  presets: Preset[],
+  selectPreset: (id: string | null) => void
+) => {
+  // Configuration from the URL the app was opened with (read once)
+  const [initialState] = useState(() =>
+    parseUrlState(
+      window.location.search,
+      window.location.hash,
+      presets,
+      DEFAULT_PASSWORD_OPTIONS
+    )
+  );
+
+  // A shared link replaces the remembered preset
+  useEffect(() => {
+    if (initialState) {
+      selectPreset(initialState.presetId);
+    }
+  }, [initialState, selectPreset]);
+
+  return {
+    initialOptions: initialState?.options, // Options from the URL
+  };
+};
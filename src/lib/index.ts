@@ -0,0 +1,131 @@
+/**
+ * Headless library entry
+ *
+ * Framework-free exports of the same generation and strength rules the app
+ * uses, built separately with vite.lib.config.ts (ESM and CJS) so backends
+ * and CLI tools can share them. Runs unchanged in browsers and Node, using
+ * globalThis.crypto for randomness and hashing.
+ *
+ * Example usage:
+ * import { generatePassword, DEFAULT_PASSWORD_OPTIONS } from "password-generator-app";
+ * const password = generatePassword({ ...DEFAULT_PASSWORD_OPTIONS, length: 24 });
+ */
+
+// Generation
+export {
+  DEFAULT_PASSWORD_OPTIONS,
+  DEFAULT_SYMBOL_CHARS,
+  AMBIGUOUS_CHARS,
+  CHARACTER_CLASS_LABELS,
+  MIN_PASSWORD_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSPHRASE_WORDS,
+  MAX_PASSPHRASE_WORDS,
+  MIN_BULK_COUNT,
+  MAX_BULK_COUNT,
+  generatePassword,
+  generatePassphrase,
+  generatePronounceablePassword,
+  generateBulkPasswords,
+  getCharacterSets,
+  getCharacterPool,
+  validateCharacterSets,
+  isValidPasswordLength,
+  canGeneratePassword,
+  validatePasswordPolicy,
+} from "../utils/passwordUtils";
+export {
+  DEFAULT_POLICY,
+  POSITION_RULE_LABELS,
+  getPolicyErrors,
+  validatePolicy,
+} from "../utils/passwordPolicy";
+export {
+  MIN_PIN_LENGTH,
+  MAX_PIN_LENGTH,
+  PIN_STRENGTH_BANDS,
+  PIN_ATTEMPT_LIMITS,
+  PIN_WEAKNESS_LABELS,
+  generatePin,
+  getPinWeakness,
+  calculatePinEntropy,
+  calculateGuessChance,
+} from "../utils/pinUtils";
+export { sanitizeOptions } from "../utils/presetUtils";
+
+// Strength
+export {
+  ATTACK_RATES,
+  STRENGTH_BANDS,
+  STRENGTH_KEYS,
+  STRENGTH_LABELS,
+  EMPTY_STRENGTH,
+  calculatePasswordStrength,
+  calculateGeneratedStrength,
+  calculatePassphraseEntropy,
+  calculatePronounceableEntropy,
+  calculateEntropy,
+  estimateCrackTime,
+  describeCrackTime,
+  formatCrackTime,
+  getStrengthLevel,
+  getStrengthFromEntropy,
+  getStrengthLabel,
+} from "../utils/passwordUtils";
+export {
+  PATTERN_KIND_LABELS,
+  analyzePassword,
+  countCharacterClasses,
+  getTextPoolSize,
+} from "../utils/passwordAnalysis";
+
+// Breach check
+export {
+  HIBP_RANGE_URL,
+  bundledRangeProvider,
+  checkPasswordBreach,
+  createFileRangeProvider,
+  createHibpRangeProvider,
+  createLocalRangeProvider,
+  generateUnbreachedPassword,
+  generateUnbreachedBulkPasswords,
+} from "../utils/breachCheck";
+
+// Messages
+export { MessageError, formatEnglishMessage } from "../utils/messageFormat";
+export type { MessageKey } from "../locales/en";
+
+// Randomness
+export {
+  cryptoRandomSource,
+  createSeededRandomSource,
+  randomInt,
+} from "../utils/random";
+
+// Types
+export type {
+  AttackScenario,
+  BreachRangeProvider,
+  BulkPasswordEntry,
+  CharacterClass,
+  ClassCountRule,
+  CrackTimeEstimate,
+  CrackTimeUnit,
+  DetectedPattern,
+  GenerationMode,
+  MessageDescriptor,
+  MessageParams,
+  PassphraseCapitalization,
+  PasswordAnalysis,
+  PasswordOptions,
+  PasswordPolicy,
+  PatternKind,
+  PinWeakness,
+  PolicyRule,
+  PolicyViolation,
+  PositionRule,
+  RandomSource,
+  StrengthKey,
+  StrengthResult,
+  TextCharacterClass,
+} from "../types";
@@ -0,0 +1,462 @@
+import { Messages } from "./en";
+
+/**
+ * Arabic messages (right-to-left)
+ */
+export const ar: Messages = {
+  // App shell
+  "app.title": "مولّد كلمات المرور",
+  "app.modeTabs": "وضع التطبيق",
+  "app.tab.generator": "المولّد",
+  "app.tab.checker": "الفاحص",
+  "app.keyboardShortcuts": "اختصارات لوحة المفاتيح",
+  "app.commandPalette": "لوحة الأوامر",
+
+  // Shared
+  "common.bits": "{bits} بت",
+  "common.copy": "نسخ",
+  "common.copied": "تم النسخ",
+  "common.save": "حفظ",
+  "common.clear": "مسح",
+  "common.close": "إغلاق",
+  "common.errorMessage": "{message}",
+
+  // Password display
+  "display.hiddenSummary": {
+    zero: "كلمة المرور مخفية، بلا أحرف. استخدم «إظهار كلمة المرور» لعرضها أو انسخها دون إظهارها.",
+    one: "كلمة المرور مخفية، حرف واحد. استخدم «إظهار كلمة المرور» لعرضها أو انسخها دون إظهارها.",
+    two: "كلمة المرور مخفية، حرفان. استخدم «إظهار كلمة المرور» لعرضها أو انسخها دون إظهارها.",
+    few: "كلمة المرور مخفية، {count} أحرف. استخدم «إظهار كلمة المرور» لعرضها أو انسخها دون إظهارها.",
+    many: "كلمة المرور مخفية، {count} حرفًا. استخدم «إظهار كلمة المرور» لعرضها أو انسخها دون إظهارها.",
+    other: "كلمة المرور مخفية، {count} حرف. استخدم «إظهار كلمة المرور» لعرضها أو انسخها دون إظهارها.",
+  },
+  "display.showPassword": "إظهار كلمة المرور",
+  "display.hidePassword": "إخفاء كلمة المرور",
+  "display.copyPassword": "نسخ كلمة المرور",
+  "display.copiedAnnouncement": "تم النسخ!",
+  "display.clearClipboardAfter": "مسح الحافظة بعد",
+  "display.clearDelay.off": "إيقاف",
+  "display.clearDelay.seconds": "{count} ث",
+  "display.clearDelay.minutes": "{count} د",
+
+  // Password reveal announcements
+  "reveal.shown": "تم إظهار كلمة المرور",
+  "reveal.hidden": "تم إخفاء كلمة المرور",
+  "reveal.hiddenOnLeave": "تم إخفاء كلمة المرور لأنك غادرت علامة التبويب",
+
+  // Clipboard status and errors
+  "clipboard.clearsIn": "تُمسح الحافظة خلال {count} ث",
+  "clipboard.clearsOnReturn": "تُمسح الحافظة عند عودتك إلى علامة التبويب هذه",
+  "clipboard.clearNow": "امسح الآن",
+  "clipboard.copyWithoutRevealing": "نسخ دون إظهار",
+  "clipboard.clearFailed": "تعذّر فحص الحافظة، لذا لم تُمسح. امسحها يدويًا.",
+  "clipboard.denied": "تم رفض الوصول إلى الحافظة.",
+  "clipboard.unavailable": "النسخ غير متاح في هذا المتصفح.",
+
+  // Error boundary
+  "errorBoundary.title": "حدث خطأ ما",
+  "errorBoundary.message": "حدث خطأ غير متوقع. حاول تحديث الصفحة أو انقر على الزر أدناه لإعادة ضبط التطبيق.",
+  "errorBoundary.details": "تفاصيل الخطأ",
+  "errorBoundary.reset": "إعادة ضبط التطبيق",
+
+  // Generation options
+  "options.modeGroup": "وضع التوليد",
+  "options.mode.password": "كلمة مرور",
+  "options.mode.passphrase": "عبارة مرور",
+  "options.mode.pronounceable": "قابلة للنطق",
+  "options.mode.pin": "رمز PIN",
+  "options.length": "عدد الأحرف",
+  "options.lengthField": "طول كلمة المرور بالأحرف",
+  "options.lengthSlider": "طول كلمة المرور",
+  "options.lengthValue": {
+    zero: "بلا أحرف",
+    one: "حرف واحد",
+    two: "حرفان",
+    few: "{count} أحرف",
+    many: "{count} حرفًا",
+    other: "{count} حرف",
+  },
+  "options.lengthError": "أدخل طولًا من {min} إلى {max}",
+  "options.noCharacterTypes": "يرجى اختيار نوع أحرف واحد على الأقل لتوليد كلمة مرور.",
+  "options.noLetters": "يرجى اختيار الأحرف الكبيرة أو الصغيرة لتكوين المقاطع.",
+  "options.uppercase": "تضمين الأحرف الكبيرة",
+  "options.uppercaseField": "تضمين الأحرف الكبيرة",
+  "options.lowercase": "تضمين الأحرف الصغيرة",
+  "options.lowercaseField": "تضمين الأحرف الصغيرة",
+  "options.numbers": "تضمين الأرقام",
+  "options.numbersField": "تضمين الأرقام",
+  "options.symbols": "تضمين الرموز",
+  "options.symbolsField": "تضمين الرموز",
+  "options.wordCount": "عدد الكلمات",
+  "options.wordCountSlider": "عدد كلمات عبارة المرور",
+  "options.wordCountValue": {
+    zero: "بلا كلمات",
+    one: "كلمة واحدة",
+    two: "كلمتان",
+    few: "{count} كلمات",
+    many: "{count} كلمة",
+    other: "{count} كلمة",
+  },
+  "options.separator": "الفاصل",
+  "options.separatorField": "الفاصل بين الكلمات",
+  "options.separator.hyphen": "شرطة ( - )",
+  "options.separator.space": "مسافة",
+  "options.separator.period": "نقطة ( . )",
+  "options.separator.underscore": "شرطة سفلية ( _ )",
+  "options.separator.none": "بلا فاصل",
+  "options.capitalization": "حالة الأحرف",
+  "options.capitalizationField": "حالة أحرف الكلمات",
+  "options.capitalization.capitalize": "أول حرف كبير",
+  "options.capitalization.lowercase": "أحرف صغيرة",
+  "options.capitalization.uppercase": "أحرف كبيرة",
+  "options.capitalization.random": "عشوائي",
+  "options.includeNumber": "تضمين رقم",
+  "options.includeNumberField": "تضمين رقم",
+  "options.includeSymbol": "تضمين رمز",
+  "options.includeSymbolField": "تضمين رمز",
+  "options.pinLength": "طول رمز PIN",
+  "options.pinLengthSlider": "طول رمز PIN",
+  "options.pinLengthValue": {
+    zero: "بلا أرقام",
+    one: "رقم واحد",
+    two: "رقمان",
+    few: "{count} أرقام",
+    many: "{count} رقمًا",
+    other: "{count} رقم",
+  },
+  "options.pinNote": "لا تُولَّد أبدًا المتتاليات أو التكرارات أو المتناظرات أو التواريخ أو رموز PIN الشائعة.",
+  "options.avoidAmbiguous": "تجنّب الأحرف المتشابهة",
+  "options.avoidAmbiguousField": "تجنّب الأحرف المتشابهة",
+  "options.rejectBreached": "أعد التوليد إذا وُجدت في التسريبات",
+  "options.rejectBreachedField": "إعادة توليد كلمات المرور الموجودة في التسريبات",
+  "options.advanced": "متقدم",
+  "options.symbolSet": "مجموعة الرموز",
+  "options.symbolSetField": "أحرف الرموز",
+  "options.reset": "إعادة ضبط",
+  "options.extraChars": "أحرف إضافية",
+  "options.extraCharsField": "أحرف إضافية للتضمين",
+  "options.extraCharsPlaceholder": "مثال: äöü€",
+  "options.excludeChars": "استبعاد أحرف",
+  "options.excludeCharsField": "الأحرف المراد استبعادها",
+  "options.excludeCharsPlaceholder": "مثال: <>|;",
+
+  // Option validation and generation errors
+  "validation.classEmpty": "لم يتبقَّ أي حرف من {class} بعد الاستبعاد",
+  "validation.syllablesEmpty": "تحتاج المقاطع إلى حرف ساكن وحرف علة واحد على الأقل بعد الاستبعاد",
+  "generation.lengthRange": "يجب أن يكون طول كلمة المرور بين {min} و{max} حرفًا",
+  "generation.noCharacterTypes": "لم يتم اختيار أي نوع من الأحرف",
+  "generation.noLetters": "تحتاج كلمات المرور القابلة للنطق إلى أحرف كبيرة أو صغيرة",
+  "generation.policyUnsatisfied": "تعذّر إنشاء كلمة مرور تستوفي السياسة. جرّب طولًا أكبر أو قيودًا أقل.",
+  "generation.wordCountRange": "يجب أن تحتوي عبارة المرور على عدد من الكلمات بين {min} و{max}",
+  "generation.pinLengthRange": "يجب أن يكون طول رمز PIN بين {min} و{max} أرقام",
+  "generation.pinWeak": "تعذّر إنشاء رمز PIN خالٍ من الأنماط الضعيفة",
+  "generation.bulkCountRange": "يجب أن يكون العدد بين {min} و{max}",
+  "generation.tooFewUnique": {
+    one: "أمكن إنشاء كلمة مرور فريدة واحدة فقط بهذه الخيارات",
+    two: "أمكن إنشاء كلمتي مرور فريدتين فقط بهذه الخيارات",
+    few: "أمكن إنشاء {count} كلمات مرور فريدة فقط بهذه الخيارات",
+    many: "أمكن إنشاء {count} كلمة مرور فريدة فقط بهذه الخيارات",
+    other: "أمكن إنشاء {count} كلمة مرور فريدة فقط بهذه الخيارات",
+  },
+  "generation.rejectBreachedAsync": "يتطلب رفض كلمات المرور المسرّبة فحص التسريب غير المتزامن؛ استخدم generateUnbreachedPassword أو generateUnbreachedBulkPasswords",
+
+  // Password policy
+  "policy.title": "قواعد السياسة",
+  "policy.class": "الفئة",
+  "policy.min": "الأدنى",
+  "policy.max": "الأقصى",
+  "policy.minField": "الحد الأدنى من {class}",
+  "policy.maxField": "الحد الأقصى من {class}",
+  "policy.maxRun": "أقصى تكرار متتالٍ",
+  "policy.maxRunField": "أقصى عدد من الأحرف المتطابقة المتتالية",
+  "policy.firstChar": "الحرف الأول",
+  "policy.lastChar": "الحرف الأخير",
+  "policy.position.any": "أي حرف",
+  "policy.position.letter": "حرف هجائي",
+  "policy.position.alphanumeric": "حرف هجائي أو رقم",
+  "characterClass.uppercase": "الأحرف الكبيرة",
+  "characterClass.lowercase": "الأحرف الصغيرة",
+  "characterClass.numbers": "الأرقام",
+  "characterClass.symbols": "الرموز",
+  "characterClass.extra": "الأحرف الإضافية",
+  "characterClassNoun.uppercase": "الأحرف الكبيرة",
+  "characterClassNoun.lowercase": "الأحرف الصغيرة",
+  "characterClassNoun.numbers": "الأرقام",
+  "characterClassNoun.symbols": "الرموز",
+  "characterClassNoun.extra": "الأحرف الإضافية",
+  "policyError.minUnselected": "تتطلب السياسة {count} على الأقل من {class}، لكن {class} غير محددة",
+  "policyError.minAboveMax": "الحد الأدنى من {class} ({min}) أكبر من الحد الأقصى ({max})",
+  "policyError.classDisallowed": "تم اختيار {class}، لكن السياسة لا تسمح بأي منها",
+  "policyError.tooManyRequired": "تتطلب السياسة {count} حرفًا على الأقل، لكن الطول {length}",
+  "policyError.tooFewAllowed": "تسمح السياسة بـ{count} حرفًا على الأكثر، لكن الطول {length}",
+  "policyError.maxRunTooSmall": "يجب ألا يقل أقصى تكرار متتالٍ للحرف نفسه عن 1",
+  "policyError.maxRunUnreachable": "لا توجد أحرف مختلفة كافية لحصر تكرار الحرف نفسه متتاليًا في {count}",
+  "policyError.firstChar.letter": "يجب أن يكون الحرف الأول حرفًا أبجديًا، لكن لم يتم اختيار أي أحرف",
+  "policyError.firstChar.alphanumeric": "يجب أن يكون الحرف الأول حرفًا أبجديًا أو رقمًا، لكن لم يتم اختيار أي منها",
+  "policyError.lastChar.letter": "يجب أن يكون الحرف الأخير حرفًا أبجديًا، لكن لم يتم اختيار أي أحرف",
+  "policyError.lastChar.alphanumeric": "يجب أن يكون الحرف الأخير حرفًا أبجديًا أو رقمًا، لكن لم يتم اختيار أي منها",
+  "policyViolation.minCount": "يلزم {min} على الأقل من {class}، ووُجد {count}",
+  "policyViolation.maxCount": "يُسمح بـ {max} على الأكثر من {class}، ووُجد {count}",
+  "policyViolation.maxRunLength": "أكثر من {count} من الأحرف المتطابقة المتتالية",
+  "policyViolation.firstChar.letter": "يجب أن يكون الحرف الأول حرفًا أبجديًا",
+  "policyViolation.firstChar.alphanumeric": "يجب أن يكون الحرف الأول حرفًا أبجديًا أو رقمًا",
+  "policyViolation.lastChar.letter": "يجب أن يكون الحرف الأخير حرفًا أبجديًا",
+  "policyViolation.lastChar.alphanumeric": "يجب أن يكون الحرف الأخير حرفًا أبجديًا أو رقمًا",
+
+  // Strength
+  "strength.title": "القوة",
+  "strength.tooWeak": "ضعيفة جدًا",
+  "strength.weak": "ضعيفة",
+  "strength.medium": "متوسطة",
+  "strength.strong": "قوية",
+  "strength.veryStrong": "قوية جدًا",
+  "strength.breached": {
+    one: "وُجدت في التسريبات. لا تستخدم كلمة المرور هذه.",
+    two: "وُجدت في التسريبات مرتين. لا تستخدم كلمة المرور هذه.",
+    few: "وُجدت في التسريبات ({count} مرات). لا تستخدم كلمة المرور هذه.",
+    many: "وُجدت في التسريبات ({count} مرة). لا تستخدم كلمة المرور هذه.",
+    other: "وُجدت في التسريبات ({count} مرة). لا تستخدم كلمة المرور هذه.",
+  },
+  "strength.possiblePins": "رموز PIN الممكنة",
+  "strength.cardBlocked": "تُحظر البطاقة بعد {count} محاولات",
+  "strength.phoneWiped": "يُمسح الهاتف بعد {count} محاولات",
+  "strength.chance": "احتمال {chance}",
+  "strength.chanceBelow": "< {chance}",
+  "strength.entropy": "الإنتروبيا:",
+  "attack.onlineThrottled": "عبر الإنترنت (مقيّد)",
+  "attack.onlineUnthrottled": "عبر الإنترنت (غير مقيّد)",
+  "attack.offlineSlowHash": "دون اتصال (تجزئة بطيئة)",
+  "attack.offlineFastHash": "دون اتصال (تجزئة سريعة)",
+  "crackTime.instant": "فورًا",
+  "crackTime.second": {
+    zero: "{count} ثانية",
+    one: "ثانية واحدة",
+    two: "ثانيتان",
+    few: "{count} ثوانٍ",
+    many: "{count} ثانية",
+    other: "{count} ثانية",
+  },
+  "crackTime.minute": {
+    zero: "{count} دقيقة",
+    one: "دقيقة واحدة",
+    two: "دقيقتان",
+    few: "{count} دقائق",
+    many: "{count} دقيقة",
+    other: "{count} دقيقة",
+  },
+  "crackTime.hour": {
+    zero: "{count} ساعة",
+    one: "ساعة واحدة",
+    two: "ساعتان",
+    few: "{count} ساعات",
+    many: "{count} ساعة",
+    other: "{count} ساعة",
+  },
+  "crackTime.day": {
+    zero: "{count} يوم",
+    one: "يوم واحد",
+    two: "يومان",
+    few: "{count} أيام",
+    many: "{count} يومًا",
+    other: "{count} يوم",
+  },
+  "crackTime.month": {
+    zero: "{count} شهر",
+    one: "شهر واحد",
+    two: "شهران",
+    few: "{count} أشهر",
+    many: "{count} شهرًا",
+    other: "{count} شهر",
+  },
+  "crackTime.year": {
+    zero: "{count} سنة",
+    one: "سنة واحدة",
+    two: "سنتان",
+    few: "{count} سنوات",
+    many: "{count} سنة",
+    other: "{count} سنة",
+  },
+  "crackTime.centuries": "قرون",
+
+  // Generate button
+  "generate.label": "توليد",
+  "generate.button": "توليد كلمة مرور جديدة",
+
+  // Presets
+  "preset.label": "الإعداد المسبق",
+  "preset.custom": "مخصص",
+  "preset.saveAs": "حفظ باسم…",
+  "preset.delete": "حذف",
+  "preset.import": "استيراد",
+  "preset.export": "تصدير",
+  "preset.importFile": "استيراد ملف الإعدادات المسبقة",
+  "preset.name": "اسم الإعداد المسبق",
+  "preset.storageFailed": "تعذّر حفظ الإعدادات المسبقة في هذا المتصفح",
+  "preset.nameRequired": "اسم الإعداد المسبق مطلوب",
+  "preset.builtInName": "«{name}» اسم إعداد مسبق مدمج",
+  "preset.invalidJson": "ملف الإعدادات المسبقة ليس JSON صالحًا",
+  "preset.importFailed": "فشل الاستيراد: {message}",
+  "presetFile.notObject": "يجب أن يكون ملف الإعدادات المسبقة كائن JSON",
+  "presetFile.missingVersion": "ملف الإعدادات المسبقة لا يحتوي على رقم إصدار",
+  "presetFile.newerVersion": "إصدار ملف الإعدادات المسبقة {version} أحدث مما يدعمه هذا التطبيق ({supported})",
+  "presetFile.unsupportedVersion": "إصدار ملف الإعدادات المسبقة {version} غير مدعوم",
+  "presetFile.missingPresets": "يجب أن يحتوي ملف الإعدادات المسبقة على مصفوفة presets",
+  "presetFile.mustBeObject": "يجب أن يكون {path} كائنًا",
+  "presetFile.mustBeNumber": "يجب أن يكون {path} رقمًا",
+  "presetFile.mustBeBoolean": "يجب أن يكون {path} قيمة منطقية",
+  "presetFile.mustBeString": "يجب أن يكون {path} نصًا",
+  "presetFile.mustBeName": "يجب أن يكون {path} نصًا غير فارغ",
+  "presetFile.mustBeOneOf": "يجب أن يكون {path} إحدى القيم: {values}",
+  "presetFile.mustBeCount": "يجب أن يكون {path} عددًا صحيحًا غير سالب أو null",
+
+  // Checker
+  "checker.label": "كلمة المرور المراد فحصها",
+  "checker.placeholder": "الصق كلمة مرور أو اكتبها",
+  "checker.show": "إظهار",
+  "checker.hide": "إخفاء",
+  "checker.privacy": "يتم الفحص على هذا الجهاز فقط. لا يُخزَّن أو يُرسَل أي شيء.",
+  "checker.length": "الطول",
+  "checker.bruteForce": "إنتروبيا القوة الغاشمة",
+  "checker.afterPatterns": "بعد الأنماط",
+  "checker.patterns": "الأنماط المكتشفة",
+  "checker.noPatterns": "لم يُعثر على أنماط شائعة.",
+  "textClass.uppercase": "أحرف كبيرة",
+  "textClass.lowercase": "أحرف صغيرة",
+  "textClass.numbers": "أرقام",
+  "textClass.symbols": "رموز",
+  "textClass.other": "أخرى",
+  "pattern.common-password": "كلمة مرور شائعة",
+  "pattern.dictionary": "كلمة من القاموس",
+  "pattern.keyboard-walk": "تسلسل لوحة المفاتيح",
+  "pattern.repeat": "تكرار",
+  "pattern.sequence": "متتالية",
+  "pattern.date": "تاريخ",
+  "patternInfo.commonPassword": "«{word}» في المرتبة {rank} في قائمة كلمات المرور الشائعة",
+  "patternInfo.commonPasswordL33t": "«{word}» في المرتبة {rank} في قائمة كلمات المرور الشائعة (l33t)",
+  "patternInfo.dictionary": "«{word}» كلمة إنجليزية شائعة",
+  "patternInfo.dictionaryL33t": "«{word}» كلمة إنجليزية شائعة (l33t)",
+  "patternInfo.keyboardWalk": "«{token}» تسلسل على مفاتيح متجاورة",
+  "patternInfo.repeat": {
+    one: "«{token}» يتكرر مرة واحدة",
+    two: "«{token}» يتكرر مرتين",
+    few: "«{token}» يتكرر {count} مرات",
+    many: "«{token}» يتكرر {count} مرة",
+    other: "«{token}» يتكرر {count} مرة",
+  },
+  "patternInfo.sequence.number": "«{token}» تسلسل أرقام",
+  "patternInfo.sequence.letter": "«{token}» تسلسل أحرف",
+  "patternInfo.descendingSequence.number": "«{token}» تسلسل أرقام تنازلي",
+  "patternInfo.descendingSequence.letter": "«{token}» تسلسل أحرف تنازلي",
+  "patternInfo.year": "«{token}» يبدو كسنة",
+  "patternInfo.date": "«{token}» يبدو كتاريخ",
+
+  // Breach list
+  "breach.list": "قائمة التسريبات:",
+  "breach.builtIn": "كلمات المرور الشائعة المدمجة",
+  "breach.loadFile": "تحميل ملف",
+  "breach.loadFileField": "تحميل ملف قائمة التسريبات",
+  "breach.useBuiltIn": "استخدام المدمجة",
+  "breachError.noHashes": "ملف التسريبات لا يحتوي على تجزئات SHA-1 (المتوقع أسطر بصيغة HASH:COUNT)",
+  "breachError.lookupFailed": "فشل البحث في التسريبات ({status})",
+
+  // Bulk generation
+  "bulk.title": "توليد بالجملة",
+  "bulk.count": "عدد كلمات المرور",
+  "bulk.generate": "توليد",
+  "bulk.list": {
+    zero: "لا توجد كلمات مرور مولّدة",
+    one: "كلمة مرور مولّدة واحدة",
+    two: "كلمتا مرور مولّدتان",
+    few: "{count} كلمات مرور مولّدة",
+    many: "{count} كلمة مرور مولّدة",
+    other: "{count} كلمة مرور مولّدة",
+  },
+  "bulk.copyRow": "نسخ كلمة المرور {index}",
+  "bulk.download": "تنزيل",
+  "bulk.format.csv": "CSV",
+  "bulk.format.json": "JSON",
+  "bulk.format.text": "نص",
+
+  // History
+  "history.title": "السجل",
+  "history.locked": "مقفل",
+  "history.encrypted": "مشفّر",
+  "history.pinSummary": "رمز PIN من {count} أرقام",
+  "history.separatorSpace": "مسافة",
+  "history.charSummary": "{count} حرف",
+  "history.syllableSummary": "{count} حرف مقطعي",
+  "history.copyEntry": "نسخ كلمة المرور المولّدة عند {time}",
+  "history.unlockToSee": "افتح القفل لرؤية كلمات المرور المحفوظة.",
+  "history.empty": "ستظهر كلمات المرور المولّدة هنا.",
+  "history.masterPassphrase": "عبارة المرور الرئيسية",
+  "history.chooseMasterPassphrase": "اختر عبارة مرور رئيسية",
+  "history.unlock": "فتح القفل",
+  "history.enablePersistence": "حفظ مشفّر على هذا الجهاز",
+  "history.lockNow": "اقفل الآن",
+  "history.deleteSaved": "حذف السجل المحفوظ",
+  "history.saveFailed": "تعذّر حفظ السجل على هذا الجهاز.",
+  "history.unavailable": "السجل المشفّر غير متاح في هذا المتصفح.",
+  "history.deleteFailed": "تعذّر حذف السجل من هذا الجهاز.",
+  "history.wrongPassphrase": "عبارة المرور غير صحيحة أو السجل تالف",
+  "history.unsupportedVersion": "إصدار تنسيق السجل {version} غير مدعوم",
+
+  // Keyboard shortcuts
+  "shortcuts.title": "اختصارات لوحة المفاتيح",
+  "shortcuts.pressKeys": "اضغط على المفاتيح…",
+  "shortcuts.change": "تغيير",
+  "shortcuts.changeFor": "تغيير اختصار {action}",
+  "shortcuts.remove": "إزالة",
+  "shortcuts.removeFor": "إزالة اختصار {action}",
+  "shortcuts.typingNote": "لا تعمل الاختصارات ذات المفتاح الواحد أثناء الكتابة في حقل نصي.",
+  "shortcuts.reset": "استعادة الافتراضي",
+  "shortcuts.none": "بلا اختصار",
+  "shortcuts.conflict": "{keys} مستخدم بالفعل لـ «{action}»",
+  "shortcut.generate": "توليد كلمة مرور جديدة",
+  "shortcut.copy": "نسخ كلمة المرور",
+  "shortcut.lengthUp": "زيادة الطول بمقدار 1",
+  "shortcut.lengthDown": "إنقاص الطول بمقدار 1",
+  "shortcut.lengthUpFive": "زيادة الطول بمقدار 5",
+  "shortcut.lengthDownFive": "إنقاص الطول بمقدار 5",
+  "shortcut.toggleUppercase": "تبديل الأحرف الكبيرة",
+  "shortcut.toggleLowercase": "تبديل الأحرف الصغيرة",
+  "shortcut.toggleNumbers": "تبديل الأرقام",
+  "shortcut.toggleSymbols": "تبديل الرموز",
+  "shortcut.nextPreset": "الانتقال إلى الإعداد المسبق التالي",
+  "shortcut.previousPreset": "الانتقال إلى الإعداد المسبق السابق",
+  "shortcut.openHelp": "عرض اختصارات لوحة المفاتيح",
+  "shortcut.openPalette": "فتح لوحة الأوامر",
+  "shortcutGroup.password": "كلمة المرور",
+  "shortcutGroup.length": "الطول",
+  "shortcutGroup.characterTypes": "أنواع الأحرف",
+  "shortcutGroup.presets": "الإعدادات المسبقة",
+  "shortcutGroup.general": "عام",
+
+  // Command palette
+  "palette.title": "لوحة الأوامر",
+  "palette.placeholder": "اكتب أمرًا…",
+  "palette.search": "البحث في الأوامر",
+  "palette.results": "الأوامر",
+  "palette.noResults": "لا توجد أوامر مطابقة",
+
+  // Update prompt
+  "update.available": "يتوفر إصدار جديد.",
+  "update.later": "لاحقًا",
+  "update.reload": "إعادة التحميل",
+
+  // Appearance and language settings
+  "theme.label": "المظهر",
+  "theme.system": "النظام",
+  "theme.dark": "داكن",
+  "theme.light": "فاتح",
+  "theme.high-contrast": "تباين عالٍ",
+  "accent.label": "لون التمييز",
+  "accent.green": "أخضر",
+  "accent.blue": "أزرق",
+  "accent.yellow": "أصفر",
+  "accent.pink": "وردي",
+  "motion.label": "الحركة",
+  "motion.system": "النظام",
+  "motion.reduce": "مخفّضة",
+  "motion.full": "كاملة",
+  "language.label": "اللغة",
+};
@@ -0,0 +1,376 @@
+import { Messages } from "./en";
+
+/**
+ * German messages
+ */
+export const de: Messages = {
+  // App shell
+  "app.title": "Passwort-Generator",
+  "app.modeTabs": "Modus",
+  "app.tab.generator": "Generator",
+  "app.tab.checker": "Prüfen",
+  "app.keyboardShortcuts": "Tastenkürzel",
+  "app.commandPalette": "Befehlspalette",
+
+  // Shared
+  "common.bits": "{bits} Bit",
+  "common.copy": "Kopieren",
+  "common.copied": "Kopiert",
+  "common.save": "Speichern",
+  "common.clear": "Leeren",
+  "common.close": "Schließen",
+  "common.errorMessage": "{message}",
+
+  // Password display
+  "display.hiddenSummary": {
+    one: "Passwort verborgen, {count} Zeichen. Mit „Passwort anzeigen“ einblenden oder ohne Anzeigen kopieren.",
+    other: "Passwort verborgen, {count} Zeichen. Mit „Passwort anzeigen“ einblenden oder ohne Anzeigen kopieren.",
+  },
+  "display.showPassword": "Passwort anzeigen",
+  "display.hidePassword": "Passwort verbergen",
+  "display.copyPassword": "Passwort kopieren",
+  "display.copiedAnnouncement": "Kopiert!",
+  "display.clearClipboardAfter": "Zwischenablage leeren nach",
+  "display.clearDelay.off": "Aus",
+  "display.clearDelay.seconds": "{count} s",
+  "display.clearDelay.minutes": "{count} min",
+
+  // Password reveal announcements
+  "reveal.shown": "Passwort angezeigt",
+  "reveal.hidden": "Passwort verborgen",
+  "reveal.hiddenOnLeave": "Passwort verborgen, weil der Tab verlassen wurde",
+
+  // Clipboard status and errors
+  "clipboard.clearsIn": "Zwischenablage wird in {count} s geleert",
+  "clipboard.clearsOnReturn": "Zwischenablage wird geleert, sobald du zu diesem Tab zurückkehrst",
+  "clipboard.clearNow": "Jetzt leeren",
+  "clipboard.copyWithoutRevealing": "Ohne Anzeigen kopieren",
+  "clipboard.clearFailed": "Die Zwischenablage konnte nicht geprüft und daher nicht geleert werden. Bitte manuell leeren.",
+  "clipboard.denied": "Der Zugriff auf die Zwischenablage wurde verweigert.",
+  "clipboard.unavailable": "Kopieren ist in diesem Browser nicht verfügbar.",
+
+  // Error boundary
+  "errorBoundary.title": "Etwas ist schiefgelaufen",
+  "errorBoundary.message": "Ein unerwarteter Fehler ist aufgetreten. Lade die Seite neu oder setze die Anwendung mit der Schaltfläche unten zurück.",
+  "errorBoundary.details": "Fehlerdetails",
+  "errorBoundary.reset": "Anwendung zurücksetzen",
+
+  // Generation options
+  "options.modeGroup": "Erzeugungsmodus",
+  "options.mode.password": "Passwort",
+  "options.mode.passphrase": "Passphrase",
+  "options.mode.pronounceable": "Aussprechbar",
+  "options.mode.pin": "PIN",
+  "options.length": "Zeichenlänge",
+  "options.lengthField": "Passwortlänge in Zeichen",
+  "options.lengthSlider": "Passwortlänge",
+  "options.lengthValue": { one: "{count} Zeichen", other: "{count} Zeichen" },
+  "options.lengthError": "Gib eine Länge von {min} bis {max} ein",
+  "options.noCharacterTypes": "Wähle mindestens eine Zeichenart aus, um ein Passwort zu erzeugen.",
+  "options.noLetters": "Wähle Groß- oder Kleinbuchstaben aus, um Silben zu bilden.",
+  "options.uppercase": "Großbuchstaben verwenden",
+  "options.uppercaseField": "Großbuchstaben verwenden",
+  "options.lowercase": "Kleinbuchstaben verwenden",
+  "options.lowercaseField": "Kleinbuchstaben verwenden",
+  "options.numbers": "Ziffern verwenden",
+  "options.numbersField": "Ziffern verwenden",
+  "options.symbols": "Sonderzeichen verwenden",
+  "options.symbolsField": "Sonderzeichen verwenden",
+  "options.wordCount": "Anzahl der Wörter",
+  "options.wordCountSlider": "Anzahl der Wörter in der Passphrase",
+  "options.wordCountValue": { one: "{count} Wort", other: "{count} Wörter" },
+  "options.separator": "Trennzeichen",
+  "options.separatorField": "Trennzeichen zwischen Wörtern",
+  "options.separator.hyphen": "Bindestrich ( - )",
+  "options.separator.space": "Leerzeichen",
+  "options.separator.period": "Punkt ( . )",
+  "options.separator.underscore": "Unterstrich ( _ )",
+  "options.separator.none": "Keines",
+  "options.capitalization": "Groß-/Kleinschreibung",
+  "options.capitalizationField": "Groß-/Kleinschreibung der Wörter",
+  "options.capitalization.capitalize": "Wörter Groß Schreiben",
+  "options.capitalization.lowercase": "kleinbuchstaben",
+  "options.capitalization.uppercase": "GROSSBUCHSTABEN",
+  "options.capitalization.random": "Zufällig",
+  "options.includeNumber": "Eine Ziffer anhängen",
+  "options.includeNumberField": "Eine Ziffer anhängen",
+  "options.includeSymbol": "Ein Sonderzeichen anhängen",
+  "options.includeSymbolField": "Ein Sonderzeichen anhängen",
+  "options.pinLength": "PIN-Länge",
+  "options.pinLengthSlider": "PIN-Länge",
+  "options.pinLengthValue": { one: "{count} Ziffer", other: "{count} Ziffern" },
+  "options.pinNote": "Folgen, Wiederholungen, Palindrome, Daten und häufige PINs werden nie erzeugt.",
+  "options.avoidAmbiguous": "Verwechselbare Zeichen vermeiden",
+  "options.avoidAmbiguousField": "Verwechselbare Zeichen vermeiden",
+  "options.rejectBreached": "Neu erzeugen, wenn in Datenlecks gefunden",
+  "options.rejectBreachedField": "Passwörter aus Datenlecks neu erzeugen",
+  "options.advanced": "Erweitert",
+  "options.symbolSet": "Sonderzeichensatz",
+  "options.symbolSetField": "Sonderzeichen",
+  "options.reset": "Zurücksetzen",
+  "options.extraChars": "Zusätzliche Zeichen",
+  "options.extraCharsField": "Zusätzlich zu verwendende Zeichen",
+  "options.extraCharsPlaceholder": "z. B. äöü€",
+  "options.excludeChars": "Zeichen ausschließen",
+  "options.excludeCharsField": "Auszuschließende Zeichen",
+  "options.excludeCharsPlaceholder": "z. B. <>|;",
+
+  // Option validation and generation errors
+  "validation.classEmpty": "{class}: Nach den Ausschlüssen sind keine Zeichen mehr übrig",
+  "validation.syllablesEmpty": "Für Silben müssen nach den Ausschlüssen mindestens ein Konsonant und ein Vokal übrig bleiben",
+  "generation.lengthRange": "Die Passwortlänge muss zwischen {min} und {max} Zeichen liegen",
+  "generation.noCharacterTypes": "Keine Zeichenarten ausgewählt",
+  "generation.noLetters": "Aussprechbare Passwörter brauchen Groß- oder Kleinbuchstaben",
+  "generation.policyUnsatisfied": "Es konnte kein Passwort erzeugt werden, das die Richtlinien erfüllt. Versuche eine größere Länge oder weniger Vorgaben.",
+  "generation.wordCountRange": "Eine Passphrase muss zwischen {min} und {max} Wörter enthalten",
+  "generation.pinLengthRange": "Die PIN-Länge muss zwischen {min} und {max} Ziffern liegen",
+  "generation.pinWeak": "Es konnte keine PIN ohne schwache Muster erzeugt werden",
+  "generation.bulkCountRange": "Die Anzahl muss zwischen {min} und {max} liegen",
+  "generation.tooFewUnique": {
+    one: "Mit diesen Optionen konnte nur {count} eindeutiges Passwort erzeugt werden",
+    other: "Mit diesen Optionen konnten nur {count} eindeutige Passwörter erzeugt werden",
+  },
+  "generation.rejectBreachedAsync": "Um Passwörter aus Datenlecks zu verwerfen, ist die asynchrone Datenleck-Prüfung nötig; verwende generateUnbreachedPassword oder generateUnbreachedBulkPasswords",
+
+  // Password policy
+  "policy.title": "Richtlinien",
+  "policy.class": "Zeichenart",
+  "policy.min": "Min.",
+  "policy.max": "Max.",
+  "policy.minField": "Mindestanzahl {class}",
+  "policy.maxField": "Höchstanzahl {class}",
+  "policy.maxRun": "Max. gleiche Zeichen in Folge",
+  "policy.maxRunField": "Höchstanzahl gleicher aufeinanderfolgender Zeichen",
+  "policy.firstChar": "Erstes Zeichen",
+  "policy.lastChar": "Letztes Zeichen",
+  "policy.position.any": "Beliebiges Zeichen",
+  "policy.position.letter": "Ein Buchstabe",
+  "policy.position.alphanumeric": "Ein Buchstabe oder eine Ziffer",
+  "characterClass.uppercase": "Großbuchstaben",
+  "characterClass.lowercase": "Kleinbuchstaben",
+  "characterClass.numbers": "Ziffern",
+  "characterClass.symbols": "Sonderzeichen",
+  "characterClass.extra": "Zusätzliche Zeichen",
+  "characterClassNoun.uppercase": "Großbuchstaben",
+  "characterClassNoun.lowercase": "Kleinbuchstaben",
+  "characterClassNoun.numbers": "Ziffern",
+  "characterClassNoun.symbols": "Sonderzeichen",
+  "characterClassNoun.extra": "zusätzliche Zeichen",
+  "policyError.minUnselected": "Die Richtlinien verlangen mindestens {count} {class}, aber {class} sind nicht ausgewählt",
+  "policyError.minAboveMax": "Mindestanzahl {class} ({min}) ist größer als das Maximum ({max})",
+  "policyError.classDisallowed": "{class} sind ausgewählt, aber die Richtlinien erlauben keine",
+  "policyError.tooManyRequired": "Die Richtlinien verlangen mindestens {count} Zeichen, aber die Länge ist {length}",
+  "policyError.tooFewAllowed": "Die Richtlinien erlauben höchstens {count} Zeichen, aber die Länge ist {length}",
+  "policyError.maxRunTooSmall": "Die maximale Anzahl gleicher Zeichen in Folge muss mindestens 1 sein",
+  "policyError.maxRunUnreachable": "Zu wenige verschiedene Zeichen, um Folgen gleicher Zeichen auf {count} zu begrenzen",
+  "policyError.firstChar.letter": "Das erste Zeichen muss ein Buchstabe sein, aber es sind keine ausgewählt",
+  "policyError.firstChar.alphanumeric": "Das erste Zeichen muss ein Buchstabe oder eine Ziffer sein, aber es sind keine ausgewählt",
+  "policyError.lastChar.letter": "Das letzte Zeichen muss ein Buchstabe sein, aber es sind keine ausgewählt",
+  "policyError.lastChar.alphanumeric": "Das letzte Zeichen muss ein Buchstabe oder eine Ziffer sein, aber es sind keine ausgewählt",
+  "policyViolation.minCount": "Mindestens {min} {class} erforderlich, gefunden: {count}",
+  "policyViolation.maxCount": "Höchstens {max} {class} erlaubt, gefunden: {count}",
+  "policyViolation.maxRunLength": "Mehr als {count} gleiche Zeichen hintereinander",
+  "policyViolation.firstChar.letter": "Das erste Zeichen muss ein Buchstabe sein",
+  "policyViolation.firstChar.alphanumeric": "Das erste Zeichen muss ein Buchstabe oder eine Ziffer sein",
+  "policyViolation.lastChar.letter": "Das letzte Zeichen muss ein Buchstabe sein",
+  "policyViolation.lastChar.alphanumeric": "Das letzte Zeichen muss ein Buchstabe oder eine Ziffer sein",
+
+  // Strength
+  "strength.title": "Stärke",
+  "strength.tooWeak": "Zu schwach",
+  "strength.weak": "Schwach",
+  "strength.medium": "Mittel",
+  "strength.strong": "Stark",
+  "strength.veryStrong": "Sehr stark",
+  "strength.breached": {
+    one: "In Datenlecks gefunden. Verwende dieses Passwort nicht.",
+    other: "In Datenlecks gefunden ({count}-mal). Verwende dieses Passwort nicht.",
+  },
+  "strength.possiblePins": "Mögliche PINs",
+  "strength.cardBlocked": "Karte nach {count} Versuchen gesperrt",
+  "strength.phoneWiped": "Telefon nach {count} Versuchen gelöscht",
+  "strength.chance": "{chance} Chance",
+  "strength.chanceBelow": "< {chance}",
+  "strength.entropy": "Entropie:",
+  "attack.onlineThrottled": "Online (gedrosselt)",
+  "attack.onlineUnthrottled": "Online (ungedrosselt)",
+  "attack.offlineSlowHash": "Offline (langsamer Hash)",
+  "attack.offlineFastHash": "Offline (schneller Hash)",
+  "crackTime.instant": "sofort",
+  "crackTime.second": { one: "{count} Sekunde", other: "{count} Sekunden" },
+  "crackTime.minute": { one: "{count} Minute", other: "{count} Minuten" },
+  "crackTime.hour": { one: "{count} Stunde", other: "{count} Stunden" },
+  "crackTime.day": { one: "{count} Tag", other: "{count} Tage" },
+  "crackTime.month": { one: "{count} Monat", other: "{count} Monate" },
+  "crackTime.year": { one: "{count} Jahr", other: "{count} Jahre" },
+  "crackTime.centuries": "Jahrhunderte",
+
+  // Generate button
+  "generate.label": "Erzeugen",
+  "generate.button": "Neues Passwort erzeugen",
+
+  // Presets
+  "preset.label": "Vorlage",
+  "preset.custom": "Benutzerdefiniert",
+  "preset.saveAs": "Speichern unter…",
+  "preset.delete": "Löschen",
+  "preset.import": "Importieren",
+  "preset.export": "Exportieren",
+  "preset.importFile": "Vorlagendatei importieren",
+  "preset.name": "Name der Vorlage",
+  "preset.storageFailed": "Vorlagen konnten in diesem Browser nicht gespeichert werden",
+  "preset.nameRequired": "Ein Name für die Vorlage ist erforderlich",
+  "preset.builtInName": "„{name}“ ist der Name einer integrierten Vorlage",
+  "preset.invalidJson": "Die Vorlagendatei ist kein gültiges JSON",
+  "preset.importFailed": "Import fehlgeschlagen: {message}",
+  "presetFile.notObject": "Die Vorlagendatei muss ein JSON-Objekt sein",
+  "presetFile.missingVersion": "Der Vorlagendatei fehlt eine Versionsnummer",
+  "presetFile.newerVersion": "Die Vorlagendatei hat Version {version}, diese App unterstützt nur bis Version {supported}",
+  "presetFile.unsupportedVersion": "Nicht unterstützte Version der Vorlagendatei: {version}",
+  "presetFile.missingPresets": "Die Vorlagendatei muss ein presets-Array enthalten",
+  "presetFile.mustBeObject": "{path} muss ein Objekt sein",
+  "presetFile.mustBeNumber": "{path} muss eine Zahl sein",
+  "presetFile.mustBeBoolean": "{path} muss ein Wahrheitswert sein",
+  "presetFile.mustBeString": "{path} muss eine Zeichenkette sein",
+  "presetFile.mustBeName": "{path} muss eine nicht leere Zeichenkette sein",
+  "presetFile.mustBeOneOf": "{path} muss einer dieser Werte sein: {values}",
+  "presetFile.mustBeCount": "{path} muss eine nicht negative ganze Zahl oder null sein",
+
+  // Checker
+  "checker.label": "Zu prüfendes Passwort",
+  "checker.placeholder": "Passwort einfügen oder eingeben",
+  "checker.show": "Anzeigen",
+  "checker.hide": "Verbergen",
+  "checker.privacy": "Wird nur auf diesem Gerät geprüft. Nichts wird gespeichert oder gesendet.",
+  "checker.length": "Länge",
+  "checker.bruteForce": "Brute-Force-Entropie",
+  "checker.afterPatterns": "Nach Mustern",
+  "checker.patterns": "Gefundene Muster",
+  "checker.noPatterns": "Keine gängigen Muster gefunden.",
+  "textClass.uppercase": "Großbuchstaben",
+  "textClass.lowercase": "Kleinbuchstaben",
+  "textClass.numbers": "Ziffern",
+  "textClass.symbols": "Sonderzeichen",
+  "textClass.other": "Andere",
+  "pattern.common-password": "Häufiges Passwort",
+  "pattern.dictionary": "Wörterbuchwort",
+  "pattern.keyboard-walk": "Tastaturmuster",
+  "pattern.repeat": "Wiederholung",
+  "pattern.sequence": "Folge",
+  "pattern.date": "Datum",
+  "patternInfo.commonPassword": "„{word}“ steht auf Platz {rank} der häufigsten Passwörter",
+  "patternInfo.commonPasswordL33t": "„{word}“ steht auf Platz {rank} der häufigsten Passwörter (l33t)",
+  "patternInfo.dictionary": "„{word}“ ist ein häufiges englisches Wort",
+  "patternInfo.dictionaryL33t": "„{word}“ ist ein häufiges englisches Wort (l33t)",
+  "patternInfo.keyboardWalk": "„{token}“ folgt benachbarten Tasten",
+  "patternInfo.repeat": "„{token}“ wird {count}-mal wiederholt",
+  "patternInfo.sequence.number": "„{token}“ ist eine Zahlenfolge",
+  "patternInfo.sequence.letter": "„{token}“ ist eine Buchstabenfolge",
+  "patternInfo.descendingSequence.number": "„{token}“ ist eine absteigende Zahlenfolge",
+  "patternInfo.descendingSequence.letter": "„{token}“ ist eine absteigende Buchstabenfolge",
+  "patternInfo.year": "„{token}“ sieht wie eine Jahreszahl aus",
+  "patternInfo.date": "„{token}“ sieht wie ein Datum aus",
+
+  // Breach list
+  "breach.list": "Datenleck-Liste:",
+  "breach.builtIn": "Integrierte häufige Passwörter",
+  "breach.loadFile": "Datei laden",
+  "breach.loadFileField": "Datenleck-Liste aus Datei laden",
+  "breach.useBuiltIn": "Integrierte verwenden",
+  "breachError.noHashes": "Die Datenleck-Datei enthält keine SHA-1-Hashes (erwartet werden Zeilen im Format HASH:COUNT)",
+  "breachError.lookupFailed": "Datenleck-Abfrage fehlgeschlagen ({status})",
+
+  // Bulk generation
+  "bulk.title": "Mehrere erzeugen",
+  "bulk.count": "Anzahl der Passwörter",
+  "bulk.generate": "Erzeugen",
+  "bulk.list": { one: "{count} erzeugtes Passwort", other: "{count} erzeugte Passwörter" },
+  "bulk.copyRow": "Passwort {index} kopieren",
+  "bulk.download": "Herunterladen",
+  "bulk.format.csv": "CSV",
+  "bulk.format.json": "JSON",
+  "bulk.format.text": "Text",
+
+  // History
+  "history.title": "Verlauf",
+  "history.locked": "Gesperrt",
+  "history.encrypted": "Verschlüsselt",
+  "history.pinSummary": "{count}-stellige PIN",
+  "history.separatorSpace": "Leerzeichen",
+  "history.charSummary": "{count} Zeichen",
+  "history.syllableSummary": "{count} Silbenzeichen",
+  "history.copyEntry": "Um {time} erzeugtes Passwort kopieren",
+  "history.unlockToSee": "Entsperren, um gespeicherte Passwörter zu sehen.",
+  "history.empty": "Erzeugte Passwörter erscheinen hier.",
+  "history.masterPassphrase": "Master-Passphrase",
+  "history.chooseMasterPassphrase": "Master-Passphrase festlegen",
+  "history.unlock": "Entsperren",
+  "history.enablePersistence": "Verschlüsselt auf diesem Gerät speichern",
+  "history.lockNow": "Jetzt sperren",
+  "history.deleteSaved": "Gespeicherten Verlauf löschen",
+  "history.saveFailed": "Der Verlauf konnte nicht auf diesem Gerät gespeichert werden.",
+  "history.unavailable": "Verschlüsselter Verlauf ist in diesem Browser nicht verfügbar.",
+  "history.deleteFailed": "Der Verlauf konnte nicht von diesem Gerät gelöscht werden.",
+  "history.wrongPassphrase": "Falsche Passphrase oder beschädigter Verlauf",
+  "history.unsupportedVersion": "Nicht unterstützte Version des Verlaufsformats: {version}",
+
+  // Keyboard shortcuts
+  "shortcuts.title": "Tastenkürzel",
+  "shortcuts.pressKeys": "Tasten drücken…",
+  "shortcuts.change": "Ändern",
+  "shortcuts.changeFor": "Tastenkürzel für {action} ändern",
+  "shortcuts.remove": "Entfernen",
+  "shortcuts.removeFor": "Tastenkürzel für {action} entfernen",
+  "shortcuts.typingNote": "Kürzel aus einer einzelnen Taste greifen nicht, während du in ein Textfeld tippst.",
+  "shortcuts.reset": "Auf Standard zurücksetzen",
+  "shortcuts.none": "Kein Tastenkürzel",
+  "shortcuts.conflict": "{keys} wird bereits für „{action}“ verwendet",
+  "shortcut.generate": "Neues Passwort erzeugen",
+  "shortcut.copy": "Passwort kopieren",
+  "shortcut.lengthUp": "Länge um 1 erhöhen",
+  "shortcut.lengthDown": "Länge um 1 verringern",
+  "shortcut.lengthUpFive": "Länge um 5 erhöhen",
+  "shortcut.lengthDownFive": "Länge um 5 verringern",
+  "shortcut.toggleUppercase": "Großbuchstaben ein/aus",
+  "shortcut.toggleLowercase": "Kleinbuchstaben ein/aus",
+  "shortcut.toggleNumbers": "Ziffern ein/aus",
+  "shortcut.toggleSymbols": "Sonderzeichen ein/aus",
+  "shortcut.nextPreset": "Zur nächsten Vorlage wechseln",
+  "shortcut.previousPreset": "Zur vorherigen Vorlage wechseln",
+  "shortcut.openHelp": "Tastenkürzel anzeigen",
+  "shortcut.openPalette": "Befehlspalette öffnen",
+  "shortcutGroup.password": "Passwort",
+  "shortcutGroup.length": "Länge",
+  "shortcutGroup.characterTypes": "Zeichenarten",
+  "shortcutGroup.presets": "Vorlagen",
+  "shortcutGroup.general": "Allgemein",
+
+  // Command palette
+  "palette.title": "Befehlspalette",
+  "palette.placeholder": "Befehl eingeben…",
+  "palette.search": "Befehle durchsuchen",
+  "palette.results": "Befehle",
+  "palette.noResults": "Keine passenden Befehle",
+
+  // Update prompt
+  "update.available": "Eine neue Version ist verfügbar.",
+  "update.later": "Später",
+  "update.reload": "Neu laden",
+
+  // Appearance and language settings
+  "theme.label": "Design",
+  "theme.system": "System",
+  "theme.dark": "Dunkel",
+  "theme.light": "Hell",
+  "theme.high-contrast": "Hoher Kontrast",
+  "accent.label": "Akzentfarbe",
+  "accent.green": "Grün",
+  "accent.blue": "Blau",
+  "accent.yellow": "Gelb",
+  "accent.pink": "Pink",
+  "motion.label": "Animation",
+  "motion.system": "System",
+  "motion.reduce": "Reduziert",
+  "motion.full": "Voll",
+  "language.label": "Sprache",
+};
@@ -0,0 +1,386 @@
+import { Message } from "../types";
+
+/**
+ * English messages: the source catalogue every other locale must match
+ *
+ * Keys are grouped by the part of the app they belong to. {name} marks a
+ * placeholder; entries with plural forms are chosen by their {count}.
+ */
+export const en = {
+  // App shell
+  "app.title": "Password Generator",
+  "app.modeTabs": "App mode",
+  "app.tab.generator": "Generator",
+  "app.tab.checker": "Checker",
+  "app.keyboardShortcuts": "Keyboard shortcuts",
+  "app.commandPalette": "Command palette",
+
+  // Shared
+  "common.bits": "{bits} bits",
+  "common.copy": "Copy",
+  "common.copied": "Copied",
+  "common.save": "Save",
+  "common.clear": "Clear",
+  "common.close": "Close",
+  "common.errorMessage": "{message}",
+
+  // Password display
+  "display.hiddenSummary": {
+    one: "Password hidden, {count} character. Use Show password to reveal it, or copy it without revealing.",
+    other: "Password hidden, {count} characters. Use Show password to reveal it, or copy it without revealing.",
+  },
+  "display.showPassword": "Show password",
+  "display.hidePassword": "Hide password",
+  "display.copyPassword": "Copy password",
+  "display.copiedAnnouncement": "Copied!",
+  "display.clearClipboardAfter": "Clear clipboard after",
+  "display.clearDelay.off": "Off",
+  "display.clearDelay.seconds": "{count}s",
+  "display.clearDelay.minutes": "{count} min",
+
+  // Password reveal announcements
+  "reveal.shown": "Password shown",
+  "reveal.hidden": "Password hidden",
+  "reveal.hiddenOnLeave": "Password hidden because the tab was left",
+
+  // Clipboard status and errors
+  "clipboard.clearsIn": "Clipboard clears in {count}s",
+  "clipboard.clearsOnReturn": "Clipboard clears when you return to this tab",
+  "clipboard.clearNow": "Clear now",
+  "clipboard.copyWithoutRevealing": "Copy without revealing",
+  "clipboard.clearFailed": "The clipboard couldn't be checked, so it wasn't cleared. Clear it manually.",
+  "clipboard.denied": "Clipboard access was denied.",
+  "clipboard.unavailable": "Copying isn't available in this browser.",
+
+  // Error boundary
+  "errorBoundary.title": "Something went wrong",
+  "errorBoundary.message": "An unexpected error occurred. Please try refreshing the page or click the button below to reset the application.",
+  "errorBoundary.details": "Error details",
+  "errorBoundary.reset": "Reset Application",
+
+  // Generation options
+  "options.modeGroup": "Generation mode",
+  "options.mode.password": "Password",
+  "options.mode.passphrase": "Passphrase",
+  "options.mode.pronounceable": "Pronounceable",
+  "options.mode.pin": "PIN",
+  "options.length": "Character Length",
+  "options.lengthField": "Password length in characters",
+  "options.lengthSlider": "Password length",
+  "options.lengthValue": { one: "{count} character", other: "{count} characters" },
+  "options.lengthError": "Enter a length from {min} to {max}",
+  "options.noCharacterTypes": "Please select at least one character type to generate a password.",
+  "options.noLetters": "Please select uppercase or lowercase letters to build syllables.",
+  "options.uppercase": "Include Uppercase Letters",
+  "options.uppercaseField": "Include uppercase letters",
+  "options.lowercase": "Include Lowercase Letters",
+  "options.lowercaseField": "Include lowercase letters",
+  "options.numbers": "Include Numbers",
+  "options.numbersField": "Include numbers",
+  "options.symbols": "Include Symbols",
+  "options.symbolsField": "Include symbols",
+  "options.wordCount": "Word Count",
+  "options.wordCountSlider": "Passphrase word count",
+  "options.wordCountValue": { one: "{count} word", other: "{count} words" },
+  "options.separator": "Separator",
+  "options.separatorField": "Word separator",
+  "options.separator.hyphen": "Hyphen ( - )",
+  "options.separator.space": "Space",
+  "options.separator.period": "Period ( . )",
+  "options.separator.underscore": "Underscore ( _ )",
+  "options.separator.none": "None",
+  "options.capitalization": "Capitalization",
+  "options.capitalizationField": "Word capitalization",
+  "options.capitalization.capitalize": "Capitalize Words",
+  "options.capitalization.lowercase": "lowercase",
+  "options.capitalization.uppercase": "UPPERCASE",
+  "options.capitalization.random": "Random",
+  "options.includeNumber": "Include a Number",
+  "options.includeNumberField": "Include a number",
+  "options.includeSymbol": "Include a Symbol",
+  "options.includeSymbolField": "Include a symbol",
+  "options.pinLength": "PIN Length",
+  "options.pinLengthSlider": "PIN length",
+  "options.pinLengthValue": { one: "{count} digit", other: "{count} digits" },
+  "options.pinNote": "Sequences, repeats, palindromes, dates and common PINs are never generated.",
+  "options.avoidAmbiguous": "Avoid Ambiguous Characters",
+  "options.avoidAmbiguousField": "Avoid ambiguous characters",
+  "options.rejectBreached": "Regenerate If Found In Breaches",
+  "options.rejectBreachedField": "Regenerate passwords found in breaches",
+  "options.advanced": "Advanced",
+  "options.symbolSet": "Symbol Set",
+  "options.symbolSetField": "Symbol characters",
+  "options.reset": "Reset",
+  "options.extraChars": "Extra Characters",
+  "options.extraCharsField": "Extra characters to include",
+  "options.extraCharsPlaceholder": "e.g. äöü€",
+  "options.excludeChars": "Exclude Characters",
+  "options.excludeCharsField": "Characters to exclude",
+  "options.excludeCharsPlaceholder": "e.g. <>|;",
+
+  // Option validation and generation errors
+  "validation.classEmpty": "{class} have no characters left after exclusions",
+  "validation.syllablesEmpty": "Syllables need at least one consonant and one vowel left after exclusions",
+  "generation.lengthRange": "Password length must be between {min} and {max} characters",
+  "generation.noCharacterTypes": "No character types selected",
+  "generation.noLetters": "Pronounceable passwords need uppercase or lowercase letters",
+  "generation.policyUnsatisfied": "Could not generate a password that satisfies the policy. Try a longer length or fewer constraints.",
+  "generation.wordCountRange": "Passphrase must contain between {min} and {max} words",
+  "generation.pinLengthRange": "PIN length must be between {min} and {max} digits",
+  "generation.pinWeak": "Could not generate a PIN without weak patterns",
+  "generation.bulkCountRange": "Bulk count must be between {min} and {max}",
+  "generation.tooFewUnique": "Only {count} unique passwords could be generated with these options",
+  "generation.rejectBreachedAsync": "Rejecting breached passwords needs the asynchronous breach check; use generateUnbreachedPassword or generateUnbreachedBulkPasswords",
+
+  // Password policy
+  "policy.title": "Policy Rules",
+  "policy.class": "Class",
+  "policy.min": "Min",
+  "policy.max": "Max",
+  "policy.minField": "Minimum {class}",
+  "policy.maxField": "Maximum {class}",
+  "policy.maxRun": "Max Identical in a Row",
+  "policy.maxRunField": "Maximum identical consecutive characters",
+  "policy.firstChar": "First Character",
+  "policy.lastChar": "Last Character",
+  "policy.position.any": "Any character",
+  "policy.position.letter": "A letter",
+  "policy.position.alphanumeric": "A letter or number",
+  "characterClass.uppercase": "Uppercase letters",
+  "characterClass.lowercase": "Lowercase letters",
+  "characterClass.numbers": "Numbers",
+  "characterClass.symbols": "Symbols",
+  "characterClass.extra": "Extra characters",
+  "characterClassNoun.uppercase": "uppercase letters",
+  "characterClassNoun.lowercase": "lowercase letters",
+  "characterClassNoun.numbers": "numbers",
+  "characterClassNoun.symbols": "symbols",
+  "characterClassNoun.extra": "extra characters",
+  "policyError.minUnselected": "Policy requires at least {count} {class}, but {class} are not selected",
+  "policyError.minAboveMax": "Minimum {class} ({min}) is greater than the maximum ({max})",
+  "policyError.classDisallowed": "{class} are selected, but the policy allows none",
+  "policyError.tooManyRequired": "Policy requires at least {count} characters, but the length is {length}",
+  "policyError.tooFewAllowed": "Policy allows at most {count} characters, but the length is {length}",
+  "policyError.maxRunTooSmall": "Maximum run of identical characters must be at least 1",
+  "policyError.maxRunUnreachable": "Not enough different characters to limit runs of identical characters to {count}",
+  "policyError.firstChar.letter": "First character must be a letter, but none are selected",
+  "policyError.firstChar.alphanumeric": "First character must be a letter or number, but none are selected",
+  "policyError.lastChar.letter": "Last character must be a letter, but none are selected",
+  "policyError.lastChar.alphanumeric": "Last character must be a letter or number, but none are selected",
+  "policyViolation.minCount": "Needs at least {min} {class}, found {count}",
+  "policyViolation.maxCount": "Allows at most {max} {class}, found {count}",
+  "policyViolation.maxRunLength": "More than {count} identical consecutive characters",
+  "policyViolation.firstChar.letter": "First character must be a letter",
+  "policyViolation.firstChar.alphanumeric": "First character must be a letter or number",
+  "policyViolation.lastChar.letter": "Last character must be a letter",
+  "policyViolation.lastChar.alphanumeric": "Last character must be a letter or number",
+
+  // Strength
+  "strength.title": "Strength",
+  "strength.tooWeak": "Too weak",
+  "strength.weak": "Weak",
+  "strength.medium": "Medium",
+  "strength.strong": "Strong",
+  "strength.veryStrong": "Very strong",
+  "strength.breached": {
+    one: "Found in breaches. Don't use this password.",
+    other: "Found in breaches ({count} times). Don't use this password.",
+  },
+  "strength.possiblePins": "Possible PINs",
+  "strength.cardBlocked": "Card blocked after {count} tries",
+  "strength.phoneWiped": "Phone wiped after {count} tries",
+  "strength.chance": "{chance} chance",
+  "strength.chanceBelow": "< {chance}",
+  "strength.entropy": "Entropy:",
+  "attack.onlineThrottled": "Online (throttled)",
+  "attack.onlineUnthrottled": "Online (unthrottled)",
+  "attack.offlineSlowHash": "Offline (slow hash)",
+  "attack.offlineFastHash": "Offline (fast hash)",
+  "crackTime.instant": "instantly",
+  "crackTime.second": { one: "{count} second", other: "{count} seconds" },
+  "crackTime.minute": { one: "{count} minute", other: "{count} minutes" },
+  "crackTime.hour": { one: "{count} hour", other: "{count} hours" },
+  "crackTime.day": { one: "{count} day", other: "{count} days" },
+  "crackTime.month": { one: "{count} month", other: "{count} months" },
+  "crackTime.year": { one: "{count} year", other: "{count} years" },
+  "crackTime.centuries": "centuries",
+
+  // Generate button
+  "generate.label": "Generate",
+  "generate.button": "Generate new password",
+
+  // Presets
+  "preset.label": "Preset",
+  "preset.custom": "Custom",
+  "preset.saveAs": "Save as…",
+  "preset.delete": "Delete",
+  "preset.import": "Import",
+  "preset.export": "Export",
+  "preset.importFile": "Import presets file",
+  "preset.name": "Preset name",
+  "preset.storageFailed": "Presets could not be saved in this browser",
+  "preset.nameRequired": "Preset name is required",
+  "preset.builtInName": "\"{name}\" is a built-in preset name",
+  "preset.invalidJson": "Preset file is not valid JSON",
+  "preset.importFailed": "Import failed: {message}",
+  "presetFile.notObject": "Preset file must be a JSON object",
+  "presetFile.missingVersion": "Preset file is missing a version number",
+  "presetFile.newerVersion": "Preset file version {version} is newer than this app supports ({supported})",
+  "presetFile.unsupportedVersion": "Unsupported preset file version {version}",
+  "presetFile.missingPresets": "Preset file must contain a presets array",
+  "presetFile.mustBeObject": "{path} must be an object",
+  "presetFile.mustBeNumber": "{path} must be a number",
+  "presetFile.mustBeBoolean": "{path} must be a boolean",
+  "presetFile.mustBeString": "{path} must be a string",
+  "presetFile.mustBeName": "{path} must be a non-empty string",
+  "presetFile.mustBeOneOf": "{path} must be one of: {values}",
+  "presetFile.mustBeCount": "{path} must be a non-negative integer or null",
+
+  // Checker
+  "checker.label": "Password to check",
+  "checker.placeholder": "Paste or type a password",
+  "checker.show": "Show",
+  "checker.hide": "Hide",
+  "checker.privacy": "Checked on this device only. Nothing is stored or sent.",
+  "checker.length": "Length",
+  "checker.bruteForce": "Brute-force entropy",
+  "checker.afterPatterns": "After patterns",
+  "checker.patterns": "Detected patterns",
+  "checker.noPatterns": "No common patterns found.",
+  "textClass.uppercase": "Uppercase",
+  "textClass.lowercase": "Lowercase",
+  "textClass.numbers": "Numbers",
+  "textClass.symbols": "Symbols",
+  "textClass.other": "Other",
+  "pattern.common-password": "Common password",
+  "pattern.dictionary": "Dictionary word",
+  "pattern.keyboard-walk": "Keyboard walk",
+  "pattern.repeat": "Repetition",
+  "pattern.sequence": "Sequence",
+  "pattern.date": "Date",
+  "patternInfo.commonPassword": "\"{word}\" is #{rank} on the common passwords list",
+  "patternInfo.commonPasswordL33t": "\"{word}\" is #{rank} on the common passwords list (l33t)",
+  "patternInfo.dictionary": "\"{word}\" is a common English word",
+  "patternInfo.dictionaryL33t": "\"{word}\" is a common English word (l33t)",
+  "patternInfo.keyboardWalk": "\"{token}\" is a walk across neighbouring keys",
+  "patternInfo.repeat": "\"{token}\" repeated {count} times",
+  "patternInfo.sequence.number": "\"{token}\" is a number sequence",
+  "patternInfo.sequence.letter": "\"{token}\" is a letter sequence",
+  "patternInfo.descendingSequence.number": "\"{token}\" is a descending number sequence",
+  "patternInfo.descendingSequence.letter": "\"{token}\" is a descending letter sequence",
+  "patternInfo.year": "\"{token}\" looks like a year",
+  "patternInfo.date": "\"{token}\" looks like a date",
+
+  // Breach list
+  "breach.list": "Breach list:",
+  "breach.builtIn": "Built-in common passwords",
+  "breach.loadFile": "Load file",
+  "breach.loadFileField": "Load breach list file",
+  "breach.useBuiltIn": "Use built-in",
+  "breachError.noHashes": "Breach file contains no SHA-1 hashes (expected HASH:COUNT lines)",
+  "breachError.lookupFailed": "Breach lookup failed ({status})",
+
+  // Bulk generation
+  "bulk.title": "Bulk Generate",
+  "bulk.count": "Number of passwords",
+  "bulk.generate": "Generate",
+  "bulk.list": { one: "{count} generated password", other: "{count} generated passwords" },
+  "bulk.copyRow": "Copy password {index}",
+  "bulk.download": "Download",
+  "bulk.format.csv": "CSV",
+  "bulk.format.json": "JSON",
+  "bulk.format.text": "Text",
+
+  // History
+  "history.title": "History",
+  "history.locked": "Locked",
+  "history.encrypted": "Encrypted",
+  "history.pinSummary": "{count} digit PIN",
+  "history.separatorSpace": "space",
+  "history.charSummary": "{count} chars",
+  "history.syllableSummary": "{count} syllable chars",
+  "history.copyEntry": "Copy password generated at {time}",
+  "history.unlockToSee": "Unlock to see saved passwords.",
+  "history.empty": "Generated passwords will appear here.",
+  "history.masterPassphrase": "Master passphrase",
+  "history.chooseMasterPassphrase": "Choose a master passphrase",
+  "history.unlock": "Unlock",
+  "history.enablePersistence": "Save Encrypted on This Device",
+  "history.lockNow": "Lock Now",
+  "history.deleteSaved": "Delete Saved History",
+  "history.saveFailed": "Failed to save history to this device.",
+  "history.unavailable": "Encrypted history is not available in this browser.",
+  "history.deleteFailed": "Failed to delete history from this device.",
+  "history.wrongPassphrase": "Incorrect passphrase or corrupted history",
+  "history.unsupportedVersion": "Unsupported history format version {version}",
+
+  // Keyboard shortcuts
+  "shortcuts.title": "Keyboard shortcuts",
+  "shortcuts.pressKeys": "Press keys…",
+  "shortcuts.change": "Change",
+  "shortcuts.changeFor": "Change shortcut for {action}",
+  "shortcuts.remove": "Remove",
+  "shortcuts.removeFor": "Remove shortcut for {action}",
+  "shortcuts.typingNote": "Single-key shortcuts don't run while typing in a text field.",
+  "shortcuts.reset": "Reset to defaults",
+  "shortcuts.none": "No shortcut",
+  "shortcuts.conflict": "{keys} is already used for \"{action}\"",
+  "shortcut.generate": "Generate a new password",
+  "shortcut.copy": "Copy password",
+  "shortcut.lengthUp": "Increase length by 1",
+  "shortcut.lengthDown": "Decrease length by 1",
+  "shortcut.lengthUpFive": "Increase length by 5",
+  "shortcut.lengthDownFive": "Decrease length by 5",
+  "shortcut.toggleUppercase": "Toggle uppercase letters",
+  "shortcut.toggleLowercase": "Toggle lowercase letters",
+  "shortcut.toggleNumbers": "Toggle numbers",
+  "shortcut.toggleSymbols": "Toggle symbols",
+  "shortcut.nextPreset": "Switch to the next preset",
+  "shortcut.previousPreset": "Switch to the previous preset",
+  "shortcut.openHelp": "Show keyboard shortcuts",
+  "shortcut.openPalette": "Open command palette",
+  "shortcutGroup.password": "Password",
+  "shortcutGroup.length": "Length",
+  "shortcutGroup.characterTypes": "Character types",
+  "shortcutGroup.presets": "Presets",
+  "shortcutGroup.general": "General",
+
+  // Command palette
+  "palette.title": "Command palette",
+  "palette.placeholder": "Type a command…",
+  "palette.search": "Search commands",
+  "palette.results": "Commands",
+  "palette.noResults": "No matching commands",
+
+  // Update prompt
+  "update.available": "A new version is available.",
+  "update.later": "Later",
+  "update.reload": "Reload",
+
+  // Appearance and language settings
+  "theme.label": "Theme",
+  "theme.system": "System",
+  "theme.dark": "Dark",
+  "theme.light": "Light",
+  "theme.high-contrast": "High contrast",
+  "accent.label": "Accent colour",
+  "accent.green": "Green",
+  "accent.blue": "Blue",
+  "accent.yellow": "Yellow",
+  "accent.pink": "Pink",
+  "motion.label": "Motion",
+  "motion.system": "System",
+  "motion.reduce": "Reduced",
+  "motion.full": "Full",
+  "language.label": "Language",
+} satisfies Record<string, Message>;
+
+/**
+ * Identifier of a message in the catalogue
+ */
+export type MessageKey = keyof typeof en;
+
+/**
+ * A complete catalogue for one locale
+ */
+export type Messages = Record<MessageKey, Message>;
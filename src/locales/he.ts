@@ -0,0 +1,383 @@
+import { Messages } from "./en";
+
+/**
+ * Hebrew messages (right-to-left)
+ */
+export const he: Messages = {
+  // App shell
+  "app.title": "מחולל סיסמאות",
+  "app.modeTabs": "מצב היישום",
+  "app.tab.generator": "מחולל",
+  "app.tab.checker": "בודק",
+  "app.keyboardShortcuts": "קיצורי מקלדת",
+  "app.commandPalette": "לוח פקודות",
+
+  // Shared
+  "common.bits": "{bits} ביטים",
+  "common.copy": "העתקה",
+  "common.copied": "הועתק",
+  "common.save": "שמירה",
+  "common.clear": "ניקוי",
+  "common.close": "סגירה",
+  "common.errorMessage": "{message}",
+
+  // Password display
+  "display.hiddenSummary": {
+    one: "הסיסמה מוסתרת, תו אחד. אפשר להשתמש ב„הצגת הסיסמה” כדי לחשוף אותה, או להעתיק אותה בלי לחשוף.",
+    two: "הסיסמה מוסתרת, שני תווים. אפשר להשתמש ב„הצגת הסיסמה” כדי לחשוף אותה, או להעתיק אותה בלי לחשוף.",
+    other: "הסיסמה מוסתרת, {count} תווים. אפשר להשתמש ב„הצגת הסיסמה” כדי לחשוף אותה, או להעתיק אותה בלי לחשוף.",
+  },
+  "display.showPassword": "הצגת הסיסמה",
+  "display.hidePassword": "הסתרת הסיסמה",
+  "display.copyPassword": "העתקת הסיסמה",
+  "display.copiedAnnouncement": "הועתק!",
+  "display.clearClipboardAfter": "ניקוי הלוח אחרי",
+  "display.clearDelay.off": "כבוי",
+  "display.clearDelay.seconds": "{count} שנ׳",
+  "display.clearDelay.minutes": "{count} דק׳",
+
+  // Password reveal announcements
+  "reveal.shown": "הסיסמה מוצגת",
+  "reveal.hidden": "הסיסמה מוסתרת",
+  "reveal.hiddenOnLeave": "הסיסמה הוסתרה כי עזבת את הכרטיסייה",
+
+  // Clipboard status and errors
+  "clipboard.clearsIn": "הלוח יתנקה בעוד {count} שנ׳",
+  "clipboard.clearsOnReturn": "הלוח יתנקה כשתחזור לכרטיסייה הזו",
+  "clipboard.clearNow": "ניקוי עכשיו",
+  "clipboard.copyWithoutRevealing": "העתקה בלי לחשוף",
+  "clipboard.clearFailed": "לא ניתן היה לבדוק את הלוח, ולכן הוא לא נוקה. יש לנקות אותו ידנית.",
+  "clipboard.denied": "הגישה ללוח נדחתה.",
+  "clipboard.unavailable": "העתקה אינה זמינה בדפדפן הזה.",
+
+  // Error boundary
+  "errorBoundary.title": "משהו השתבש",
+  "errorBoundary.message": "אירעה שגיאה לא צפויה. נסו לרענן את הדף או ללחוץ על הכפתור למטה כדי לאפס את היישום.",
+  "errorBoundary.details": "פרטי השגיאה",
+  "errorBoundary.reset": "איפוס היישום",
+
+  // Generation options
+  "options.modeGroup": "מצב יצירה",
+  "options.mode.password": "סיסמה",
+  "options.mode.passphrase": "צירוף מילים",
+  "options.mode.pronounceable": "ניתנת להגייה",
+  "options.mode.pin": "קוד PIN",
+  "options.length": "מספר תווים",
+  "options.lengthField": "אורך הסיסמה בתווים",
+  "options.lengthSlider": "אורך הסיסמה",
+  "options.lengthValue": { one: "תו אחד", two: "שני תווים", other: "{count} תווים" },
+  "options.lengthError": "יש להזין אורך בין {min} ל־{max}",
+  "options.noCharacterTypes": "יש לבחור לפחות סוג תווים אחד כדי ליצור סיסמה.",
+  "options.noLetters": "יש לבחור אותיות גדולות או קטנות כדי לבנות הברות.",
+  "options.uppercase": "לכלול אותיות גדולות",
+  "options.uppercaseField": "לכלול אותיות גדולות",
+  "options.lowercase": "לכלול אותיות קטנות",
+  "options.lowercaseField": "לכלול אותיות קטנות",
+  "options.numbers": "לכלול ספרות",
+  "options.numbersField": "לכלול ספרות",
+  "options.symbols": "לכלול סימנים",
+  "options.symbolsField": "לכלול סימנים",
+  "options.wordCount": "מספר מילים",
+  "options.wordCountSlider": "מספר המילים בצירוף",
+  "options.wordCountValue": { one: "מילה אחת", two: "שתי מילים", other: "{count} מילים" },
+  "options.separator": "מפריד",
+  "options.separatorField": "מפריד בין מילים",
+  "options.separator.hyphen": "מקף ( - )",
+  "options.separator.space": "רווח",
+  "options.separator.period": "נקודה ( . )",
+  "options.separator.underscore": "קו תחתון ( _ )",
+  "options.separator.none": "ללא",
+  "options.capitalization": "אותיות גדולות",
+  "options.capitalizationField": "אותיות גדולות במילים",
+  "options.capitalization.capitalize": "אות ראשונה גדולה",
+  "options.capitalization.lowercase": "אותיות קטנות",
+  "options.capitalization.uppercase": "אותיות גדולות",
+  "options.capitalization.random": "אקראי",
+  "options.includeNumber": "לכלול ספרה",
+  "options.includeNumberField": "לכלול ספרה",
+  "options.includeSymbol": "לכלול סימן",
+  "options.includeSymbolField": "לכלול סימן",
+  "options.pinLength": "אורך קוד PIN",
+  "options.pinLengthSlider": "אורך קוד PIN",
+  "options.pinLengthValue": { one: "ספרה אחת", two: "שתי ספרות", other: "{count} ספרות" },
+  "options.pinNote": "רצפים, חזרות, פלינדרומים, תאריכים וקודי PIN נפוצים לעולם אינם נוצרים.",
+  "options.avoidAmbiguous": "הימנעות מתווים דומים",
+  "options.avoidAmbiguousField": "הימנעות מתווים דומים",
+  "options.rejectBreached": "יצירה מחדש אם נמצאה בדליפות",
+  "options.rejectBreachedField": "יצירה מחדש של סיסמאות שנמצאו בדליפות",
+  "options.advanced": "מתקדם",
+  "options.symbolSet": "ערכת סימנים",
+  "options.symbolSetField": "תווי סימנים",
+  "options.reset": "איפוס",
+  "options.extraChars": "תווים נוספים",
+  "options.extraCharsField": "תווים נוספים לכלול",
+  "options.extraCharsPlaceholder": "לדוגמה äöü€",
+  "options.excludeChars": "החרגת תווים",
+  "options.excludeCharsField": "תווים להחרגה",
+  "options.excludeCharsPlaceholder": "לדוגמה <>|;",
+
+  // Option validation and generation errors
+  "validation.classEmpty": "לא נשארו {class} אחרי ההחרגה",
+  "validation.syllablesEmpty": "להברות נדרשים לפחות עיצור אחד ותנועה אחת אחרי ההחרגה",
+  "generation.lengthRange": "אורך הסיסמה חייב להיות בין {min} ל־{max} תווים",
+  "generation.noCharacterTypes": "לא נבחרו סוגי תווים",
+  "generation.noLetters": "סיסמאות הניתנות להגייה צריכות אותיות גדולות או קטנות",
+  "generation.policyUnsatisfied": "לא ניתן היה ליצור סיסמה שעומדת במדיניות. כדאי לנסות אורך גדול יותר או פחות מגבלות.",
+  "generation.wordCountRange": "צירוף המילים חייב לכלול בין {min} ל־{max} מילים",
+  "generation.pinLengthRange": "אורך קוד ה־PIN חייב להיות בין {min} ל־{max} ספרות",
+  "generation.pinWeak": "לא ניתן היה ליצור קוד PIN ללא דפוסים חלשים",
+  "generation.bulkCountRange": "הכמות חייבת להיות בין {min} ל־{max}",
+  "generation.tooFewUnique": {
+    one: "עם האפשרויות האלה ניתן היה ליצור רק סיסמה ייחודית אחת",
+    two: "עם האפשרויות האלה ניתן היה ליצור רק שתי סיסמאות ייחודיות",
+    other: "עם האפשרויות האלה ניתן היה ליצור רק {count} סיסמאות ייחודיות",
+  },
+  "generation.rejectBreachedAsync": "דחיית סיסמאות שדלפו דורשת את בדיקת הדליפות האסינכרונית; השתמשו ב־generateUnbreachedPassword או ב־generateUnbreachedBulkPasswords",
+
+  // Password policy
+  "policy.title": "כללי מדיניות",
+  "policy.class": "סוג",
+  "policy.min": "מינ׳",
+  "policy.max": "מקס׳",
+  "policy.minField": "מינימום {class}",
+  "policy.maxField": "מקסימום {class}",
+  "policy.maxRun": "מקס׳ תווים זהים ברצף",
+  "policy.maxRunField": "מספר מרבי של תווים זהים רצופים",
+  "policy.firstChar": "התו הראשון",
+  "policy.lastChar": "התו האחרון",
+  "policy.position.any": "כל תו",
+  "policy.position.letter": "אות",
+  "policy.position.alphanumeric": "אות או ספרה",
+  "characterClass.uppercase": "אותיות גדולות",
+  "characterClass.lowercase": "אותיות קטנות",
+  "characterClass.numbers": "ספרות",
+  "characterClass.symbols": "סימנים",
+  "characterClass.extra": "תווים נוספים",
+  "characterClassNoun.uppercase": "אותיות גדולות",
+  "characterClassNoun.lowercase": "אותיות קטנות",
+  "characterClassNoun.numbers": "ספרות",
+  "characterClassNoun.symbols": "סימנים",
+  "characterClassNoun.extra": "תווים נוספים",
+  "policyError.minUnselected": "המדיניות דורשת לפחות {count} {class}, אבל {class} לא נבחרו",
+  "policyError.minAboveMax": "המינימום של {class} ({min}) גדול מהמקסימום ({max})",
+  "policyError.classDisallowed": "{class} נבחרו, אבל המדיניות לא מתירה אף אחד מהם",
+  "policyError.tooManyRequired": "המדיניות דורשת לפחות {count} תווים, אבל האורך הוא {length}",
+  "policyError.tooFewAllowed": "המדיניות מתירה לכל היותר {count} תווים, אבל האורך הוא {length}",
+  "policyError.maxRunTooSmall": "המספר המרבי של תווים זהים ברצף חייב להיות לפחות 1",
+  "policyError.maxRunUnreachable": "אין מספיק תווים שונים כדי להגביל רצפים של תווים זהים ל־{count}",
+  "policyError.firstChar.letter": "התו הראשון חייב להיות אות, אבל לא נבחרו אותיות",
+  "policyError.firstChar.alphanumeric": "התו הראשון חייב להיות אות או ספרה, אבל לא נבחרו כאלה",
+  "policyError.lastChar.letter": "התו האחרון חייב להיות אות, אבל לא נבחרו אותיות",
+  "policyError.lastChar.alphanumeric": "התו האחרון חייב להיות אות או ספרה, אבל לא נבחרו כאלה",
+  "policyViolation.minCount": "צריך לפחות {min} {class}, נמצאו {count}",
+  "policyViolation.maxCount": "מותר לכל היותר {max} {class}, נמצאו {count}",
+  "policyViolation.maxRunLength": "יותר מ־{count} תווים זהים ברצף",
+  "policyViolation.firstChar.letter": "התו הראשון חייב להיות אות",
+  "policyViolation.firstChar.alphanumeric": "התו הראשון חייב להיות אות או ספרה",
+  "policyViolation.lastChar.letter": "התו האחרון חייב להיות אות",
+  "policyViolation.lastChar.alphanumeric": "התו האחרון חייב להיות אות או ספרה",
+
+  // Strength
+  "strength.title": "חוזק",
+  "strength.tooWeak": "חלשה מדי",
+  "strength.weak": "חלשה",
+  "strength.medium": "בינונית",
+  "strength.strong": "חזקה",
+  "strength.veryStrong": "חזקה מאוד",
+  "strength.breached": {
+    one: "נמצאה בדליפות. אין להשתמש בסיסמה הזו.",
+    two: "נמצאה בדליפות (פעמיים). אין להשתמש בסיסמה הזו.",
+    other: "נמצאה בדליפות ({count} פעמים). אין להשתמש בסיסמה הזו.",
+  },
+  "strength.possiblePins": "קודי PIN אפשריים",
+  "strength.cardBlocked": "הכרטיס נחסם אחרי {count} ניסיונות",
+  "strength.phoneWiped": "הטלפון נמחק אחרי {count} ניסיונות",
+  "strength.chance": "סיכוי של {chance}",
+  "strength.chanceBelow": "< {chance}",
+  "strength.entropy": "אנטרופיה:",
+  "attack.onlineThrottled": "מקוון (מוגבל)",
+  "attack.onlineUnthrottled": "מקוון (לא מוגבל)",
+  "attack.offlineSlowHash": "לא מקוון (גיבוב איטי)",
+  "attack.offlineFastHash": "לא מקוון (גיבוב מהיר)",
+  "crackTime.instant": "מיד",
+  "crackTime.second": { one: "שנייה אחת", two: "שתי שניות", other: "{count} שניות" },
+  "crackTime.minute": { one: "דקה אחת", two: "שתי דקות", other: "{count} דקות" },
+  "crackTime.hour": { one: "שעה אחת", two: "שעתיים", other: "{count} שעות" },
+  "crackTime.day": { one: "יום אחד", two: "יומיים", other: "{count} ימים" },
+  "crackTime.month": { one: "חודש אחד", two: "חודשיים", other: "{count} חודשים" },
+  "crackTime.year": { one: "שנה אחת", two: "שנתיים", other: "{count} שנים" },
+  "crackTime.centuries": "מאות שנים",
+
+  // Generate button
+  "generate.label": "יצירה",
+  "generate.button": "יצירת סיסמה חדשה",
+
+  // Presets
+  "preset.label": "תבנית",
+  "preset.custom": "מותאם אישית",
+  "preset.saveAs": "שמירה בשם…",
+  "preset.delete": "מחיקה",
+  "preset.import": "ייבוא",
+  "preset.export": "ייצוא",
+  "preset.importFile": "ייבוא קובץ תבניות",
+  "preset.name": "שם התבנית",
+  "preset.storageFailed": "לא ניתן היה לשמור תבניות בדפדפן הזה",
+  "preset.nameRequired": "נדרש שם לתבנית",
+  "preset.builtInName": "„{name}” הוא שם של תבנית מובנית",
+  "preset.invalidJson": "קובץ התבניות אינו JSON תקין",
+  "preset.importFailed": "הייבוא נכשל: {message}",
+  "presetFile.notObject": "קובץ התבניות חייב להיות אובייקט JSON",
+  "presetFile.missingVersion": "בקובץ התבניות חסר מספר גרסה",
+  "presetFile.newerVersion": "גרסת קובץ התבניות {version} חדשה מזו שהאפליקציה תומכת בה ({supported})",
+  "presetFile.unsupportedVersion": "גרסת קובץ התבניות {version} אינה נתמכת",
+  "presetFile.missingPresets": "קובץ התבניות חייב לכלול מערך presets",
+  "presetFile.mustBeObject": "{path} חייב להיות אובייקט",
+  "presetFile.mustBeNumber": "{path} חייב להיות מספר",
+  "presetFile.mustBeBoolean": "{path} חייב להיות ערך בוליאני",
+  "presetFile.mustBeString": "{path} חייב להיות מחרוזת",
+  "presetFile.mustBeName": "{path} חייב להיות מחרוזת לא ריקה",
+  "presetFile.mustBeOneOf": "{path} חייב להיות אחד מהערכים: {values}",
+  "presetFile.mustBeCount": "{path} חייב להיות מספר שלם אי־שלילי או null",
+
+  // Checker
+  "checker.label": "סיסמה לבדיקה",
+  "checker.placeholder": "הדביקו או הקלידו סיסמה",
+  "checker.show": "הצגה",
+  "checker.hide": "הסתרה",
+  "checker.privacy": "הבדיקה מתבצעת במכשיר הזה בלבד. שום דבר לא נשמר או נשלח.",
+  "checker.length": "אורך",
+  "checker.bruteForce": "אנטרופיית כוח גס",
+  "checker.afterPatterns": "אחרי דפוסים",
+  "checker.patterns": "דפוסים שזוהו",
+  "checker.noPatterns": "לא נמצאו דפוסים נפוצים.",
+  "textClass.uppercase": "אותיות גדולות",
+  "textClass.lowercase": "אותיות קטנות",
+  "textClass.numbers": "ספרות",
+  "textClass.symbols": "סימנים",
+  "textClass.other": "אחר",
+  "pattern.common-password": "סיסמה נפוצה",
+  "pattern.dictionary": "מילה מהמילון",
+  "pattern.keyboard-walk": "רצף מקלדת",
+  "pattern.repeat": "חזרה",
+  "pattern.sequence": "רצף",
+  "pattern.date": "תאריך",
+  "patternInfo.commonPassword": "„{word}” במקום {rank} ברשימת הסיסמאות הנפוצות",
+  "patternInfo.commonPasswordL33t": "„{word}” במקום {rank} ברשימת הסיסמאות הנפוצות (l33t)",
+  "patternInfo.dictionary": "„{word}” היא מילה נפוצה באנגלית",
+  "patternInfo.dictionaryL33t": "„{word}” היא מילה נפוצה באנגלית (l33t)",
+  "patternInfo.keyboardWalk": "„{token}” הוא רצף של מקשים סמוכים",
+  "patternInfo.repeat": {
+    one: "„{token}” מופיע פעם אחת",
+    two: "„{token}” חוזר פעמיים",
+    other: "„{token}” חוזר {count} פעמים",
+  },
+  "patternInfo.sequence.number": "„{token}” הוא רצף ספרות",
+  "patternInfo.sequence.letter": "„{token}” הוא רצף אותיות",
+  "patternInfo.descendingSequence.number": "„{token}” הוא רצף ספרות יורד",
+  "patternInfo.descendingSequence.letter": "„{token}” הוא רצף אותיות יורד",
+  "patternInfo.year": "„{token}” נראה כמו שנה",
+  "patternInfo.date": "„{token}” נראה כמו תאריך",
+
+  // Breach list
+  "breach.list": "רשימת דליפות:",
+  "breach.builtIn": "סיסמאות נפוצות מובנות",
+  "breach.loadFile": "טעינת קובץ",
+  "breach.loadFileField": "טעינת קובץ רשימת דליפות",
+  "breach.useBuiltIn": "שימוש ברשימה המובנית",
+  "breachError.noHashes": "קובץ הדליפות לא מכיל גיבובי SHA-1 (נדרשות שורות בפורמט HASH:COUNT)",
+  "breachError.lookupFailed": "הבדיקה מול רשימת הדליפות נכשלה ({status})",
+
+  // Bulk generation
+  "bulk.title": "יצירה מרובה",
+  "bulk.count": "מספר סיסמאות",
+  "bulk.generate": "יצירה",
+  "bulk.list": { one: "סיסמה אחת שנוצרה", two: "שתי סיסמאות שנוצרו", other: "{count} סיסמאות שנוצרו" },
+  "bulk.copyRow": "העתקת סיסמה {index}",
+  "bulk.download": "הורדה",
+  "bulk.format.csv": "CSV",
+  "bulk.format.json": "JSON",
+  "bulk.format.text": "טקסט",
+
+  // History
+  "history.title": "היסטוריה",
+  "history.locked": "נעול",
+  "history.encrypted": "מוצפן",
+  "history.pinSummary": "קוד PIN בן {count} ספרות",
+  "history.separatorSpace": "רווח",
+  "history.charSummary": "{count} תווים",
+  "history.syllableSummary": "{count} תווי הברות",
+  "history.copyEntry": "העתקת הסיסמה שנוצרה ב־{time}",
+  "history.unlockToSee": "יש לבטל את הנעילה כדי לראות סיסמאות שמורות.",
+  "history.empty": "סיסמאות שנוצרו יופיעו כאן.",
+  "history.masterPassphrase": "צירוף ראשי",
+  "history.chooseMasterPassphrase": "בחירת צירוף ראשי",
+  "history.unlock": "ביטול נעילה",
+  "history.enablePersistence": "שמירה מוצפנת במכשיר הזה",
+  "history.lockNow": "נעילה עכשיו",
+  "history.deleteSaved": "מחיקת ההיסטוריה השמורה",
+  "history.saveFailed": "שמירת ההיסטוריה במכשיר הזה נכשלה.",
+  "history.unavailable": "היסטוריה מוצפנת אינה זמינה בדפדפן הזה.",
+  "history.deleteFailed": "מחיקת ההיסטוריה מהמכשיר הזה נכשלה.",
+  "history.wrongPassphrase": "צירוף ראשי שגוי או היסטוריה פגומה",
+  "history.unsupportedVersion": "גרסת פורמט ההיסטוריה {version} אינה נתמכת",
+
+  // Keyboard shortcuts
+  "shortcuts.title": "קיצורי מקלדת",
+  "shortcuts.pressKeys": "הקישו על המקשים…",
+  "shortcuts.change": "שינוי",
+  "shortcuts.changeFor": "שינוי הקיצור עבור {action}",
+  "shortcuts.remove": "הסרה",
+  "shortcuts.removeFor": "הסרת הקיצור עבור {action}",
+  "shortcuts.typingNote": "קיצורים של מקש יחיד לא פועלים בזמן הקלדה בשדה טקסט.",
+  "shortcuts.reset": "איפוס לברירות המחדל",
+  "shortcuts.none": "אין קיצור",
+  "shortcuts.conflict": "{keys} כבר משמש עבור „{action}”",
+  "shortcut.generate": "יצירת סיסמה חדשה",
+  "shortcut.copy": "העתקת הסיסמה",
+  "shortcut.lengthUp": "הגדלת האורך ב־1",
+  "shortcut.lengthDown": "הקטנת האורך ב־1",
+  "shortcut.lengthUpFive": "הגדלת האורך ב־5",
+  "shortcut.lengthDownFive": "הקטנת האורך ב־5",
+  "shortcut.toggleUppercase": "הפעלה/כיבוי של אותיות גדולות",
+  "shortcut.toggleLowercase": "הפעלה/כיבוי של אותיות קטנות",
+  "shortcut.toggleNumbers": "הפעלה/כיבוי של ספרות",
+  "shortcut.toggleSymbols": "הפעלה/כיבוי של סימנים",
+  "shortcut.nextPreset": "מעבר לתבנית הבאה",
+  "shortcut.previousPreset": "מעבר לתבנית הקודמת",
+  "shortcut.openHelp": "הצגת קיצורי המקלדת",
+  "shortcut.openPalette": "פתיחת לוח הפקודות",
+  "shortcutGroup.password": "סיסמה",
+  "shortcutGroup.length": "אורך",
+  "shortcutGroup.characterTypes": "סוגי תווים",
+  "shortcutGroup.presets": "תבניות",
+  "shortcutGroup.general": "כללי",
+
+  // Command palette
+  "palette.title": "לוח פקודות",
+  "palette.placeholder": "הקלידו פקודה…",
+  "palette.search": "חיפוש פקודות",
+  "palette.results": "פקודות",
+  "palette.noResults": "אין פקודות תואמות",
+
+  // Update prompt
+  "update.available": "גרסה חדשה זמינה.",
+  "update.later": "מאוחר יותר",
+  "update.reload": "טעינה מחדש",
+
+  // Appearance and language settings
+  "theme.label": "ערכת נושא",
+  "theme.system": "מערכת",
+  "theme.dark": "כהה",
+  "theme.light": "בהיר",
+  "theme.high-contrast": "ניגודיות גבוהה",
+  "accent.label": "צבע הדגשה",
+  "accent.green": "ירוק",
+  "accent.blue": "כחול",
+  "accent.yellow": "צהוב",
+  "accent.pink": "ורוד",
+  "motion.label": "תנועה",
+  "motion.system": "מערכת",
+  "motion.reduce": "מופחתת",
+  "motion.full": "מלאה",
+  "language.label": "שפה",
+};
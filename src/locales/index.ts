@@ -0,0 +1,17 @@
+/**
+ * Message catalogues for every supported locale
+ *
+ * en is the source: the other catalogues are typed against its keys, so a
+ * missing or misspelt translation fails the type check.
+ */
+
+import { Locale } from "../types";
+import { en, Messages } from "./en";
+import { de } from "./de";
+import { ja } from "./ja";
+import { ar } from "./ar";
+import { he } from "./he";
+
+export type { MessageKey, Messages } from "./en";
+
+export const MESSAGES: Record<Locale, Messages> = { en, de, ja, ar, he };
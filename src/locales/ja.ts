@@ -0,0 +1,371 @@
+import { Messages } from "./en";
+
+/**
+ * Japanese messages
+ */
+export const ja: Messages = {
+  // App shell
+  "app.title": "パスワード生成ツール",
+  "app.modeTabs": "モード",
+  "app.tab.generator": "生成",
+  "app.tab.checker": "チェック",
+  "app.keyboardShortcuts": "キーボードショートカット",
+  "app.commandPalette": "コマンドパレット",
+
+  // Shared
+  "common.bits": "{bits} ビット",
+  "common.copy": "コピー",
+  "common.copied": "コピーしました",
+  "common.save": "保存",
+  "common.clear": "クリア",
+  "common.close": "閉じる",
+  "common.errorMessage": "{message}",
+
+  // Password display
+  "display.hiddenSummary": {
+    other: "パスワードは非表示です（{count} 文字）。「パスワードを表示」で表示するか、表示せずにコピーできます。",
+  },
+  "display.showPassword": "パスワードを表示",
+  "display.hidePassword": "パスワードを隠す",
+  "display.copyPassword": "パスワードをコピー",
+  "display.copiedAnnouncement": "コピーしました！",
+  "display.clearClipboardAfter": "クリップボードを消去するまで",
+  "display.clearDelay.off": "オフ",
+  "display.clearDelay.seconds": "{count} 秒",
+  "display.clearDelay.minutes": "{count} 分",
+
+  // Password reveal announcements
+  "reveal.shown": "パスワードを表示しました",
+  "reveal.hidden": "パスワードを隠しました",
+  "reveal.hiddenOnLeave": "タブを離れたためパスワードを隠しました",
+
+  // Clipboard status and errors
+  "clipboard.clearsIn": "{count} 秒後にクリップボードを消去します",
+  "clipboard.clearsOnReturn": "このタブに戻るとクリップボードを消去します",
+  "clipboard.clearNow": "今すぐ消去",
+  "clipboard.copyWithoutRevealing": "表示せずにコピー",
+  "clipboard.clearFailed": "クリップボードを確認できなかったため、消去していません。手動で消去してください。",
+  "clipboard.denied": "クリップボードへのアクセスが拒否されました。",
+  "clipboard.unavailable": "このブラウザではコピーを使用できません。",
+
+  // Error boundary
+  "errorBoundary.title": "問題が発生しました",
+  "errorBoundary.message": "予期しないエラーが発生しました。ページを再読み込みするか、下のボタンでアプリをリセットしてください。",
+  "errorBoundary.details": "エラーの詳細",
+  "errorBoundary.reset": "アプリをリセット",
+
+  // Generation options
+  "options.modeGroup": "生成モード",
+  "options.mode.password": "パスワード",
+  "options.mode.passphrase": "パスフレーズ",
+  "options.mode.pronounceable": "発音しやすい",
+  "options.mode.pin": "PIN",
+  "options.length": "文字数",
+  "options.lengthField": "パスワードの文字数",
+  "options.lengthSlider": "パスワードの長さ",
+  "options.lengthValue": { other: "{count} 文字" },
+  "options.lengthError": "{min}〜{max} の長さを入力してください",
+  "options.noCharacterTypes": "パスワードを生成するには、文字の種類を 1 つ以上選択してください。",
+  "options.noLetters": "音節を作るには、英大文字か英小文字を選択してください。",
+  "options.uppercase": "英大文字を含める",
+  "options.uppercaseField": "英大文字を含める",
+  "options.lowercase": "英小文字を含める",
+  "options.lowercaseField": "英小文字を含める",
+  "options.numbers": "数字を含める",
+  "options.numbersField": "数字を含める",
+  "options.symbols": "記号を含める",
+  "options.symbolsField": "記号を含める",
+  "options.wordCount": "単語数",
+  "options.wordCountSlider": "パスフレーズの単語数",
+  "options.wordCountValue": { other: "{count} 語" },
+  "options.separator": "区切り文字",
+  "options.separatorField": "単語の区切り文字",
+  "options.separator.hyphen": "ハイフン ( - )",
+  "options.separator.space": "スペース",
+  "options.separator.period": "ピリオド ( . )",
+  "options.separator.underscore": "アンダースコア ( _ )",
+  "options.separator.none": "なし",
+  "options.capitalization": "大文字・小文字",
+  "options.capitalizationField": "単語の大文字・小文字",
+  "options.capitalization.capitalize": "先頭を大文字",
+  "options.capitalization.lowercase": "すべて小文字",
+  "options.capitalization.uppercase": "すべて大文字",
+  "options.capitalization.random": "ランダム",
+  "options.includeNumber": "数字を 1 つ含める",
+  "options.includeNumberField": "数字を 1 つ含める",
+  "options.includeSymbol": "記号を 1 つ含める",
+  "options.includeSymbolField": "記号を 1 つ含める",
+  "options.pinLength": "PIN の桁数",
+  "options.pinLengthSlider": "PIN の桁数",
+  "options.pinLengthValue": { other: "{count} 桁" },
+  "options.pinNote": "連番、繰り返し、回文、日付、よく使われる PIN は生成されません。",
+  "options.avoidAmbiguous": "紛らわしい文字を避ける",
+  "options.avoidAmbiguousField": "紛らわしい文字を避ける",
+  "options.rejectBreached": "漏洩済みなら再生成",
+  "options.rejectBreachedField": "漏洩済みのパスワードを再生成",
+  "options.advanced": "詳細設定",
+  "options.symbolSet": "記号セット",
+  "options.symbolSetField": "使用する記号",
+  "options.reset": "リセット",
+  "options.extraChars": "追加の文字",
+  "options.extraCharsField": "追加で含める文字",
+  "options.extraCharsPlaceholder": "例: äöü€",
+  "options.excludeChars": "除外する文字",
+  "options.excludeCharsField": "除外する文字",
+  "options.excludeCharsPlaceholder": "例: <>|;",
+
+  // Option validation and generation errors
+  "validation.classEmpty": "除外の結果、{class}が 1 文字も残っていません",
+  "validation.syllablesEmpty": "音節を作るには、除外後に子音と母音がそれぞれ 1 文字以上必要です",
+  "generation.lengthRange": "パスワードの長さは {min}〜{max} 文字にしてください",
+  "generation.noCharacterTypes": "文字の種類が選択されていません",
+  "generation.noLetters": "発音しやすいパスワードには英大文字か英小文字が必要です",
+  "generation.policyUnsatisfied": "ポリシーを満たすパスワードを生成できませんでした。長さを増やすか、制約を減らしてください。",
+  "generation.wordCountRange": "パスフレーズの単語数は {min}〜{max} にしてください",
+  "generation.pinLengthRange": "PIN の長さは {min}〜{max} 桁にしてください",
+  "generation.pinWeak": "弱いパターンを含まない PIN を生成できませんでした",
+  "generation.bulkCountRange": "生成数は {min}〜{max} にしてください",
+  "generation.tooFewUnique": "この設定では重複しないパスワードを {count} 個しか生成できませんでした",
+  "generation.rejectBreachedAsync": "漏えいしたパスワードを除外するには非同期の漏えいチェックが必要です。generateUnbreachedPassword または generateUnbreachedBulkPasswords を使用してください",
+
+  // Password policy
+  "policy.title": "ポリシー",
+  "policy.class": "種類",
+  "policy.min": "最小",
+  "policy.max": "最大",
+  "policy.minField": "{class}の最小数",
+  "policy.maxField": "{class}の最大数",
+  "policy.maxRun": "同じ文字の連続上限",
+  "policy.maxRunField": "同じ文字が連続できる最大数",
+  "policy.firstChar": "最初の文字",
+  "policy.lastChar": "最後の文字",
+  "policy.position.any": "任意の文字",
+  "policy.position.letter": "英字",
+  "policy.position.alphanumeric": "英字または数字",
+  "characterClass.uppercase": "英大文字",
+  "characterClass.lowercase": "英小文字",
+  "characterClass.numbers": "数字",
+  "characterClass.symbols": "記号",
+  "characterClass.extra": "追加の文字",
+  "characterClassNoun.uppercase": "英大文字",
+  "characterClassNoun.lowercase": "英小文字",
+  "characterClassNoun.numbers": "数字",
+  "characterClassNoun.symbols": "記号",
+  "characterClassNoun.extra": "追加の文字",
+  "policyError.minUnselected": "ポリシーでは{class}が {count} 文字以上必要ですが、{class}が選択されていません",
+  "policyError.minAboveMax": "{class}の最小数 ({min}) が最大数 ({max}) を超えています",
+  "policyError.classDisallowed": "{class}が選択されていますが、ポリシーでは使用できません",
+  "policyError.tooManyRequired": "ポリシーでは {count} 文字以上が必要ですが、長さは {length} です",
+  "policyError.tooFewAllowed": "ポリシーでは最大 {count} 文字までですが、長さは {length} です",
+  "policyError.maxRunTooSmall": "同じ文字の連続上限は 1 以上にしてください",
+  "policyError.maxRunUnreachable": "異なる文字が少なすぎて、同じ文字の連続を {count} 文字以内に抑えられません",
+  "policyError.firstChar.letter": "最初の文字は英字である必要がありますが、英字が選択されていません",
+  "policyError.firstChar.alphanumeric": "最初の文字は英数字である必要がありますが、英数字が選択されていません",
+  "policyError.lastChar.letter": "最後の文字は英字である必要がありますが、英字が選択されていません",
+  "policyError.lastChar.alphanumeric": "最後の文字は英数字である必要がありますが、英数字が選択されていません",
+  "policyViolation.minCount": "{class}が {min} 文字以上必要ですが、{count} 文字しかありません",
+  "policyViolation.maxCount": "{class}は {max} 文字までですが、{count} 文字あります",
+  "policyViolation.maxRunLength": "同じ文字が {count} 文字を超えて連続しています",
+  "policyViolation.firstChar.letter": "最初の文字は英字である必要があります",
+  "policyViolation.firstChar.alphanumeric": "最初の文字は英数字である必要があります",
+  "policyViolation.lastChar.letter": "最後の文字は英字である必要があります",
+  "policyViolation.lastChar.alphanumeric": "最後の文字は英数字である必要があります",
+
+  // Strength
+  "strength.title": "強度",
+  "strength.tooWeak": "弱すぎる",
+  "strength.weak": "弱い",
+  "strength.medium": "普通",
+  "strength.strong": "強い",
+  "strength.veryStrong": "非常に強い",
+  "strength.breached": {
+    other: "漏洩データで見つかりました（{count} 回）。このパスワードは使用しないでください。",
+  },
+  "strength.possiblePins": "可能な PIN",
+  "strength.cardBlocked": "{count} 回の試行でカードがロック",
+  "strength.phoneWiped": "{count} 回の試行で端末が消去",
+  "strength.chance": "確率 {chance}",
+  "strength.chanceBelow": "< {chance}",
+  "strength.entropy": "エントロピー:",
+  "attack.onlineThrottled": "オンライン（制限あり）",
+  "attack.onlineUnthrottled": "オンライン（制限なし）",
+  "attack.offlineSlowHash": "オフライン（低速ハッシュ）",
+  "attack.offlineFastHash": "オフライン（高速ハッシュ）",
+  "crackTime.instant": "即座",
+  "crackTime.second": { other: "{count} 秒" },
+  "crackTime.minute": { other: "{count} 分" },
+  "crackTime.hour": { other: "{count} 時間" },
+  "crackTime.day": { other: "{count} 日" },
+  "crackTime.month": { other: "{count} か月" },
+  "crackTime.year": { other: "{count} 年" },
+  "crackTime.centuries": "数世紀",
+
+  // Generate button
+  "generate.label": "生成",
+  "generate.button": "新しいパスワードを生成",
+
+  // Presets
+  "preset.label": "プリセット",
+  "preset.custom": "カスタム",
+  "preset.saveAs": "名前を付けて保存…",
+  "preset.delete": "削除",
+  "preset.import": "インポート",
+  "preset.export": "エクスポート",
+  "preset.importFile": "プリセットファイルをインポート",
+  "preset.name": "プリセット名",
+  "preset.storageFailed": "このブラウザにプリセットを保存できませんでした",
+  "preset.nameRequired": "プリセット名を入力してください",
+  "preset.builtInName": "「{name}」は組み込みプリセットの名前です",
+  "preset.invalidJson": "プリセットファイルが有効な JSON ではありません",
+  "preset.importFailed": "インポートに失敗しました: {message}",
+  "presetFile.notObject": "プリセットファイルは JSON オブジェクトである必要があります",
+  "presetFile.missingVersion": "プリセットファイルにバージョン番号がありません",
+  "presetFile.newerVersion": "プリセットファイルのバージョン {version} は、このアプリが対応するバージョン ({supported}) より新しいです",
+  "presetFile.unsupportedVersion": "プリセットファイルのバージョン {version} には対応していません",
+  "presetFile.missingPresets": "プリセットファイルには presets 配列が必要です",
+  "presetFile.mustBeObject": "{path} はオブジェクトである必要があります",
+  "presetFile.mustBeNumber": "{path} は数値である必要があります",
+  "presetFile.mustBeBoolean": "{path} は真偽値である必要があります",
+  "presetFile.mustBeString": "{path} は文字列である必要があります",
+  "presetFile.mustBeName": "{path} は空でない文字列である必要があります",
+  "presetFile.mustBeOneOf": "{path} は次のいずれかである必要があります: {values}",
+  "presetFile.mustBeCount": "{path} は 0 以上の整数または null である必要があります",
+
+  // Checker
+  "checker.label": "チェックするパスワード",
+  "checker.placeholder": "パスワードを貼り付けるか入力",
+  "checker.show": "表示",
+  "checker.hide": "隠す",
+  "checker.privacy": "この端末上でのみチェックします。保存や送信は行いません。",
+  "checker.length": "長さ",
+  "checker.bruteForce": "総当たりエントロピー",
+  "checker.afterPatterns": "パターン考慮後",
+  "checker.patterns": "検出されたパターン",
+  "checker.noPatterns": "よくあるパターンは見つかりませんでした。",
+  "textClass.uppercase": "英大文字",
+  "textClass.lowercase": "英小文字",
+  "textClass.numbers": "数字",
+  "textClass.symbols": "記号",
+  "textClass.other": "その他",
+  "pattern.common-password": "よく使われるパスワード",
+  "pattern.dictionary": "辞書の単語",
+  "pattern.keyboard-walk": "キーボード配列",
+  "pattern.repeat": "繰り返し",
+  "pattern.sequence": "連続",
+  "pattern.date": "日付",
+  "patternInfo.commonPassword": "「{word}」はよく使われるパスワードの {rank} 位です",
+  "patternInfo.commonPasswordL33t": "「{word}」はよく使われるパスワードの {rank} 位です (l33t)",
+  "patternInfo.dictionary": "「{word}」はよく使われる英単語です",
+  "patternInfo.dictionaryL33t": "「{word}」はよく使われる英単語です (l33t)",
+  "patternInfo.keyboardWalk": "「{token}」は隣り合うキーをなぞった並びです",
+  "patternInfo.repeat": "「{token}」が {count} 回繰り返されています",
+  "patternInfo.sequence.number": "「{token}」は連続した数字です",
+  "patternInfo.sequence.letter": "「{token}」は連続した英字です",
+  "patternInfo.descendingSequence.number": "「{token}」は降順に連続した数字です",
+  "patternInfo.descendingSequence.letter": "「{token}」は降順に連続した英字です",
+  "patternInfo.year": "「{token}」は年のようです",
+  "patternInfo.date": "「{token}」は日付のようです",
+
+  // Breach list
+  "breach.list": "漏洩リスト:",
+  "breach.builtIn": "組み込みのよく使われるパスワード",
+  "breach.loadFile": "ファイルを読み込む",
+  "breach.loadFileField": "漏洩リストのファイルを読み込む",
+  "breach.useBuiltIn": "組み込みを使用",
+  "breachError.noHashes": "漏洩ファイルに SHA-1 ハッシュが含まれていません (HASH:COUNT 形式の行が必要です)",
+  "breachError.lookupFailed": "漏洩の照会に失敗しました ({status})",
+
+  // Bulk generation
+  "bulk.title": "一括生成",
+  "bulk.count": "パスワードの数",
+  "bulk.generate": "生成",
+  "bulk.list": { other: "生成されたパスワード {count} 件" },
+  "bulk.copyRow": "パスワード {index} をコピー",
+  "bulk.download": "ダウンロード",
+  "bulk.format.csv": "CSV",
+  "bulk.format.json": "JSON",
+  "bulk.format.text": "テキスト",
+
+  // History
+  "history.title": "履歴",
+  "history.locked": "ロック中",
+  "history.encrypted": "暗号化済み",
+  "history.pinSummary": "{count} 桁の PIN",
+  "history.separatorSpace": "スペース",
+  "history.charSummary": "{count} 文字",
+  "history.syllableSummary": "音節 {count} 文字",
+  "history.copyEntry": "{time} に生成したパスワードをコピー",
+  "history.unlockToSee": "保存したパスワードを見るにはロックを解除してください。",
+  "history.empty": "生成したパスワードがここに表示されます。",
+  "history.masterPassphrase": "マスターパスフレーズ",
+  "history.chooseMasterPassphrase": "マスターパスフレーズを設定",
+  "history.unlock": "ロック解除",
+  "history.enablePersistence": "この端末に暗号化して保存",
+  "history.lockNow": "今すぐロック",
+  "history.deleteSaved": "保存した履歴を削除",
+  "history.saveFailed": "この端末に履歴を保存できませんでした。",
+  "history.unavailable": "このブラウザでは暗号化された履歴を使用できません。",
+  "history.deleteFailed": "この端末から履歴を削除できませんでした。",
+  "history.wrongPassphrase": "パスフレーズが正しくないか、履歴が破損しています",
+  "history.unsupportedVersion": "履歴の形式バージョン {version} には対応していません",
+
+  // Keyboard shortcuts
+  "shortcuts.title": "キーボードショートカット",
+  "shortcuts.pressKeys": "キーを押してください…",
+  "shortcuts.change": "変更",
+  "shortcuts.changeFor": "{action}のショートカットを変更",
+  "shortcuts.remove": "削除",
+  "shortcuts.removeFor": "{action}のショートカットを削除",
+  "shortcuts.typingNote": "テキスト欄に入力中は、単一キーのショートカットは動作しません。",
+  "shortcuts.reset": "初期設定に戻す",
+  "shortcuts.none": "ショートカットなし",
+  "shortcuts.conflict": "{keys} は「{action}」で使用されています",
+  "shortcut.generate": "新しいパスワードを生成",
+  "shortcut.copy": "パスワードをコピー",
+  "shortcut.lengthUp": "長さを 1 増やす",
+  "shortcut.lengthDown": "長さを 1 減らす",
+  "shortcut.lengthUpFive": "長さを 5 増やす",
+  "shortcut.lengthDownFive": "長さを 5 減らす",
+  "shortcut.toggleUppercase": "英大文字の切り替え",
+  "shortcut.toggleLowercase": "英小文字の切り替え",
+  "shortcut.toggleNumbers": "数字の切り替え",
+  "shortcut.toggleSymbols": "記号の切り替え",
+  "shortcut.nextPreset": "次のプリセットに切り替え",
+  "shortcut.previousPreset": "前のプリセットに切り替え",
+  "shortcut.openHelp": "キーボードショートカットを表示",
+  "shortcut.openPalette": "コマンドパレットを開く",
+  "shortcutGroup.password": "パスワード",
+  "shortcutGroup.length": "長さ",
+  "shortcutGroup.characterTypes": "文字の種類",
+  "shortcutGroup.presets": "プリセット",
+  "shortcutGroup.general": "全般",
+
+  // Command palette
+  "palette.title": "コマンドパレット",
+  "palette.placeholder": "コマンドを入力…",
+  "palette.search": "コマンドを検索",
+  "palette.results": "コマンド",
+  "palette.noResults": "一致するコマンドはありません",
+
+  // Update prompt
+  "update.available": "新しいバージョンがあります。",
+  "update.later": "後で",
+  "update.reload": "再読み込み",
+
+  // Appearance and language settings
+  "theme.label": "テーマ",
+  "theme.system": "システム",
+  "theme.dark": "ダーク",
+  "theme.light": "ライト",
+  "theme.high-contrast": "ハイコントラスト",
+  "accent.label": "アクセントカラー",
+  "accent.green": "緑",
+  "accent.blue": "青",
+  "accent.yellow": "黄",
+  "accent.pink": "ピンク",
+  "motion.label": "アニメーション",
+  "motion.system": "システム",
+  "motion.reduce": "控えめ",
+  "motion.full": "フル",
+  "language.label": "言語",
+};
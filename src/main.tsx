@@ -2,12 +2,18 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App.tsx";
 import { ErrorBoundary } from "./components/ErrorBoundary.tsx";
+import { MotionProvider } from "./components/MotionProvider.tsx";
+import { I18nProvider } from "./components/I18nProvider.tsx";
 import "./index.css";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <ErrorBoundary>
-      <App />
-    </ErrorBoundary>
+    <I18nProvider>
+      <ErrorBoundary>
+        <MotionProvider>
+          <App />
+        </MotionProvider>
+      </ErrorBoundary>
+    </I18nProvider>
   </React.StrictMode>
 );
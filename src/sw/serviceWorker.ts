@@ -0,0 +1,91 @@
+/// <reference lib="webworker" />
+
+/**
+ * Service worker for offline use
+ *
+ * Built by the pwa plugin in vite.pwa.ts, which replaces the two constants
+ * below with the build's file list and a hash of their contents. Every asset
+ * is precached on install into a cache named after that hash, so a new
+ * deployment installs alongside the old one and only takes over when the
+ * user accepts the update prompt (or every tab is closed).
+ */
+
+// A module, so the worker's own type for self replaces the global one
+export {};
+declare const self: ServiceWorkerGlobalScope;
+
+/**
+ * Paths of every file in the build, relative to the service worker
+ */
+declare const __PRECACHE_URLS__: string[];
+
+/**
+ * Hash of the build's contents, changed by any edited asset
+ */
+declare const __CACHE_VERSION__: string;
+
+/**
+ * Prefix shared by every version's cache, so old versions can be found
+ */
+const CACHE_PREFIX = "password-generator-";
+
+const CACHE_NAME = `${CACHE_PREFIX}${__CACHE_VERSION__}`;
+
+/**
+ * Page served for navigations, so every URL under the scope opens the app
+ */
+const APP_SHELL_URL = new URL("index.html", self.registration.scope).href;
+
+// Download every asset before this version can take over
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      cache.addAll(
+        __PRECACHE_URLS__.map(
+          // Bypass the HTTP cache so a stale file can't end up in a new version
+          (url) => new Request(new URL(url, self.registration.scope), { cache: "reload" })
+        )
+      )
+    )
+  );
+});
+
+// Remove the caches of previous versions and control open pages
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Serve from the cache first; anything not precached goes to the network
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  if (new URL(request.url).origin !== self.location.origin) return;
+
+  event.respondWith(
+    caches.open(CACHE_NAME).then(async (cache) => {
+      const cached =
+        request.mode === "navigate"
+          ? await cache.match(APP_SHELL_URL)
+          : await cache.match(request);
+      return cached ?? fetch(request);
+    })
+  );
+});
+
+// The update prompt asks a waiting version to take over
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    void self.skipWaiting();
+  }
+});
@@ -0,0 +1,65 @@
+/**
+ * Standard normal quantile for the significance level used by the
+ * distribution tests (p = 0.001, one-sided)
+ */
+const Z_0_001 = 3.0902;
+
+/**
+ * Computes Pearson's chi-square statistic for observed counts against the
+ * expected probability of each category
+ *
+ * @param counts - Observed count per category
+ * @param probabilities - Expected probability per category (summing to 1)
+ * @returns The chi-square statistic
+ */
+export const chiSquare = (counts: number[], probabilities: number[]): number => {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.reduce((sum, count, index) => {
+    const expected = total * probabilities[index];
+    return sum + (count - expected) ** 2 / expected;
+  }, 0);
+};
+
+/**
+ * Computes Pearson's chi-square statistic for observed counts against
+ * equally likely categories
+ *
+ * @param counts - Observed count per category
+ * @returns The chi-square statistic
+ */
+export const chiSquareUniform = (counts: number[]): number => {
+  return chiSquare(counts, counts.map(() => 1 / counts.length));
+};
+
+/**
+ * Critical chi-square value at p = 0.001 (Wilson–Hilferty approximation)
+ * A statistic above this value means the counts are very unlikely to come
+ * from a uniform distribution
+ *
+ * @param degreesOfFreedom - Number of categories minus one
+ * @returns The critical value
+ */
+export const chiSquareCritical = (degreesOfFreedom: number): number => {
+  const k = degreesOfFreedom;
+  return k * (1 - 2 / (9 * k) + Z_0_001 * Math.sqrt(2 / (9 * k))) ** 3;
+};
+
+/**
+ * Counts how often each value from 0 to size-1 is produced by a sampler
+ *
+ * @param size - Number of categories
+ * @param samples - Number of draws
+ * @param sample - Returns a category index for each draw
+ * @returns Count per category
+ */
+export const countSamples = (
+  size: number,
+  samples: number,
+  sample: () => number
+): number[] => {
+  const counts = new Array<number>(size).fill(0);
+  for (let i = 0; i < samples; i++) {
+    counts[sample()]++;
+  }
+  return counts;
+};
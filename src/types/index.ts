@@ -1,14 +1,225 @@
+import { MessageKey } from "../locales/en";
+
+/**
+ * Generation strategies supported by the generator
+ * - password: random characters drawn from the selected character sets
+ * - passphrase: random words drawn from the bundled wordlist (diceware-style)
+ * - pronounceable: alternating consonant/vowel syllables ("tavokeh")
+ * - pin: numeric codes without weak patterns ("583019")
+ */
+export type GenerationMode = "password" | "passphrase" | "pronounceable" | "pin";
+
+/**
+ * Weak patterns rejected in PIN mode
+ * - common: on the common PIN blacklist
+ * - repeat: one block of digits repeated
+ * - sequence: digits rising or falling by a fixed step
+ * - palindrome: reads the same backwards
+ * - date: a date or year in a common layout
+ */
+export type PinWeakness = "common" | "repeat" | "sequence" | "palindrome" | "date";
+
+/**
+ * Capitalization styles applied to passphrase words
+ * - lowercase: every word in lowercase ("correct-horse")
+ * - uppercase: every word in uppercase ("CORRECT-HORSE")
+ * - capitalize: first letter of each word capitalized ("Correct-Horse")
+ * - random: each word randomly lowercase or capitalized ("correct-Horse")
+ */
+export type PassphraseCapitalization =
+  | "lowercase"
+  | "uppercase"
+  | "capitalize"
+  | "random";
+
 export interface PasswordOptions {
+  mode: GenerationMode;
+  // Password and pronounceable modes
   length: number;
   uppercase: boolean;
   lowercase: boolean;
   numbers: boolean;
   symbols: boolean;
+  // Passphrase mode
+  wordCount: number;
+  separator: string;
+  capitalization: PassphraseCapitalization;
+  includeNumber: boolean;
+  includeSymbol: boolean;
+  // PIN mode
+  pinLength: number;
+  // Character set customization
+  symbolChars: string;
+  extraChars: string;
+  excludeChars: string;
+  avoidAmbiguous: boolean;
+  // Password policy (password mode only)
+  policy: PasswordPolicy;
+  // Breach check
+  rejectBreached: boolean; // Regenerate passwords found in the breach list
 }
 
+/**
+ * Character classes a password can be built from
+ * "extra" is the user-supplied free-form character set
+ */
+export type CharacterClass =
+  | "uppercase"
+  | "lowercase"
+  | "numbers"
+  | "symbols"
+  | "extra";
+
+/**
+ * Broad character categories used for per-character colouring in the display
+ */
+export type CharacterType = "letter" | "digit" | "symbol";
+
+/**
+ * An enabled character class and the characters left in it after exclusions
+ */
+export interface CharacterSet {
+  key: CharacterClass;
+  chars: string;
+}
+
+/**
+ * Attacker models used for crack-time estimates
+ * - onlineThrottled: rate-limited login form (100 guesses/hour)
+ * - onlineUnthrottled: login form without rate limiting (10 guesses/second)
+ * - offlineSlowHash: stolen hashes using bcrypt/scrypt/PBKDF2 (10k guesses/second)
+ * - offlineFastHash: stolen hashes using MD5/SHA-1 on GPUs (10B guesses/second)
+ */
+export type AttackScenario =
+  | "onlineThrottled"
+  | "onlineUnthrottled"
+  | "offlineSlowHash"
+  | "offlineFastHash";
+
+/**
+ * Estimated average time (in seconds) to crack a password per attacker model
+ */
+export type CrackTimeEstimate = Record<AttackScenario, number>;
+
 export interface StrengthResult {
   level: number;
-  label: string;
+  key: StrengthKey | null; // null before any password has been scored
+  bits: number;
+  crackTime: CrackTimeEstimate;
+}
+
+/**
+ * Source of SHA-1 hash suffixes, bucketed by 5-character prefix
+ * getRange resolves to the same text format as the HIBP range API:
+ * one "SUFFIX:COUNT" line per hash whose SHA-1 starts with the prefix
+ */
+export interface BreachRangeProvider {
+  name: string; // Shown to the user (e.g. "Built-in common passwords")
+  getRange: (prefix: string) => Promise<string>;
+}
+
+/**
+ * Top-level tabs of the app
+ */
+export type AppTab = "generator" | "checker";
+
+/**
+ * Character classes detected in arbitrary password text
+ * "other" covers anything outside printable ASCII (e.g. accented letters, emoji)
+ */
+export type TextCharacterClass =
+  | "uppercase"
+  | "lowercase"
+  | "numbers"
+  | "symbols"
+  | "other";
+
+/**
+ * Kinds of guessable patterns the analyzer detects
+ */
+export type PatternKind =
+  | "common-password"
+  | "dictionary"
+  | "keyboard-walk"
+  | "repeat"
+  | "sequence"
+  | "date";
+
+/**
+ * A guessable pattern found in a password
+ */
+export interface DetectedPattern {
+  kind: PatternKind;
+  token: string; // The matched part of the password
+  start: number; // Index of the first matched character
+  end: number; // Index after the last matched character
+  guessesLog2: number; // Estimated guesses to find this token, in bits
+  description: MessageDescriptor; // Explanation, translated where it is shown
+}
+
+/**
+ * Breakdown of a password derived from its text alone
+ */
+export interface PasswordAnalysis {
+  length: number;
+  classCounts: Record<TextCharacterClass, number>; // Characters per class
+  poolSize: number; // Size of the character pool implied by the classes present
+  charsetBits: number; // Brute-force entropy: length × log2(poolSize)
+  bits: number; // Estimated entropy after accounting for patterns
+  patterns: DetectedPattern[]; // Patterns used in the cheapest guessing strategy
+}
+
+/**
+ * A single password produced by bulk generation, with its strength
+ */
+export interface BulkPasswordEntry {
+  password: string;
+  strength: StrengthResult;
+}
+
+/**
+ * File formats available when exporting bulk passwords
+ */
+export type ExportFormat = "csv" | "json" | "text";
+
+/**
+ * A generated password recorded in the session history
+ */
+export interface HistoryEntry {
+  id: string;
+  password: string;
+  createdAt: number; // Unix timestamp in milliseconds
+  options: PasswordOptions; // Options the password was generated with
+  strength: StrengthResult;
+}
+
+/**
+ * Encrypted history as stored in IndexedDB
+ * The key is derived from the user's master passphrase and is never stored
+ */
+export interface EncryptedHistoryRecord {
+  version: number;
+  salt: Uint8Array; // PBKDF2 salt
+  iv: Uint8Array; // AES-GCM initialization vector
+  ciphertext: ArrayBuffer; // Encrypted JSON array of HistoryEntry
+}
+
+/**
+ * A named, saved set of generation options
+ */
+export interface Preset {
+  id: string; // URL-safe identifier (e.g. "aws")
+  name: string;
+  options: PasswordOptions;
+  builtIn?: boolean; // Built-in presets can't be deleted or overwritten
+}
+
+/**
+ * Versioned file format used to store, export and import presets
+ */
+export interface PresetFile {
+  version: number;
+  presets: Preset[];
 }
 
 export interface CharacterOptions {
@@ -16,3 +227,195 @@ export interface CharacterOptions {
   label: string;
   checked: boolean;
 }
+
+/**
+ * Rules for which characters may appear at the start or end of a password
+ * - any: no restriction
+ * - letter: must be an uppercase or lowercase letter
+ * - alphanumeric: must be a letter or a number (no symbols or extras)
+ */
+export type PositionRule = "any" | "letter" | "alphanumeric";
+
+/**
+ * Minimum and maximum number of characters from a single class
+ * A max of null means there is no upper limit
+ */
+export interface ClassCountRule {
+  min: number;
+  max: number | null;
+}
+
+/**
+ * Effective count bounds for a class once the policy is applied to a length
+ */
+export interface ClassBounds {
+  min: number;
+  max: number;
+}
+
+/**
+ * Password policy the generator must satisfy (e.g. corporate or PCI rules)
+ */
+export interface PasswordPolicy {
+  classRules: Record<CharacterClass, ClassCountRule>;
+  maxRunLength: number | null; // Max identical consecutive characters (null = unlimited)
+  firstChar: PositionRule;
+  lastChar: PositionRule;
+}
+
+/**
+ * Policy rules a password can violate
+ */
+export type PolicyRule =
+  | "minCount"
+  | "maxCount"
+  | "maxRunLength"
+  | "firstChar"
+  | "lastChar";
+
+/**
+ * A single policy rule broken by a password
+ */
+export interface PolicyViolation {
+  rule: PolicyRule;
+  characterClass?: CharacterClass;
+  message: MessageDescriptor;
+}
+
+/**
+ * Source of uniformly distributed random 32-bit unsigned integers
+ * Production code uses crypto.getRandomValues; tests can inject a seeded source
+ */
+export interface RandomSource {
+  nextUint32: () => number;
+}
+
+/**
+ * Actions that can be bound to a keyboard shortcut and run from the command palette
+ */
+export type ShortcutAction =
+  | "generate"
+  | "copy"
+  | "lengthUp"
+  | "lengthDown"
+  | "lengthUpFive"
+  | "lengthDownFive"
+  | "toggleUppercase"
+  | "toggleLowercase"
+  | "toggleNumbers"
+  | "toggleSymbols"
+  | "nextPreset"
+  | "previousPreset"
+  | "openHelp"
+  | "openPalette";
+
+/**
+ * Headings shortcuts are grouped under in the help dialog
+ */
+export type ShortcutGroup = "password" | "length" | "characterTypes" | "presets" | "general";
+
+/**
+ * An entry in the shortcut registry
+ */
+export interface ShortcutDefinition {
+  action: ShortcutAction; // Also the message key suffix of its label (shortcut.<action>)
+  group: ShortcutGroup; // Heading the action is listed under
+  defaultBinding: string | null; // Default key combination, e.g. "Mod+G"
+}
+
+/**
+ * Key combination bound to each action (null = no shortcut)
+ * Combinations are written as modifiers and a key joined by "+", e.g.
+ * "Mod+K", "Shift+P" or "?" ("Mod" is Ctrl, or Cmd on macOS)
+ */
+export type ShortcutBindings = Record<ShortcutAction, string | null>;
+
+/**
+ * Dialogs that can be open over the app (one at a time)
+ */
+export type AppDialog = "palette" | "help";
+
+/**
+ * Colour theme chosen by the user ("system" follows the OS setting)
+ */
+export type ThemePreference = "system" | "dark" | "light" | "high-contrast";
+
+/**
+ * Theme actually applied to the page
+ */
+export type Theme = Exclude<ThemePreference, "system">;
+
+/**
+ * Accent colours the user can pick (each theme has its own shade)
+ */
+export type AccentColor = "green" | "blue" | "yellow" | "pink";
+
+/**
+ * Theme settings remembered between visits
+ */
+export interface ThemeSettings {
+  preference: ThemePreference;
+  accent: AccentColor;
+}
+
+/**
+ * Animation setting chosen by the user ("system" follows prefers-reduced-motion)
+ */
+export type MotionPreference = "system" | "reduce" | "full";
+
+/**
+ * Languages the interface is translated into
+ */
+export type Locale = "en" | "de" | "ja" | "ar" | "he";
+
+/**
+ * Writing direction of a locale ("rtl" for Arabic and Hebrew)
+ */
+export type TextDirection = "ltr" | "rtl";
+
+/**
+ * A message with a form per plural category of the locale, chosen by the
+ * "count" parameter (see Intl.PluralRules). "other" is required because
+ * every locale has it; Japanese needs nothing else, Arabic uses all six.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/**
+ * A catalogue entry: plain text or plural forms, with {name} placeholders
+ */
+export type Message = string | PluralMessage;
+
+/**
+ * Values substituted into a message's {name} placeholders
+ * A nested descriptor (e.g. a character class name) is translated first.
+ */
+export type MessageParams = Record<string, string | number | MessageDescriptor>;
+
+/**
+ * A message produced outside the view (validation errors, pattern
+ * descriptions), translated where it is shown
+ */
+export interface MessageDescriptor {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/**
+ * Stable identifier for each strength level, translated in the view
+ */
+export type StrengthKey = "tooWeak" | "weak" | "medium" | "strong" | "veryStrong";
+
+/**
+ * Units used to describe a crack time ("instant" and "centuries" have no count)
+ */
+export type CrackTimeUnit =
+  | "instant"
+  | "second"
+  | "minute"
+  | "hour"
+  | "day"
+  | "month"
+  | "year"
+  | "centuries";
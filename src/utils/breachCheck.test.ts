@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { PasswordOptions } from "../types";
+import { DEFAULT_PASSWORD_OPTIONS } from "./passwordUtils";
+import { createSeededRandomSource } from "./random";
+import {
+  checkPasswordBreach,
+  createLocalRangeProvider,
+  generateUnbreachedBulkPasswords,
+  generateUnbreachedPassword,
+  sha1Hex,
+} from "./breachCheck";
+
+/**
+ * 4-digit PINs, where every PIN below 2000 counts as breached
+ */
+const PIN_OPTIONS: PasswordOptions = {
+  ...DEFAULT_PASSWORD_OPTIONS,
+  mode: "pin",
+  pinLength: 4,
+};
+
+const BREACHED_PINS = Array.from({ length: 2000 }, (_, pin) =>
+  String(pin).padStart(4, "0")
+);
+
+const pinProvider = createLocalRangeProvider("Low PINs", () =>
+  Promise.all(
+    BREACHED_PINS.map(async (pin): Promise<[string, number]> => [await sha1Hex(pin), 3])
+  )
+);
+
+describe("generateUnbreachedBulkPasswords", () => {
+  it("keeps breached passwords when rejectBreached is off", async () => {
+    const entries = await generateUnbreachedBulkPasswords(
+      PIN_OPTIONS,
+      200,
+      pinProvider,
+      createSeededRandomSource(1)
+    );
+
+    expect(entries.some(({ password }) => BREACHED_PINS.includes(password))).toBe(true);
+  });
+
+  it("replaces breached passwords with unbreached ones that keep the batch unique", async () => {
+    const entries = await generateUnbreachedBulkPasswords(
+      { ...PIN_OPTIONS, rejectBreached: true },
+      200,
+      pinProvider,
+      createSeededRandomSource(1)
+    );
+    const passwords = entries.map(({ password }) => password);
+
+    expect(passwords).toHaveLength(200);
+    expect(new Set(passwords).size).toBe(200);
+    for (const password of passwords) {
+      expect(await checkPasswordBreach(password, pinProvider)).toBe(0);
+    }
+  });
+});
+
+describe("generateUnbreachedPassword", () => {
+  it("regenerates breached passwords when rejectBreached is on", async () => {
+    const random = createSeededRandomSource(7);
+    for (let i = 0; i < 20; i++) {
+      const { password, breachCount } = await generateUnbreachedPassword(
+        { ...PIN_OPTIONS, rejectBreached: true },
+        pinProvider,
+        random
+      );
+
+      expect(breachCount).toBe(0);
+      expect(BREACHED_PINS).not.toContain(password);
+    }
+  });
+});
@@ -0,0 +1,289 @@
+import {
+  BreachRangeProvider,
+  BulkPasswordEntry,
+  PasswordOptions,
+  RandomSource,
+} from "../types";
+import {
+  calculateGeneratedStrength,
+  generateBulkPasswords,
+  generatePassword,
+} from "./passwordUtils";
+import { MessageError } from "./messageFormat";
+import { cryptoRandomSource } from "./random";
+import { COMMON_PASSWORDS } from "./wordlist";
+
+/**
+ * Base URL of the Have I Been Pwned range API
+ * Only used when createHibpRangeProvider is plugged in; the default is offline
+ */
+export const HIBP_RANGE_URL = "https://api.pwnedpasswords.com/range/";
+
+/**
+ * Number of leading hex characters sent to (or looked up in) a range provider
+ */
+const PREFIX_LENGTH = 5;
+
+/**
+ * Maximum number of passwords tried before giving up on an unbreached one
+ */
+export const MAX_BREACH_REGENERATIONS = 10;
+
+/**
+ * Hashes text with SHA-1 via Web Crypto (globalThis.crypto in browsers and Node)
+ *
+ * @param text - The text to hash
+ * @returns Uppercase hex digest (40 characters), as used by HIBP
+ */
+export const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  )
+    .join("")
+    .toUpperCase();
+};
+
+/**
+ * Parses a range response into suffix counts
+ *
+ * @param text - "SUFFIX:COUNT" lines (CRLF or LF separated)
+ * @returns Map of uppercase hash suffix to breach count
+ */
+export const parseRangeResponse = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  text.split(/\r?\n/).forEach((line) => {
+    const [suffix, count] = line.trim().split(":");
+    if (suffix) {
+      counts.set(suffix.toUpperCase(), parseInt(count, 10) || 0);
+    }
+  });
+  return counts;
+};
+
+/**
+ * Creates a provider that answers range queries from hashes held in memory
+ *
+ * @param name - Display name of the source
+ * @param loadHashes - Resolves to full SHA-1 hashes with their breach counts
+ *   (called once, on the first lookup)
+ * @returns A provider with the same interface as the HIBP range API
+ */
+export const createLocalRangeProvider = (
+  name: string,
+  loadHashes: () => Promise<[string, number][]>
+): BreachRangeProvider => {
+  let buckets: Promise<Map<string, string[]>> | null = null;
+
+  const getBuckets = () => {
+    if (!buckets) {
+      buckets = loadHashes().then((hashes) => {
+        const byPrefix = new Map<string, string[]>();
+        hashes.forEach(([hash, count]) => {
+          const prefix = hash.slice(0, PREFIX_LENGTH);
+          const lines = byPrefix.get(prefix) ?? [];
+          lines.push(`${hash.slice(PREFIX_LENGTH)}:${count}`);
+          byPrefix.set(prefix, lines);
+        });
+        return byPrefix;
+      });
+    }
+    return buckets;
+  };
+
+  return {
+    name,
+    getRange: async (prefix) =>
+      ((await getBuckets()).get(prefix.toUpperCase()) ?? []).join("\r\n"),
+  };
+};
+
+/**
+ * Default provider: the bundled list of common passwords, hashed on first use
+ * The list has no breach counts, so every entry is reported as seen once
+ */
+export const bundledRangeProvider = createLocalRangeProvider(
+  "Built-in common passwords",
+  () =>
+    Promise.all(
+      COMMON_PASSWORDS.map(
+        async (password): Promise<[string, number]> => [await sha1Hex(password), 1]
+      )
+    )
+);
+
+/**
+ * Parses a user-supplied breach file
+ *
+ * Accepts the format of the HIBP downloadable hash lists: one
+ * "HASH:COUNT" line per password, where HASH is a 40-character SHA-1 hex
+ * digest. The count is optional and defaults to 1.
+ *
+ * @param text - File contents
+ * @returns Full uppercase hashes with their counts
+ * @throws Error if the file contains no valid hashes
+ */
+export const parseBreachFile = (text: string): [string, number][] => {
+  const hashes: [string, number][] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    const match = /^([0-9a-f]{40})(?::(\d+))?$/i.exec(line.trim());
+    if (match) {
+      hashes.push([match[1].toUpperCase(), match[2] ? parseInt(match[2], 10) : 1]);
+    }
+  });
+
+  if (hashes.length === 0) {
+    throw new MessageError({ key: "breachError.noHashes" });
+  }
+  return hashes;
+};
+
+/**
+ * Creates a provider backed by a user-supplied breach file
+ *
+ * @param name - Display name (e.g. the file name)
+ * @param text - File contents in HIBP "HASH:COUNT" format
+ * @throws Error if the file contains no valid hashes
+ */
+export const createFileRangeProvider = (
+  name: string,
+  text: string
+): BreachRangeProvider => {
+  const hashes = parseBreachFile(text);
+  return createLocalRangeProvider(name, async () => hashes);
+};
+
+/**
+ * Creates a provider that queries the HIBP range API (or a compatible mirror)
+ * Only the 5-character hash prefix leaves the device (k-anonymity).
+ *
+ * @param baseUrl - URL the prefix is appended to
+ */
+export const createHibpRangeProvider = (
+  baseUrl: string = HIBP_RANGE_URL
+): BreachRangeProvider => ({
+  name: new URL(baseUrl).host,
+  getRange: async (prefix) => {
+    const response = await fetch(`${baseUrl}${prefix}`, {
+      headers: { "Add-Padding": "true" },
+    });
+    if (!response.ok) {
+      throw new MessageError({
+        key: "breachError.lookupFailed",
+        params: { status: String(response.status) },
+      });
+    }
+    return response.text();
+  },
+});
+
+/**
+ * Looks a password up in a breach range provider
+ *
+ * Only the first 5 characters of the SHA-1 hash are passed to the provider;
+ * the rest of the hash is matched locally.
+ *
+ * @param password - The password to check
+ * @param provider - Range provider (defaults to the bundled list)
+ * @returns How often the password appears in breaches (0 if not found)
+ */
+export const checkPasswordBreach = async (
+  password: string,
+  provider: BreachRangeProvider = bundledRangeProvider
+): Promise<number> => {
+  const hash = await sha1Hex(password);
+  const range = await provider.getRange(hash.slice(0, PREFIX_LENGTH));
+  return parseRangeResponse(range).get(hash.slice(PREFIX_LENGTH)) ?? 0;
+};
+
+/**
+ * Generates a password and, if options.rejectBreached is set, regenerates it
+ * while it is found in the breach list
+ *
+ * @param options - The password generation options
+ * @param provider - Range provider (defaults to the bundled list)
+ * @param random - Random source (defaults to crypto.getRandomValues)
+ * @returns The password and its breach count (non-zero only if every attempt was breached)
+ * @throws Error if generatePassword rejects the options
+ */
+export const generateUnbreachedPassword = async (
+  options: PasswordOptions,
+  provider: BreachRangeProvider = bundledRangeProvider,
+  random: RandomSource = cryptoRandomSource
+): Promise<{ password: string; breachCount: number }> => {
+  // The breach check happens here, so the synchronous generator must not see it
+  const generateOptions = { ...options, rejectBreached: false };
+  let password = generatePassword(generateOptions, random);
+  let breachCount = await checkPasswordBreach(password, provider);
+
+  for (
+    let attempt = 1;
+    options.rejectBreached && breachCount > 0 && attempt < MAX_BREACH_REGENERATIONS;
+    attempt++
+  ) {
+    password = generatePassword(generateOptions, random);
+    breachCount = await checkPasswordBreach(password, provider);
+  }
+
+  return { password, breachCount };
+};
+
+/**
+ * Generates a batch of unique passwords and, if options.rejectBreached is set,
+ * replaces every breached one with an unbreached password not already in the batch
+ *
+ * @param options - The password generation options
+ * @param count - Number of passwords (MIN_BULK_COUNT to MAX_BULK_COUNT)
+ * @param provider - Range provider (defaults to the bundled list)
+ * @param random - Random source (defaults to crypto.getRandomValues)
+ * @returns Unique passwords with their strength; a breached password is only
+ *   kept if every replacement attempt was breached or already taken
+ * @throws Error if generateBulkPasswords rejects the options or count
+ */
+export const generateUnbreachedBulkPasswords = async (
+  options: PasswordOptions,
+  count: number,
+  provider: BreachRangeProvider = bundledRangeProvider,
+  random: RandomSource = cryptoRandomSource
+): Promise<BulkPasswordEntry[]> => {
+  const generateOptions = { ...options, rejectBreached: false };
+  const entries = generateBulkPasswords(generateOptions, count, random);
+  if (!options.rejectBreached) return entries;
+
+  const breachCounts = await Promise.all(
+    entries.map(({ password }) => checkPasswordBreach(password, provider))
+  );
+  const taken = new Set(entries.map(({ password }) => password));
+  const result: BulkPasswordEntry[] = [];
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (breachCounts[index] === 0) {
+      result.push(entry);
+      continue;
+    }
+
+    let replacement: string | null = null;
+    for (let attempt = 0; attempt < MAX_BREACH_REGENERATIONS && !replacement; attempt++) {
+      const candidate = generatePassword(generateOptions, random);
+      if (!taken.has(candidate) && (await checkPasswordBreach(candidate, provider)) === 0) {
+        replacement = candidate;
+      }
+    }
+
+    if (replacement) {
+      taken.add(replacement);
+      result.push({
+        password: replacement,
+        strength: calculateGeneratedStrength(replacement, options),
+      });
+    } else {
+      result.push(entry);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,81 @@
+/**
+ * Auto-clear delays offered in the UI, in seconds (0 turns auto-clear off)
+ */
+export const CLIPBOARD_CLEAR_DELAYS = [0, 15, 30, 60, 120];
+
+/**
+ * Auto-clear delay used until the user picks one
+ */
+export const DEFAULT_CLIPBOARD_CLEAR_SECONDS = 30;
+
+/**
+ * How long the "Copied" feedback stays visible
+ */
+export const COPIED_FEEDBACK_MS = 2000;
+
+/**
+ * localStorage key for the auto-clear delay
+ */
+const CLIPBOARD_CLEAR_STORAGE_KEY = "password-generator:clipboard-clear-seconds";
+
+/**
+ * Reads the auto-clear delay, falling back to the default for missing or
+ * unknown values
+ */
+export const loadClipboardClearSeconds = (): number => {
+  try {
+    const stored = localStorage.getItem(CLIPBOARD_CLEAR_STORAGE_KEY);
+    const seconds = Number(stored);
+    return stored !== null && CLIPBOARD_CLEAR_DELAYS.includes(seconds)
+      ? seconds
+      : DEFAULT_CLIPBOARD_CLEAR_SECONDS;
+  } catch {
+    return DEFAULT_CLIPBOARD_CLEAR_SECONDS;
+  }
+};
+
+/**
+ * Remembers the auto-clear delay
+ *
+ * @param seconds - Delay in seconds (0 for off)
+ */
+export const storeClipboardClearSeconds = (seconds: number) => {
+  try {
+    localStorage.setItem(CLIPBOARD_CLEAR_STORAGE_KEY, String(seconds));
+  } catch (err) {
+    console.error("Failed to store clipboard setting:", err);
+  }
+};
+
+/**
+ * Copies text through a hidden, off-screen text field and execCommand("copy")
+ *
+ * Used when the Clipboard API is denied. The text is never shown or left
+ * selected on screen, and the field is removed straight away. Must run inside
+ * a user gesture (e.g. a click handler).
+ *
+ * @param text - The text to copy
+ * @returns true if the browser reported a successful copy
+ */
+export const copyTextWithoutRevealing = (text: string): boolean => {
+  const field = document.createElement("textarea");
+  field.value = text;
+  field.setAttribute("readonly", "");
+  field.setAttribute("aria-hidden", "true");
+  field.style.position = "fixed";
+  field.style.top = "-9999px";
+  field.style.opacity = "0";
+
+  const previousFocus = document.activeElement as HTMLElement | null;
+  document.body.appendChild(field);
+  field.select();
+
+  try {
+    return document.execCommand("copy");
+  } catch {
+    return false;
+  } finally {
+    field.remove();
+    previousFocus?.focus();
+  }
+};
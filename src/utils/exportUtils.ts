@@ -0,0 +1,109 @@
+import { BulkPasswordEntry, ExportFormat } from "../types";
+import { getStrengthLabel } from "./passwordUtils";
+
+/**
+ * File extension and MIME type for each export format
+ */
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  csv: { extension: "csv", mimeType: "text/csv" },
+  json: { extension: "json", mimeType: "application/json" },
+  text: { extension: "txt", mimeType: "text/plain" },
+};
+
+/**
+ * Quotes a CSV field, doubling any embedded quotes
+ * Every field is quoted so commas, quotes and spaces in passwords survive intact
+ *
+ * @param value - The raw field value
+ */
+const toCsvField = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * Serializes bulk passwords into the requested export format
+ *
+ * - csv: header row plus password, strength label and entropy per row
+ * - json: array of { password, strength, entropyBits } objects
+ * - text: one password per line
+ *
+ * @param entries - The generated passwords
+ * @param format - The export format
+ * @returns The file contents
+ */
+export const formatBulkExport = (
+  entries: BulkPasswordEntry[],
+  format: ExportFormat
+): string => {
+  switch (format) {
+    case "csv":
+      return [
+        "password,strength,entropy_bits",
+        ...entries.map(({ password, strength }) =>
+          [
+            toCsvField(password),
+            toCsvField(getStrengthLabel(strength)),
+            strength.bits.toFixed(1),
+          ].join(",")
+        ),
+      ].join("\r\n");
+    case "json":
+      return JSON.stringify(
+        entries.map(({ password, strength }) => ({
+          password,
+          strength: getStrengthLabel(strength),
+          entropyBits: Number(strength.bits.toFixed(1)),
+        })),
+        null,
+        2
+      );
+    default:
+      return entries.map(({ password }) => password).join("\n");
+  }
+};
+
+/**
+ * Triggers a browser download of the given text content
+ *
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the file
+ */
+export const downloadFile = (
+  content: string,
+  filename: string,
+  mimeType: string
+) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Release the object URL once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Exports bulk passwords as a downloaded file
+ *
+ * @param entries - The generated passwords
+ * @param format - The export format
+ */
+export const exportBulkPasswords = (
+  entries: BulkPasswordEntry[],
+  format: ExportFormat
+) => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  downloadFile(
+    formatBulkExport(entries, format),
+    `passwords-${timestamp}.${extension}`,
+    mimeType
+  );
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { fuzzyScore, fuzzySearch } from "./fuzzySearch";
+
+describe("fuzzyScore", () => {
+  it.each([
+    ["gen", "Generate a new password"],
+    ["GEN", "Generate a new password"],
+    ["tgsy", "Toggle symbols"],
+    ["copy pw", "Copy password"],
+    ["", "Anything"],
+  ])("matches %j in %j", (query, text) => {
+    expect(fuzzyScore(query, text)).not.toBeNull();
+  });
+
+  it.each([
+    ["xyz", "Generate a new password"],
+    ["sgot", "Toggle symbols"], // right letters, wrong order
+    ["copied", "Copy"],
+  ])("doesn't match %j in %j", (query, text) => {
+    expect(fuzzyScore(query, text)).toBeNull();
+  });
+
+  it("prefers consecutive characters and word starts", () => {
+    expect(fuzzyScore("gen", "Generate")!).toBeGreaterThan(
+      fuzzyScore("gen", "Toggle numbers")!
+    );
+    expect(fuzzyScore("len", "Increase length")!).toBeGreaterThan(
+      fuzzyScore("len", "Toggle lowercase numbers")!
+    );
+  });
+
+  it("matches any text containing the query", () => {
+    fc.assert(
+      fc.property(fc.string(), fc.string(), fc.string(), (before, query, after) => {
+        expect(fuzzyScore(query, before + query + after)).not.toBeNull();
+      })
+    );
+  });
+});
+
+describe("fuzzySearch", () => {
+  const items = ["Toggle symbols", "Copy password", "Switch to the next preset"];
+
+  it("returns every item in order for an empty query", () => {
+    expect(fuzzySearch(items, "", (item) => item)).toEqual(items);
+  });
+
+  it("filters out items that don't match and ranks the best match first", () => {
+    expect(fuzzySearch(items, "sy", (item) => item)).toEqual(["Toggle symbols"]);
+    expect(fuzzySearch(items, "s", (item) => item)).toEqual([
+      "Switch to the next preset",
+      "Toggle symbols",
+      "Copy password",
+    ]);
+  });
+
+  it("keeps the original order for equal scores", () => {
+    expect(fuzzySearch(["b one", "a one"], "one", (item) => item)).toEqual([
+      "b one",
+      "a one",
+    ]);
+  });
+});
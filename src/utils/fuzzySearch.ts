@@ -0,0 +1,60 @@
+/**
+ * Scores how well a query matches a text as an in-order subsequence
+ *
+ * Every query character must appear in the text, in order (case and spaces in
+ * the query are ignored). Matches score higher when characters are
+ * consecutive or start a word, so "gen" ranks "Generate" above "Toggle
+ * numbers" and "tgsy" still finds "Toggle symbols".
+ *
+ * @param query - What the user typed
+ * @param text - The text to match against
+ * @returns A score (higher is better), or null if the text doesn't match
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let searchFrom = 0;
+  let previousIndex = -2;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, searchFrom);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previousIndex + 1) score += 2;
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) score += 3;
+    // Slightly prefer matches that skip fewer characters
+    score -= (index - searchFrom) * 0.05;
+
+    previousIndex = index;
+    searchFrom = index + 1;
+  }
+
+  return score;
+};
+
+/**
+ * Filters and ranks items by fuzzyScore
+ * Items with equal scores keep their original order
+ *
+ * @param items - The items to search
+ * @param query - What the user typed (an empty query returns every item)
+ * @param getText - Returns the text to match for an item
+ * @returns Matching items, best match first
+ */
+export const fuzzySearch = <T>(
+  items: T[],
+  query: string,
+  getText: (item: T) => string
+): T[] => {
+  return items
+    .map((item, index) => ({ item, index, score: fuzzyScore(query, getText(item)) }))
+    .filter((result): result is { item: T; index: number; score: number } =>
+      result.score !== null
+    )
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+};
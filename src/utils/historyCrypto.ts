@@ -0,0 +1,125 @@
+import { EncryptedHistoryRecord, HistoryEntry } from "../types";
+import { MessageError } from "./messageFormat";
+import { STRENGTH_KEYS } from "./passwordUtils";
+
+/**
+ * Current format version of the encrypted history record
+ */
+const HISTORY_RECORD_VERSION = 1;
+
+/**
+ * PBKDF2 iteration count (OWASP 2023 recommendation for PBKDF2-HMAC-SHA256)
+ */
+const PBKDF2_ITERATIONS = 600000;
+
+/**
+ * Sizes in bytes of the random salt and AES-GCM IV
+ */
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Generates a new random salt for key derivation
+ */
+export const generateSalt = (): Uint8Array => {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+};
+
+/**
+ * Derives an AES-GCM key from the user's master passphrase using PBKDF2
+ *
+ * @param passphrase - The master passphrase chosen by the user
+ * @param salt - Random salt stored alongside the encrypted history
+ * @returns A non-extractable AES-GCM 256-bit key
+ */
+export const deriveHistoryKey = async (
+  passphrase: string,
+  salt: Uint8Array
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: new Uint8Array(salt),
+      iterations: PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/**
+ * Encrypts history entries with AES-GCM using a fresh random IV
+ *
+ * @param entries - The history entries to encrypt
+ * @param key - Key derived with deriveHistoryKey
+ * @param salt - Salt the key was derived with (stored for later unlocking)
+ * @returns A record ready to be stored in IndexedDB
+ */
+export const encryptHistory = async (
+  entries: HistoryEntry[],
+  key: CryptoKey,
+  salt: Uint8Array
+): Promise<EncryptedHistoryRecord> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(entries))
+  );
+
+  return { version: HISTORY_RECORD_VERSION, salt, iv, ciphertext };
+};
+
+/**
+ * Decrypts a stored history record
+ *
+ * @param record - The encrypted record from IndexedDB
+ * @param key - Key derived from the master passphrase and the record's salt
+ * @returns The decrypted history entries
+ *
+ * @throws Error if the passphrase is wrong or the record was tampered with
+ */
+export const decryptHistory = async (
+  record: EncryptedHistoryRecord,
+  key: CryptoKey
+): Promise<HistoryEntry[]> => {
+  if (record.version !== HISTORY_RECORD_VERSION) {
+    throw new MessageError({
+      key: "history.unsupportedVersion",
+      params: { version: String(record.version) },
+    });
+  }
+
+  let entries: HistoryEntry[];
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(record.iv) },
+      key,
+      record.ciphertext
+    );
+    entries = JSON.parse(new TextDecoder().decode(plaintext)) as HistoryEntry[];
+  } catch {
+    // AES-GCM authentication fails for a wrong key and for modified data alike
+    throw new MessageError({ key: "history.wrongPassphrase" });
+  }
+
+  // Entries saved before strength keys only have an English label
+  return entries.map((entry) => ({
+    ...entry,
+    strength: {
+      ...entry.strength,
+      key: entry.strength.key ?? STRENGTH_KEYS[entry.strength.level],
+    },
+  }));
+};
@@ -0,0 +1,81 @@
+import { EncryptedHistoryRecord } from "../types";
+
+/**
+ * IndexedDB database, object store and record key used for encrypted history
+ */
+const DB_NAME = "password-generator";
+const DB_VERSION = 1;
+const STORE_NAME = "history";
+const RECORD_KEY = "vault";
+
+/**
+ * Opens (and creates, on first use) the history database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs a single request against the history store and resolves with its result
+ *
+ * @param mode - Transaction mode
+ * @param action - Creates the request from the object store
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Loads the encrypted history record, if one has been saved
+ *
+ * @returns The stored record, or null if persistence was never enabled
+ */
+export const loadHistoryRecord =
+  async (): Promise<EncryptedHistoryRecord | null> => {
+    const record = await runRequest<EncryptedHistoryRecord | undefined>(
+      "readonly",
+      (store) => store.get(RECORD_KEY)
+    );
+    return record ?? null;
+  };
+
+/**
+ * Saves (or replaces) the encrypted history record
+ *
+ * @param record - The encrypted history
+ */
+export const saveHistoryRecord = async (
+  record: EncryptedHistoryRecord
+): Promise<void> => {
+  await runRequest("readwrite", (store) => store.put(record, RECORD_KEY));
+};
+
+/**
+ * Deletes the encrypted history record from the device
+ */
+export const deleteHistoryRecord = async (): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(RECORD_KEY));
+};
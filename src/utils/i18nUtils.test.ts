@@ -0,0 +1,181 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it } from "vitest";
+import { Locale, Message } from "../types";
+import { MESSAGES, MessageKey } from "../locales";
+import {
+  applyLocale,
+  detectLocale,
+  formatMessage,
+  getTextDirection,
+  loadLocale,
+  LOCALE_OPTIONS,
+  storeLocale,
+} from "./i18nUtils";
+import { getErrorDescriptor, MessageError } from "./messageFormat";
+
+/**
+ * Collects the {name} placeholders used by any form of a message
+ */
+const placeholdersOf = (message: Message): string[] => {
+  const forms = typeof message === "string" ? [message] : Object.values(message);
+  const names = forms.flatMap((form) =>
+    [...(form ?? "").matchAll(/\{(\w+)\}/g)].map(([, name]) => name)
+  );
+  return [...new Set(names)].sort();
+};
+
+describe("detectLocale", () => {
+  it("picks the first translated language, ignoring the region", () => {
+    expect(detectLocale(["fr-FR", "de-AT", "en-US"])).toBe("de");
+    expect(detectLocale(["ja_JP"])).toBe("ja");
+  });
+
+  it("maps the legacy Hebrew code", () => {
+    expect(detectLocale(["iw-IL"])).toBe("he");
+  });
+
+  it("falls back to English", () => {
+    expect(detectLocale(["fr", "es"])).toBe("en");
+    expect(detectLocale([])).toBe("en");
+  });
+});
+
+describe("getTextDirection", () => {
+  it("is right-to-left only for Arabic and Hebrew", () => {
+    expect(getTextDirection("ar")).toBe("rtl");
+    expect(getTextDirection("he")).toBe("rtl");
+    expect(getTextDirection("en")).toBe("ltr");
+    expect(getTextDirection("ja")).toBe("ltr");
+  });
+});
+
+describe("formatMessage", () => {
+  it("fills in placeholders and formats numbers for the locale", () => {
+    expect(formatMessage("en", "strength.cardBlocked", { count: 3 })).toBe(
+      "Card blocked after 3 tries"
+    );
+    expect(formatMessage("en", "strength.breached", { count: 1234 })).toBe(
+      "Found in breaches (1,234 times). Don't use this password."
+    );
+    expect(formatMessage("de", "strength.breached", { count: 1234 })).toContain("1.234");
+  });
+
+  it("chooses the English plural form from the count", () => {
+    expect(formatMessage("en", "crackTime.year", { count: 1 })).toBe("1 year");
+    expect(formatMessage("en", "crackTime.year", { count: 2 })).toBe("2 years");
+  });
+
+  it("uses every Arabic plural category", () => {
+    const forms = MESSAGES.ar["crackTime.second"];
+    if (typeof forms === "string") throw new Error("Expected plural forms");
+
+    expect(formatMessage("ar", "crackTime.second", { count: 1 })).toBe(forms.one);
+    expect(formatMessage("ar", "crackTime.second", { count: 2 })).toBe(forms.two);
+    expect(formatMessage("ar", "crackTime.second", { count: 3 })).toBe(
+      forms.few?.replace("{count}", new Intl.NumberFormat("ar").format(3))
+    );
+    expect(formatMessage("ar", "crackTime.second", { count: 11 })).toBe(
+      forms.many?.replace("{count}", new Intl.NumberFormat("ar").format(11))
+    );
+  });
+
+  it("falls back to the other form for languages without plurals", () => {
+    expect(formatMessage("ja", "crackTime.year", { count: 1 })).toBe(
+      formatMessage("ja", "crackTime.year", { count: 5 }).replace("5", "1")
+    );
+  });
+
+  it("leaves placeholders without a value as they are", () => {
+    expect(formatMessage("en", "strength.chance")).toBe("{chance} chance");
+  });
+
+  it("translates nested messages in the same locale", () => {
+    const params = { class: { key: "characterClass.numbers" as const } };
+
+    expect(formatMessage("en", "validation.classEmpty", params)).toBe(
+      "Numbers have no characters left after exclusions"
+    );
+    expect(formatMessage("de", "validation.classEmpty", params)).toContain("Ziffern");
+  });
+});
+
+describe("getErrorDescriptor", () => {
+  /**
+   * Describes an error and translates the result
+   */
+  const describeError = (locale: Locale, error: unknown) => {
+    const { key, params } = getErrorDescriptor(error);
+    return formatMessage(locale, key, params);
+  };
+
+  it("translates errors thrown by the utils, keeping English as the message", () => {
+    const error = new MessageError({ key: "history.wrongPassphrase" });
+
+    expect(error.message).toBe("Incorrect passphrase or corrupted history");
+    expect(describeError("de", error)).toBe(MESSAGES.de["history.wrongPassphrase"]);
+  });
+
+  it("shows other errors as they are", () => {
+    expect(describeError("de", new Error("Network down"))).toBe("Network down");
+    expect(describeError("de", "offline")).toBe("offline");
+  });
+});
+
+describe("message catalogues", () => {
+  const keys = Object.keys(MESSAGES.en) as MessageKey[];
+
+  it.each(LOCALE_OPTIONS.map(({ value }) => value))(
+    "%s translates every message with the same placeholders",
+    (locale: Locale) => {
+      expect(Object.keys(MESSAGES[locale]).sort()).toEqual([...keys].sort());
+      for (const key of keys) {
+        expect([key, placeholdersOf(MESSAGES[locale][key])]).toEqual([
+          key,
+          placeholdersOf(MESSAGES.en[key]),
+        ]);
+      }
+    }
+  );
+
+  it("always provides the other plural form", () => {
+    for (const { value } of LOCALE_OPTIONS) {
+      for (const message of Object.values(MESSAGES[value])) {
+        if (typeof message !== "string") {
+          expect(message.other).toBeTruthy();
+        }
+      }
+    }
+  });
+});
+
+describe("applyLocale", () => {
+  afterEach(() => {
+    document.documentElement.lang = "";
+    document.documentElement.dir = "";
+  });
+
+  it("sets the language and writing direction on the root element", () => {
+    applyLocale("he");
+
+    expect(document.documentElement).toHaveAttribute("lang", "he");
+    expect(document.documentElement).toHaveAttribute("dir", "rtl");
+  });
+});
+
+describe("stored locale", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("round-trips through localStorage", () => {
+    storeLocale("ja");
+
+    expect(loadLocale()).toBe("ja");
+  });
+
+  it("falls back to the browser's languages for unknown values", () => {
+    localStorage.setItem("password-generator:locale", "xx");
+
+    expect(loadLocale()).toBe(detectLocale(navigator.languages));
+  });
+});
@@ -0,0 +1,127 @@
+import { Locale, MessageParams, TextDirection } from "../types";
+import { MESSAGES, MessageKey } from "../locales";
+import { formatCatalogueMessage } from "./messageFormat";
+
+/**
+ * Languages offered in the language switcher, named in their own language
+ */
+export const LOCALE_OPTIONS: { value: Locale; label: string; dir: TextDirection }[] = [
+  { value: "en", label: "English", dir: "ltr" },
+  { value: "de", label: "Deutsch", dir: "ltr" },
+  { value: "ja", label: "日本語", dir: "ltr" },
+  { value: "ar", label: "العربية", dir: "rtl" },
+  { value: "he", label: "עברית", dir: "rtl" },
+];
+
+/**
+ * Locale used when none of the browser's languages is available
+ */
+export const DEFAULT_LOCALE: Locale = "en";
+
+/**
+ * localStorage key for the chosen language
+ */
+const LOCALE_STORAGE_KEY = "password-generator:locale";
+
+/**
+ * Legacy language codes still sent by some browsers
+ */
+const LEGACY_LANGUAGE_CODES: Record<string, string> = {
+  iw: "he",
+};
+
+/**
+ * Finds the supported locale for a language tag such as "de-AT"
+ *
+ * @param tag - A BCP 47 language tag
+ * @returns The matching locale, or null if the language isn't translated
+ */
+const matchLocale = (tag: string): Locale | null => {
+  const language = tag.toLowerCase().split(/[-_]/)[0];
+  const code = LEGACY_LANGUAGE_CODES[language] ?? language;
+  const option = LOCALE_OPTIONS.find(({ value }) => value === code);
+  return option ? option.value : null;
+};
+
+/**
+ * Picks the first of the user's preferred languages that is translated
+ *
+ * @param languages - Language tags in order of preference (navigator.languages)
+ * @returns The best matching locale, or DEFAULT_LOCALE
+ */
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const tag of languages) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * Writing direction of a locale
+ *
+ * @param locale - The locale
+ * @returns "rtl" for Arabic and Hebrew, otherwise "ltr"
+ */
+export const getTextDirection = (locale: Locale): TextDirection =>
+  LOCALE_OPTIONS.find(({ value }) => value === locale)?.dir ?? "ltr";
+
+/**
+ * Looks up a message and fills in its placeholders
+ *
+ * Numbers are formatted for the locale and nested descriptors are translated
+ * too. Plural messages pick their form from params.count; unknown
+ * placeholders are left as they are.
+ *
+ * @param locale - The locale to translate into
+ * @param key - The message key
+ * @param params - Values for the message's {name} placeholders
+ * @returns The translated text
+ */
+export const formatMessage = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {}
+): string => formatCatalogueMessage(MESSAGES[locale], locale, key, params);
+
+
+/**
+ * Applies a locale to the page: the lang attribute for screen readers and
+ * fonts, and dir so the layout mirrors for right-to-left languages
+ *
+ * @param locale - The locale
+ */
+export const applyLocale = (locale: Locale) => {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = getTextDirection(locale);
+};
+
+/**
+ * Reads the chosen language, falling back to the browser's languages when
+ * none was chosen or the stored value is unknown
+ */
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    const locale = stored ? matchLocale(stored) : null;
+    if (locale) return locale;
+  } catch {
+    // Fall through to the browser's languages
+  }
+  return detectLocale(
+    navigator.languages?.length ? navigator.languages : [navigator.language]
+  );
+};
+
+/**
+ * Remembers the chosen language
+ *
+ * @param locale - The locale to store
+ */
+export const storeLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (err) {
+    console.error("Failed to store language:", err);
+  }
+};
@@ -0,0 +1,113 @@
+import {
+  Locale,
+  MessageDescriptor,
+  MessageParams,
+  PluralMessage,
+} from "../types";
+import { en, MessageKey, Messages } from "../locales/en";
+
+/**
+ * Formats a number for a locale (digit grouping, decimal mark, percent sign)
+ *
+ * @param locale - The locale
+ * @param value - The number to format
+ * @param options - Intl.NumberFormat options, e.g. { style: "percent" }
+ */
+export const formatNumber = (
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions
+): string => new Intl.NumberFormat(locale, options).format(value);
+
+/**
+ * Chooses the plural form for a count using the locale's plural rules
+ * Falls back to "other" when the catalogue doesn't need a separate form
+ *
+ * @param locale - The locale
+ * @param message - The plural forms
+ * @param count - The number the message describes
+ */
+const selectPluralForm = (
+  locale: Locale,
+  message: PluralMessage,
+  count: number
+): string => message[new Intl.PluralRules(locale).select(count)] ?? message.other;
+
+/**
+ * Looks up a message in a catalogue and fills in its placeholders
+ *
+ * Numbers are formatted for the locale and nested descriptors are translated
+ * from the same catalogue. Plural messages pick their form from params.count;
+ * unknown placeholders are left as they are.
+ *
+ * @param messages - The locale's catalogue
+ * @param locale - The locale (for plural rules and number formatting)
+ * @param key - The message key
+ * @param params - Values for the message's {name} placeholders
+ * @returns The translated text
+ */
+export const formatCatalogueMessage = (
+  messages: Messages,
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {}
+): string => {
+  const message = messages[key];
+  const text =
+    typeof message === "string"
+      ? message
+      : selectPluralForm(locale, message, Number(params.count ?? 0));
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    if (typeof value === "number") return formatNumber(locale, value);
+    if (typeof value === "string") return value;
+    return formatCatalogueMessage(messages, locale, value.key, value.params);
+  });
+};
+
+/**
+ * Formats a message in English, for the CLI, the library and error messages
+ * Only the English catalogue is imported, so those builds stay small.
+ *
+ * @param descriptor - The message key and its parameters
+ * @returns The English text
+ */
+export const formatEnglishMessage = ({ key, params }: MessageDescriptor): string =>
+  formatCatalogueMessage(en, "en", key, params);
+
+/**
+ * An error whose message can be translated
+ *
+ * message holds the English text, so the CLI, the library and logs read as
+ * before; the app translates descriptor in the current language instead.
+ */
+export class MessageError extends Error {
+  readonly descriptor: MessageDescriptor;
+
+  /**
+   * @param descriptor - The message key and its parameters
+   */
+  constructor(descriptor: MessageDescriptor) {
+    super(formatEnglishMessage(descriptor));
+    this.name = "MessageError";
+    this.descriptor = descriptor;
+  }
+}
+
+/**
+ * Describes a caught error as a message
+ * MessageErrors keep their key; other errors (e.g. from the browser) are shown
+ * with their own text.
+ *
+ * @param error - The caught error
+ * @returns The message to show the user
+ */
+export const getErrorDescriptor = (error: unknown): MessageDescriptor =>
+  error instanceof MessageError
+    ? error.descriptor
+    : {
+        key: "common.errorMessage",
+        params: { message: error instanceof Error ? error.message : String(error) },
+      };
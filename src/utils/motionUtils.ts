@@ -0,0 +1,74 @@
+import { MotionPreference } from "../types";
+import { MessageKey } from "../locales";
+
+/**
+ * Animation settings offered in the UI
+ */
+export const MOTION_OPTIONS: { value: MotionPreference; label: MessageKey }[] = [
+  { value: "system", label: "motion.system" },
+  { value: "reduce", label: "motion.reduce" },
+  { value: "full", label: "motion.full" },
+];
+
+/**
+ * localStorage key for the animation setting
+ */
+const MOTION_STORAGE_KEY = "password-generator:motion";
+
+/**
+ * Media query for the OS setting that "system" follows
+ */
+export const PREFERS_REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/**
+ * Decides whether animations should be skipped
+ *
+ * @param preference - The user's setting
+ * @param prefersReducedMotion - Whether the OS asks for reduced motion
+ * @returns true if animations should be skipped
+ */
+export const shouldReduceMotion = (
+  preference: MotionPreference,
+  prefersReducedMotion: boolean
+): boolean => {
+  if (preference === "system") return prefersReducedMotion;
+  return preference === "reduce";
+};
+
+/**
+ * Applies the animation setting to the page
+ * CSS transitions and animations are switched off by the
+ * data-motion="reduce" rule in index.css
+ *
+ * @param reduceMotion - Whether animations should be skipped
+ */
+export const applyMotion = (reduceMotion: boolean) => {
+  document.documentElement.dataset.motion = reduceMotion ? "reduce" : "full";
+};
+
+/**
+ * Reads the animation setting, falling back to "system" for missing or
+ * unknown values
+ */
+export const loadMotionPreference = (): MotionPreference => {
+  try {
+    const stored = localStorage.getItem(MOTION_STORAGE_KEY);
+    const option = MOTION_OPTIONS.find(({ value }) => value === stored);
+    return option ? option.value : "system";
+  } catch {
+    return "system";
+  }
+};
+
+/**
+ * Remembers the animation setting
+ *
+ * @param preference - The setting to store
+ */
+export const storeMotionPreference = (preference: MotionPreference) => {
+  try {
+    localStorage.setItem(MOTION_STORAGE_KEY, preference);
+  } catch (err) {
+    console.error("Failed to store motion setting:", err);
+  }
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { formatEnglishMessage } from "./messageFormat";
+import { analyzePassword } from "./passwordAnalysis";
+
+/**
+ * English descriptions of the sequences found in a password
+ */
+const describeSequences = (password: string): string[] =>
+  analyzePassword(password)
+    .patterns.filter(({ kind }) => kind === "sequence")
+    .map(({ description }) => formatEnglishMessage(description));
+
+describe("analyzePassword sequences", () => {
+  it.each([
+    ["Qx!4567", '"4567" is a number sequence'],
+    ["Qx!lmno", '"lmno" is a letter sequence'],
+    ["Qx!9876", '"9876" is a descending number sequence'],
+    ["Qx!wvut", '"wvut" is a descending letter sequence'],
+  ])("describes the sequence in %s", (password, description) => {
+    expect(describeSequences(password)).toEqual([description]);
+  });
+});
@@ -0,0 +1,640 @@
+import {
+  DetectedPattern,
+  PasswordAnalysis,
+  PatternKind,
+  TextCharacterClass,
+} from "../types";
+import { COMMON_PASSWORDS, ENGLISH_WORDS } from "./wordlist";
+
+/**
+ * Pool size assumed for each character class found in a password
+ * Symbols cover all printable ASCII punctuation plus space; "other" characters
+ * are counted individually since their alphabet is unknown
+ */
+const CLASS_POOL_SIZES: Record<Exclude<TextCharacterClass, "other">, number> = {
+  uppercase: 26,
+  lowercase: 26,
+  numbers: 10,
+  symbols: 33,
+};
+
+/**
+ * Display labels for each pattern kind
+ */
+export const PATTERN_KIND_LABELS: Record<PatternKind, string> = {
+  "common-password": "Common password",
+  dictionary: "Dictionary word",
+  "keyboard-walk": "Keyboard walk",
+  repeat: "Repetition",
+  sequence: "Sequence",
+  date: "Date",
+};
+
+/**
+ * Display labels for each detected character class
+ */
+export const TEXT_CHARACTER_CLASS_LABELS: Record<TextCharacterClass, string> = {
+  uppercase: "Uppercase",
+  lowercase: "Lowercase",
+  numbers: "Numbers",
+  symbols: "Symbols",
+  other: "Other",
+};
+
+/**
+ * Minimum token lengths for each matcher
+ * Shorter tokens are too likely to occur by chance in random passwords
+ */
+const MIN_WORD_LENGTH = 4;
+const MIN_WALK_LENGTH = 4;
+const MIN_SEQUENCE_LENGTH = 3;
+const MIN_REPEAT_LENGTH = 3;
+
+/**
+ * Finds the class of a single character
+ *
+ * @param char - A single character
+ * @returns The character's class
+ */
+export const getTextCharacterClass = (char: string): TextCharacterClass => {
+  if (/[A-Z]/.test(char)) return "uppercase";
+  if (/[a-z]/.test(char)) return "lowercase";
+  if (/[0-9]/.test(char)) return "numbers";
+  if (/[ -~]/.test(char)) return "symbols";
+  return "other";
+};
+
+/**
+ * Counts the characters of each class in a password
+ *
+ * @param password - The password to inspect
+ * @returns Number of characters per class
+ */
+export const countCharacterClasses = (
+  password: string
+): Record<TextCharacterClass, number> => {
+  const counts: Record<TextCharacterClass, number> = {
+    uppercase: 0,
+    lowercase: 0,
+    numbers: 0,
+    symbols: 0,
+    other: 0,
+  };
+  for (const char of password) {
+    counts[getTextCharacterClass(char)]++;
+  }
+  return counts;
+};
+
+/**
+ * Calculates the character pool implied by the classes present in a password
+ *
+ * @param password - The password to inspect
+ * @returns Sum of the pool sizes of the classes present, plus one per distinct "other" character
+ */
+export const getTextPoolSize = (password: string): number => {
+  const counts = countCharacterClasses(password);
+  const otherChars = new Set(
+    [...password].filter((char) => getTextCharacterClass(char) === "other")
+  );
+
+  return (
+    (Object.keys(CLASS_POOL_SIZES) as (keyof typeof CLASS_POOL_SIZES)[])
+      .filter((key) => counts[key] > 0)
+      .reduce((sum, key) => sum + CLASS_POOL_SIZES[key], 0) + otherChars.size
+  );
+};
+
+/**
+ * Binomial coefficient n choose k
+ */
+const choose = (n: number, k: number): number => {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+};
+
+/**
+ * Extra guesses (in bits) needed to cover the capitalization of a word
+ * All-lowercase costs nothing; a capital first letter, last letter or
+ * all-caps costs one bit; other mixes cost every way to place that many capitals
+ *
+ * @param token - The word as typed
+ */
+const getUppercaseBits = (token: string): number => {
+  const upper = (token.match(/[A-Z]/g) ?? []).length;
+  const lower = (token.match(/[a-z]/g) ?? []).length;
+  if (upper === 0) return 0;
+  if (lower === 0 || /^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token)) {
+    return 1;
+  }
+
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) {
+    variations += choose(upper + lower, i);
+  }
+  return Math.log2(variations);
+};
+
+/**
+ * Common l33t substitutions, mapped back to letters
+ * "1", "!" and "|" can stand for "i" or "l", so there are two tables
+ */
+const L33T_SUBSTITUTIONS: Record<string, string> = {
+  "4": "a", "@": "a", "8": "b", "(": "c", "3": "e", "6": "g", "9": "g",
+  "1": "i", "!": "i", "|": "i", "0": "o", "$": "s", "5": "s", "7": "t",
+  "+": "t", "%": "x", "2": "z",
+};
+const L33T_TABLES: Record<string, string>[] = [
+  L33T_SUBSTITUTIONS,
+  { ...L33T_SUBSTITUTIONS, "1": "l", "!": "l", "|": "l" },
+];
+
+/**
+ * Undoes l33t substitutions across a whole password
+ *
+ * @param lower - Lowercased password
+ * @param table - Substitution table
+ * @returns The decoded text and, for each index, the substitutions made before it
+ */
+const decodeL33t = (lower: string, table: Record<string, string>) => {
+  const substitutionsBefore = [0];
+  let text = "";
+  for (let i = 0; i < lower.length; i++) {
+    const decoded = table[lower[i]];
+    text += decoded ?? lower[i];
+    substitutionsBefore.push(substitutionsBefore[i] + (decoded ? 1 : 0));
+  }
+  return { text, substitutionsBefore };
+};
+
+/**
+ * Ranked lookup tables and every prefix of their words, built on first use
+ * Prefixes let the matcher stop extending a token as soon as no word can match
+ */
+let rankedLists: { kind: PatternKind; ranks: Map<string, number> }[] | null = null;
+let wordPrefixes = new Set<string>();
+
+const getRankedLists = () => {
+  if (!rankedLists) {
+    const toRanks = (list: readonly string[]) =>
+      new Map(list.map((word, index) => [word, index + 1]));
+    rankedLists = [
+      { kind: "common-password", ranks: toRanks(COMMON_PASSWORDS) },
+      { kind: "dictionary", ranks: toRanks(ENGLISH_WORDS) },
+    ];
+    wordPrefixes = new Set(
+      [...COMMON_PASSWORDS, ...ENGLISH_WORDS].flatMap((word) =>
+        Array.from(word, (_, index) => word.slice(0, index + 1))
+      )
+    );
+  }
+  return rankedLists;
+};
+
+/**
+ * Finds common passwords and dictionary words, including l33t-substituted ones
+ * Guesses are the word's rank in its list, plus capitalization and substitutions
+ *
+ * @param password - The password to inspect
+ */
+const matchDictionary = (password: string): DetectedPattern[] => {
+  const lists = getRankedLists();
+  const lower = password.toLowerCase();
+  // Lowercasing can change the length of some non-ASCII text; skip those
+  if (lower.length !== password.length) return [];
+
+  const decodings = [
+    { text: lower, substitutionsBefore: null },
+    ...L33T_TABLES.map((table) => decodeL33t(lower, table)),
+  ];
+  const matches: DetectedPattern[] = [];
+
+  for (let start = 0; start < password.length; start++) {
+    for (const { text, substitutionsBefore } of decodings) {
+      for (let end = start + 1; end <= password.length; end++) {
+        const word = text.slice(start, end);
+        if (!wordPrefixes.has(word)) break;
+
+        // Short tokens only count when they are the whole password (e.g. "abc")
+        const isWholePassword = start === 0 && end === password.length;
+        if (end - start < MIN_WORD_LENGTH && !isWholePassword) continue;
+
+        const list = lists.find(({ ranks }) => ranks.has(word));
+        if (!list) continue;
+
+        const token = password.slice(start, end);
+        const rank = list.ranks.get(word)!;
+        const substitutions = substitutionsBefore
+          ? substitutionsBefore[end] - substitutionsBefore[start]
+          : 0;
+        // Decodings that changed nothing duplicate the plain match
+        if (substitutionsBefore && substitutions === 0) continue;
+
+        const l33t = substitutions > 0 ? "L33t" : "";
+        matches.push({
+          kind: list.kind,
+          token,
+          start,
+          end,
+          guessesLog2: Math.log2(rank) + getUppercaseBits(token) + substitutions,
+          description:
+            list.kind === "common-password"
+              ? { key: `patternInfo.commonPassword${l33t}`, params: { word, rank } }
+              : { key: `patternInfo.dictionary${l33t}`, params: { word } },
+        });
+      }
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * QWERTY keyboard rows: unshifted keys, shifted keys and horizontal offset
+ * The offsets model the stagger between rows so diagonal neighbours are found
+ */
+const KEYBOARD_ROWS: [string, string, number][] = [
+  ["`1234567890-=", "~!@#$%^&*()_+", 0],
+  ["qwertyuiop[]\\", "QWERTYUIOP{}|", 1.5],
+  ["asdfghjkl;'", 'ASDFGHJKL:"', 1.75],
+  ["zxcvbnm,./", "ZXCVBNM<>?", 2.25],
+];
+
+interface KeyPosition {
+  row: number;
+  x: number;
+  shifted: boolean;
+}
+
+const KEY_POSITIONS = new Map<string, KeyPosition>();
+KEYBOARD_ROWS.forEach(([plain, shifted, offset], row) => {
+  [...plain].forEach((char, index) =>
+    KEY_POSITIONS.set(char, { row, x: index + offset, shifted: false })
+  );
+  [...shifted].forEach((char, index) =>
+    KEY_POSITIONS.set(char, { row, x: index + offset, shifted: true })
+  );
+});
+
+/**
+ * Direction from one key to an adjacent key, or null if they aren't adjacent
+ *
+ * @returns e.g. "0,1" (right) or "1,-1" (down-left)
+ */
+const getKeyDirection = (from: string, to: string): string | null => {
+  const a = KEY_POSITIONS.get(from);
+  const b = KEY_POSITIONS.get(to);
+  if (!a || !b) return null;
+
+  const dy = b.row - a.row;
+  const dx = b.x - a.x;
+  if (dy === 0 && Math.abs(dx) === 1) return `0,${dx}`;
+  if (Math.abs(dy) === 1 && Math.abs(dx) < 1) return `${dy},${Math.sign(dx)}`;
+  return null;
+};
+
+/**
+ * Number of distinct keys and their average number of neighbours
+ */
+const KEY_COUNT = KEYBOARD_ROWS.reduce((sum, [plain]) => sum + plain.length, 0);
+const AVERAGE_KEY_DEGREE =
+  KEYBOARD_ROWS.flatMap(([plain]) => [...plain])
+    .map(
+      (from) =>
+        KEYBOARD_ROWS.flatMap(([plain]) => [...plain]).filter(
+          (to) => getKeyDirection(from, to) !== null
+        ).length
+    )
+    .reduce((sum, degree) => sum + degree, 0) / KEY_COUNT;
+
+/**
+ * Finds walks across adjacent keys, e.g. "qwerty", "zaq1" or "1qaz2wsx"
+ * Guesses: any starting key, any length, and a choice of neighbour at every turn
+ *
+ * @param password - The password to inspect
+ */
+const matchKeyboardWalks = (password: string): DetectedPattern[] => {
+  const matches: DetectedPattern[] = [];
+  let start = 0;
+
+  while (start < password.length - 1) {
+    let end = start + 1;
+    let turns = 0;
+    let direction: string | null = null;
+
+    while (end < password.length) {
+      const next = getKeyDirection(password[end - 1], password[end]);
+      if (!next) break;
+      if (next !== direction) turns++;
+      direction = next;
+      end++;
+    }
+
+    const token = password.slice(start, end);
+    if (token.length >= MIN_WALK_LENGTH) {
+      const shifted = [...token].filter((char) => KEY_POSITIONS.get(char)?.shifted).length;
+      // Mixed shifting costs a bit per shifted key; all-shifted costs one bit
+      const shiftBits =
+        shifted === 0 ? 0 : shifted === token.length ? 1 : Math.min(shifted, token.length - shifted);
+
+      matches.push({
+        kind: "keyboard-walk",
+        token,
+        start,
+        end,
+        guessesLog2:
+          Math.log2(KEY_COUNT * token.length) +
+          turns * Math.log2(AVERAGE_KEY_DEGREE) +
+          shiftBits,
+        description: { key: "patternInfo.keyboardWalk", params: { token } },
+      });
+    }
+
+    start = Math.max(start + 1, end - 1);
+  }
+
+  return matches;
+};
+
+/**
+ * Finds repeated characters or chunks, e.g. "aaaa" or "abcabc"
+ * Guesses: the repeated chunk (itself analyzed), times the number of repeats
+ *
+ * @param password - The password to inspect
+ */
+const matchRepeats = (password: string): DetectedPattern[] => {
+  const matches: DetectedPattern[] = [];
+  const greedy = /(.+)\1+/y;
+  const lazy = /(.+?)\1+/y;
+  let start = 0;
+
+  while (start < password.length) {
+    greedy.lastIndex = start;
+    lazy.lastIndex = start;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+
+    if (!greedyMatch || !lazyMatch) {
+      start++;
+      continue;
+    }
+
+    // Prefer the longer run; its base is the shortest chunk that repeats to fill it
+    const token =
+      greedyMatch[0].length > lazyMatch[0].length ? greedyMatch[0] : lazyMatch[0];
+    const base = /^(.+?)\1+$/.exec(token)![1];
+    const repeats = token.length / base.length;
+
+    if (token.length >= MIN_REPEAT_LENGTH) {
+      matches.push({
+        kind: "repeat",
+        token,
+        start,
+        end: start + token.length,
+        guessesLog2: analyzePassword(base).bits + Math.log2(repeats),
+        description: {
+          key: "patternInfo.repeat",
+          params: { token: base, count: repeats },
+        },
+      });
+    }
+    start += token.length;
+  }
+
+  return matches;
+};
+
+/**
+ * Finds runs of evenly spaced characters, e.g. "abcd", "9876" or "aceg"
+ * Guesses: the starting character (cheap for obvious starts), direction and length
+ *
+ * @param password - The password to inspect
+ */
+const matchSequences = (password: string): DetectedPattern[] => {
+  const matches: DetectedPattern[] = [];
+  const isSequenceClass = (char: string) =>
+    ["uppercase", "lowercase", "numbers"].includes(getTextCharacterClass(char));
+
+  let start = 0;
+  while (start < password.length - 1) {
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    const startClass = getTextCharacterClass(password[start]);
+    let end = start + 1;
+
+    if (Math.abs(delta) >= 1 && Math.abs(delta) <= 2 && isSequenceClass(password[start])) {
+      while (
+        end < password.length &&
+        password.charCodeAt(end) - password.charCodeAt(end - 1) === delta &&
+        getTextCharacterClass(password[end]) === startClass
+      ) {
+        end++;
+      }
+    }
+
+    const token = password.slice(start, end);
+    if (token.length >= MIN_SEQUENCE_LENGTH) {
+      const obviousStart = "aAzZ019".includes(token[0]);
+      const startGuesses = obviousStart ? 4 : startClass === "numbers" ? 10 : 26;
+      const sequenceKind = startClass === "numbers" ? "number" : "letter";
+
+      matches.push({
+        kind: "sequence",
+        token,
+        start,
+        end,
+        guessesLog2:
+          Math.log2(startGuesses * token.length) + (delta < 0 ? 1 : 0),
+        description: {
+          key:
+            delta < 0
+              ? `patternInfo.descendingSequence.${sequenceKind}`
+              : `patternInfo.sequence.${sequenceKind}`,
+          params: { token },
+        },
+      });
+    }
+
+    start = Math.max(start + 1, end - 1);
+  }
+
+  return matches;
+};
+
+/**
+ * Years considered plausible in dates, and the minimum year range assumed
+ */
+const MIN_DATE_YEAR = 1000;
+const MAX_DATE_YEAR = 2050;
+const MIN_YEAR_SPACE = 20;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Ways to split separator-less digit strings into day, month and year parts
+ * Keyed by string length; each pair is the two split points
+ */
+const DATE_SPLITS: Record<number, [number, number][]> = {
+  4: [[1, 2], [2, 3]],
+  5: [[1, 3], [2, 3]],
+  6: [[1, 2], [2, 4], [4, 5]],
+  7: [[1, 3], [2, 3], [4, 5], [4, 6]],
+  8: [[2, 4], [4, 6]],
+};
+
+/**
+ * Number of years between a year and now (at least MIN_YEAR_SPACE)
+ */
+const getYearSpace = (year: number): number =>
+  Math.max(Math.abs(year - new Date().getFullYear()), MIN_YEAR_SPACE);
+
+/**
+ * Interprets three numeric parts as a date with the year first or last
+ *
+ * @param parts - Digit strings, e.g. ["31", "12", "1990"]
+ * @returns The year if the parts form a valid date, otherwise null
+ */
+const findDateYear = (parts: string[]): number | null => {
+  const isDayMonth = (day: string, month: string) =>
+    day.length <= 2 &&
+    month.length <= 2 &&
+    Number(day) >= 1 &&
+    Number(day) <= 31 &&
+    Number(month) >= 1 &&
+    Number(month) <= 12;
+
+  for (const [yearIndex, a, b] of [[2, 0, 1], [0, 1, 2]]) {
+    const yearPart = parts[yearIndex];
+    if (yearPart.length !== 2 && yearPart.length !== 4) continue;
+
+    const value = Number(yearPart);
+    const year = yearPart.length === 2 ? (value > 50 ? 1900 : 2000) + value : value;
+    if (year < MIN_DATE_YEAR || year > MAX_DATE_YEAR) continue;
+
+    if (isDayMonth(parts[a], parts[b]) || isDayMonth(parts[b], parts[a])) {
+      return year;
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds years ("1987") and dates ("31121990", "12/31/90", "1990-12-31")
+ * Guesses: years since now, times days per year for full dates
+ *
+ * @param password - The password to inspect
+ */
+const matchDates = (password: string): DetectedPattern[] => {
+  const matches: DetectedPattern[] = [];
+  const withSeparator = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/;
+
+  for (let start = 0; start < password.length; start++) {
+    for (let length = 4; length <= 10 && start + length <= password.length; length++) {
+      const token = password.slice(start, start + length);
+      const end = start + length;
+
+      if (length === 4 && /^(19|20)\d\d$/.test(token)) {
+        matches.push({
+          kind: "date",
+          token,
+          start,
+          end,
+          guessesLog2: Math.log2(getYearSpace(Number(token))),
+          description: { key: "patternInfo.year", params: { token } },
+        });
+      }
+
+      let year: number | null = null;
+      let separatorBits = 0;
+      const separated = withSeparator.exec(token);
+      if (separated) {
+        year = findDateYear([separated[1], separated[3], separated[4]]);
+        separatorBits = 2;
+      } else if (/^\d+$/.test(token) && DATE_SPLITS[length]) {
+        for (const [first, second] of DATE_SPLITS[length]) {
+          year = findDateYear([
+            token.slice(0, first),
+            token.slice(first, second),
+            token.slice(second),
+          ]);
+          if (year !== null) break;
+        }
+      }
+
+      if (year !== null) {
+        matches.push({
+          kind: "date",
+          token,
+          start,
+          end,
+          guessesLog2:
+            Math.log2(DAYS_PER_YEAR * getYearSpace(year)) + separatorBits,
+          description: { key: "patternInfo.date", params: { token } },
+        });
+      }
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Analyzes a password using only its text
+ *
+ * The estimate is the cheapest way to guess the whole password, covering it
+ * with detected patterns (each at its own guess cost) and brute-forcing
+ * whatever is left character by character. Patterns include:
+ * - Common passwords and dictionary words (with l33t substitutions)
+ * - Keyboard walks, repeats and character sequences
+ * - Years and dates
+ *
+ * @param password - Any password
+ * @returns Character class breakdown, entropy and the patterns found
+ */
+export const analyzePassword = (password: string): PasswordAnalysis => {
+  const poolSize = getTextPoolSize(password);
+  const charBits = poolSize > 1 ? Math.log2(poolSize) : 0;
+
+  const matches = [
+    ...matchDictionary(password),
+    ...matchKeyboardWalks(password),
+    ...matchRepeats(password),
+    ...matchSequences(password),
+    ...matchDates(password),
+  ];
+
+  // best[i]: cheapest way to guess the first i characters
+  const best: { bits: number; from: number; pattern: DetectedPattern | null }[] = [
+    { bits: 0, from: -1, pattern: null },
+  ];
+  // Matches sorted by end so every prefix is final before it is extended
+  matches.sort((a, b) => a.end - b.end);
+  let matchIndex = 0;
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { bits: best[end - 1].bits + charBits, from: end - 1, pattern: null };
+    for (; matchIndex < matches.length && matches[matchIndex].end === end; matchIndex++) {
+      const match = matches[matchIndex];
+      const bits = best[match.start].bits + match.guessesLog2;
+      if (bits < best[end].bits) {
+        best[end] = { bits, from: match.start, pattern: match };
+      }
+    }
+  }
+
+  // Walk back through the cheapest cover to collect the patterns it used
+  const patterns: DetectedPattern[] = [];
+  for (let end = password.length; end > 0; end = best[end].from) {
+    const { pattern } = best[end];
+    if (pattern) patterns.unshift(pattern);
+  }
+
+  return {
+    length: password.length,
+    classCounts: countCharacterClasses(password),
+    poolSize,
+    charsetBits: charBits * password.length,
+    bits: best[password.length].bits,
+    patterns,
+  };
+};
@@ -0,0 +1,361 @@
+import {
+  CharacterClass,
+  CharacterSet,
+  ClassBounds,
+  MessageDescriptor,
+  PasswordPolicy,
+  PolicyViolation,
+  PositionRule,
+} from "../types";
+
+/**
+ * Default policy: no constraints beyond the generator's own guarantee of
+ * at least one character from each selected class
+ */
+export const DEFAULT_POLICY: PasswordPolicy = {
+  classRules: {
+    uppercase: { min: 0, max: null },
+    lowercase: { min: 0, max: null },
+    numbers: { min: 0, max: null },
+    symbols: { min: 0, max: null },
+    extra: { min: 0, max: null },
+  },
+  maxRunLength: null,
+  firstChar: "any",
+  lastChar: "any",
+};
+
+/**
+ * Character classes accepted by each position rule (null = any character)
+ */
+const POSITION_RULE_CLASSES: Record<PositionRule, CharacterClass[] | null> = {
+  any: null,
+  letter: ["uppercase", "lowercase"],
+  alphanumeric: ["uppercase", "lowercase", "numbers"],
+};
+
+/**
+ * Human-readable descriptions of the position rules
+ */
+export const POSITION_RULE_LABELS: Record<PositionRule, string> = {
+  any: "Any character",
+  letter: "A letter",
+  alphanumeric: "A letter or number",
+};
+
+/**
+ * Finds the character class a character belongs to
+ *
+ * @param char - The character to classify
+ * @param charSets - The enabled (disjoint) character sets
+ * @returns The class of the first set containing the character, or null
+ */
+export const getCharacterClass = (
+  char: string,
+  charSets: CharacterSet[]
+): CharacterClass | null => {
+  const charSet = charSets.find(({ chars }) => chars.includes(char));
+  return charSet ? charSet.key : null;
+};
+
+/**
+ * Checks whether a character satisfies a first/last position rule
+ *
+ * @param char - The character at the position
+ * @param rule - The position rule to check
+ * @param charSets - The enabled character sets
+ */
+export const matchesPositionRule = (
+  char: string,
+  rule: PositionRule,
+  charSets: CharacterSet[]
+): boolean => {
+  const allowedClasses = POSITION_RULE_CLASSES[rule];
+  if (!allowedClasses) return true;
+  const characterClass = getCharacterClass(char, charSets);
+  return characterClass !== null && allowedClasses.includes(characterClass);
+};
+
+/**
+ * Returns the length of the longest run of identical consecutive characters
+ *
+ * @param password - The password to inspect
+ */
+export const getLongestRun = (password: string): number => {
+  let longest = 0;
+  let current = 0;
+
+  for (let i = 0; i < password.length; i++) {
+    current = i > 0 && password[i] === password[i - 1] ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  }
+
+  return longest;
+};
+
+/**
+ * Computes the effective count bounds for each enabled character class
+ *
+ * Every enabled class gets an implicit minimum of one character (as long as
+ * all classes fit in the requested length), raised by the policy minimum.
+ * Maximums are capped at the password length.
+ *
+ * @param charSets - The enabled character sets
+ * @param length - The requested password length
+ * @param policy - The password policy
+ * @returns Bounds in the same order as charSets
+ */
+export const getClassBounds = (
+  charSets: CharacterSet[],
+  length: number,
+  policy: PasswordPolicy
+): ClassBounds[] => {
+  const implicitMin = charSets.length <= length ? 1 : 0;
+
+  return charSets.map(({ key }) => {
+    const rule = policy.classRules[key];
+    return {
+      min: Math.max(implicitMin, rule.min),
+      max: rule.max === null ? length : Math.min(rule.max, length),
+    };
+  });
+};
+
+/**
+ * Narrows the class count bounds to those a max run length leaves possible
+ *
+ * A class with a single character can only be broken into runs by other
+ * characters, so at most maxRunLength * (others + 1) of it fit, which works
+ * out to floor(maxRunLength * (length + 1) / (maxRunLength + 1)). Classes
+ * with two or more characters can alternate between them, so they keep
+ * their bounds.
+ *
+ * @param charSets - The enabled character sets
+ * @param length - The requested password length
+ * @param policy - The password policy
+ * @returns Bounds in the same order as charSets
+ */
+export const getRunLimitedBounds = (
+  charSets: CharacterSet[],
+  length: number,
+  policy: PasswordPolicy
+): ClassBounds[] => {
+  const bounds = getClassBounds(charSets, length, policy);
+  const { maxRunLength } = policy;
+  if (maxRunLength === null || maxRunLength < 1) return bounds;
+
+  const singleCharMax = Math.floor(
+    (maxRunLength * (length + 1)) / (maxRunLength + 1)
+  );
+  return bounds.map((bound, index) =>
+    charSets[index].chars.length === 1
+      ? { ...bound, max: Math.min(bound.max, singleCharMax) }
+      : bound
+  );
+};
+
+/**
+ * Checks whether a policy can be satisfied for the given character sets and length
+ *
+ * @param charSets - The enabled character sets
+ * @param length - The requested password length
+ * @param policy - The password policy
+ * @returns The reasons the policy is unsatisfiable, as translatable messages
+ *   (empty if feasible; formatEnglishMessage gives the English text)
+ */
+export const getPolicyErrors = (
+  charSets: CharacterSet[],
+  length: number,
+  policy: PasswordPolicy
+): MessageDescriptor[] => {
+  const errors: MessageDescriptor[] = [];
+  const enabledClasses = charSets.map(({ key }) => key);
+
+  // Minimums on classes that aren't selected can never be met
+  (Object.keys(policy.classRules) as CharacterClass[]).forEach((key) => {
+    const { min, max } = policy.classRules[key];
+    const classNoun: MessageDescriptor = { key: `characterClassNoun.${key}` };
+    if (min > 0 && !enabledClasses.includes(key)) {
+      errors.push({
+        key: "policyError.minUnselected",
+        params: { count: min, class: classNoun },
+      });
+    }
+    if (max !== null && min > max) {
+      errors.push({
+        key: "policyError.minAboveMax",
+        params: { class: classNoun, min, max },
+      });
+    }
+  });
+
+  // Selected classes must be allowed at least one character
+  const bounds = getClassBounds(charSets, length, policy);
+  charSets.forEach(({ key }, index) => {
+    if (policy.classRules[key].max === 0 && bounds[index].min > 0) {
+      errors.push({
+        key: "policyError.classDisallowed",
+        params: { class: { key: `characterClass.${key}` } },
+      });
+    }
+  });
+
+  const totalMin = bounds.reduce((sum, { min }) => sum + min, 0);
+  const totalMax = bounds.reduce((sum, { max }) => sum + max, 0);
+  if (totalMin > length) {
+    errors.push({
+      key: "policyError.tooManyRequired",
+      params: { count: totalMin, length },
+    });
+  }
+  if (charSets.length > 0 && totalMax < length) {
+    errors.push({
+      key: "policyError.tooFewAllowed",
+      params: { count: totalMax, length },
+    });
+  }
+
+  const { maxRunLength } = policy;
+  if (maxRunLength !== null && maxRunLength < 1) {
+    errors.push({ key: "policyError.maxRunTooSmall" });
+  }
+
+  // Single-character classes need enough other characters to break up their
+  // runs (only reported when the counts work without the run limit)
+  if (
+    maxRunLength !== null &&
+    maxRunLength >= 1 &&
+    totalMin <= length &&
+    totalMax >= length
+  ) {
+    const runBounds = getRunLimitedBounds(charSets, length, policy);
+    const runTotalMax = runBounds.reduce((sum, { max }) => sum + max, 0);
+    if (
+      runTotalMax < length ||
+      runBounds.some(
+        ({ min, max }, index) => min > max && bounds[index].min <= bounds[index].max
+      )
+    ) {
+      errors.push({
+        key: "policyError.maxRunUnreachable",
+        params: { count: maxRunLength },
+      });
+    }
+  }
+
+  // Position rules need at least one selected class they accept
+  const positionRules: ["firstChar" | "lastChar", PositionRule][] = [
+    ["firstChar", policy.firstChar],
+    ["lastChar", policy.lastChar],
+  ];
+  positionRules.forEach(([position, rule]) => {
+    const allowedClasses = POSITION_RULE_CLASSES[rule];
+    if (
+      rule !== "any" &&
+      allowedClasses &&
+      !charSets.some(
+        ({ key, chars }) => allowedClasses.includes(key) && chars.length > 0
+      )
+    ) {
+      errors.push({ key: `policyError.${position}.${rule}` });
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Reports every policy rule a password violates
+ *
+ * Only explicit policy minimums are checked here; the generator's implicit
+ * one-per-class guarantee is not a policy rule.
+ *
+ * @param password - The password to validate
+ * @param policy - The password policy
+ * @param charSets - The enabled character sets used to classify characters
+ * @returns A list of violations (empty if the password complies)
+ */
+export const validatePolicy = (
+  password: string,
+  policy: PasswordPolicy,
+  charSets: CharacterSet[]
+): PolicyViolation[] => {
+  const violations: PolicyViolation[] = [];
+
+  // Count characters per class
+  const counts: Partial<Record<CharacterClass, number>> = {};
+  password.split("").forEach((char) => {
+    const characterClass = getCharacterClass(char, charSets);
+    if (characterClass) {
+      counts[characterClass] = (counts[characterClass] ?? 0) + 1;
+    }
+  });
+
+  (Object.keys(policy.classRules) as CharacterClass[]).forEach((key) => {
+    const { min, max } = policy.classRules[key];
+    const count = counts[key] ?? 0;
+    const classNoun: MessageDescriptor = { key: `characterClassNoun.${key}` };
+    if (count < min) {
+      violations.push({
+        rule: "minCount",
+        characterClass: key,
+        message: {
+          key: "policyViolation.minCount",
+          params: { min, class: classNoun, count },
+        },
+      });
+    }
+    if (max !== null && count > max) {
+      violations.push({
+        rule: "maxCount",
+        characterClass: key,
+        message: {
+          key: "policyViolation.maxCount",
+          params: { max, class: classNoun, count },
+        },
+      });
+    }
+  });
+
+  if (
+    policy.maxRunLength !== null &&
+    getLongestRun(password) > policy.maxRunLength
+  ) {
+    violations.push({
+      rule: "maxRunLength",
+      message: {
+        key: "policyViolation.maxRunLength",
+        params: { count: policy.maxRunLength },
+      },
+    });
+  }
+
+  const { firstChar, lastChar } = policy;
+  if (
+    password.length > 0 &&
+    firstChar !== "any" &&
+    !matchesPositionRule(password[0], firstChar, charSets)
+  ) {
+    violations.push({
+      rule: "firstChar",
+      message: { key: `policyViolation.firstChar.${firstChar}` },
+    });
+  }
+
+  if (
+    password.length > 0 &&
+    lastChar !== "any" &&
+    !matchesPositionRule(
+      password[password.length - 1],
+      lastChar,
+      charSets
+    )
+  ) {
+    violations.push({
+      rule: "lastChar",
+      message: { key: `policyViolation.lastChar.${lastChar}` },
+    });
+  }
+
+  return violations;
+};
@@ -0,0 +1,560 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { CharacterClass, PasswordOptions } from "../types";
+import {
+  AMBIGUOUS_CHARS,
+  calculateEntropy,
+  calculateGeneratedStrength,
+  calculatePasswordStrength,
+  canGeneratePassword,
+  DEFAULT_PASSWORD_OPTIONS,
+  DEFAULT_SYMBOL_CHARS,
+  generateBulkPasswords,
+  generatePassword,
+  getCharacterPool,
+  getCharacterSets,
+  getStrengthLevel,
+  isValidPasswordLength,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  MAX_PASSPHRASE_WORDS,
+  MIN_PASSPHRASE_WORDS,
+  STRENGTH_BANDS,
+  STRENGTH_KEYS,
+  stepLength,
+  validatePasswordPolicy,
+} from "./passwordUtils";
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH } from "./pinUtils";
+import { formatEnglishMessage } from "./messageFormat";
+import { DEFAULT_POLICY, getLongestRun } from "./passwordPolicy";
+import { createSeededRandomSource } from "./random";
+import {
+  chiSquare,
+  chiSquareCritical,
+  chiSquareUniform,
+} from "../test/statistics";
+
+/**
+ * Password-mode options with only the given character classes enabled
+ */
+const withClasses = (
+  classes: ("uppercase" | "lowercase" | "numbers" | "symbols")[],
+  overrides: Partial<PasswordOptions> = {}
+): PasswordOptions => ({
+  ...DEFAULT_PASSWORD_OPTIONS,
+  uppercase: classes.includes("uppercase"),
+  lowercase: classes.includes("lowercase"),
+  numbers: classes.includes("numbers"),
+  symbols: classes.includes("symbols"),
+  ...overrides,
+});
+
+/**
+ * Every non-empty combination of the four built-in character classes
+ */
+const CLASS_COMBINATIONS = Array.from({ length: 15 }, (_, mask) =>
+  (["uppercase", "lowercase", "numbers", "symbols"] as const).filter(
+    (_, bit) => ((mask + 1) >> bit) & 1
+  )
+);
+
+/**
+ * Counts the characters of a password that belong to each enabled class
+ */
+const countClasses = (
+  password: string,
+  options: PasswordOptions
+): Partial<Record<CharacterClass, number>> => {
+  const counts: Partial<Record<CharacterClass, number>> = {};
+  getCharacterSets(options).forEach(({ key, chars }) => {
+    counts[key] = password.split("").filter((char) => chars.includes(char)).length;
+  });
+  return counts;
+};
+
+/**
+ * Random password-mode options, including custom symbols, extra characters,
+ * exclusions and the ambiguous-character filter
+ */
+const passwordOptionsArbitrary: fc.Arbitrary<PasswordOptions> = fc
+  .record({
+    length: fc.integer({ min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH }),
+    uppercase: fc.boolean(),
+    lowercase: fc.boolean(),
+    numbers: fc.boolean(),
+    symbols: fc.boolean(),
+    symbolChars: fc.oneof(
+      fc.constant(DEFAULT_SYMBOL_CHARS),
+      fc.string({ unit: fc.constantFrom(..."!@#$%^&*-_+=~"), minLength: 1, maxLength: 8 })
+    ),
+    extraChars: fc.string({ unit: "grapheme-ascii", maxLength: 6 }),
+    excludeChars: fc.string({ unit: "grapheme-ascii", maxLength: 12 }),
+    avoidAmbiguous: fc.boolean(),
+  })
+  .map((overrides) => ({ ...DEFAULT_PASSWORD_OPTIONS, ...overrides }));
+
+describe("generatePassword", () => {
+  describe.each(CLASS_COMBINATIONS)("with %j", (...classes) => {
+    it.each([MIN_PASSWORD_LENGTH, 10, 63, 128, MAX_PASSWORD_LENGTH])(
+      "generates exactly %i characters",
+      (length) => {
+        const options = withClasses(classes, { length });
+        const random = createSeededRandomSource(length);
+        for (let i = 0; i < 20; i++) {
+          expect(generatePassword(options, random)).toHaveLength(length);
+        }
+      }
+    );
+
+    it("uses only characters from the selected pool", () => {
+      const options = withClasses(classes, { length: MAX_PASSWORD_LENGTH });
+      const pool = getCharacterPool(getCharacterSets(options));
+      const random = createSeededRandomSource(classes.length);
+      for (let i = 0; i < 20; i++) {
+        for (const char of generatePassword(options, random)) {
+          expect(pool).toContain(char);
+        }
+      }
+    });
+
+    it("includes every selected class, even at the minimum length", () => {
+      const options = withClasses(classes, { length: 4 });
+      const random = createSeededRandomSource(classes.length + 100);
+      for (let i = 0; i < 50; i++) {
+        const counts = countClasses(generatePassword(options, random), options);
+        classes.forEach((key) => expect(counts[key]).toBeGreaterThan(0));
+      }
+    });
+  });
+
+  it.each([3, 0, -1, 10.5, 257, 1000])("rejects a length of %d", (length) => {
+    expect(isValidPasswordLength(length)).toBe(false);
+    expect(canGeneratePassword({ ...DEFAULT_PASSWORD_OPTIONS, length })).toBe(false);
+    expect(() => generatePassword({ ...DEFAULT_PASSWORD_OPTIONS, length })).toThrow(
+      "Password length must be between 4 and 256 characters"
+    );
+    expect(() =>
+      generatePassword({ ...DEFAULT_PASSWORD_OPTIONS, mode: "pronounceable", length })
+    ).toThrow("Password length must be between 4 and 256 characters");
+  });
+
+  it.each(["password", "passphrase", "pin"] as const)(
+    "refuses to reject breached passwords in %s mode, which needs the async check",
+    (mode) => {
+      const options = { ...DEFAULT_PASSWORD_OPTIONS, mode, rejectBreached: true };
+      expect(() => generatePassword(options)).toThrow("use generateUnbreachedPassword");
+      expect(() => generateBulkPasswords(options, 5)).toThrow(
+        "use generateUnbreachedPassword"
+      );
+    }
+  );
+
+  it("throws when no character types are selected", () => {
+    expect(() => generatePassword(withClasses([]))).toThrow(
+      "No character types selected"
+    );
+  });
+
+  it("throws when exclusions empty a selected class", () => {
+    const options = withClasses(["lowercase", "numbers"], {
+      excludeChars: "0123456789",
+    });
+    expect(() => generatePassword(options)).toThrow(
+      "Numbers have no characters left after exclusions"
+    );
+  });
+
+  it("throws when the policy can't be met at this length", () => {
+    const options = withClasses(["lowercase", "numbers"], {
+      length: 4,
+      policy: {
+        ...DEFAULT_POLICY,
+        classRules: {
+          ...DEFAULT_POLICY.classRules,
+          numbers: { min: 5, max: null },
+        },
+      },
+    });
+    expect(canGeneratePassword(options)).toBe(false);
+    expect(() => generatePassword(options)).toThrow();
+  });
+
+  it.each([64, 128, MAX_PASSWORD_LENGTH])(
+    "keeps a long digit-only password of %i to runs of one",
+    (length) => {
+      const options = withClasses(["numbers"], {
+        length,
+        policy: { ...DEFAULT_POLICY, maxRunLength: 1 },
+      });
+      expect(canGeneratePassword(options)).toBe(true);
+      for (let seed = 0; seed < 20; seed++) {
+        const password = generatePassword(options, createSeededRandomSource(seed));
+        expect(getLongestRun(password)).toBe(1);
+      }
+    }
+  );
+
+  it("reports a max run that too few different characters can't meet", () => {
+    const options = withClasses(["numbers"], {
+      length: 4,
+      excludeChars: "012345678",
+      policy: { ...DEFAULT_POLICY, maxRunLength: 3 },
+    });
+    expect(canGeneratePassword(options)).toBe(false);
+    expect(() => generatePassword(options)).toThrow(
+      "Not enough different characters to limit runs of identical characters to 3"
+    );
+    expect(
+      canGeneratePassword({ ...options, policy: { ...DEFAULT_POLICY, maxRunLength: 4 } })
+    ).toBe(true);
+  });
+
+  it("never uses ambiguous characters when they are avoided", () => {
+    const options = withClasses(["uppercase", "lowercase", "numbers", "symbols"], {
+      length: 50,
+      avoidAmbiguous: true,
+    });
+    const random = createSeededRandomSource(9);
+    for (let i = 0; i < 50; i++) {
+      for (const char of generatePassword(options, random)) {
+        expect(AMBIGUOUS_CHARS).not.toContain(char);
+      }
+    }
+  });
+
+  it("uses custom symbols and extra characters", () => {
+    const options = withClasses(["symbols"], {
+      length: 50,
+      symbolChars: "#",
+      extraChars: "é",
+    });
+    const password = generatePassword(options, createSeededRandomSource(4));
+    expect(password).toMatch(/^[#é]+$/);
+    expect(password).toContain("#");
+    expect(password).toContain("é");
+  });
+
+  it("generates digit-only PINs of the requested length", () => {
+    const random = createSeededRandomSource(6);
+    for (const pinLength of [4, 6, 8, 12]) {
+      const pin = generatePassword(
+        { ...DEFAULT_PASSWORD_OPTIONS, mode: "pin", pinLength },
+        random
+      );
+      expect(pin).toMatch(new RegExp(`^\\d{${pinLength}}$`));
+    }
+  });
+
+  it("generates passphrases with the requested word count", () => {
+    const options: PasswordOptions = {
+      ...DEFAULT_PASSWORD_OPTIONS,
+      mode: "passphrase",
+      wordCount: 5,
+      separator: "_",
+      includeNumber: false,
+      includeSymbol: false,
+    };
+    const passphrase = generatePassword(options, createSeededRandomSource(5));
+    expect(passphrase.split("_")).toHaveLength(5);
+  });
+
+  describe("properties", () => {
+    it("generates exactly the requested length from the pool, with every class", () => {
+      fc.assert(
+        fc.property(
+          passwordOptionsArbitrary.filter(canGeneratePassword),
+          fc.integer(),
+          (options, seed) => {
+            const password = generatePassword(options, createSeededRandomSource(seed));
+            const charSets = getCharacterSets(options);
+            const pool = getCharacterPool(charSets);
+
+            expect(password).toHaveLength(options.length);
+            for (const char of password) {
+              expect(pool).toContain(char);
+            }
+            if (charSets.length <= options.length) {
+              const counts = countClasses(password, options);
+              charSets.forEach(({ key }) => expect(counts[key]).toBeGreaterThan(0));
+            }
+          }
+        )
+      );
+    });
+
+    it("throws exactly when the options can't generate a password", () => {
+      fc.assert(
+        fc.property(passwordOptionsArbitrary, fc.integer(), (options, seed) => {
+          const generate = () =>
+            generatePassword(options, createSeededRandomSource(seed));
+          if (canGeneratePassword(options)) {
+            expect(generate).not.toThrow();
+          } else {
+            expect(generate).toThrow();
+          }
+        })
+      );
+    });
+
+    it("meets a max run length, throwing exactly when it can't", () => {
+      fc.assert(
+        fc.property(
+          passwordOptionsArbitrary,
+          fc.integer({ min: 1, max: 3 }),
+          fc.integer(),
+          (baseOptions, maxRunLength, seed) => {
+            const options = {
+              ...baseOptions,
+              policy: { ...DEFAULT_POLICY, maxRunLength },
+            };
+            const generate = () =>
+              generatePassword(options, createSeededRandomSource(seed));
+            if (canGeneratePassword(options)) {
+              expect(getLongestRun(generate())).toBeLessThanOrEqual(maxRunLength);
+            } else {
+              expect(generate).toThrow();
+            }
+          }
+        )
+      );
+    });
+
+    it("rejects any length outside the bounds", () => {
+      fc.assert(
+        fc.property(
+          passwordOptionsArbitrary,
+          fc.oneof(
+            fc.integer({ max: MIN_PASSWORD_LENGTH - 1 }),
+            fc.integer({ min: MAX_PASSWORD_LENGTH + 1 })
+          ),
+          (options, length) => {
+            expect(() => generatePassword({ ...options, length })).toThrow(
+              "Password length must be between 4 and 256 characters"
+            );
+          }
+        )
+      );
+    });
+
+    it("is reproducible with the same seed", () => {
+      fc.assert(
+        fc.property(
+          passwordOptionsArbitrary.filter(canGeneratePassword),
+          fc.integer(),
+          (options, seed) => {
+            expect(generatePassword(options, createSeededRandomSource(seed))).toBe(
+              generatePassword(options, createSeededRandomSource(seed))
+            );
+          }
+        )
+      );
+    });
+
+    it("meets random per-class minimums", () => {
+      const minimum = fc.integer({ min: 0, max: 4 });
+      fc.assert(
+        fc.property(
+          passwordOptionsArbitrary,
+          fc.record({
+            uppercase: minimum,
+            lowercase: minimum,
+            numbers: minimum,
+            symbols: minimum,
+          }),
+          fc.integer(),
+          (baseOptions, minimums, seed) => {
+            const options: PasswordOptions = {
+              ...baseOptions,
+              policy: {
+                ...DEFAULT_POLICY,
+                classRules: {
+                  uppercase: { min: minimums.uppercase, max: null },
+                  lowercase: { min: minimums.lowercase, max: null },
+                  numbers: { min: minimums.numbers, max: null },
+                  symbols: { min: minimums.symbols, max: null },
+                  extra: { min: 0, max: null },
+                },
+              },
+            };
+            fc.pre(canGeneratePassword(options));
+
+            const password = generatePassword(options, createSeededRandomSource(seed));
+            expect(validatePasswordPolicy(password, options)).toEqual([]);
+          }
+        )
+      );
+    });
+  });
+
+  describe("distribution", () => {
+    it("picks every character of a class uniformly", () => {
+      // Catches biased index selection (e.g. modulo bias)
+      const options = withClasses(["lowercase"], { length: 8 });
+      const random = createSeededRandomSource(2024);
+      const counts = new Array<number>(26).fill(0);
+      for (let i = 0; i < 10400; i++) {
+        for (const char of generatePassword(options, random)) {
+          counts[char.charCodeAt(0) - "a".charCodeAt(0)]++;
+        }
+      }
+
+      expect(chiSquareUniform(counts)).toBeLessThan(
+        chiSquareCritical(counts.length - 1)
+      );
+    });
+
+    it("places each class at every position equally often", () => {
+      // Uppercase and lowercase are the same size, so each position is
+      // equally likely to hold either. Catches a missing or biased shuffle.
+      const options = withClasses(["uppercase", "lowercase"], { length: 6 });
+      const random = createSeededRandomSource(6);
+      const counts = new Array<number>(6 * 2).fill(0);
+      for (let i = 0; i < 6000; i++) {
+        const password = generatePassword(options, random);
+        password.split("").forEach((char, position) => {
+          counts[position * 2 + (char === char.toUpperCase() ? 0 : 1)]++;
+        });
+      }
+
+      expect(chiSquareUniform(counts)).toBeLessThan(
+        chiSquareCritical(counts.length - 1)
+      );
+    });
+
+    it("weights class counts by the number of passwords with that count", () => {
+      // With 26 uppercase and 26 lowercase letters at length 4, and at least
+      // one of each, there are C(4, k) * 26^4 passwords with k uppercase letters
+      const options = withClasses(["uppercase", "lowercase"], { length: 4 });
+      const random = createSeededRandomSource(4);
+      const counts = [0, 0, 0];
+      for (let i = 0; i < 14000; i++) {
+        const uppercaseCount = generatePassword(options, random).replace(
+          /[a-z]/g,
+          ""
+        ).length;
+        counts[uppercaseCount - 1]++;
+      }
+
+      expect(chiSquare(counts, [4 / 14, 6 / 14, 4 / 14])).toBeLessThan(
+        chiSquareCritical(2)
+      );
+    });
+  });
+});
+
+describe("validatePasswordPolicy", () => {
+  it("describes each violation as a message to translate", () => {
+    const options = withClasses(["lowercase", "numbers"], {
+      policy: {
+        ...DEFAULT_POLICY,
+        classRules: {
+          ...DEFAULT_POLICY.classRules,
+          numbers: { min: 2, max: null },
+          lowercase: { min: 0, max: 3 },
+        },
+        maxRunLength: 2,
+        firstChar: "letter",
+        lastChar: "letter",
+      },
+    });
+
+    const violations = validatePasswordPolicy("1aaaa", options);
+
+    expect(violations.map(({ rule }) => rule)).toEqual([
+      "maxCount",
+      "minCount",
+      "maxRunLength",
+      "firstChar",
+    ]);
+    expect(violations.map(({ message }) => formatEnglishMessage(message))).toEqual([
+      "Allows at most 3 lowercase letters, found 4",
+      "Needs at least 2 numbers, found 1",
+      "More than 2 identical consecutive characters",
+      "First character must be a letter",
+    ]);
+  });
+});
+
+describe("calculatePasswordStrength", () => {
+  it.each([
+    ["", "tooWeak"],
+    ["password", "tooWeak"],
+    ["123456", "tooWeak"],
+    ["qwerty", "tooWeak"],
+    ["aaaaaaaaaaaa", "tooWeak"],
+    ["X7#kP9$mQ2@vL4!zR8&w", "veryStrong"],
+  ])("rates %j as %s", (password, key) => {
+    expect(calculatePasswordStrength(password).key).toBe(key);
+  });
+
+  it("rates a common password below a random one of the same length", () => {
+    expect(calculatePasswordStrength("password1").bits).toBeLessThan(
+      calculatePasswordStrength("vK3qT9xLm").bits
+    );
+  });
+
+  it("returns a level and key consistent with its entropy", () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 40 }), (password) => {
+        const strength = calculatePasswordStrength(password);
+        expect(Number.isFinite(strength.bits)).toBe(true);
+        expect(strength.bits).toBeGreaterThanOrEqual(0);
+        expect(strength.level).toBe(getStrengthLevel(strength.bits));
+        expect(strength.key).toBe(STRENGTH_KEYS[strength.level]);
+        expect(strength.bits >= STRENGTH_BANDS[strength.level]).toBe(true);
+      })
+    );
+  });
+
+  it("never rates a generated password above the generator's entropy", () => {
+    fc.assert(
+      fc.property(
+        passwordOptionsArbitrary.filter(canGeneratePassword),
+        fc.integer(),
+        (options, seed) => {
+          const password = generatePassword(options, createSeededRandomSource(seed));
+          const poolSize = getCharacterPool(getCharacterSets(options)).length;
+          expect(calculateGeneratedStrength(password, options).bits).toBeLessThanOrEqual(
+            calculateEntropy(poolSize, options.length) + 1e-9
+          );
+        }
+      )
+    );
+  });
+});
+
+describe("stepLength", () => {
+  it("changes only the length setting of the current mode", () => {
+    const options = { ...DEFAULT_PASSWORD_OPTIONS, length: 20, wordCount: 5, pinLength: 6 };
+
+    expect(stepLength(options, 5)).toEqual({ ...options, length: 25 });
+    expect(stepLength({ ...options, mode: "pronounceable" }, -1).length).toBe(19);
+    expect(stepLength({ ...options, mode: "passphrase" }, 1)).toEqual({
+      ...options,
+      mode: "passphrase",
+      wordCount: 6,
+    });
+    expect(stepLength({ ...options, mode: "pin" }, -1)).toEqual({
+      ...options,
+      mode: "pin",
+      pinLength: 5,
+    });
+  });
+
+  it.each([
+    ["password", "length", MIN_PASSWORD_LENGTH, MAX_PASSWORD_LENGTH],
+    ["passphrase", "wordCount", MIN_PASSPHRASE_WORDS, MAX_PASSPHRASE_WORDS],
+    ["pin", "pinLength", MIN_PIN_LENGTH, MAX_PIN_LENGTH],
+  ] as const)("keeps %s %s within %i-%i", (mode, key, min, max) => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min, max }),
+        fc.integer({ min: -300, max: 300 }),
+        (value, delta) => {
+          const stepped = stepLength({ ...DEFAULT_PASSWORD_OPTIONS, mode, [key]: value }, delta);
+          expect(stepped[key]).toBe(Math.max(min, Math.min(max, value + delta)));
+        }
+      )
+    );
+  });
+});
@@ -1,174 +1,1253 @@
-import { PasswordOptions, StrengthResult } from "../types";
+import {
+  AttackScenario,
+  BulkPasswordEntry,
+  CharacterClass,
+  CharacterSet,
+  CharacterType,
+  ClassBounds,
+  CrackTimeEstimate,
+  CrackTimeUnit,
+  MessageDescriptor,
+  PasswordOptions,
+  PasswordPolicy,
+  PolicyViolation,
+  RandomSource,
+  StrengthKey,
+  StrengthResult,
+} from "../types";
+import { EFF_LARGE_WORDLIST } from "./wordlist";
+import { analyzePassword } from "./passwordAnalysis";
+import {
+  DEFAULT_POLICY,
+  getPolicyErrors,
+  getRunLimitedBounds,
+  validatePolicy,
+} from "./passwordPolicy";
+import { MessageError } from "./messageFormat";
+import {
+  calculatePinEntropy,
+  generatePin,
+  MAX_PIN_LENGTH,
+  MIN_PIN_LENGTH,
+  PIN_STRENGTH_BANDS,
+} from "./pinUtils";
+import {
+  cryptoRandomSource,
+  randomBigInt,
+  randomElement,
+  randomInt,
+  shuffle,
+} from "./random";
 
 /**
  * Character sets used for password generation
  * These constants define the available characters for each option type
+ * The symbol set is only a default; users can replace it via options.symbolChars
  */
 const UPPERCASE_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
 const LOWERCASE_CHARS = "abcdefghijklmnopqrstuvwxyz";
 const NUMBER_CHARS = "0123456789";
-const SYMBOL_CHARS = "!@#$%^&*()_+-=[]{}|;:,.<>?";
+export const DEFAULT_SYMBOL_CHARS = "!@#$%^&*()_+-=[]{}|;:,.<>?";
+
+/**
+ * Letters used by pronounceable mode
+ * Syllables alternate a consonant and a vowel; q, w, x and y are left out
+ * because they rarely read as a single sound in that position
+ */
+const SYLLABLE_CONSONANTS = "bcdfghjklmnprstvz";
+const SYLLABLE_VOWELS = "aeiou";
+
+/**
+ * Characters that are easily confused when read aloud, printed or typed by hand
+ * (0/O/o, 1/l/I/|/!, quotes and small punctuation)
+ * Removed from every pool when options.avoidAmbiguous is enabled
+ */
+export const AMBIGUOUS_CHARS = "0Oo1lI|!`'\";:.,";
+
+/**
+ * Human-readable names for each character class (used in validation messages)
+ */
+export const CHARACTER_CLASS_LABELS: Record<CharacterClass, string> = {
+  uppercase: "Uppercase letters",
+  lowercase: "Lowercase letters",
+  numbers: "Numbers",
+  symbols: "Symbols",
+  extra: "Extra characters",
+};
+
+/**
+ * Default password generation options used when the app starts
+ */
+export const DEFAULT_PASSWORD_OPTIONS: PasswordOptions = {
+  mode: "password", // Generate random character passwords by default
+  length: 10, // Default password length (MIN_PASSWORD_LENGTH to MAX_PASSWORD_LENGTH)
+  uppercase: true, // Include uppercase by default
+  lowercase: true, // Include lowercase by default
+  numbers: true, // Include numbers by default
+  symbols: false, // Symbols disabled by default
+  wordCount: 6, // EFF recommends at least 6 words
+  separator: "-", // Hyphen between words
+  capitalization: "capitalize", // Capitalize each word
+  includeNumber: true, // Append a digit to one word
+  includeSymbol: false, // No symbol by default
+  pinLength: 6, // Six digits, the common minimum for phone PINs
+  symbolChars: DEFAULT_SYMBOL_CHARS, // Full default symbol set
+  extraChars: "", // No extra characters
+  excludeChars: "", // Nothing excluded
+  avoidAmbiguous: false, // Allow ambiguous characters by default
+  policy: DEFAULT_POLICY, // No policy constraints by default
+  rejectBreached: false, // Breached passwords are flagged, not regenerated
+};
+
+/**
+ * Bounds for the length of passwords and pronounceable passwords
+ * The maximum leaves room for 63-character WPA keys and long API secrets
+ */
+export const MIN_PASSWORD_LENGTH = 4;
+export const MAX_PASSWORD_LENGTH = 256;
+
+/**
+ * Bounds for the number of passwords produced by bulk generation
+ */
+export const MIN_BULK_COUNT = 1;
+export const MAX_BULK_COUNT = 5000;
+
+/**
+ * Bounds for the number of words in a passphrase
+ */
+export const MIN_PASSPHRASE_WORDS = 3;
+export const MAX_PASSPHRASE_WORDS = 10;
+
+/**
+ * Removes duplicate and excluded characters from a character set
+ *
+ * @param chars - The characters to filter
+ * @param excludeChars - Characters that must not appear in the result
+ * @returns The unique remaining characters, in their original order
+ */
+const removeExcludedChars = (chars: string, excludeChars: string): string => {
+  return Array.from(new Set(chars.split("")))
+    .filter((char) => !excludeChars.includes(char))
+    .join("");
+};
+
+/**
+ * Combines the user's exclusion list with the ambiguous characters (if enabled)
+ *
+ * @param options - The password generation options
+ * @returns Every character that must not appear in generated output
+ */
+const getExcludedChars = (options: PasswordOptions): string => {
+  return options.avoidAmbiguous
+    ? options.excludeChars + AMBIGUOUS_CHARS
+    : options.excludeChars;
+};
+
+/**
+ * Returns the digits and symbols that passphrase extras are drawn from
+ * after exclusions are applied
+ *
+ * @param options - The password generation options
+ */
+const getPassphraseExtraChars = (options: PasswordOptions) => {
+  const excludeChars = getExcludedChars(options);
+  return {
+    digits: removeExcludedChars(NUMBER_CHARS, excludeChars),
+    symbols: removeExcludedChars(options.symbolChars, excludeChars),
+  };
+};
+
+/**
+ * Returns the pools pronounceable mode draws from after exclusions are applied
+ *
+ * Letters are kept only if every case they can appear in is allowed: with both
+ * uppercase and lowercase enabled, one syllable is capitalized, so a consonant
+ * is usable only if neither of its cases is excluded. Digits and symbols never
+ * overlap the letters, so every inserted character can be told apart.
+ *
+ * @param options - The password generation options
+ */
+const getSyllableChars = (options: PasswordOptions) => {
+  const excludeChars = getExcludedChars(options);
+  const usable = (letters: string, bothCases: boolean) =>
+    letters
+      .split("")
+      .filter((letter) => {
+        const lower = !excludeChars.includes(letter);
+        const upper = !excludeChars.includes(letter.toUpperCase());
+        if (!options.lowercase) return upper;
+        return bothCases && options.uppercase ? lower && upper : lower;
+      })
+      .map((letter) => (options.lowercase ? letter : letter.toUpperCase()))
+      .join("");
+
+  return {
+    consonants: usable(SYLLABLE_CONSONANTS, true),
+    vowels: usable(SYLLABLE_VOWELS, false),
+    digits: removeExcludedChars(NUMBER_CHARS, excludeChars),
+    symbols: removeExcludedChars(
+      options.symbolChars,
+      excludeChars + UPPERCASE_CHARS + LOWERCASE_CHARS + NUMBER_CHARS
+    ),
+  };
+};
+
+/**
+ * Builds the enabled character sets for password mode
+ * Exclusions (and ambiguous characters, if avoided) are applied to every set,
+ * including custom symbols and extras. Characters that appear in more than
+ * one set are kept only in the first, so the classes never overlap.
+ *
+ * @param options - The password generation options
+ * @returns Each enabled character class with its remaining characters
+ */
+export const getCharacterSets = (options: PasswordOptions): CharacterSet[] => {
+  const charSets: CharacterSet[] = [];
+  const excludeChars = getExcludedChars(options);
+
+  if (options.uppercase) {
+    charSets.push({
+      key: "uppercase",
+      chars: removeExcludedChars(UPPERCASE_CHARS, excludeChars),
+    });
+  }
+  if (options.lowercase) {
+    charSets.push({
+      key: "lowercase",
+      chars: removeExcludedChars(LOWERCASE_CHARS, excludeChars),
+    });
+  }
+  if (options.numbers) {
+    charSets.push({
+      key: "numbers",
+      chars: removeExcludedChars(NUMBER_CHARS, excludeChars),
+    });
+  }
+  if (options.symbols) {
+    charSets.push({
+      key: "symbols",
+      chars: removeExcludedChars(options.symbolChars, excludeChars),
+    });
+  }
+  if (options.extraChars) {
+    charSets.push({
+      key: "extra",
+      chars: removeExcludedChars(options.extraChars, excludeChars),
+    });
+  }
+
+  // Make the sets disjoint so every character belongs to exactly one class
+  let assignedChars = "";
+  return charSets.map(({ key, chars }) => {
+    const uniqueChars = removeExcludedChars(chars, assignedChars);
+    assignedChars += uniqueChars;
+    return { key, chars: uniqueChars };
+  });
+};
+
+/**
+ * Combines character sets into a single pool without duplicates
+ *
+ * @param charSets - The enabled character sets
+ * @returns Every distinct character available to the generator
+ */
+export const getCharacterPool = (charSets: CharacterSet[]): string => {
+  return removeExcludedChars(charSets.map(({ chars }) => chars).join(""), "");
+};
+
+/**
+ * Classifies a single character for display purposes
+ *
+ * @param char - The character to classify
+ * @returns "letter", "digit" or "symbol"
+ */
+export const getCharacterType = (char: string): CharacterType => {
+  if (/\p{L}/u.test(char)) return "letter";
+  if (/\p{N}/u.test(char)) return "digit";
+  return "symbol";
+};
+
+/**
+ * Validates that every enabled character class still has characters left
+ * after custom symbols and exclusions are applied
+ *
+ * @param options - The password generation options
+ * @returns The validation errors as translatable messages (empty if valid;
+ *   formatEnglishMessage gives the English text)
+ */
+export const validateCharacterSets = (options: PasswordOptions): MessageDescriptor[] => {
+  const errors: MessageDescriptor[] = [];
+  const emptyMessage = (key: CharacterClass): MessageDescriptor => ({
+    key: "validation.classEmpty",
+    params: { class: { key: `characterClass.${key}` } },
+  });
+
+  if (options.mode === "passphrase") {
+    const { digits, symbols } = getPassphraseExtraChars(options);
+    if (options.includeNumber && !digits) errors.push(emptyMessage("numbers"));
+    if (options.includeSymbol && !symbols) errors.push(emptyMessage("symbols"));
+    return errors;
+  }
+
+  if (options.mode === "pin") return errors;
+
+  if (options.mode === "pronounceable") {
+    const { consonants, vowels, digits, symbols } = getSyllableChars(options);
+    if ((options.uppercase || options.lowercase) && (!consonants || !vowels)) {
+      errors.push({ key: "validation.syllablesEmpty" });
+    }
+    if (options.numbers && !digits) errors.push(emptyMessage("numbers"));
+    if (options.symbols && !symbols) errors.push(emptyMessage("symbols"));
+    return errors;
+  }
+
+  getCharacterSets(options).forEach(({ key, chars }) => {
+    if (chars.length === 0) errors.push(emptyMessage(key));
+  });
+
+  return errors;
+};
+
+/**
+ * Checks whether a password length is a whole number within bounds
+ *
+ * @param length - The requested password length
+ * @returns true if generatePassword accepts the length
+ */
+export const isValidPasswordLength = (length: number): boolean => {
+  return (
+    Number.isInteger(length) &&
+    length >= MIN_PASSWORD_LENGTH &&
+    length <= MAX_PASSWORD_LENGTH
+  );
+};
+
+/**
+ * Checks whether the options allow a password to be generated
+ * Passwords need a length within bounds and at least one character type, no
+ * enabled class may be emptied by exclusions, and the policy must be
+ * satisfiable. Pronounceable passwords need letters (uppercase or lowercase)
+ * and ignore the policy.
+ *
+ * @param options - The password generation options
+ * @returns true if generatePassword can be called with these options
+ */
+export const canGeneratePassword = (options: PasswordOptions): boolean => {
+  if (validateCharacterSets(options).length > 0) return false;
+  if (options.mode === "passphrase" || options.mode === "pin") return true;
+  if (!isValidPasswordLength(options.length)) return false;
+  if (options.mode === "pronounceable") {
+    return options.uppercase || options.lowercase;
+  }
+  const charSets = getCharacterSets(options);
+  return (
+    charSets.length > 0 &&
+    getPolicyErrors(charSets, options.length, options.policy).length === 0
+  );
+};
+
+/**
+ * Changes the length setting of the current mode by a number of steps,
+ * staying within that mode's bounds (characters, passphrase words or PIN digits)
+ *
+ * @param options - The current options
+ * @param delta - How much to add (negative to shorten)
+ * @returns Options with the adjusted length
+ */
+export const stepLength = (
+  options: PasswordOptions,
+  delta: number
+): PasswordOptions => {
+  const clamp = (value: number, min: number, max: number) =>
+    Math.max(min, Math.min(max, value + delta));
+
+  switch (options.mode) {
+    case "passphrase":
+      return {
+        ...options,
+        wordCount: clamp(options.wordCount, MIN_PASSPHRASE_WORDS, MAX_PASSPHRASE_WORDS),
+      };
+    case "pin":
+      return {
+        ...options,
+        pinLength: clamp(options.pinLength, MIN_PIN_LENGTH, MAX_PIN_LENGTH),
+      };
+    default:
+      return {
+        ...options,
+        length: clamp(options.length, MIN_PASSWORD_LENGTH, MAX_PASSWORD_LENGTH),
+      };
+  }
+};
+
+/**
+ * Reports which policy rules a password violates for the given options
+ *
+ * @param password - Any password (generated or user-supplied)
+ * @param options - Options providing the character sets and policy
+ * @returns A list of violated rules, each with a message to translate
+ */
+export const validatePasswordPolicy = (
+  password: string,
+  options: PasswordOptions
+): PolicyViolation[] => {
+  return validatePolicy(password, options.policy, getCharacterSets(options));
+};
+
+/**
+ * Maximum number of candidates drawn before the policy is considered unsatisfiable
+ */
+const MAX_POLICY_ATTEMPTS = 1000;
+
+/**
+ * Cache of the most recent class-count weight table, so bulk generation with
+ * unchanged options doesn't rebuild it for every password
+ */
+let classCountWeightsCache: {
+  key: string;
+  binomial: bigint[][];
+  weights: bigint[][];
+} | null = null;
+
+/**
+ * Builds the table of valid password counts used to sample class counts
+ * (along with the binomial coefficients it was computed from)
+ *
+ * weights[i][r] is the number of strings of length r that can be built from
+ * classes i..k-1 while respecting each class's bounds. Computed with BigInt so
+ * the sampling below is exact rather than approximately uniform.
+ *
+ * @param sizes - Number of characters in each class
+ * @param bounds - Min/max count for each class
+ * @param length - Password length
+ */
+const getClassCountWeights = (
+  sizes: number[],
+  bounds: ClassBounds[],
+  length: number
+): { binomial: bigint[][]; weights: bigint[][] } => {
+  const key = JSON.stringify([sizes, bounds, length]);
+  if (classCountWeightsCache?.key === key) {
+    return classCountWeightsCache;
+  }
+
+  // Binomial coefficients up to length
+  const binomial: bigint[][] = [];
+  for (let n = 0; n <= length; n++) {
+    binomial[n] = [];
+    for (let k = 0; k <= n; k++) {
+      binomial[n][k] =
+        k === 0 || k === n
+          ? BigInt(1)
+          : binomial[n - 1][k - 1] + binomial[n - 1][k];
+    }
+  }
+
+  const classCount = sizes.length;
+  const weights: bigint[][] = [];
+  weights[classCount] = Array.from({ length: length + 1 }, (_, r) =>
+    r === 0 ? BigInt(1) : BigInt(0)
+  );
+
+  for (let i = classCount - 1; i >= 0; i--) {
+    weights[i] = [];
+    for (let r = 0; r <= length; r++) {
+      let total = BigInt(0);
+      for (let c = bounds[i].min; c <= Math.min(bounds[i].max, r); c++) {
+        total +=
+          binomial[r][c] *
+          BigInt(sizes[i]) ** BigInt(c) *
+          weights[i + 1][r - c];
+      }
+      weights[i][r] = total;
+    }
+  }
+
+  classCountWeightsCache = { key, binomial, weights };
+  return classCountWeightsCache;
+};
+
+/**
+ * Fills a password position by position so no character repeats more than
+ * maxRunLength times in a row
+ *
+ * Each position takes a class with probability proportional to its remaining
+ * count (as shuffling the class slots would), then a random character from it
+ * other than the previous one once that run is full. A single-character class
+ * is skipped while taking it would leave too few other characters to break up
+ * the rest of it; counts within getRunLimitedBounds always leave a choice.
+ *
+ * @param charSets - The enabled (disjoint) character sets
+ * @param counts - Number of characters to take from each class
+ * @param maxRunLength - Longest allowed run of identical characters
+ * @param random - Random source to draw from
+ */
+const fillWithRunLimit = (
+  charSets: CharacterSet[],
+  counts: number[],
+  maxRunLength: number,
+  random: RandomSource
+): string => {
+  const remaining = [...counts];
+  let left = remaining.reduce((sum, count) => sum + count, 0);
+  let password = "";
+  let previous = "";
+  let run = 0;
+
+  /**
+   * Whether the next character can come from a class without making the
+   * current run too long or leaving a single-character class unplaceable
+   */
+  const canTake = (classIndex: number): boolean => {
+    const { chars } = charSets[classIndex];
+    const nextRun = chars === previous ? run + 1 : 1;
+    if (remaining[classIndex] === 0 || nextRun > maxRunLength) return false;
+
+    return remaining.every((count, i) => {
+      const after = i === classIndex ? count - 1 : count;
+      if (charSets[i].chars.length !== 1 || after === 0) return true;
+      // The run just started (if any) leaves less room for the first block
+      const currentRun = i === classIndex ? nextRun : 0;
+      return after <= maxRunLength * (left - after) - currentRun;
+    });
+  };
+
+  while (left > 0) {
+    const weights = remaining.map((count, i) => (canTake(i) ? count : 0));
+    let target = randomInt(
+      weights.reduce((sum, weight) => sum + weight, 0),
+      random
+    );
+    const classIndex = weights.findIndex((weight) => {
+      target -= weight;
+      return target < 0;
+    });
+
+    const { chars } = charSets[classIndex];
+    const pool =
+      run >= maxRunLength && chars.length > 1 ? chars.replace(previous, "") : chars;
+    const char = randomElement(pool, random);
+
+    run = char === previous ? run + 1 : 1;
+    previous = char;
+    password += char;
+    remaining[classIndex]--;
+    left--;
+  }
+
+  return password;
+};
+
+/**
+ * Draws a password uniformly from all strings whose per-class counts fall
+ * within the policy bounds
+ *
+ * 1. Pick how many characters each class contributes, weighted by how many
+ *    strings have that composition
+ * 2. Place the class slots in a uniformly random order (Fisher–Yates)
+ * 3. Fill each slot with a uniformly random character from its class
+ *
+ * With a max run length, steps 2 and 3 are done together by fillWithRunLimit
+ * instead, so runs are never too long. That keeps the result close to, though
+ * not exactly, uniform over the passwords the limit allows.
+ *
+ * @param charSets - The enabled (disjoint) character sets
+ * @param length - Password length
+ * @param policy - The password policy
+ * @param random - Random source to draw from
+ */
+const sampleWithClassBounds = (
+  charSets: CharacterSet[],
+  length: number,
+  policy: PasswordPolicy,
+  random: RandomSource
+): string => {
+  const sizes = charSets.map(({ chars }) => chars.length);
+  const bounds = getRunLimitedBounds(charSets, length, policy);
+  const { binomial, weights } = getClassCountWeights(sizes, bounds, length);
+
+  // Choose the number of characters taken from each class
+  const slots: number[] = [];
+  let remaining = length;
+  charSets.forEach((_, i) => {
+    let target = randomBigInt(weights[i][remaining], random);
+    for (let c = bounds[i].min; c <= Math.min(bounds[i].max, remaining); c++) {
+      const weight =
+        binomial[remaining][c] *
+        BigInt(sizes[i]) ** BigInt(c) *
+        weights[i + 1][remaining - c];
+      if (target < weight) {
+        for (let j = 0; j < c; j++) slots.push(i);
+        remaining -= c;
+        break;
+      }
+      target -= weight;
+    }
+  });
+
+  if (policy.maxRunLength !== null) {
+    const counts = charSets.map((_, i) => slots.filter((slot) => slot === i).length);
+    return fillWithRunLimit(charSets, counts, policy.maxRunLength, random);
+  }
+
+  // Shuffle the class slots so every arrangement is equally likely
+  shuffle(slots, random);
+
+  // Fill each slot with a random character from its class
+  return slots
+    .map((classIndex) => randomElement(charSets[classIndex].chars, random))
+    .join("");
+};
 
 /**
  * Generates a random password based on the provided options
+ * Delegates to generatePassphrase, generatePronounceablePassword or
+ * generatePin when passphrase, pronounceable or PIN mode is selected
  *
  * @param options - Configuration object containing:
+ *   - mode: Generation mode ("password", "passphrase", "pronounceable" or "pin")
  *   - length: Desired password length (number)
  *   - uppercase: Include uppercase letters (boolean)
  *   - lowercase: Include lowercase letters (boolean)
  *   - numbers: Include numbers (boolean)
  *   - symbols: Include symbols (boolean)
+ *   - symbolChars: Characters used for the symbols class (string)
+ *   - extraChars: Additional characters to include (string)
+ *   - excludeChars: Characters that must never appear (string)
+ *   - avoidAmbiguous: Remove visually ambiguous characters from every pool (boolean)
+ *   - policy: Per-class min/max counts, max run length and first/last character rules
+ *   - rejectBreached: Must be false here. The breach check is asynchronous, so
+ *     only generateUnbreachedPassword and generateUnbreachedBulkPasswords
+ *     apply it (see breachCheck.ts)
+ * @param random - Random source (defaults to crypto.getRandomValues; inject a
+ *   seeded source for reproducible tests)
  *
  * @returns A randomly generated password string
  *
+ * @throws Error if rejectBreached is set (use generateUnbreachedPassword)
+ * @throws Error if the length is outside MIN_PASSWORD_LENGTH to MAX_PASSWORD_LENGTH
  * @throws Error if no character types are selected (would result in empty password)
+ * @throws Error if exclusions leave a selected character type empty
+ * @throws Error if the password policy cannot be satisfied for the chosen length
  */
-export const generatePassword = (options: PasswordOptions): string => {
-  // Validate password length (must be between 4 and 50)
-  if (options.length < 4 || options.length > 50) {
-    throw new Error("Password length must be between 4 and 50 characters");
+export const generatePassword = (
+  options: PasswordOptions,
+  random: RandomSource = cryptoRandomSource
+): string => {
+  // Refuse rather than silently hand back a password nobody checked
+  if (options.rejectBreached) {
+    throw new MessageError({ key: "generation.rejectBreachedAsync" });
   }
 
-  // Build the character pool based on selected options
-  let characterPool = "";
+  if (options.mode === "passphrase") {
+    return generatePassphrase(options, random);
+  }
+  if (options.mode === "pin") {
+    return generatePin(options.pinLength, random);
+  }
 
-  if (options.uppercase) characterPool += UPPERCASE_CHARS;
-  if (options.lowercase) characterPool += LOWERCASE_CHARS;
-  if (options.numbers) characterPool += NUMBER_CHARS;
-  if (options.symbols) characterPool += SYMBOL_CHARS;
+  // Validate password length
+  if (!isValidPasswordLength(options.length)) {
+    throw new MessageError({
+      key: "generation.lengthRange",
+      params: { min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH },
+    });
+  }
+
+  if (options.mode === "pronounceable") {
+    return generatePronounceablePassword(options, random);
+  }
+
+  // Build the character sets based on selected options, custom symbols and exclusions
+  const enabledSets = getCharacterSets(options);
 
   // Validate that at least one character type is selected
-  if (characterPool.length === 0) {
-    throw new Error("No character types selected");
+  if (enabledSets.length === 0) {
+    throw new MessageError({ key: "generation.noCharacterTypes" });
   }
 
-  // Build arrays for each selected character type to ensure inclusion
-  const charSets: string[] = [];
-  if (options.uppercase) charSets.push(UPPERCASE_CHARS);
-  if (options.lowercase) charSets.push(LOWERCASE_CHARS);
-  if (options.numbers) charSets.push(NUMBER_CHARS);
-  if (options.symbols) charSets.push(SYMBOL_CHARS);
+  // Validate that exclusions haven't emptied any selected character type
+  const validationErrors = validateCharacterSets(options);
+  if (validationErrors.length > 0) {
+    throw new MessageError(validationErrors[0]);
+  }
 
-  // Generate password ensuring at least one character from each selected type
-  let password = "";
+  // Validate that the password policy can be satisfied for this length
+  const policyErrors = getPolicyErrors(
+    enabledSets,
+    options.length,
+    options.policy
+  );
+  if (policyErrors.length > 0) {
+    throw new MessageError(policyErrors[0]);
+  }
 
-  // First, ensure at least one character from each selected type
-  // If password length is less than number of character types, we'll use all types
-  // but may need to prioritize some over others
-  const requiredChars: string[] = [];
-  const numRequiredChars = Math.min(charSets.length, options.length);
-
-  for (let i = 0; i < numRequiredChars; i++) {
-    const charSet = charSets[i];
-    // Use cryptographically secure random to select one character from each set
-    const randomArray = new Uint32Array(1);
-    crypto.getRandomValues(randomArray);
-    const randomIndex = randomArray[0] % charSet.length;
-    requiredChars.push(charSet[randomIndex]);
-  }
-
-  // Shuffle the required characters using cryptographically secure random
-  const shuffledRequired = requiredChars.sort(() => {
-    const randomArray = new Uint32Array(1);
-    crypto.getRandomValues(randomArray);
-    return randomArray[0] / 0xffffffff - 0.5;
-  });
+  // Sample candidates until one satisfies the position rules. Class counts
+  // and run lengths are satisfied by construction, so only a first or last
+  // character rule can reject a candidate.
+  for (let attempt = 0; attempt < MAX_POLICY_ATTEMPTS; attempt++) {
+    const candidate = sampleWithClassBounds(
+      enabledSets,
+      options.length,
+      options.policy,
+      random
+    );
+    if (validatePolicy(candidate, options.policy, enabledSets).length === 0) {
+      return candidate;
+    }
+  }
+
+  throw new MessageError({ key: "generation.policyUnsatisfied" });
+};
 
-  // Add required characters to password
-  password = shuffledRequired.join("");
+/**
+ * Applies the selected capitalization style to a single passphrase word
+ *
+ * @param word - The lowercase word from the wordlist
+ * @param capitalization - The capitalization style
+ * @param random - Random source used by the "random" style
+ * @returns The word with the capitalization applied
+ */
+const capitalizeWord = (
+  word: string,
+  capitalization: PasswordOptions["capitalization"],
+  random: RandomSource
+): string => {
+  const capitalized = word.charAt(0).toUpperCase() + word.slice(1);
 
-  // Fill remaining length with random characters from the pool
-  const remainingLength = options.length - password.length;
-  if (remainingLength > 0) {
-    const randomArray = new Uint32Array(remainingLength);
-    crypto.getRandomValues(randomArray);
+  switch (capitalization) {
+    case "uppercase":
+      return word.toUpperCase();
+    case "capitalize":
+      return capitalized;
+    case "random":
+      return randomInt(2, random) === 0 ? word : capitalized;
+    default:
+      return word;
+  }
+};
 
-    for (let i = 0; i < remainingLength; i++) {
-      // Convert random value to index in character pool
-      const randomIndex = randomArray[i] % characterPool.length;
-      password += characterPool[randomIndex];
-    }
+/**
+ * Generates a diceware-style passphrase from the bundled EFF wordlist
+ *
+ * @param options - Configuration object containing:
+ *   - wordCount: Number of words (MIN_PASSPHRASE_WORDS to MAX_PASSPHRASE_WORDS)
+ *   - separator: String placed between words
+ *   - capitalization: Capitalization style applied to each word
+ *   - includeNumber: Append a random digit to a random word
+ *   - includeSymbol: Append a random symbol (from symbolChars) to a random word
+ *   - excludeChars: Digits and symbols that must never be appended
+ *   - avoidAmbiguous: Never append ambiguous digits or symbols
+ *     (the words themselves are left intact)
+ * @param random - Random source (defaults to crypto.getRandomValues)
+ *
+ * @returns A randomly generated passphrase
+ *
+ * @throws Error if the word count is out of bounds
+ * @throws Error if exclusions leave no digits or symbols for the extras
+ */
+export const generatePassphrase = (
+  options: PasswordOptions,
+  random: RandomSource = cryptoRandomSource
+): string => {
+  if (
+    options.wordCount < MIN_PASSPHRASE_WORDS ||
+    options.wordCount > MAX_PASSPHRASE_WORDS
+  ) {
+    throw new MessageError({
+      key: "generation.wordCountRange",
+      params: { min: MIN_PASSPHRASE_WORDS, max: MAX_PASSPHRASE_WORDS },
+    });
+  }
+
+  const validationErrors = validateCharacterSets(options);
+  if (validationErrors.length > 0) {
+    throw new MessageError(validationErrors[0]);
+  }
+  const { digits, symbols } = getPassphraseExtraChars(options);
+
+  // Pick each word independently and uniformly from the wordlist
+  const words: string[] = [];
+  for (let i = 0; i < options.wordCount; i++) {
+    const word = randomElement(EFF_LARGE_WORDLIST, random);
+    words.push(capitalizeWord(word, options.capitalization, random));
+  }
+
+  // Append the optional digit and symbol to randomly chosen words
+  if (options.includeNumber) {
+    const index = randomInt(words.length, random);
+    words[index] += randomElement(digits, random);
+  }
+  if (options.includeSymbol) {
+    const index = randomInt(words.length, random);
+    words[index] += randomElement(symbols, random);
+  }
+
+  return words.join(options.separator);
+};
+
+/**
+ * Lists the positions where pronounceable mode may insert a digit or symbol:
+ * before every syllable and at the end
+ *
+ * @param letterCount - Number of letters in the password
+ * @returns Letter indices (letterCount meaning "after the last letter")
+ */
+const getSyllableBoundaries = (letterCount: number): number[] => {
+  const boundaries: number[] = [];
+  for (let index = 0; index < letterCount; index += 2) boundaries.push(index);
+  if (boundaries[boundaries.length - 1] !== letterCount) boundaries.push(letterCount);
+  return boundaries;
+};
+
+/**
+ * Generates a pronounceable password from alternating consonant/vowel syllables
+ *
+ * The letters alternate consonant, vowel, consonant… ("tavokeh"), each drawn
+ * uniformly from its pool. The character type toggles are then applied:
+ * - uppercase and lowercase: one random syllable is capitalized ("taVokeh");
+ *   with only one case enabled, every letter uses that case
+ * - numbers: one digit is inserted at a random syllable boundary
+ * - symbols: one symbol (from symbolChars) is inserted at a random syllable boundary
+ *
+ * Inserted characters count towards options.length. Extra characters and the
+ * password policy apply to password mode only.
+ *
+ * @param options - The password generation options (length MIN_PASSWORD_LENGTH to MAX_PASSWORD_LENGTH)
+ * @param random - Random source (defaults to crypto.getRandomValues)
+ *
+ * @returns A randomly generated pronounceable password
+ *
+ * @throws Error if neither uppercase nor lowercase letters are selected
+ * @throws Error if exclusions leave no consonants, vowels, digits or symbols
+ */
+export const generatePronounceablePassword = (
+  options: PasswordOptions,
+  random: RandomSource = cryptoRandomSource
+): string => {
+  if (!options.uppercase && !options.lowercase) {
+    throw new MessageError({ key: "generation.noLetters" });
+  }
+
+  const validationErrors = validateCharacterSets(options);
+  if (validationErrors.length > 0) {
+    throw new MessageError(validationErrors[0]);
+  }
+  const { consonants, vowels, digits, symbols } = getSyllableChars(options);
+
+  // Alternate consonants and vowels, leaving room for the inserted characters
+  const letterCount =
+    options.length - Number(options.numbers) - Number(options.symbols);
+  const letters = Array.from({ length: letterCount }, (_, index) =>
+    randomElement(index % 2 === 0 ? consonants : vowels, random)
+  );
+
+  // Capitalize the first letter of one syllable when both cases are enabled
+  if (options.uppercase && options.lowercase) {
+    const index = randomInt(Math.ceil(letterCount / 2), random) * 2;
+    letters[index] = letters[index].toUpperCase();
   }
 
-  // Shuffle the final password to randomize character positions
-  const passwordArray = password.split("");
-  for (let i = passwordArray.length - 1; i > 0; i--) {
-    const randomArray = new Uint32Array(1);
-    crypto.getRandomValues(randomArray);
-    const j = randomArray[0] % (i + 1);
-    [passwordArray[i], passwordArray[j]] = [passwordArray[j], passwordArray[i]];
+  // Insert the digit and symbol at syllable boundaries (digit first if they coincide)
+  const boundaries = getSyllableBoundaries(letterCount);
+  const inserts: { index: number; char: string }[] = [];
+  if (options.numbers) {
+    inserts.push({
+      index: randomElement(boundaries, random),
+      char: randomElement(digits, random),
+    });
+  }
+  if (options.symbols) {
+    inserts.push({
+      index: randomElement(boundaries, random),
+      char: randomElement(symbols, random),
+    });
+  }
+
+  return Array.from({ length: letterCount + 1 }, (_, index) =>
+    inserts
+      .filter((insert) => insert.index === index)
+      .map(({ char }) => char)
+      .join("") + (letters[index] ?? "")
+  ).join("");
+};
+
+/**
+ * Guess rates (guesses per second) for each attacker model
+ * Based on the commonly cited zxcvbn attack scenarios
+ */
+export const ATTACK_RATES: Record<AttackScenario, number> = {
+  onlineThrottled: 100 / 3600, // 100 guesses per hour
+  onlineUnthrottled: 10, // 10 guesses per second
+  offlineSlowHash: 1e4, // bcrypt/scrypt/PBKDF2
+  offlineFastHash: 1e10, // MD5/SHA-1 on a GPU cluster
+};
+
+/**
+ * Minimum entropy (in bits) required for each strength level
+ * Index corresponds to the strength level (0-4)
+ *
+ * - 0: TOO WEAK    (< 28 bits)
+ * - 1: WEAK        (28-35 bits)
+ * - 2: MEDIUM      (36-59 bits)
+ * - 3: STRONG      (60-79 bits)
+ * - 4: VERY STRONG (80+ bits)
+ */
+export const STRENGTH_BANDS = [0, 28, 36, 60, 80];
+
+/**
+ * Stable key for each strength level, indexed by level
+ * The app translates these; plain-text output uses STRENGTH_LABELS
+ */
+export const STRENGTH_KEYS: StrengthKey[] = [
+  "tooWeak",
+  "weak",
+  "medium",
+  "strong",
+  "veryStrong",
+];
+
+/**
+ * English strength labels for the CLI and exported files
+ */
+export const STRENGTH_LABELS: Record<StrengthKey, string> = {
+  tooWeak: "TOO WEAK",
+  weak: "WEAK",
+  medium: "MEDIUM",
+  strong: "STRONG",
+  veryStrong: "VERY STRONG",
+};
+
+/**
+ * Strength result used before any password has been generated
+ */
+export const EMPTY_STRENGTH: StrengthResult = {
+  level: 0,
+  key: null,
+  bits: 0,
+  crackTime: {
+    onlineThrottled: 0,
+    onlineUnthrottled: 0,
+    offlineSlowHash: 0,
+    offlineFastHash: 0,
+  },
+};
+
+/**
+ * Calculates password entropy in bits
+ *
+ * @param poolSize - Number of possible characters per position
+ * @param length - Password length
+ * @returns Entropy in bits (length × log2(poolSize))
+ */
+export const calculateEntropy = (poolSize: number, length: number): number => {
+  if (poolSize <= 1 || length <= 0) return 0;
+  return length * Math.log2(poolSize);
+};
+
+/**
+ * Estimates the average time to crack a password for each attacker model
+ * An attacker is expected to find the password after searching half the keyspace
+ *
+ * @param bits - Password entropy in bits
+ * @returns Crack time in seconds for each attack scenario
+ */
+export const estimateCrackTime = (bits: number): CrackTimeEstimate => {
+  const guesses = bits > 0 ? Math.pow(2, bits - 1) : 0;
+
+  return {
+    onlineThrottled: guesses / ATTACK_RATES.onlineThrottled,
+    onlineUnthrottled: guesses / ATTACK_RATES.onlineUnthrottled,
+    offlineSlowHash: guesses / ATTACK_RATES.offlineSlowHash,
+    offlineFastHash: guesses / ATTACK_RATES.offlineFastHash,
+  };
+};
+
+/**
+ * Splits a crack time into a unit and a count for display
+ *
+ * @param seconds - Crack time in seconds
+ * @returns The largest unit that fits and the rounded count of it
+ *   (count is 0 for "instant" and "centuries")
+ */
+export const describeCrackTime = (
+  seconds: number
+): { unit: CrackTimeUnit; count: number } => {
+  const minute = 60;
+  const hour = minute * 60;
+  const day = hour * 24;
+  const month = day * 31;
+  const year = month * 12;
+  const century = year * 100;
+
+  const units: [number, CrackTimeUnit][] = [
+    [year, "year"],
+    [month, "month"],
+    [day, "day"],
+    [hour, "hour"],
+    [minute, "minute"],
+    [1, "second"],
+  ];
+
+  if (seconds < 1) return { unit: "instant", count: 0 };
+  if (seconds >= century) return { unit: "centuries", count: 0 };
+
+  for (const [unitSeconds, unit] of units) {
+    if (seconds >= unitSeconds) {
+      return { unit, count: Math.round(seconds / unitSeconds) };
+    }
   }
 
-  return passwordArray.join("");
+  return { unit: "instant", count: 0 };
+};
+
+/**
+ * Converts a crack time in seconds into a short English string
+ * The app translates describeCrackTime instead
+ *
+ * @param seconds - Crack time in seconds
+ * @returns A string such as "instantly", "3 hours" or "centuries"
+ */
+export const formatCrackTime = (seconds: number): string => {
+  const { unit, count } = describeCrackTime(seconds);
+  if (unit === "instant") return "instantly";
+  if (unit === "centuries") return "centuries";
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+};
+
+/**
+ * English label of a strength result for plain-text output
+ *
+ * @param strength - The strength result
+ * @returns e.g. "VERY STRONG", or an empty string before any password is scored
+ */
+export const getStrengthLabel = ({ key }: StrengthResult): string =>
+  key ? STRENGTH_LABELS[key] : "";
+
+/**
+ * Maps an entropy value to a strength level using STRENGTH_BANDS
+ *
+ * @param bits - Password entropy in bits
+ * @param bands - Minimum bits per level (PIN_STRENGTH_BANDS for PINs)
+ * @returns Strength level (0-4)
+ */
+export const getStrengthLevel = (
+  bits: number,
+  bands: number[] = STRENGTH_BANDS
+): number => {
+  let level = 0;
+  bands.forEach((minBits, index) => {
+    if (bits >= minBits) level = index;
+  });
+  return level;
+};
+
+/**
+ * Builds a complete StrengthResult from an entropy value
+ *
+ * @param bits - Password entropy in bits
+ * @param bands - Minimum bits per level (PIN_STRENGTH_BANDS for PINs)
+ * @returns Strength level, key, entropy and crack-time estimates
+ */
+export const getStrengthFromEntropy = (
+  bits: number,
+  bands: number[] = STRENGTH_BANDS
+): StrengthResult => {
+  const level = getStrengthLevel(bits, bands);
+
+  return {
+    level,
+    key: STRENGTH_KEYS[level],
+    bits,
+    crackTime: estimateCrackTime(bits),
+  };
 };
 
 /**
- * Calculates the strength of a password based on multiple factors
+ * Calculates the strength of any password from its text alone
  *
- * Strength is determined by:
+ * Strength is determined by analyzePassword:
+ * - The character classes actually present in the password (pool size)
  * - Password length
- * - Character variety (uppercase, lowercase, numbers, symbols)
- * - Complexity of character combinations
+ * - Guessable patterns (common passwords, dictionary words, keyboard walks,
+ *   repeats, sequences and dates), which lower the estimate
+ * - The resulting entropy mapped onto STRENGTH_BANDS
+ *
+ * Checker mode and generator mode share this scorer.
  *
  * @param password - The password to evaluate
- * @param options - The options used to generate the password
  *
  * @returns A StrengthResult object containing:
  *   - level: Strength level (0-4, where 0 is weakest and 4 is strongest)
- *   - label: Human-readable strength label ("TOO WEAK", "WEAK", "MEDIUM", "STRONG")
+ *   - key: Strength key ("tooWeak", "weak", "medium", "strong", "veryStrong")
+ *   - bits: Estimated entropy in bits
+ *   - crackTime: Estimated crack time in seconds for each attacker model
+ */
+export const calculatePasswordStrength = (password: string): StrengthResult => {
+  return getStrengthFromEntropy(analyzePassword(password).bits);
+};
+
+/**
+ * Calculates the entropy of a passphrase from the generator's word model
+ *
+ * Entropy comes from the wordlist size rather than the character pools:
+ * - wordCount × log2(wordlist size) for the words themselves
+ * - 1 bit per word for random capitalization
+ * - log2(digits) + log2(wordCount) for the digit and the word it is appended to
+ * - log2(symbols) + log2(wordCount) for the symbol and the word it is appended to
+ *
+ * @param options - The options the passphrase was generated with
+ * @returns Entropy in bits
+ */
+export const calculatePassphraseEntropy = (options: PasswordOptions): number => {
+  const { digits, symbols } = getPassphraseExtraChars(options);
+  let bits = calculateEntropy(EFF_LARGE_WORDLIST.length, options.wordCount);
+
+  if (options.capitalization === "random") {
+    bits += options.wordCount;
+  }
+  if (options.includeNumber) {
+    bits += Math.log2(digits.length) + Math.log2(options.wordCount);
+  }
+  if (options.includeSymbol) {
+    bits += Math.log2(symbols.length) + Math.log2(options.wordCount);
+  }
+
+  return bits;
+};
+
+/**
+ * Calculates the entropy of a pronounceable password from the syllable model
+ *
+ * Entropy comes from the choices the generator makes, not the raw length:
+ * - log2(consonants) for every consonant and log2(vowels) for every vowel
+ * - log2(syllables) for the capitalized syllable (both cases enabled)
+ * - log2(digits) + log2(boundaries) for the digit and where it is inserted
+ * - log2(symbols) + log2(boundaries) for the symbol and where it is inserted
+ *
+ * @param options - The options the password was generated with
+ * @returns Entropy in bits
+ */
+export const calculatePronounceableEntropy = (options: PasswordOptions): number => {
+  const { consonants, vowels, digits, symbols } = getSyllableChars(options);
+  const letterCount =
+    options.length - Number(options.numbers) - Number(options.symbols);
+  const consonantCount = Math.ceil(letterCount / 2);
+  const boundaryCount = getSyllableBoundaries(letterCount).length;
+
+  let bits =
+    calculateEntropy(consonants.length, consonantCount) +
+    calculateEntropy(vowels.length, letterCount - consonantCount);
+
+  if (options.uppercase && options.lowercase) {
+    bits += Math.log2(consonantCount);
+  }
+  if (options.numbers) {
+    bits += Math.log2(digits.length) + Math.log2(boundaryCount);
+  }
+  if (options.symbols) {
+    bits += Math.log2(symbols.length) + Math.log2(boundaryCount);
+  }
+
+  return bits;
+};
+
+/**
+ * Calculates the strength of a password produced by generatePassword
+ *
+ * The password is scored from its text like any other password. Its text
+ * alone can't reveal how it was generated, so the generator's own entropy is
+ * used as an upper bound: passphrases are capped by the wordlist size,
+ * pronounceable passwords by the syllable model, and passwords by the
+ * generator's pool after custom symbols, extra characters and exclusions
+ * are applied
+ *
+ * PINs are the exception: generatePin already rejects PINs that are weak as a
+ * whole, and the text scorer would only charge chance years and dates inside
+ * random digits. They are scored from the number of accepted PINs alone and
+ * rated against PIN_STRENGTH_BANDS, since no PIN reaches the password bands.
+ *
+ * @param password - The generated password
+ * @param options - The options the password was generated with
+ * @returns A StrengthResult for the generated password
  */
-export const calculatePasswordStrength = (
+export const calculateGeneratedStrength = (
   password: string,
   options: PasswordOptions
 ): StrengthResult => {
-  // Base score starts at 0
-  let score = 0;
-
-  // Character variety scoring: More character types = stronger password
-  let varietyCount = 0;
-  if (options.uppercase) varietyCount++;
-  if (options.lowercase) varietyCount++;
-  if (options.numbers) varietyCount++;
-  if (options.symbols) varietyCount++;
-
-  // Length scoring combined with variety
-  if (password.length < 6) {
-    score = 0; // Too weak
-  } else if (password.length < 8) {
-    score = varietyCount >= 2 ? 1 : 0; // Weak if 2+ types, otherwise too weak
-  } else if (password.length < 12) {
-    // Length 8-11: MEDIUM with 3 types, WEAK with 2 types
-    if (varietyCount >= 3) {
-      score = 2; // MEDIUM
-    } else if (varietyCount >= 2) {
-      score = 1; // WEAK
-    } else {
-      score = 0; // TOO WEAK
-    }
-  } else if (password.length < 16) {
-    // Length 12-15: STRONG with 3+ types, MEDIUM with 2 types
-    if (varietyCount >= 3) {
-      score = 3; // STRONG
-    } else {
-      score = 2; // MEDIUM
-    }
-  } else {
-    // Length 16+: STRONG or VERY STRONG
-    if (varietyCount === 4) {
-      score = 4; // VERY STRONG with all 4 types
-    } else if (varietyCount >= 3) {
-      score = 3; // STRONG with 3 types
-    } else {
-      score = 2; // MEDIUM otherwise
-    }
+  let generatorBits: number;
+  switch (options.mode) {
+    case "passphrase":
+      generatorBits = calculatePassphraseEntropy(options);
+      break;
+    case "pronounceable":
+      generatorBits = calculatePronounceableEntropy(options);
+      break;
+    case "pin":
+      return getStrengthFromEntropy(
+        calculatePinEntropy(options.pinLength),
+        PIN_STRENGTH_BANDS
+      );
+    default:
+      generatorBits = calculateEntropy(
+        getCharacterPool(getCharacterSets(options)).length,
+        password.length
+      );
+  }
+  const textBits = analyzePassword(password).bits;
+  return getStrengthFromEntropy(Math.min(generatorBits, textBits));
+};
+
+/**
+ * Generates a batch of unique passwords with the same options
+ *
+ * Duplicates are rejected and redrawn. If the options allow too few distinct
+ * passwords (e.g. a 4-digit PIN-like setup), an error is raised instead of
+ * silently returning a short batch. options.rejectBreached must be false here;
+ * use generateUnbreachedBulkPasswords to replace breached passwords.
+ *
+ * @param options - The password generation options
+ * @param count - Number of passwords (MIN_BULK_COUNT to MAX_BULK_COUNT)
+ * @param random - Random source (defaults to crypto.getRandomValues)
+ *
+ * @returns One entry per password, each with its strength
+ *
+ * @throws Error if count is out of bounds, the options are invalid (including
+ *   rejectBreached being set), or not enough unique passwords can be produced
+ */
+export const generateBulkPasswords = (
+  options: PasswordOptions,
+  count: number,
+  random: RandomSource = cryptoRandomSource
+): BulkPasswordEntry[] => {
+  if (
+    !Number.isInteger(count) ||
+    count < MIN_BULK_COUNT ||
+    count > MAX_BULK_COUNT
+  ) {
+    throw new MessageError({
+      key: "generation.bulkCountRange",
+      params: { min: MIN_BULK_COUNT, max: MAX_BULK_COUNT },
+    });
   }
 
-  // Cap the score at 4 (maximum strength level for VERY STRONG)
-  const level = Math.min(score, 4);
+  const passwords = new Set<string>();
+  // Allow plenty of redraws before concluding the keyspace is too small
+  const maxAttempts = count * 20;
 
-  // Map strength level to readable labels
-  const labels = ["TOO WEAK", "WEAK", "MEDIUM", "STRONG", "VERY STRONG"];
-  const label = level < labels.length ? labels[level] : "VERY STRONG";
+  for (let attempt = 0; attempt < maxAttempts && passwords.size < count; attempt++) {
+    passwords.add(generatePassword(options, random));
+  }
+
+  if (passwords.size < count) {
+    throw new MessageError({
+      key: "generation.tooFewUnique",
+      params: { count: passwords.size },
+    });
+  }
 
-  return { level, label };
+  return Array.from(passwords, (password) => ({
+    password,
+    strength: calculateGeneratedStrength(password, options),
+  }));
 };
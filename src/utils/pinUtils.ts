@@ -0,0 +1,245 @@
+import { PinWeakness, RandomSource } from "../types";
+import { MessageError } from "./messageFormat";
+import { cryptoRandomSource, randomElement } from "./random";
+import { COMMON_PASSWORDS } from "./wordlist";
+
+/**
+ * Bounds for the number of digits in a PIN
+ */
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 12;
+
+/**
+ * Minimum entropy (in bits) required for each PIN strength level
+ * Same levels and labels as STRENGTH_BANDS, scaled to PINs:
+ * 4 digits is WEAK, 6 MEDIUM, 8 STRONG and 10 or more VERY STRONG
+ */
+export const PIN_STRENGTH_BANDS = [0, 12, 18, 25, 32];
+
+/**
+ * Attempt limits commonly enforced where PINs are used
+ * Shown next to PIN strength as the chance of guessing within the limit
+ */
+export const PIN_ATTEMPT_LIMITS: { attempts: number; label: string }[] = [
+  { attempts: 3, label: "Card blocked after 3 tries" },
+  { attempts: 10, label: "Phone wiped after 10 tries" },
+];
+
+/**
+ * Human-readable names for each PIN weakness
+ */
+export const PIN_WEAKNESS_LABELS: Record<PinWeakness, string> = {
+  common: "Common PIN",
+  repeat: "Repeated digits",
+  sequence: "Sequence",
+  palindrome: "Palindrome",
+  date: "Date or year",
+};
+
+/**
+ * The 20 most common 4-digit PINs (DataGenetics analysis of 3.4 million PINs)
+ */
+const TOP_FOUR_DIGIT_PINS = [
+  "1234", "1111", "0000", "1212", "7777", "1004", "2000", "4444", "2222", "6969",
+  "9999", "3333", "5555", "6666", "1122", "1313", "8888", "4321", "2001", "1010",
+];
+
+/**
+ * Blacklist of common PINs: the top 4-digit PINs plus every all-digit entry
+ * (4 to 12 digits) of the bundled common password list
+ */
+const COMMON_PINS = new Set([
+  ...TOP_FOUR_DIGIT_PINS,
+  ...COMMON_PASSWORDS.filter(
+    (password) =>
+      /^\d+$/.test(password) &&
+      password.length >= MIN_PIN_LENGTH &&
+      password.length <= MAX_PIN_LENGTH
+  ),
+]);
+
+/**
+ * Date layouts rejected for each PIN length
+ * D = day, M = month, Y = two-digit year, YYYY = year from 1900 to 2099
+ *
+ * Only 4, 6 and 8 digits are checked: those are the zero-padded layouts
+ * people use. Odd lengths would need unpadded days or months ("7487"), and
+ * 9 or more digits are longer than any date, so PINs of every other length
+ * are never rejected as dates.
+ */
+const DATE_FORMATS: Record<number, string[]> = {
+  4: ["MMDD", "DDMM", "YYYY"],
+  6: ["DDMMYY", "MMDDYY", "YYMMDD", "MMYYYY"],
+  8: ["DDMMYYYY", "MMDDYYYY", "YYYYMMDD"],
+};
+
+/**
+ * Range of four-digit years treated as dates
+ */
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2099;
+
+/**
+ * Days in each month, allowing 29 February
+ */
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Steps (mod 10) between consecutive digits that count as a sequence:
+ * up or down by one ("1234", "7890", "4321") or two ("2468", "1357")
+ */
+const SEQUENCE_STEPS = [1, 2, 8, 9];
+
+/**
+ * Maximum number of candidates drawn before giving up on a strong PIN
+ */
+const MAX_PIN_ATTEMPTS = 1000;
+
+/**
+ * Checks whether a PIN reads as a date in the given layout
+ *
+ * @param pin - The PIN
+ * @param format - A layout from DATE_FORMATS
+ */
+const matchesDateFormat = (pin: string, format: string): boolean => {
+  const field = (name: string) => {
+    const start = format.indexOf(name);
+    return start === -1 ? null : parseInt(pin.slice(start, start + name.length), 10);
+  };
+
+  const year = field("YYYY");
+  if (year !== null && (year < MIN_YEAR || year > MAX_YEAR)) return false;
+  const month = field("MM");
+  if (month !== null && (month < 1 || month > 12)) return false;
+  const day = field("DD");
+  if (day !== null && (day < 1 || day > DAYS_IN_MONTH[(month ?? 1) - 1])) return false;
+  return true;
+};
+
+/**
+ * Finds the first weak pattern in a PIN
+ *
+ * Rejected patterns:
+ * - common: on the common PIN blacklist ("1234", "6969", "123456")
+ * - repeat: one block repeated ("0000", "1212", "123123")
+ * - sequence: digits rising or falling by a fixed step ("2345", "8642")
+ * - palindrome: reads the same backwards ("1221", "12321")
+ * - date: a date or year in a common layout ("0714", "1987", "250190");
+ *   only checked for 4, 6 and 8 digits (see DATE_FORMATS)
+ *
+ * @param pin - A string of digits
+ * @returns The weakness found, or null if the PIN has none
+ */
+export const getPinWeakness = (pin: string): PinWeakness | null => {
+  if (COMMON_PINS.has(pin)) return "common";
+
+  for (let size = 1; size < pin.length; size++) {
+    if (pin.length % size === 0 && pin.slice(0, size).repeat(pin.length / size) === pin) {
+      return "repeat";
+    }
+  }
+
+  const digits = pin.split("").map(Number);
+  const step = (digits[1] - digits[0] + 10) % 10;
+  if (
+    SEQUENCE_STEPS.includes(step) &&
+    digits.every((digit, index) => index === 0 || (digit - digits[index - 1] + 10) % 10 === step)
+  ) {
+    return "sequence";
+  }
+
+  if (pin === pin.split("").reverse().join("")) return "palindrome";
+
+  if ((DATE_FORMATS[pin.length] ?? []).some((format) => matchesDateFormat(pin, format))) {
+    return "date";
+  }
+
+  return null;
+};
+
+/**
+ * Upper bound on the number of PINs of a given length that getPinWeakness rejects
+ * Each pattern's count is added up, ignoring overlaps between patterns
+ *
+ * @param length - Number of digits
+ */
+const countWeakPinsUpperBound = (length: number): number => {
+  const common = Array.from(COMMON_PINS).filter((pin) => pin.length === length).length;
+
+  let repeats = 0;
+  for (let size = 1; size < length; size++) {
+    if (length % size === 0) repeats += 10 ** size;
+  }
+
+  const sequences = SEQUENCE_STEPS.length * 10;
+  const palindromes = 10 ** Math.ceil(length / 2);
+
+  const dates = (DATE_FORMATS[length] ?? []).reduce((total, format) => {
+    const days = format.includes("DD") ? 366 : 1;
+    const months = format.includes("DD") || !format.includes("MM") ? 1 : 12;
+    const years = format.includes("YYYY")
+      ? MAX_YEAR - MIN_YEAR + 1
+      : format.includes("YY")
+      ? 100
+      : 1;
+    return total + days * months * years;
+  }, 0);
+
+  return common + repeats + sequences + palindromes + dates;
+};
+
+/**
+ * Calculates the entropy of a PIN produced by generatePin
+ *
+ * Every PIN without a weakness is equally likely, so the entropy is
+ * log2(number of accepted PINs). The rejected count is over-estimated, so the
+ * result is a lower bound.
+ *
+ * @param length - Number of digits
+ * @returns Entropy in bits
+ */
+export const calculatePinEntropy = (length: number): number => {
+  return Math.log2(10 ** length - countWeakPinsUpperBound(length));
+};
+
+/**
+ * Chance that an attacker guesses a PIN within a number of attempts
+ *
+ * @param bits - PIN entropy in bits
+ * @param attempts - Number of guesses allowed
+ * @returns Probability from 0 to 1
+ */
+export const calculateGuessChance = (bits: number, attempts: number): number => {
+  return Math.min(1, attempts / 2 ** bits);
+};
+
+/**
+ * Generates a random numeric PIN without weak patterns
+ * Digits are drawn uniformly and candidates with a weakness are redrawn,
+ * so the result is uniform over all accepted PINs
+ *
+ * @param length - Number of digits (MIN_PIN_LENGTH to MAX_PIN_LENGTH)
+ * @param random - Random source (defaults to crypto.getRandomValues)
+ *
+ * @returns A PIN such as "583019"
+ *
+ * @throws Error if the length is out of bounds
+ */
+export const generatePin = (
+  length: number,
+  random: RandomSource = cryptoRandomSource
+): string => {
+  if (!Number.isInteger(length) || length < MIN_PIN_LENGTH || length > MAX_PIN_LENGTH) {
+    throw new MessageError({
+      key: "generation.pinLengthRange",
+      params: { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH },
+    });
+  }
+
+  for (let attempt = 0; attempt < MAX_PIN_ATTEMPTS; attempt++) {
+    const pin = Array.from({ length }, () => randomElement("0123456789", random)).join("");
+    if (getPinWeakness(pin) === null) return pin;
+  }
+
+  throw new MessageError({ key: "generation.pinWeak" });
+};
@@ -0,0 +1,438 @@
+import {
+  CharacterClass,
+  ClassCountRule,
+  PasswordOptions,
+  PasswordPolicy,
+  Preset,
+  PresetFile,
+} from "../types";
+import {
+  DEFAULT_PASSWORD_OPTIONS,
+  MAX_PASSPHRASE_WORDS,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSPHRASE_WORDS,
+  MIN_PASSWORD_LENGTH,
+} from "./passwordUtils";
+import { MessageError } from "./messageFormat";
+import { DEFAULT_POLICY, POSITION_RULE_LABELS } from "./passwordPolicy";
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH } from "./pinUtils";
+
+/**
+ * Current version of the preset file format
+ *
+ * Version history:
+ * - 1: presets had only a name and the original options
+ *   (length, uppercase, lowercase, numbers, symbols)
+ * - 2: presets have an id and the full PasswordOptions
+ */
+export const PRESET_FILE_VERSION = 2;
+
+/**
+ * localStorage keys for saved presets and the last selected preset
+ */
+const PRESETS_STORAGE_KEY = "password-generator:presets";
+const ACTIVE_PRESET_STORAGE_KEY = "password-generator:active-preset";
+
+/**
+ * Presets shipped with the app (always available, never stored)
+ */
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: "aws",
+    name: "AWS IAM",
+    builtIn: true,
+    options: {
+      ...DEFAULT_PASSWORD_OPTIONS,
+      length: 32,
+      symbols: true,
+    },
+  },
+  {
+    id: "wifi",
+    name: "Wi-Fi WPA2",
+    builtIn: true,
+    options: {
+      ...DEFAULT_PASSWORD_OPTIONS,
+      length: 63, // Longest WPA2 passphrase
+      symbols: true,
+      avoidAmbiguous: true,
+    },
+  },
+  {
+    id: "mainframe",
+    name: "Legacy Mainframe (8 alnum)",
+    builtIn: true,
+    options: {
+      ...DEFAULT_PASSWORD_OPTIONS,
+      length: 8,
+      symbols: false,
+    },
+  },
+];
+
+/**
+ * Converts a preset name into a URL-safe identifier
+ *
+ * @param name - The preset name
+ * @returns e.g. "AWS IAM" -> "aws-iam"
+ */
+export const slugifyPresetName = (name: string): string => {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "preset"
+  );
+};
+
+/**
+ * Type guard for plain objects
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * The error message for each type of field readField checks
+ */
+const FIELD_TYPE_MESSAGES = {
+  string: "presetFile.mustBeString",
+  number: "presetFile.mustBeNumber",
+  boolean: "presetFile.mustBeBoolean",
+} as const;
+
+/**
+ * Reads an optional field, checking its type
+ * Missing fields fall back to the default; present fields of the wrong type are rejected
+ *
+ * @param source - The object being validated
+ * @param key - Field name
+ * @param fallback - Value used when the field is missing
+ * @param path - Location of the field (for error messages)
+ * @throws Error if the field is present with a different type than the fallback
+ */
+const readField = <T extends string | number | boolean>(
+  source: Record<string, unknown>,
+  key: string,
+  fallback: T,
+  path: string
+): T => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== typeof fallback) {
+    throw new MessageError({
+      key: FIELD_TYPE_MESSAGES[typeof fallback as keyof typeof FIELD_TYPE_MESSAGES],
+      params: { path: `${path}.${key}` },
+    });
+  }
+  return value as T;
+};
+
+/**
+ * Reads a field that must be one of a fixed set of values
+ *
+ * @throws Error if the field is present with an unknown value
+ */
+const readEnumField = <T extends string>(
+  source: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[],
+  fallback: T,
+  path: string
+): T => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new MessageError({
+      key: "presetFile.mustBeOneOf",
+      params: { path: `${path}.${key}`, values: allowed.join(", ") },
+    });
+  }
+  return value as T;
+};
+
+/**
+ * Reads a non-negative integer or null field
+ *
+ * @throws Error if the field is present but not a non-negative integer or null
+ */
+const readCountField = (
+  source: Record<string, unknown>,
+  key: string,
+  fallback: number | null,
+  path: string
+): number | null => {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (value === null) return null;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new MessageError({
+      key: "presetFile.mustBeCount",
+      params: { path: `${path}.${key}` },
+    });
+  }
+  return value;
+};
+
+/**
+ * Clamps a number into a range
+ */
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, Math.round(value)));
+
+/**
+ * Validates a stored password policy, filling missing fields from DEFAULT_POLICY
+ *
+ * @param value - Untrusted policy value
+ * @param path - Location of the policy (for error messages)
+ */
+const sanitizePolicy = (value: unknown, path: string): PasswordPolicy => {
+  if (value === undefined) return DEFAULT_POLICY;
+  if (!isRecord(value)) {
+    throw new MessageError({ key: "presetFile.mustBeObject", params: { path } });
+  }
+
+  const rawRules = value.classRules ?? {};
+  if (!isRecord(rawRules)) {
+    throw new MessageError({
+      key: "presetFile.mustBeObject",
+      params: { path: `${path}.classRules` },
+    });
+  }
+
+  const classRules = { ...DEFAULT_POLICY.classRules };
+  (Object.keys(classRules) as CharacterClass[]).forEach((key) => {
+    const rawRule = rawRules[key];
+    if (rawRule === undefined) return;
+    if (!isRecord(rawRule)) {
+      throw new MessageError({
+        key: "presetFile.mustBeObject",
+        params: { path: `${path}.classRules.${key}` },
+      });
+    }
+    const rulePath = `${path}.classRules.${key}`;
+    const rule: ClassCountRule = {
+      min: readCountField(rawRule, "min", 0, rulePath) ?? 0,
+      max: readCountField(rawRule, "max", null, rulePath),
+    };
+    classRules[key] = rule;
+  });
+
+  const positionRules = Object.keys(POSITION_RULE_LABELS) as PasswordPolicy["firstChar"][];
+
+  return {
+    classRules,
+    maxRunLength: readCountField(value, "maxRunLength", null, path),
+    firstChar: readEnumField(value, "firstChar", positionRules, "any", path),
+    lastChar: readEnumField(value, "lastChar", positionRules, "any", path),
+  };
+};
+
+/**
+ * Validates untrusted options, filling missing fields from DEFAULT_PASSWORD_OPTIONS
+ *
+ * Out-of-range numbers are clamped the same way the UI clamps them, so older
+ * presets keep working when fields are added or bounds change.
+ *
+ * @param value - Untrusted options value (e.g. from localStorage or an imported file)
+ * @param path - Location of the options (for error messages)
+ * @returns Complete, valid PasswordOptions
+ * @throws Error if a field has the wrong type or an unknown value
+ */
+export const sanitizeOptions = (
+  value: unknown,
+  path = "options"
+): PasswordOptions => {
+  if (!isRecord(value)) {
+    throw new MessageError({ key: "presetFile.mustBeObject", params: { path } });
+  }
+  const defaults = DEFAULT_PASSWORD_OPTIONS;
+
+  return {
+    mode: readEnumField(
+      value,
+      "mode",
+      ["password", "passphrase", "pronounceable", "pin"],
+      defaults.mode,
+      path
+    ),
+    length: clamp(
+      readField(value, "length", defaults.length, path),
+      MIN_PASSWORD_LENGTH,
+      MAX_PASSWORD_LENGTH
+    ),
+    uppercase: readField(value, "uppercase", defaults.uppercase, path),
+    lowercase: readField(value, "lowercase", defaults.lowercase, path),
+    numbers: readField(value, "numbers", defaults.numbers, path),
+    symbols: readField(value, "symbols", defaults.symbols, path),
+    wordCount: clamp(
+      readField(value, "wordCount", defaults.wordCount, path),
+      MIN_PASSPHRASE_WORDS,
+      MAX_PASSPHRASE_WORDS
+    ),
+    separator: readField(value, "separator", defaults.separator, path),
+    capitalization: readEnumField(
+      value,
+      "capitalization",
+      ["lowercase", "uppercase", "capitalize", "random"],
+      defaults.capitalization,
+      path
+    ),
+    includeNumber: readField(value, "includeNumber", defaults.includeNumber, path),
+    includeSymbol: readField(value, "includeSymbol", defaults.includeSymbol, path),
+    pinLength: clamp(
+      readField(value, "pinLength", defaults.pinLength, path),
+      MIN_PIN_LENGTH,
+      MAX_PIN_LENGTH
+    ),
+    symbolChars: readField(value, "symbolChars", defaults.symbolChars, path),
+    extraChars: readField(value, "extraChars", defaults.extraChars, path),
+    excludeChars: readField(value, "excludeChars", defaults.excludeChars, path),
+    avoidAmbiguous: readField(value, "avoidAmbiguous", defaults.avoidAmbiguous, path),
+    policy: sanitizePolicy(value.policy, `${path}.policy`),
+    rejectBreached: readField(value, "rejectBreached", defaults.rejectBreached, path),
+  };
+};
+
+/**
+ * Upgrades a preset file from an older version to the next one
+ * Keyed by the version being migrated from
+ */
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 -> v2: derive ids from names; options only had length and character flags
+  1: (file) => ({
+    version: 2,
+    presets: (Array.isArray(file.presets) ? file.presets : []).map(
+      (preset: unknown) =>
+        isRecord(preset)
+          ? {
+              ...preset,
+              id: slugifyPresetName(String(preset.name ?? "")),
+              options: { ...(isRecord(preset.options) ? preset.options : {}), mode: "password" },
+            }
+          : preset
+    ),
+  }),
+};
+
+/**
+ * Parses and validates a preset file, migrating older versions
+ *
+ * @param value - Parsed JSON from localStorage or an imported file
+ * @returns The valid presets in the file
+ * @throws Error describing the first problem found
+ */
+export const parsePresetFile = (value: unknown): Preset[] => {
+  if (!isRecord(value)) throw new MessageError({ key: "presetFile.notObject" });
+
+  let file = value;
+  if (typeof file.version !== "number" || !Number.isInteger(file.version)) {
+    throw new MessageError({ key: "presetFile.missingVersion" });
+  }
+  if (file.version > PRESET_FILE_VERSION) {
+    throw new MessageError({
+      key: "presetFile.newerVersion",
+      params: { version: String(file.version), supported: String(PRESET_FILE_VERSION) },
+    });
+  }
+  while ((file.version as number) < PRESET_FILE_VERSION) {
+    const migrate = MIGRATIONS[file.version as number];
+    if (!migrate) {
+      throw new MessageError({
+        key: "presetFile.unsupportedVersion",
+        params: { version: String(file.version) },
+      });
+    }
+    file = migrate(file);
+  }
+
+  if (!Array.isArray(file.presets)) {
+    throw new MessageError({ key: "presetFile.missingPresets" });
+  }
+
+  return file.presets.map((preset: unknown, index: number) => {
+    const path = `presets[${index}]`;
+    if (!isRecord(preset)) {
+      throw new MessageError({ key: "presetFile.mustBeObject", params: { path } });
+    }
+    if (typeof preset.name !== "string" || !preset.name.trim()) {
+      throw new MessageError({
+        key: "presetFile.mustBeName",
+        params: { path: `${path}.name` },
+      });
+    }
+    const id =
+      typeof preset.id === "string" && preset.id
+        ? slugifyPresetName(preset.id)
+        : slugifyPresetName(preset.name);
+
+    return {
+      id,
+      name: preset.name.trim(),
+      options: sanitizeOptions(preset.options, `${path}.options`),
+    };
+  });
+};
+
+/**
+ * Serializes presets into the current preset file format
+ * Built-in presets are never included
+ *
+ * @param presets - The presets to serialize
+ * @returns Pretty-printed JSON
+ */
+export const serializePresets = (presets: Preset[]): string => {
+  const file: PresetFile = {
+    version: PRESET_FILE_VERSION,
+    presets: presets
+      .filter(({ builtIn }) => !builtIn)
+      .map(({ id, name, options }) => ({ id, name, options })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Loads user presets from localStorage
+ * Invalid stored data is logged and ignored rather than breaking the app
+ */
+export const loadStoredPresets = (): Preset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return stored ? parsePresetFile(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.error("Failed to load saved presets:", error);
+    return [];
+  }
+};
+
+/**
+ * Saves user presets to localStorage
+ *
+ * @param presets - The presets to store (built-ins are skipped)
+ */
+export const storePresets = (presets: Preset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, serializePresets(presets));
+};
+
+/**
+ * Reads the id of the last selected preset
+ */
+export const loadActivePresetId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PRESET_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remembers the selected preset (or forgets it when null)
+ *
+ * @param id - The preset id
+ */
+export const storeActivePresetId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_PRESET_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PRESET_STORAGE_KEY);
+  }
+};
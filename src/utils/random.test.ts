@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { RandomSource } from "../types";
+import {
+  createSeededRandomSource,
+  randomBigInt,
+  randomElement,
+  randomInt,
+  shuffle,
+} from "./random";
+import {
+  chiSquareCritical,
+  chiSquareUniform,
+  countSamples,
+} from "../test/statistics";
+
+/**
+ * Random source that only produces the values 0-255, so a plain `% max`
+ * over it is visibly biased (used to check the chi-square test catches bias)
+ */
+const createByteRandomSource = (seed: number): RandomSource => {
+  const source = createSeededRandomSource(seed);
+  return { nextUint32: () => source.nextUint32() & 0xff };
+};
+
+/**
+ * Maps a permutation of 0..n-1 to its index among all n! permutations
+ * (Lehmer code), so permutation counts can be tested for uniformity
+ */
+const permutationIndex = (permutation: number[]): number => {
+  let index = 0;
+  for (let i = 0; i < permutation.length; i++) {
+    const smallerAfter = permutation
+      .slice(i + 1)
+      .filter((value) => value < permutation[i]).length;
+    index = index * (permutation.length - i) + smallerAfter;
+  }
+  return index;
+};
+
+describe("createSeededRandomSource", () => {
+  it("produces the same sequence for the same seed", () => {
+    const first = createSeededRandomSource(42);
+    const second = createSeededRandomSource(42);
+    const draw = (source: RandomSource) =>
+      Array.from({ length: 10 }, () => source.nextUint32());
+
+    expect(draw(first)).toEqual(draw(second));
+  });
+
+  it("produces different sequences for different seeds", () => {
+    expect(createSeededRandomSource(1).nextUint32()).not.toBe(
+      createSeededRandomSource(2).nextUint32()
+    );
+  });
+});
+
+describe("randomInt", () => {
+  it("stays within [0, max)", () => {
+    const source = createSeededRandomSource(7);
+    for (const max of [1, 2, 3, 10, 94, 1000, 2 ** 31 + 1]) {
+      for (let i = 0; i < 200; i++) {
+        const value = randomInt(max, source);
+        expect(Number.isInteger(value)).toBe(true);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(max);
+      }
+    }
+  });
+
+  it.each([0, -1, 1.5, NaN, 2 ** 32 + 1])("rejects the bound %s", (max) => {
+    expect(() => randomInt(max, createSeededRandomSource(1))).toThrow(
+      "randomInt bound must be an integer from 1 to 2^32"
+    );
+  });
+
+  it.each([2, 7, 10, 26, 94])("is uniform over %i values", (max) => {
+    const source = createSeededRandomSource(max);
+    const counts = countSamples(max, max * 2000, () => randomInt(max, source));
+
+    expect(chiSquareUniform(counts)).toBeLessThan(chiSquareCritical(max - 1));
+  });
+
+  it("uses a test that catches plain modulo bias", () => {
+    // 256 % 10 = 6, so a plain modulo over bytes picks 0-5 more often than 6-9
+    const source = createByteRandomSource(3);
+    const counts = countSamples(10, 200000, () => source.nextUint32() % 10);
+
+    expect(chiSquareUniform(counts)).toBeGreaterThan(chiSquareCritical(9));
+  });
+});
+
+describe("randomBigInt", () => {
+  it("stays within [0, max) for bounds wider than 32 bits", () => {
+    const source = createSeededRandomSource(11);
+    const max = BigInt(2) ** BigInt(70) + BigInt(3);
+    for (let i = 0; i < 500; i++) {
+      const value = randomBigInt(max, source);
+      expect(value >= BigInt(0) && value < max).toBe(true);
+    }
+  });
+
+  it("is uniform over a small bound", () => {
+    const source = createSeededRandomSource(12);
+    const counts = countSamples(12, 24000, () =>
+      Number(randomBigInt(BigInt(12), source))
+    );
+
+    expect(chiSquareUniform(counts)).toBeLessThan(chiSquareCritical(11));
+  });
+});
+
+describe("randomElement", () => {
+  it("is uniform over the characters of a string", () => {
+    const alphabet = "abcdefghijklmnopqrstuvwxyz";
+    const source = createSeededRandomSource(26);
+    const counts = countSamples(alphabet.length, 52000, () =>
+      alphabet.indexOf(randomElement(alphabet, source))
+    );
+
+    expect(chiSquareUniform(counts)).toBeLessThan(
+      chiSquareCritical(alphabet.length - 1)
+    );
+  });
+});
+
+describe("shuffle", () => {
+  it("keeps every element", () => {
+    const items = Array.from({ length: 50 }, (_, i) => i);
+    const shuffled = shuffle([...items], createSeededRandomSource(5));
+
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+  });
+
+  it("produces every permutation equally often", () => {
+    // 4! = 24 permutations
+    const source = createSeededRandomSource(24);
+    const counts = countSamples(24, 48000, () =>
+      permutationIndex(shuffle([0, 1, 2, 3], source))
+    );
+
+    expect(counts.every((count) => count > 0)).toBe(true);
+    expect(chiSquareUniform(counts)).toBeLessThan(chiSquareCritical(23));
+  });
+
+  it("would catch the classic off-by-one shuffle", () => {
+    // Swapping with any index (not just 0..i) gives a non-uniform result
+    const source = createSeededRandomSource(24);
+    const counts = countSamples(24, 48000, () => {
+      const array = [0, 1, 2, 3];
+      for (let i = array.length - 1; i > 0; i--) {
+        const j = randomInt(array.length, source);
+        [array[i], array[j]] = [array[j], array[i]];
+      }
+      return permutationIndex(array);
+    });
+
+    expect(chiSquareUniform(counts)).toBeGreaterThan(chiSquareCritical(23));
+  });
+});
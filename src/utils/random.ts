@@ -0,0 +1,132 @@
+import { RandomSource } from "../types";
+
+/**
+ * Number of distinct values a RandomSource can produce (2^32)
+ */
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Default random source backed by the Web Crypto API
+ * Values are fetched in batches to avoid one getRandomValues call per draw
+ * Uses globalThis.crypto so it works unchanged in browsers and Node
+ */
+export const cryptoRandomSource: RandomSource = (() => {
+  const buffer = new Uint32Array(256);
+  let position = buffer.length;
+
+  return {
+    nextUint32: () => {
+      if (position >= buffer.length) {
+        globalThis.crypto.getRandomValues(buffer);
+        position = 0;
+      }
+      return buffer[position++];
+    },
+  };
+})();
+
+/**
+ * Creates a deterministic random source from a numeric seed (Mulberry32)
+ *
+ * NOT cryptographically secure: intended for reproducible unit tests and
+ * statistical checks of the generator, never for real passwords.
+ *
+ * @param seed - Any 32-bit integer seed
+ * @returns A RandomSource producing the same sequence for the same seed
+ */
+export const createSeededRandomSource = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+
+  return {
+    nextUint32: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return (t ^ (t >>> 14)) >>> 0;
+    },
+  };
+};
+
+/**
+ * Returns a uniformly distributed random integer in the range [0, max)
+ *
+ * Uses rejection sampling instead of `value % max`: values from the final,
+ * incomplete multiple of max are discarded so every result is equally likely.
+ *
+ * @param max - Exclusive upper bound (1 to 2^32)
+ * @param source - Random source to draw from
+ * @throws Error if max is out of range
+ */
+export const randomInt = (
+  max: number,
+  source: RandomSource = cryptoRandomSource
+): number => {
+  if (!Number.isInteger(max) || max < 1 || max > UINT32_RANGE) {
+    throw new Error(`randomInt bound must be an integer from 1 to 2^32, got ${max}`);
+  }
+
+  // Largest multiple of max that fits in the 32-bit range
+  const limit = UINT32_RANGE - (UINT32_RANGE % max);
+  for (;;) {
+    const value = source.nextUint32();
+    if (value < limit) return value % max;
+  }
+};
+
+/**
+ * Returns a uniformly distributed random BigInt in the range [0, max)
+ * Uses rejection sampling on the smallest bit mask covering max
+ *
+ * @param max - Exclusive upper bound (must be positive)
+ * @param source - Random source to draw from
+ */
+export const randomBigInt = (
+  max: bigint,
+  source: RandomSource = cryptoRandomSource
+): bigint => {
+  const bits = max.toString(2).length;
+  const words = Math.ceil(bits / 32);
+  const mask = (BigInt(1) << BigInt(bits)) - BigInt(1);
+
+  for (;;) {
+    let value = BigInt(0);
+    for (let i = 0; i < words; i++) {
+      value = (value << BigInt(32)) | BigInt(source.nextUint32());
+    }
+    value &= mask;
+    if (value < max) return value;
+  }
+};
+
+/**
+ * Shuffles an array in place using the Fisher–Yates algorithm
+ * Every permutation is equally likely (unlike sorting with a random comparator)
+ *
+ * @param array - The array to shuffle
+ * @param source - Random source to draw from
+ * @returns The same array, shuffled
+ */
+export const shuffle = <T>(
+  array: T[],
+  source: RandomSource = cryptoRandomSource
+): T[] => {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1, source);
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+  return array;
+};
+
+/**
+ * Picks a uniformly random element from a string or array
+ *
+ * @param items - The characters or items to choose from (must not be empty)
+ * @param source - Random source to draw from
+ */
+export const randomElement = <T>(
+  items: ArrayLike<T>,
+  source: RandomSource = cryptoRandomSource
+): T => {
+  return items[randomInt(items.length, source)];
+};
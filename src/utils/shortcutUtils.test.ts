@@ -0,0 +1,127 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  findShortcutAction,
+  formatBinding,
+  getEventBinding,
+  hasCommandModifier,
+  isEditableTarget,
+  loadShortcutBindings,
+  SHORTCUTS,
+  storeShortcutBindings,
+} from "./shortcutUtils";
+
+/**
+ * A key press with no modifiers held unless given
+ */
+const keyEvent = (key: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+describe("getEventBinding", () => {
+  it.each([
+    [keyEvent("g", { ctrlKey: true }), "Mod+G"],
+    [keyEvent("k", { metaKey: true }), "Mod+K"],
+    [keyEvent("c"), "C"],
+    [keyEvent("P", { shiftKey: true }), "Shift+P"],
+    [keyEvent("?", { shiftKey: true }), "?"],
+    [keyEvent("}", { shiftKey: true }), "}"],
+    [keyEvent("ArrowUp", { shiftKey: true }), "Shift+ArrowUp"],
+    [keyEvent(" ", { altKey: true }), "Alt+Space"],
+    [keyEvent("+", { ctrlKey: true }), "Mod++"],
+  ])("records %o as %s", (event, binding) => {
+    expect(getEventBinding(event)).toBe(binding);
+  });
+
+  it.each(["Control", "Shift", "Meta", "Alt", "Dead"])(
+    "ignores a lone %s key",
+    (key) => {
+      expect(getEventBinding(keyEvent(key))).toBeNull();
+    }
+  );
+});
+
+describe("formatBinding", () => {
+  it("uses the platform's key names", () => {
+    expect(formatBinding("Mod+Shift+P", false)).toEqual(["Ctrl", "Shift", "P"]);
+    expect(formatBinding("Mod+Shift+P", true)).toEqual(["⌘", "⇧", "P"]);
+    expect(formatBinding("Mod++", false)).toEqual(["Ctrl", "+"]);
+    expect(formatBinding("ArrowUp", false)).toEqual(["↑"]);
+  });
+});
+
+describe("hasCommandModifier", () => {
+  it("is true only for Ctrl/Cmd and Alt combinations", () => {
+    expect(hasCommandModifier("Mod+G")).toBe(true);
+    expect(hasCommandModifier("Alt+N")).toBe(true);
+    expect(hasCommandModifier("Shift+P")).toBe(false);
+    expect(hasCommandModifier("+")).toBe(false);
+  });
+});
+
+describe("isEditableTarget", () => {
+  it("is true for text fields and false for other controls", () => {
+    const text = document.createElement("input");
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+
+    expect(isEditableTarget(text)).toBe(true);
+    expect(isEditableTarget(document.createElement("textarea"))).toBe(true);
+    expect(isEditableTarget(checkbox)).toBe(false);
+    expect(isEditableTarget(document.createElement("button"))).toBe(false);
+    expect(isEditableTarget(window)).toBe(false);
+  });
+});
+
+describe("default bindings", () => {
+  it("bind every action to a different combination", () => {
+    const bindings = SHORTCUTS.map(({ defaultBinding }) => defaultBinding);
+    expect(new Set(bindings).size).toBe(SHORTCUTS.length);
+  });
+
+  it("find the action bound to a combination", () => {
+    expect(findShortcutAction(DEFAULT_SHORTCUT_BINDINGS, "Mod+K")).toBe("openPalette");
+    expect(findShortcutAction(DEFAULT_SHORTCUT_BINDINGS, "Mod+Q")).toBeNull();
+  });
+});
+
+describe("stored bindings", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("round-trip through localStorage", () => {
+    const bindings = { ...DEFAULT_SHORTCUT_BINDINGS, copy: "Mod+Shift+C", openHelp: null };
+    storeShortcutBindings(bindings);
+
+    expect(loadShortcutBindings()).toEqual(bindings);
+  });
+
+  it("fall back to the defaults for missing or malformed entries", () => {
+    localStorage.setItem(
+      "password-generator:shortcuts",
+      JSON.stringify({ copy: 42, generate: "", unknownAction: "X" })
+    );
+    expect(loadShortcutBindings()).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+
+    localStorage.setItem("password-generator:shortcuts", "not json");
+    expect(loadShortcutBindings()).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+  });
+
+  it("unbind later actions that reuse a combination", () => {
+    localStorage.setItem(
+      "password-generator:shortcuts",
+      JSON.stringify({ copy: "Mod+G" })
+    );
+
+    const bindings = loadShortcutBindings();
+    expect(bindings.generate).toBe("Mod+G");
+    expect(bindings.copy).toBeNull();
+  });
+});
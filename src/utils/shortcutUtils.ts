@@ -0,0 +1,230 @@
+import {
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutDefinition,
+} from "../types";
+
+/**
+ * Registry of every action that can be run from the keyboard or the command
+ * palette, in the order they are listed in the help dialog
+ */
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: "generate", group: "password", defaultBinding: "Mod+G" },
+  { action: "copy", group: "password", defaultBinding: "C" },
+  { action: "lengthUp", group: "length", defaultBinding: "]" },
+  { action: "lengthDown", group: "length", defaultBinding: "[" },
+  { action: "lengthUpFive", group: "length", defaultBinding: "}" },
+  { action: "lengthDownFive", group: "length", defaultBinding: "{" },
+  { action: "toggleUppercase", group: "characterTypes", defaultBinding: "U" },
+  { action: "toggleLowercase", group: "characterTypes", defaultBinding: "L" },
+  { action: "toggleNumbers", group: "characterTypes", defaultBinding: "N" },
+  { action: "toggleSymbols", group: "characterTypes", defaultBinding: "S" },
+  { action: "nextPreset", group: "presets", defaultBinding: "P" },
+  { action: "previousPreset", group: "presets", defaultBinding: "Shift+P" },
+  { action: "openHelp", group: "general", defaultBinding: "?" },
+  { action: "openPalette", group: "general", defaultBinding: "Mod+K" },
+];
+
+/**
+ * Bindings used until the user changes them
+ */
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUTS.map(({ action, defaultBinding }) => [action, defaultBinding])
+) as ShortcutBindings;
+
+/**
+ * localStorage key for the user's bindings
+ */
+const SHORTCUTS_STORAGE_KEY = "password-generator:shortcuts";
+
+/**
+ * Keys that only modify other keys and can't be bound on their own
+ */
+const MODIFIER_KEYS = ["Control", "Meta", "Shift", "Alt", "AltGraph", "CapsLock", "OS", "Fn"];
+
+/**
+ * Modifiers that make a shortcut safe to run while typing in a text field
+ */
+const COMMAND_MODIFIERS = ["Mod", "Alt"];
+
+/**
+ * Input types that don't take text, so plain-key shortcuts still work on them
+ */
+const NON_TEXT_INPUT_TYPES = ["checkbox", "radio", "range", "button", "submit", "reset", "color", "file"];
+
+/**
+ * Display names for keys whose event name isn't readable on its own
+ */
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Escape: "Esc",
+};
+
+/**
+ * Whether the app runs on an Apple platform, where "Mod" is the Cmd key
+ */
+const IS_APPLE_PLATFORM =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+/**
+ * Splits a binding into its modifiers and key
+ * Handles bindings for the "+" key itself (e.g. "Mod++")
+ *
+ * @param binding - A binding such as "Mod+Shift+P"
+ */
+const splitBinding = (binding: string): { modifiers: string[]; key: string } => {
+  if (binding.endsWith("++") || binding === "+") {
+    return { modifiers: binding.slice(0, -2).split("+").filter(Boolean), key: "+" };
+  }
+  const parts = binding.split("+");
+  return { modifiers: parts.slice(0, -1), key: parts[parts.length - 1] };
+};
+
+/**
+ * Converts a keyboard event into a binding string
+ *
+ * Ctrl and Cmd both count as "Mod". Letters are upper-cased and keep Shift
+ * ("Shift+P"); other printable characters already include Shift, so "?" is
+ * recorded rather than "Shift+/".
+ *
+ * @param event - The keyboard event
+ * @returns A binding such as "Mod+K", or null for a lone modifier key
+ */
+export const getEventBinding = (
+  event: Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">
+): string | null => {
+  if (
+    MODIFIER_KEYS.includes(event.key) ||
+    event.key === "Dead" ||
+    event.key === "Unidentified"
+  ) {
+    return null;
+  }
+
+  const key = event.key === " " ? "Space" : event.key;
+  const isLetter = /^[a-z]$/i.test(key);
+  const isPrintable = key.length === 1;
+
+  const modifiers: string[] = [];
+  if (event.ctrlKey || event.metaKey) modifiers.push("Mod");
+  if (event.altKey) modifiers.push("Alt");
+  if (event.shiftKey && (isLetter || !isPrintable)) modifiers.push("Shift");
+
+  return [...modifiers, isLetter ? key.toUpperCase() : key].join("+");
+};
+
+/**
+ * Formats a binding for display, one entry per key to press
+ *
+ * @param binding - A binding such as "Mod+Shift+P"
+ * @param isApple - Whether to use macOS key names (defaults to the current platform)
+ * @returns e.g. ["Ctrl", "Shift", "P"] or ["⌘", "⇧", "P"]
+ */
+export const formatBinding = (
+  binding: string,
+  isApple: boolean = IS_APPLE_PLATFORM
+): string[] => {
+  const { modifiers, key } = splitBinding(binding);
+  const modifierLabels: Record<string, string> = isApple
+    ? { Mod: "⌘", Alt: "⌥", Shift: "⇧" }
+    : { Mod: "Ctrl", Alt: "Alt", Shift: "Shift" };
+
+  return [
+    ...modifiers.map((modifier) => modifierLabels[modifier] ?? modifier),
+    KEY_LABELS[key] ?? key,
+  ];
+};
+
+/**
+ * Checks whether a binding uses Ctrl/Cmd or Alt, so it can't type text
+ *
+ * @param binding - The binding to check
+ */
+export const hasCommandModifier = (binding: string): boolean => {
+  return splitBinding(binding).modifiers.some((modifier) =>
+    COMMAND_MODIFIERS.includes(modifier)
+  );
+};
+
+/**
+ * Checks whether a keyboard event comes from a field the user types into
+ * Plain-key shortcuts are ignored there so typing "c" doesn't copy the password
+ *
+ * @param target - The event target
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true;
+  }
+  return (
+    target instanceof HTMLInputElement &&
+    !NON_TEXT_INPUT_TYPES.includes(target.type)
+  );
+};
+
+/**
+ * Finds the action bound to a key combination
+ *
+ * @param bindings - The current bindings
+ * @param binding - The pressed combination
+ * @returns The bound action, or null if the combination is unbound
+ */
+export const findShortcutAction = (
+  bindings: ShortcutBindings,
+  binding: string
+): ShortcutAction | null => {
+  const match = SHORTCUTS.find(({ action }) => bindings[action] === binding);
+  return match ? match.action : null;
+};
+
+/**
+ * Reads the user's bindings, falling back to the default for missing or
+ * malformed entries (e.g. actions added since the bindings were saved)
+ */
+export const loadShortcutBindings = (): ShortcutBindings => {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(SHORTCUTS_STORAGE_KEY) ?? "{}"
+    );
+    if (typeof stored !== "object" || stored === null) {
+      return { ...DEFAULT_SHORTCUT_BINDINGS };
+    }
+
+    const bindings = { ...DEFAULT_SHORTCUT_BINDINGS };
+    const used = new Set<string>();
+    SHORTCUTS.forEach(({ action }) => {
+      const value = (stored as Record<string, unknown>)[action];
+      if (value === null || (typeof value === "string" && value !== "")) {
+        bindings[action] = value;
+      }
+    });
+    // A combination can only run one action; later duplicates are unbound
+    SHORTCUTS.forEach(({ action }) => {
+      const binding = bindings[action];
+      if (binding === null) return;
+      if (used.has(binding)) bindings[action] = null;
+      used.add(binding);
+    });
+    return bindings;
+  } catch {
+    return { ...DEFAULT_SHORTCUT_BINDINGS };
+  }
+};
+
+/**
+ * Remembers the user's bindings
+ *
+ * @param bindings - The bindings to store
+ */
+export const storeShortcutBindings = (bindings: ShortcutBindings) => {
+  try {
+    localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.error("Failed to store shortcuts:", err);
+  }
+};
@@ -0,0 +1,63 @@
+/** @vitest-environment jsdom */
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  applyTheme,
+  DEFAULT_THEME_SETTINGS,
+  loadThemeSettings,
+  resolveTheme,
+  storeThemeSettings,
+} from "./themeUtils";
+
+describe("resolveTheme", () => {
+  it("uses an explicit choice regardless of the OS settings", () => {
+    expect(resolveTheme("dark", true, true)).toBe("dark");
+    expect(resolveTheme("light", false, true)).toBe("light");
+    expect(resolveTheme("high-contrast", true, false)).toBe("high-contrast");
+  });
+
+  it("follows the OS colour scheme and contrast for system", () => {
+    expect(resolveTheme("system", false, false)).toBe("dark");
+    expect(resolveTheme("system", true, false)).toBe("light");
+    expect(resolveTheme("system", true, true)).toBe("high-contrast");
+  });
+});
+
+describe("applyTheme", () => {
+  afterEach(() => {
+    delete document.documentElement.dataset.theme;
+    delete document.documentElement.dataset.accent;
+  });
+
+  it("selects the theme and accent tokens on the root element", () => {
+    applyTheme("light", "pink");
+
+    expect(document.documentElement).toHaveAttribute("data-theme", "light");
+    expect(document.documentElement).toHaveAttribute("data-accent", "pink");
+  });
+});
+
+describe("stored theme settings", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("round-trip through localStorage", () => {
+    storeThemeSettings({ preference: "high-contrast", accent: "blue" });
+
+    expect(loadThemeSettings()).toEqual({ preference: "high-contrast", accent: "blue" });
+  });
+
+  it("fall back to the defaults for unknown or malformed values", () => {
+    localStorage.setItem(
+      "password-generator:theme",
+      JSON.stringify({ preference: "sepia", accent: "blue" })
+    );
+    expect(loadThemeSettings()).toEqual({ ...DEFAULT_THEME_SETTINGS, accent: "blue" });
+
+    localStorage.setItem("password-generator:theme", "null");
+    expect(loadThemeSettings()).toEqual(DEFAULT_THEME_SETTINGS);
+
+    localStorage.setItem("password-generator:theme", "{");
+    expect(loadThemeSettings()).toEqual(DEFAULT_THEME_SETTINGS);
+  });
+});
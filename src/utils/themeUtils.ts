@@ -0,0 +1,122 @@
+import { AccentColor, Theme, ThemePreference, ThemeSettings } from "../types";
+import { MessageKey } from "../locales";
+
+/**
+ * Themes offered in the UI
+ */
+export const THEME_OPTIONS: { value: ThemePreference; label: MessageKey }[] = [
+  { value: "system", label: "theme.system" },
+  { value: "dark", label: "theme.dark" },
+  { value: "light", label: "theme.light" },
+  { value: "high-contrast", label: "theme.high-contrast" },
+];
+
+/**
+ * Accent colours offered in the UI
+ */
+export const ACCENT_OPTIONS: { value: AccentColor; label: MessageKey }[] = [
+  { value: "green", label: "accent.green" },
+  { value: "blue", label: "accent.blue" },
+  { value: "yellow", label: "accent.yellow" },
+  { value: "pink", label: "accent.pink" },
+];
+
+/**
+ * Theme settings used until the user picks their own
+ */
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = {
+  preference: "system",
+  accent: "green",
+};
+
+/**
+ * localStorage key for the theme settings (also read by the inline script in
+ * index.html, which applies them before the first paint)
+ */
+const THEME_STORAGE_KEY = "password-generator:theme";
+
+/**
+ * Media queries for the OS appearance settings that "system" follows
+ */
+export const PREFERS_LIGHT_QUERY = "(prefers-color-scheme: light)";
+export const PREFERS_MORE_CONTRAST_QUERY = "(prefers-contrast: more)";
+
+/**
+ * Picks the theme to apply for a preference
+ * "system" uses the OS setting: high contrast when more contrast is
+ * requested, otherwise light or dark to match the colour scheme
+ *
+ * @param preference - The user's preference
+ * @param prefersLight - Whether the OS asks for a light colour scheme
+ * @param prefersMoreContrast - Whether the OS asks for more contrast
+ * @returns The theme to apply
+ */
+export const resolveTheme = (
+  preference: ThemePreference,
+  prefersLight: boolean,
+  prefersMoreContrast: boolean
+): Theme => {
+  if (preference !== "system") return preference;
+  if (prefersMoreContrast) return "high-contrast";
+  return prefersLight ? "light" : "dark";
+};
+
+/**
+ * Applies a theme and accent to the page
+ * The colours themselves are CSS variables in index.css, selected by the
+ * data-theme and data-accent attributes on <html>
+ *
+ * @param theme - The theme to apply
+ * @param accent - The accent colour to apply
+ */
+export const applyTheme = (theme: Theme, accent: AccentColor) => {
+  const root = document.documentElement;
+  root.dataset.theme = theme;
+  root.dataset.accent = accent;
+
+  // Match the browser UI (address bar, installed app title bar) to the page
+  const pageBackground = getComputedStyle(root)
+    .getPropertyValue("--color-page-bg")
+    .trim();
+  if (pageBackground) {
+    document
+      .querySelector('meta[name="theme-color"]')
+      ?.setAttribute("content", `rgb(${pageBackground})`);
+  }
+};
+
+/**
+ * Reads the theme settings, falling back to the defaults for missing or
+ * unknown values
+ */
+export const loadThemeSettings = (): ThemeSettings => {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(THEME_STORAGE_KEY) ?? "{}"
+    );
+    const { preference, accent } = (stored ?? {}) as Partial<ThemeSettings>;
+    return {
+      preference: THEME_OPTIONS.some(({ value }) => value === preference)
+        ? preference!
+        : DEFAULT_THEME_SETTINGS.preference,
+      accent: ACCENT_OPTIONS.some(({ value }) => value === accent)
+        ? accent!
+        : DEFAULT_THEME_SETTINGS.accent,
+    };
+  } catch {
+    return { ...DEFAULT_THEME_SETTINGS };
+  }
+};
+
+/**
+ * Remembers the theme settings
+ *
+ * @param settings - The settings to store
+ */
+export const storeThemeSettings = (settings: ThemeSettings) => {
+  try {
+    localStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Failed to store theme setting:", err);
+  }
+};
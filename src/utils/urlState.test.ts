@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { PasswordOptions, Preset } from "../types";
+import { canGeneratePassword, DEFAULT_PASSWORD_OPTIONS } from "./passwordUtils";
+import { BUILT_IN_PRESETS } from "./presetUtils";
+import { mergeUrlState, parseUrlState, serializeUrlState } from "./urlState";
+
+/**
+ * A saved preset with limits that a link may remove
+ */
+const LIMITED_PRESET: Preset = {
+  id: "limited",
+  name: "Limited",
+  options: {
+    ...DEFAULT_PASSWORD_OPTIONS,
+    symbols: true,
+    policy: {
+      ...DEFAULT_PASSWORD_OPTIONS.policy,
+      classRules: {
+        ...DEFAULT_PASSWORD_OPTIONS.policy.classRules,
+        symbols: { min: 0, max: 2 },
+      },
+      maxRunLength: 2,
+    },
+  },
+};
+
+const PRESETS = [...BUILT_IN_PRESETS, LIMITED_PRESET];
+
+/**
+ * Parses a query string against the test presets and the default options
+ */
+const parse = (search: string, hash = "") =>
+  parseUrlState(search, hash, PRESETS, DEFAULT_PASSWORD_OPTIONS);
+
+/**
+ * Serializes options and reads them back, as opening a shared link does
+ */
+const roundTrip = (options: PasswordOptions, preset: Preset | null) =>
+  parse(serializeUrlState(options, preset));
+
+describe("parseUrlState", () => {
+  it("returns null without configuration parameters", () => {
+    expect(parse("")).toBeNull();
+    expect(parse("?utm_source=newsletter&fbclid=abc")).toBeNull();
+  });
+
+  it("reads options next to unrelated parameters", () => {
+    expect(parse("?utm_source=newsletter&len=24")?.options.length).toBe(24);
+  });
+
+  it("selects a preset and applies overrides, hash taking precedence", () => {
+    const state = parse("?preset=aws&len=20", "#len=40");
+
+    expect(state?.presetId).toBe("aws");
+    expect(state?.options.length).toBe(40);
+    expect(state?.options.symbols).toBe(true);
+  });
+
+  it("clamps numbers and ignores malformed values", () => {
+    const state = parse("?len=9999&mode=hex&sym=maybe&cap=shout&run=abc");
+
+    expect(state?.options).toEqual({ ...DEFAULT_PASSWORD_OPTIONS, length: 256 });
+  });
+
+  it.each(["toString", "constructor", "__proto__", "hasOwnProperty"])(
+    "ignores the prototype name %s as a value or parameter",
+    (name) => {
+      const state = parse(`?first=${name}&last=${name}&${name}=1`);
+
+      expect(state?.options).toEqual(DEFAULT_PASSWORD_OPTIONS);
+      expect(() => canGeneratePassword(state!.options)).not.toThrow();
+    }
+  );
+
+  it.each(["24abc", "2.5", "", "0x20", "1e2"])("ignores the non-integer length %j", (len) => {
+    expect(parse(`?len=${len}&sym=1`)?.options.length).toBe(DEFAULT_PASSWORD_OPTIONS.length);
+    expect(parse(`?run=${len}&sym=1`)?.options.policy.maxRunLength).toBeNull();
+  });
+
+  it("reads per-class counts, run length and position rules", () => {
+    const { policy } = parse("?min=numbers:2,bogus:1&max=symbols:3&run=2&first=letter")!
+      .options;
+
+    expect(policy.classRules.numbers.min).toBe(2);
+    expect(policy.classRules.symbols.max).toBe(3);
+    expect(policy.maxRunLength).toBe(2);
+    expect(policy.firstChar).toBe("letter");
+  });
+
+  it("removes a preset's limits with none", () => {
+    const { policy } = parse("?preset=limited&max=symbols:none&run=none")!.options;
+
+    expect(policy.classRules.symbols.max).toBeNull();
+    expect(policy.maxRunLength).toBeNull();
+  });
+});
+
+describe("serializeUrlState", () => {
+  it("is empty for the default configuration", () => {
+    expect(serializeUrlState(DEFAULT_PASSWORD_OPTIONS, null)).toBe("");
+  });
+
+  it("only writes options that differ from the preset", () => {
+    const [aws] = BUILT_IN_PRESETS;
+
+    expect(serializeUrlState({ ...aws.options, length: 24 }, aws)).toBe(
+      "?preset=aws&len=24"
+    );
+  });
+
+  it("round-trips a removed limit", () => {
+    const options: PasswordOptions = {
+      ...LIMITED_PRESET.options,
+      policy: {
+        ...LIMITED_PRESET.options.policy,
+        classRules: {
+          ...LIMITED_PRESET.options.policy.classRules,
+          symbols: { min: 0, max: null },
+        },
+        maxRunLength: null,
+      },
+    };
+
+    expect(serializeUrlState(options, LIMITED_PRESET)).toBe(
+      "?preset=limited&max=symbols%3Anone&run=none"
+    );
+    expect(roundTrip(options, LIMITED_PRESET)?.options).toEqual(options);
+  });
+});
+
+describe("mergeUrlState", () => {
+  const options: PasswordOptions = { ...DEFAULT_PASSWORD_OPTIONS, length: 24 };
+
+  it("keeps unrelated parameters and the hash", () => {
+    expect(mergeUrlState("?utm_source=mail&len=12&ref=x", "#faq", options, null)).toBe(
+      "?utm_source=mail&ref=x&len=24#faq"
+    );
+  });
+
+  it("drops configuration that is no longer set", () => {
+    expect(
+      mergeUrlState("?sym=1&utm_source=mail", "", DEFAULT_PASSWORD_OPTIONS, null)
+    ).toBe("?utm_source=mail");
+    expect(mergeUrlState("?len=24", "", DEFAULT_PASSWORD_OPTIONS, null)).toBe("");
+  });
+
+  it("removes configuration from the hash so it can't override the query", () => {
+    expect(mergeUrlState("", "#len=40", options, null)).toBe("?len=24");
+    expect(mergeUrlState("", "#len=40&tab=2", options, null)).toBe("?len=24#tab=2");
+  });
+});
@@ -0,0 +1,398 @@
+import {
+  CharacterClass,
+  ClassCountRule,
+  GenerationMode,
+  PassphraseCapitalization,
+  PasswordOptions,
+  PositionRule,
+  Preset,
+} from "../types";
+import {
+  DEFAULT_PASSWORD_OPTIONS,
+  MAX_PASSPHRASE_WORDS,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSPHRASE_WORDS,
+  MIN_PASSWORD_LENGTH,
+} from "./passwordUtils";
+import { POSITION_RULE_LABELS } from "./passwordPolicy";
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH } from "./pinUtils";
+
+/**
+ * Query parameter names for each option
+ * Short names keep shared links readable, e.g. "?len=24&sym=1&preset=aws"
+ *
+ * The generated password is never written to the URL.
+ */
+const BOOLEAN_PARAMS = {
+  upper: "uppercase",
+  lower: "lowercase",
+  num: "numbers",
+  sym: "symbols",
+  wnum: "includeNumber",
+  wsym: "includeSymbol",
+  amb: "avoidAmbiguous",
+  breach: "rejectBreached",
+} as const;
+
+const STRING_PARAMS = {
+  symset: "symbolChars",
+  extra: "extraChars",
+  excl: "excludeChars",
+} as const;
+
+/**
+ * Longest accepted values for free-text parameters
+ */
+const MAX_SEPARATOR_LENGTH = 5;
+const MAX_CHARS_PARAM_LENGTH = 256;
+
+const GENERATION_MODES: GenerationMode[] = [
+  "password",
+  "passphrase",
+  "pronounceable",
+  "pin",
+];
+
+const CAPITALIZATIONS: PassphraseCapitalization[] = [
+  "lowercase",
+  "uppercase",
+  "capitalize",
+  "random",
+];
+
+const CHARACTER_CLASSES: CharacterClass[] = [
+  "uppercase",
+  "lowercase",
+  "numbers",
+  "symbols",
+  "extra",
+];
+
+const POSITION_RULES = Object.keys(POSITION_RULE_LABELS) as PositionRule[];
+
+/**
+ * Every parameter parseUrlState reads and replaceUrlState rewrites; any other
+ * parameter (e.g. "utm_source") is ignored, left in place and doesn't make the
+ * URL count as configuration
+ */
+const CONFIG_PARAMS = [
+  "preset",
+  "mode",
+  "len",
+  "words",
+  "pin",
+  "sep",
+  "cap",
+  "min",
+  "max",
+  "run",
+  "first",
+  "last",
+  ...Object.keys(BOOLEAN_PARAMS),
+  ...Object.keys(STRING_PARAMS),
+];
+
+/**
+ * Value meaning "no limit" for the max counts and run length
+ */
+const NO_LIMIT = "none";
+
+/**
+ * Checks that a parameter name is one of the object's own keys, so names like
+ * "toString" don't match inherited properties
+ */
+const isParamOf = <T extends object>(
+  params: T,
+  key: string
+): key is Extract<keyof T, string> => Object.prototype.hasOwnProperty.call(params, key);
+
+/**
+ * Parses a boolean parameter ("1"/"0" or "true"/"false")
+ *
+ * @returns The boolean, or null if the value is malformed
+ */
+const parseBoolean = (value: string): boolean | null => {
+  if (value === "1" || value === "true") return true;
+  if (value === "0" || value === "false") return false;
+  return null;
+};
+
+/**
+ * Parses an integer parameter and clamps it into a range
+ * The whole value must be an integer, so "24abc" and "2.5" are malformed
+ *
+ * @returns The clamped integer, or null if the value isn't an integer
+ */
+const parseClamped = (value: string, min: number, max: number): number | null => {
+  if (!/^-?\d+$/.test(value)) return null;
+  return Math.max(min, Math.min(max, Number(value)));
+};
+
+/**
+ * Parses a limit parameter that may be NO_LIMIT
+ *
+ * @returns The clamped integer, null for NO_LIMIT, or undefined if malformed
+ */
+const parseLimit = (value: string, min: number, max: number): number | null | undefined => {
+  if (value === NO_LIMIT) return null;
+  return parseClamped(value, min, max) ?? undefined;
+};
+
+/**
+ * Parses per-class counts, e.g. "numbers:2,symbols:none"
+ * Unknown classes and malformed counts are skipped
+ *
+ * @param value - The parameter value
+ * @param allowNoLimit - Whether NO_LIMIT is accepted (max counts only)
+ * @returns Map of class to count (null for no limit)
+ */
+const parseClassCounts = (
+  value: string,
+  allowNoLimit: boolean
+): Partial<Record<CharacterClass, number | null>> => {
+  const counts: Partial<Record<CharacterClass, number | null>> = {};
+  value.split(",").forEach((pair) => {
+    const [key, count = ""] = pair.split(":");
+    const parsed = allowNoLimit
+      ? parseLimit(count, 0, MAX_PASSWORD_LENGTH)
+      : parseClamped(count, 0, MAX_PASSWORD_LENGTH) ?? undefined;
+    if (CHARACTER_CLASSES.includes(key as CharacterClass) && parsed !== undefined) {
+      counts[key as CharacterClass] = parsed;
+    }
+  });
+  return counts;
+};
+
+/**
+ * Serializes per-class counts that differ from the base rules
+ * A removed max is written as NO_LIMIT so it overrides the preset's limit
+ *
+ * @returns e.g. "numbers:2,symbols:none", or "" when nothing differs
+ */
+const serializeClassCounts = (
+  rules: Record<CharacterClass, ClassCountRule>,
+  baseRules: Record<CharacterClass, ClassCountRule>,
+  field: keyof ClassCountRule
+): string => {
+  return CHARACTER_CLASSES.filter(
+    (key) => rules[key][field] !== baseRules[key][field]
+  )
+    .map((key) => `${key}:${rules[key][field] ?? NO_LIMIT}`)
+    .join(",");
+};
+
+/**
+ * Collects configuration parameters from the query string and hash
+ * Hash parameters (e.g. "#len=24") take precedence over the query string
+ *
+ * @param search - location.search
+ * @param hash - location.hash
+ */
+const getUrlParams = (search: string, hash: string): URLSearchParams => {
+  const params = new URLSearchParams(search);
+  new URLSearchParams(hash.replace(/^#\??/, "")).forEach((value, key) => {
+    params.set(key, value);
+  });
+  return params;
+};
+
+/**
+ * Reads generator configuration from a URL
+ *
+ * A "preset" parameter selects the starting options; every other parameter
+ * overrides a single option. Malformed values are ignored and numbers are
+ * clamped to the same bounds as the sliders. Parameters that aren't options
+ * (e.g. tracking parameters) are ignored.
+ *
+ * @param search - location.search
+ * @param hash - location.hash
+ * @param presets - Presets that "preset" may refer to
+ * @param fallback - Options used when the URL doesn't select a preset
+ * @returns The selected preset id (if valid) and the resulting options,
+ *   or null if the URL has no configuration parameters
+ */
+export const parseUrlState = (
+  search: string,
+  hash: string,
+  presets: Preset[],
+  fallback: PasswordOptions
+): { presetId: string | null; options: PasswordOptions } | null => {
+  const params = getUrlParams(search, hash);
+  if (![...params.keys()].some((key) => CONFIG_PARAMS.includes(key))) return null;
+
+  const preset = presets.find(({ id }) => id === params.get("preset"));
+  const options: PasswordOptions = { ...(preset?.options ?? fallback) };
+  const policy = { ...options.policy, classRules: { ...options.policy.classRules } };
+
+  params.forEach((value, key) => {
+    switch (key) {
+      case "mode":
+        if (GENERATION_MODES.includes(value as GenerationMode)) {
+          options.mode = value as GenerationMode;
+        }
+        break;
+      case "len":
+        options.length =
+          parseClamped(value, MIN_PASSWORD_LENGTH, MAX_PASSWORD_LENGTH) ??
+          options.length;
+        break;
+      case "words":
+        options.wordCount =
+          parseClamped(value, MIN_PASSPHRASE_WORDS, MAX_PASSPHRASE_WORDS) ??
+          options.wordCount;
+        break;
+      case "pin":
+        options.pinLength =
+          parseClamped(value, MIN_PIN_LENGTH, MAX_PIN_LENGTH) ?? options.pinLength;
+        break;
+      case "sep":
+        if (value.length <= MAX_SEPARATOR_LENGTH) options.separator = value;
+        break;
+      case "cap":
+        if (CAPITALIZATIONS.includes(value as PassphraseCapitalization)) {
+          options.capitalization = value as PassphraseCapitalization;
+        }
+        break;
+      case "min":
+      case "max":
+        Object.entries(parseClassCounts(value, key === "max")).forEach(([characterClass, count]) => {
+          const rule = policy.classRules[characterClass as CharacterClass];
+          policy.classRules[characterClass as CharacterClass] = { ...rule, [key]: count };
+        });
+        break;
+      case "run": {
+        const limit = parseLimit(value, 1, MAX_PASSWORD_LENGTH);
+        if (limit !== undefined) policy.maxRunLength = limit;
+        break;
+      }
+      case "first":
+      case "last":
+        if (POSITION_RULES.includes(value as PositionRule)) {
+          policy[key === "first" ? "firstChar" : "lastChar"] = value as PositionRule;
+        }
+        break;
+      default:
+        if (isParamOf(BOOLEAN_PARAMS, key)) {
+          const parsed = parseBoolean(value);
+          if (parsed !== null) options[BOOLEAN_PARAMS[key]] = parsed;
+        } else if (isParamOf(STRING_PARAMS, key) && value.length <= MAX_CHARS_PARAM_LENGTH) {
+          options[STRING_PARAMS[key]] = value;
+        }
+    }
+  });
+
+  return { presetId: preset?.id ?? null, options: { ...options, policy } };
+};
+
+/**
+ * Builds the query string for the current configuration
+ * Only options that differ from the preset (or the defaults) are included
+ *
+ * @param options - Current options
+ * @param preset - The selected preset, if any
+ * @returns e.g. "?preset=aws&len=24", or "" for the default configuration
+ */
+export const serializeUrlState = (
+  options: PasswordOptions,
+  preset: Preset | null
+): string => {
+  const base = preset?.options ?? DEFAULT_PASSWORD_OPTIONS;
+  const params = new URLSearchParams();
+
+  if (preset) params.set("preset", preset.id);
+  if (options.mode !== base.mode) params.set("mode", options.mode);
+  if (options.length !== base.length) params.set("len", String(options.length));
+  if (options.wordCount !== base.wordCount) params.set("words", String(options.wordCount));
+  if (options.separator !== base.separator) params.set("sep", options.separator);
+  if (options.pinLength !== base.pinLength) params.set("pin", String(options.pinLength));
+  if (options.capitalization !== base.capitalization) {
+    params.set("cap", options.capitalization);
+  }
+
+  Object.entries(BOOLEAN_PARAMS).forEach(([param, key]) => {
+    if (options[key] !== base[key]) params.set(param, options[key] ? "1" : "0");
+  });
+  Object.entries(STRING_PARAMS).forEach(([param, key]) => {
+    if (options[key] !== base[key]) params.set(param, options[key]);
+  });
+
+  const { policy } = options;
+  const minCounts = serializeClassCounts(policy.classRules, base.policy.classRules, "min");
+  const maxCounts = serializeClassCounts(policy.classRules, base.policy.classRules, "max");
+  if (minCounts) params.set("min", minCounts);
+  if (maxCounts) params.set("max", maxCounts);
+  if (policy.maxRunLength !== base.policy.maxRunLength) {
+    params.set("run", String(policy.maxRunLength ?? NO_LIMIT));
+  }
+  if (policy.firstChar !== base.policy.firstChar) params.set("first", policy.firstChar);
+  if (policy.lastChar !== base.policy.lastChar) params.set("last", policy.lastChar);
+
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+/**
+ * Removes every configuration parameter, keeping the rest in order
+ */
+const withoutConfigParams = (params: URLSearchParams): URLSearchParams => {
+  const rest = new URLSearchParams();
+  params.forEach((value, key) => {
+    if (!CONFIG_PARAMS.includes(key)) rest.append(key, value);
+  });
+  return rest;
+};
+
+/**
+ * Builds the query string and hash for the configuration, keeping the parts
+ * of the current URL this module doesn't own
+ *
+ * Unrelated query parameters (e.g. "utm_source") stay where they are and the
+ * configuration is written after them. The hash is kept unless it holds
+ * configuration parameters, which are dropped from it so they can't override
+ * the query string when the link is opened.
+ *
+ * @param search - location.search
+ * @param hash - location.hash
+ * @param options - Current options
+ * @param preset - The selected preset, if any
+ * @returns e.g. "?utm_source=mail&len=24#top"
+ */
+export const mergeUrlState = (
+  search: string,
+  hash: string,
+  options: PasswordOptions,
+  preset: Preset | null
+): string => {
+  const params = withoutConfigParams(new URLSearchParams(search));
+  new URLSearchParams(serializeUrlState(options, preset)).forEach((value, key) => {
+    params.append(key, value);
+  });
+  const query = params.toString();
+
+  const hashParams = new URLSearchParams(hash.replace(/^#\??/, ""));
+  let keptHash = hash;
+  if ([...hashParams.keys()].some((key) => CONFIG_PARAMS.includes(key))) {
+    const rest = withoutConfigParams(hashParams).toString();
+    keptHash = rest ? `#${rest}` : "";
+  }
+
+  return `${query ? `?${query}` : ""}${keptHash}`;
+};
+
+/**
+ * Replaces the current URL with one describing the configuration
+ * Uses replaceState so option changes don't flood the browser history.
+ * The pathname is kept as-is, so this works under Vite's base path.
+ *
+ * @param options - Current options
+ * @param preset - The selected preset, if any
+ */
+export const replaceUrlState = (
+  options: PasswordOptions,
+  preset: Preset | null
+) => {
+  const { pathname, search, hash } = window.location;
+  const url = mergeUrlState(search, hash, options, preset);
+  if (url === `${search}${hash}`) return;
+  window.history.replaceState(window.history.state, "", `${pathname}${url}`);
+};
@@ -0,0 +1,50 @@
+import effLargeWordlist from "../data/eff_large_wordlist.txt?raw";
+import commonPasswords from "../data/common_passwords.txt?raw";
+import englishWords from "../data/english_words.txt?raw";
+
+/**
+ * EFF large wordlist for passphrase generation
+ *
+ * Bundled with the app so passphrases can be generated fully offline.
+ * Each line of the source file has the form "<dice rolls>\t<word>";
+ * only the words are kept. The list contains 6^5 = 7776 unique words,
+ * giving log2(7776) ≈ 12.9 bits of entropy per word.
+ *
+ * Source: https://www.eff.org/dice (CC BY 3.0)
+ */
+export const EFF_LARGE_WORDLIST: readonly string[] = effLargeWordlist
+  .trim()
+  .split("\n")
+  .map((line) => line.split("\t")[1].trim());
+
+/**
+ * Parses a newline-separated list, keeping its order (most common first)
+ *
+ * @param text - Raw file contents
+ */
+const parseRankedList = (text: string): readonly string[] =>
+  text
+    .trim()
+    .split("\n")
+    .map((line) => line.trim());
+
+/**
+ * The 10,000 most common passwords, most common first
+ *
+ * Bundled so password analysis works fully offline; a password's position in
+ * the list approximates how early an attacker would guess it.
+ *
+ * Source: zxcvbn frequency lists (MIT), derived from leaked password dumps
+ */
+export const COMMON_PASSWORDS: readonly string[] =
+  parseRankedList(commonPasswords);
+
+/**
+ * 16,000 frequent English words of 3+ letters, most frequent first
+ * Used to detect dictionary words (including l33t-substituted ones).
+ * Words already in COMMON_PASSWORDS are left out.
+ *
+ * Source: zxcvbn frequency lists (MIT), interleaving English Wikipedia
+ * and US TV and film subtitles by rank
+ */
+export const ENGLISH_WORDS: readonly string[] = parseRankedList(englishWords);
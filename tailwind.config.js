@@ -3,24 +3,28 @@ export default {
   content: ["./index.html", "./src/**/*.{js,ts,jsx,tsx}"],
   theme: {
     extend: {
+      // Every colour reads a theme token from index.css, so the dark,
+      // light and high-contrast themes and the user's accent apply everywhere
       colors: {
         // Page background
-        "page-bg": "#18171F",
-        // Decorative elements
-        "decorative-blue": "#84A9FF",
+        "page-bg": "rgb(var(--color-page-bg) / <alpha-value>)",
         // App card background
-        "app-bg": "#24232C",
+        "app-bg": "rgb(var(--color-app-bg) / <alpha-value>)",
+        // Inset backgrounds (inputs, strength panel)
+        "dark-bg": "rgb(var(--color-dark-bg) / <alpha-value>)",
         // Text colors
-        "text-light": "#E6E5EA",
-        "text-muted": "#817D92",
-        // Accent green (used for active states, buttons, etc.)
-        "accent-green": "#A4FFAF",
-        // Strength indicator colors
-        "strength-yellow": "#F8CD65",
-        // Darker backgrounds
-        "dark-bg": "#18171F",
-        // Button text color
-        "button-text": "#24232C",
+        "text-light": "rgb(var(--color-text-light) / <alpha-value>)",
+        "text-muted": "rgb(var(--color-text-muted) / <alpha-value>)",
+        // User's accent (active states, buttons, etc.)
+        accent: "rgb(var(--color-accent) / <alpha-value>)",
+        // Text on accent-coloured buttons
+        "button-text": "rgb(var(--color-button-text) / <alpha-value>)",
+        // Status colors (strength levels, errors, confirmations)
+        warning: "rgb(var(--color-warning) / <alpha-value>)",
+        danger: "rgb(var(--color-danger) / <alpha-value>)",
+        success: "rgb(var(--color-success) / <alpha-value>)",
+        // Secondary highlight (digits in the password)
+        highlight: "rgb(var(--color-highlight) / <alpha-value>)",
       },
       fontFamily: {
         mono: [
@@ -0,0 +1,25 @@
+import { defineConfig } from "vite";
+
+// Command-line build of the generator for Node (see src/cli).
+// Node built-ins stay external; everything else, including the wordlists, is bundled.
+// https://vitejs.dev/guide/ssr.html#ssr-specific-plugin-logic
+export default defineConfig({
+  // The PWA icons and manifest in public/ belong to the app only
+  publicDir: false,
+  build: {
+    outDir: "dist-cli",
+    emptyOutDir: true,
+    minify: false,
+    target: "node20",
+    ssr: "src/cli/index.ts",
+    rollupOptions: {
+      output: {
+        entryFileNames: "pwgen-app.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+});
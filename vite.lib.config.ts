@@ -0,0 +1,22 @@
+import { defineConfig } from "vite";
+
+// Library build of the generator (no React), separate from the app build.
+// Output goes to dist-lib/ so it never clobbers the app's dist/.
+// https://vitejs.dev/guide/build.html#library-mode
+export default defineConfig({
+  // The PWA icons and manifest in public/ belong to the app only
+  publicDir: false,
+  build: {
+    outDir: "dist-lib",
+    emptyOutDir: true,
+    sourcemap: true,
+    minify: false,
+    target: "es2020",
+    lib: {
+      entry: "src/lib/index.ts",
+      formats: ["es", "cjs"],
+      fileName: (format) =>
+        format === "es" ? "password-generator.js" : "password-generator.cjs",
+    },
+  },
+});
@@ -0,0 +1,84 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Plugin, ResolvedConfig, transformWithEsbuild } from "vite";
+
+// Builds the offline service worker (src/sw/serviceWorker.ts) into the app's
+// output after everything else is written. It precaches every output file,
+// public/ included, under a cache named after a hash of their contents, so
+// any changed asset - including wordlists added as separate files - ships as
+// a new cache version and triggers the app's update prompt.
+
+/**
+ * Service worker source and the file it's written to (next to index.html)
+ */
+const SERVICE_WORKER_SOURCE = "src/sw/serviceWorker.ts";
+const SERVICE_WORKER_FILE = "sw.js";
+
+/**
+ * Output files that are never fetched by the app
+ */
+const EXCLUDED_FILES = [/\.map$/, /^\.vite\//];
+
+/**
+ * Lists every file under a directory, as sorted "/"-separated relative paths
+ *
+ * @param dir - The directory to list
+ */
+const listFiles = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) =>
+      path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join("/")
+    )
+    .sort();
+};
+
+/**
+ * Vite plugin that writes the precaching service worker for production builds
+ */
+export const pwa = (): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: "password-generator:pwa",
+    apply: "build",
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+    },
+    async closeBundle(error?: Error) {
+      if (error) return;
+
+      const outDir = path.resolve(config.root, config.build.outDir);
+      const files = (await listFiles(outDir)).filter(
+        (file) =>
+          file !== SERVICE_WORKER_FILE &&
+          !EXCLUDED_FILES.some((pattern) => pattern.test(file))
+      );
+
+      // The version changes whenever any file's name or content does
+      const hash = createHash("sha256");
+      for (const file of files) {
+        hash.update(file).update("\0").update(await readFile(path.join(outDir, file)));
+      }
+      const version = hash.digest("hex").slice(0, 16);
+
+      const sourcePath = path.resolve(config.root, SERVICE_WORKER_SOURCE);
+      const { code } = await transformWithEsbuild(
+        await readFile(sourcePath, "utf8"),
+        sourcePath,
+        { loader: "ts", format: "iife", target: "es2020", minify: config.build.minify !== false }
+      );
+      await writeFile(
+        path.join(outDir, SERVICE_WORKER_FILE),
+        `const __PRECACHE_URLS__=${JSON.stringify(files)};` +
+          `const __CACHE_VERSION__=${JSON.stringify(version)};\n${code}`
+      );
+
+      config.logger.info(
+        `Service worker precaches ${files.length} files (version ${version})`
+      );
+    },
+  };
+};
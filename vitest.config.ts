@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import react from "@vitejs/plugin-react";
+
+// Unit, property-based and component tests (see *.test.ts(x) next to the code).
+// Utilities run in Node; component tests opt into jsdom with a
+// `@vitest-environment jsdom` comment at the top of the file.
+// https://vitest.dev/config/
+export default defineConfig({
+  plugins: [react()],
+  test: {
+    include: ["src/**/*.test.{ts,tsx}"],
+    environment: "node",
+    setupFiles: ["src/test/setup.ts"],
+    restoreMocks: true,
+  },
+});